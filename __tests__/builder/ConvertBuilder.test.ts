@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { convert, outport } from '../../src/convenience/factory';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+describe('ConvertBuilder', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'convert');
+  const csvFile = path.join(testDir, 'products.csv');
+  const jsonFile = path.join(testDir, 'products.json');
+  const jsonlFile = path.join(testDir, 'products.jsonl');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(csvFile, 'SKU;Price;In Stock\nA-1;9.5;yes\nB-2;;no\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should convert a vendor CSV to JSON with mapping, coercion and transforms', async () => {
+    interface Product extends Record<string, unknown> {
+      sku: string;
+      price: string;
+      inStock: string;
+    }
+
+    const result = await convert<Product>(csvFile)
+      .withDelimiter(';')
+      .withColumnMapping({ sku: 'SKU', price: 'Price', inStock: 'In Stock' })
+      .coerce({ price: 'number' })
+      .transform((product, index) => ({
+        line: index + 1,
+        sku: product.sku.toLowerCase(),
+        price: product.price,
+        inStock: product.inStock === 'yes',
+      }))
+      .to(jsonFile)
+      .run();
+
+    expect(result).toEqual({ success: true, value: 2 });
+    expect(JSON.parse(fs.readFileSync(jsonFile, 'utf-8'))).toEqual([
+      { line: 1, sku: 'a-1', price: 9.5, inStock: true },
+      { line: 2, sku: 'b-2', price: null, inStock: false },
+    ]);
+  });
+
+  it('should round-trip csv to jsonl and back with a configured output builder', async () => {
+    const roundTripFile = path.join(testDir, 'round-trip.csv');
+    await convert(csvFile).withDelimiter(';').to(jsonlFile).run();
+
+    const result = await convert(jsonlFile)
+      .to(outport<Record<string, unknown>>().to(roundTripFile).withDelimiter(';'))
+      .run();
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(roundTripFile, 'utf-8')).toBe(fs.readFileSync(csvFile, 'utf-8'));
+  });
+
+  it('should return error naming the field and record that cannot be coerced', async () => {
+    let reported: Error | undefined;
+
+    const result = await convert(csvFile)
+      .withDelimiter(';')
+      .coerce({ 'In Stock': 'boolean' })
+      .to(
+        outport<Record<string, unknown>>()
+          .to(jsonFile)
+          .onError((error) => {
+            reported = error;
+            return false;
+          })
+      )
+      .run();
+
+    expect(result.success).toBe(false);
+    expect(reported?.message).toBe(
+      'Cannot coerce "yes" to boolean for field "In Stock" of record 1'
+    );
+  });
+
+  it('should throw error when the output or source format is missing', async () => {
+    await expect(convert(csvFile).run()).rejects.toThrow('Output must be specified using .to()');
+    await expect(convert(path.join(testDir, 'data.txt')).to(jsonFile).run()).rejects.toThrow(
+      'Could not determine reader type'
+    );
+  });
+});
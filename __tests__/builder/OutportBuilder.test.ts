@@ -3,6 +3,11 @@ import { OutportBuilder } from '../../src/builder/OutportBuilder';
 import { outport } from '../../src/convenience/factory';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import * as zlib from 'node:zlib';
+import { createHash } from 'node:crypto';
+import { readZipEntries } from '../writers/xlsx/readZipEntries';
+import { AbortedError, UnexpectedColumnsError } from '../../src/errors';
+import type { Checkpoint, ColumnSchema, ExportManifest, RejectedRecord } from '../../src/types';
 
 interface TestUser extends Record<string, unknown> {
   id: number;
@@ -14,6 +19,11 @@ describe('OutportBuilder', () => {
   const testDir = path.join(process.cwd(), '__tests__', 'temp', 'builder');
   const csvFile = path.join(testDir, 'users.csv');
   const jsonFile = path.join(testDir, 'users.json');
+  const jsonlFile = path.join(testDir, 'users.jsonl');
+  const csvGzipFile = path.join(testDir, 'users.csv.gz');
+  const jsonGzipFile = path.join(testDir, 'users.json.gz');
+  const jsonlBrotliFile = path.join(testDir, 'users.jsonl.br');
+  const xlsxFile = path.join(testDir, 'users.xlsx');
 
   beforeEach(() => {
     if (!fs.existsSync(testDir)) {
@@ -23,11 +33,13 @@ describe('OutportBuilder', () => {
 
   afterEach(() => {
     // Clean up test files
-    [csvFile, jsonFile].forEach((file) => {
-      if (fs.existsSync(file)) {
-        fs.unlinkSync(file);
+    [csvFile, jsonFile, jsonlFile, csvGzipFile, jsonGzipFile, jsonlBrotliFile, xlsxFile].forEach(
+      (file) => {
+        if (fs.existsSync(file)) {
+          fs.unlinkSync(file);
+        }
       }
-    });
+    );
   });
 
   describe('Basic Builder Creation', () => {
@@ -80,6 +92,20 @@ describe('OutportBuilder', () => {
       expect(data[0]?.name).toBe('Alice');
     });
 
+    it('should auto-detect JSON Lines type from .jsonl extension', async () => {
+      const users: TestUser[] = [
+        { id: 1, name: 'Alice', email: 'alice@example.com' },
+        { id: 2, name: 'Bob', email: 'bob@example.com' },
+      ];
+
+      const result = await outport<TestUser>().to(jsonlFile).write(users);
+
+      expect(result.success).toBe(true);
+      const lines = fs.readFileSync(jsonlFile, 'utf-8').trimEnd().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]!)).toEqual(users[1]);
+    });
+
     it('should allow explicit type with as()', async () => {
       const users: TestUser[] = [{ id: 1, name: 'Alice', email: 'alice@example.com' }];
 
@@ -156,6 +182,131 @@ describe('OutportBuilder', () => {
       expect(buffer[1]).toBe(0xbb);
       expect(buffer[2]).toBe(0xbf);
     });
+
+    it('should set the quote mode, escape character and line ending', async () => {
+      const users: TestUser[] = [{ id: 1, name: 'Alice "Al"', email: 'alice@example.com' }];
+
+      await outport<TestUser>()
+        .to(csvFile)
+        .withQuoteMode('nonNumeric')
+        .withEscape('\\')
+        .withLineEnding('\r\n')
+        .write(users);
+
+      const content = fs.readFileSync(csvFile, 'utf-8');
+      expect(content).toBe('"id","name","email"\r\n1,"Alice \\"Al\\"","alice@example.com"\r\n');
+    });
+  });
+
+  describe('XLSX Configuration', () => {
+    const readWorkbook = (): Map<string, string> => readZipEntries(fs.readFileSync(xlsxFile));
+
+    it('should auto-detect XLSX type from .xlsx extension', async () => {
+      const users: TestUser[] = [{ id: 1, name: 'Alice', email: 'alice@example.com' }];
+
+      const result = await outport<TestUser>().to(xlsxFile).write(users);
+
+      expect(result.success).toBe(true);
+      expect(readWorkbook().get('xl/worksheets/sheet1.xml')).toContain('<c r="A2"><v>1</v></c>');
+    });
+
+    it('should apply sheet name and column configuration', () => {
+      const users: TestUser[] = [{ id: 1, name: 'Alice', email: 'alice@example.com' }];
+
+      const result = outport<TestUser>()
+        .to(xlsxFile)
+        .withSheetName('People')
+        .withColumns(['name', 'id'])
+        .withColumnMapping({ name: 'Full Name' })
+        .writeSync(users);
+
+      expect(result.success).toBe(true);
+      const workbook = readWorkbook();
+      expect(workbook.get('xl/workbook.xml')).toContain('<sheet name="People"');
+      const sheet = workbook.get('xl/worksheets/sheet1.xml')!;
+      expect(sheet).toContain('Full Name');
+      expect(sheet).not.toContain('email');
+    });
+
+    it('should stream rows from an async generator into one workbook', async () => {
+      async function* generateUsers(): AsyncGenerator<TestUser> {
+        for (let i = 1; i <= 25; i++) {
+          await Promise.resolve();
+          yield { id: i, name: `User${i}`, email: `user${i}@example.com` };
+        }
+      }
+
+      const result = await outport<TestUser>()
+        .to(xlsxFile)
+        .withBatchSize(10)
+        .fromAsyncGenerator(generateUsers());
+
+      expect(result.success).toBe(true);
+      const sheet = readWorkbook().get('xl/worksheets/sheet1.xml')!;
+      expect(sheet.match(/<row /g)).toHaveLength(26);
+    });
+  });
+
+  describe('Multi-sheet Workbooks', () => {
+    interface TestOrder extends Record<string, unknown> {
+      orderId: string;
+      userId: number;
+      total: number;
+    }
+
+    const users: TestUser[] = [
+      { id: 1, name: 'Alice', email: 'alice@example.com' },
+      { id: 2, name: 'Bob', email: 'bob@example.com' },
+    ];
+    const orders: TestOrder[] = [{ orderId: 'A-1', userId: 1, total: 20 }];
+
+    it('should write datasets of different shapes into named sheets', async () => {
+      const result = await outport()
+        .to(xlsxFile)
+        .sheet<TestUser>('Users', users)
+        .sheet<TestOrder>('Orders', orders, { columnMapping: { orderId: 'Order' } })
+        .write();
+
+      expect(result).toEqual({ success: true, value: 3 });
+      const workbook = readZipEntries(fs.readFileSync(xlsxFile));
+      expect(workbook.get('xl/workbook.xml')).toContain('<sheet name="Orders"');
+      expect(workbook.get('xl/worksheets/sheet1.xml')).toContain('alice@example.com');
+      expect(workbook.get('xl/worksheets/sheet2.xml')).toContain('>Order<');
+    });
+
+    it('should carry over atomic writes and hooks from the builder', async () => {
+      let completed = 0;
+
+      const result = await outport()
+        .to(xlsxFile)
+        .atomic()
+        .onComplete((_result, totalRecords) => {
+          completed = totalRecords;
+        })
+        .sheet<TestUser>('Users', users)
+        .write();
+
+      expect(result.success).toBe(true);
+      expect(completed).toBe(2);
+      expect(fs.readdirSync(testDir).filter((name) => name.endsWith('.tmp'))).toHaveLength(0);
+    });
+
+    it('should write synchronously', () => {
+      const result = outport()
+        .to(xlsxFile)
+        .sheet<TestUser>('Users', users)
+        .sheet<TestOrder>('Orders', orders)
+        .writeSync();
+
+      expect(result.success).toBe(true);
+      expect(readZipEntries(fs.readFileSync(xlsxFile)).has('xl/worksheets/sheet2.xml')).toBe(true);
+    });
+
+    it('should throw error when the output is not .xlsx', async () => {
+      await expect(outport().to(csvFile).sheet<TestUser>('Users', users).write()).rejects.toThrow(
+        'Multi-sheet workbooks must be written to an .xlsx file'
+      );
+    });
   });
 
   describe('JSON Configuration', () => {
@@ -295,6 +446,56 @@ describe('OutportBuilder', () => {
       expect(completeCalled).toHaveBeenCalled();
     });
 
+    it('should let onError skip a failed batch and report it in the result', async () => {
+      async function* usersWithBadRecord(): AsyncGenerator<TestUser> {
+        await Promise.resolve();
+        yield { id: 1, name: 'Alice', email: 'alice@example.com' };
+        // A circular reference cannot be serialized to JSON, so this batch fails to format
+        const circular: Record<string, unknown> = {};
+        circular.self = circular;
+        yield { id: 2, name: 'Bob', email: circular as unknown as string };
+        yield { id: 3, name: 'Carol', email: 'carol@example.com' };
+      }
+      const errorCalled = vi.fn().mockReturnValue('continue');
+
+      const result = await outport<TestUser>()
+        .to(jsonlFile)
+        .withBatchSize(1)
+        .onError(errorCalled)
+        .fromAsyncGenerator(usersWithBadRecord());
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBe(2);
+        expect(result.failedBatches?.map(({ batchNumber }) => batchNumber)).toEqual([2]);
+      }
+      expect(errorCalled).toHaveBeenCalledTimes(1);
+      expect(errorCalled).toHaveBeenCalledWith(expect.any(Error), {
+        batchNumber: 2,
+        records: 1,
+        attempt: 1,
+      });
+      expect(fs.readFileSync(jsonlFile, 'utf-8').trim().split('\n')).toHaveLength(2);
+    });
+
+    it('should call onError once when it aborts a streamed export', async () => {
+      async function* usersWithBadRecord(): AsyncGenerator<TestUser> {
+        await Promise.resolve();
+        const circular: Record<string, unknown> = {};
+        circular.self = circular;
+        yield { id: 1, name: 'Bob', email: circular as unknown as string };
+      }
+      const errorCalled = vi.fn().mockReturnValue(false);
+
+      const result = await outport<TestUser>()
+        .to(jsonlFile)
+        .onError(errorCalled)
+        .fromAsyncGenerator(usersWithBadRecord());
+
+      expect(result.success).toBe(false);
+      expect(errorCalled).toHaveBeenCalledTimes(1);
+    });
+
     it('should call onError hook on failure', async () => {
       const errorCalled = vi.fn();
 
@@ -309,6 +510,1261 @@ describe('OutportBuilder', () => {
     });
   });
 
+  describe('Atomic Writes', () => {
+    const tempFiles = (): string[] =>
+      fs.readdirSync(testDir).filter((name) => name.startsWith('.users.csv.'));
+
+    it('should replace the target only when the export completes', async () => {
+      const users: TestUser[] = [{ id: 1, name: 'Alice', email: 'alice@example.com' }];
+
+      const result = await outport<TestUser>().to(csvFile).atomic().write(users);
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toContain('Alice');
+      expect(tempFiles()).toEqual([]);
+    });
+
+    it('should leave the previous file untouched when streaming fails', async () => {
+      fs.writeFileSync(csvFile, 'id,name,email\n0,Previous,previous@example.com\n');
+      async function* failingUsers(): AsyncGenerator<TestUser> {
+        yield { id: 1, name: 'Alice', email: 'alice@example.com' };
+        yield { id: 2, name: 'Bob', email: 'bob@example.com' };
+        await Promise.resolve();
+        throw new Error('Source failed');
+      }
+      const errorCalled = vi.fn();
+
+      const result = await outport<TestUser>()
+        .to(csvFile)
+        .atomic()
+        .withBatchSize(1)
+        .onError(errorCalled)
+        .fromAsyncGenerator(failingUsers());
+
+      expect(result.success).toBe(false);
+      expect(errorCalled).toHaveBeenCalled();
+      expect(fs.readFileSync(csvFile, 'utf-8')).toContain('Previous');
+      expect(fs.readFileSync(csvFile, 'utf-8')).not.toContain('Alice');
+      expect(tempFiles()).toEqual([]);
+    });
+
+    it('should write atomically in synchronous mode', () => {
+      const users: TestUser[] = [{ id: 1, name: 'Alice', email: 'alice@example.com' }];
+
+      const result = outport<TestUser>().to(csvFile).atomic().writeSync(users);
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toContain('Alice');
+      expect(tempFiles()).toEqual([]);
+    });
+  });
+
+  describe('Compression', () => {
+    const users: TestUser[] = [
+      { id: 1, name: 'Alice', email: 'alice@example.com' },
+      { id: 2, name: 'Bob', email: 'bob@example.com' },
+    ];
+
+    async function* generateUsers(count: number): AsyncGenerator<TestUser> {
+      for (let i = 1; i <= count; i++) {
+        await Promise.resolve();
+        yield { id: i, name: `User${i}`, email: `user${i}@example.com` };
+      }
+    }
+
+    it('should auto-detect gzip CSV from .csv.gz extension', async () => {
+      const result = await outport<TestUser>().to(csvGzipFile).write(users);
+
+      expect(result.success).toBe(true);
+      const content = zlib.gunzipSync(fs.readFileSync(csvGzipFile)).toString('utf-8');
+      expect(content).toBe('id,name,email\n1,Alice,alice@example.com\n2,Bob,bob@example.com\n');
+    });
+
+    it('should auto-detect gzip JSON from .json.gz extension', () => {
+      const result = outport<TestUser>().to(jsonGzipFile).writeSync(users);
+
+      expect(result.success).toBe(true);
+      const content = zlib.gunzipSync(fs.readFileSync(jsonGzipFile)).toString('utf-8');
+      expect(JSON.parse(content)).toEqual(users);
+    });
+
+    it('should stream a compressed export from an async generator', async () => {
+      const result = await outport<TestUser>()
+        .to(jsonGzipFile)
+        .withBatchSize(10)
+        .fromAsyncGenerator(generateUsers(55));
+
+      expect(result.success).toBe(true);
+      const content = zlib.gunzipSync(fs.readFileSync(jsonGzipFile)).toString('utf-8');
+      const parsed = JSON.parse(content) as TestUser[];
+      expect(parsed).toHaveLength(55);
+      expect(parsed[54]?.name).toBe('User55');
+    });
+
+    it('should compress with brotli when .br extension is used', async () => {
+      const result = await outport<TestUser>().to(jsonlBrotliFile).write(users);
+
+      expect(result.success).toBe(true);
+      const lines = zlib
+        .brotliDecompressSync(fs.readFileSync(jsonlBrotliFile))
+        .toString('utf-8')
+        .trim()
+        .split('\n');
+      expect(lines.map((line) => JSON.parse(line) as TestUser)).toEqual(users);
+    });
+
+    it('should compress when compress() is called explicitly', async () => {
+      const result = await outport<TestUser>().to(csvGzipFile).compress('gzip').write(users);
+
+      expect(result.success).toBe(true);
+      expect(zlib.gunzipSync(fs.readFileSync(csvGzipFile)).toString('utf-8')).toContain('Alice');
+    });
+
+    it('should write compressed output atomically', async () => {
+      const result = await outport<TestUser>().to(csvGzipFile).atomic().write(users);
+
+      expect(result.success).toBe(true);
+      expect(zlib.gunzipSync(fs.readFileSync(csvGzipFile)).toString('utf-8')).toContain('Bob');
+      expect(fs.readdirSync(testDir).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+    });
+  });
+
+  describe('Retries', () => {
+    const retryDir = path.join(testDir, 'retry');
+
+    beforeEach(() => {
+      fs.rmSync(retryDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(retryDir, { recursive: true, force: true });
+    });
+
+    it('should retry failed file operations listed in the policy and report each retry', async () => {
+      const retryFile = path.join(retryDir, 'users.csv');
+      const retries: Array<[string, number]> = [];
+
+      const result = await outport<TestUser>()
+        .to(retryFile)
+        .withRetry({ delayMs: 1, retryOn: ['ENOENT'] })
+        .onRetry((_error, { operation, attempt }) => {
+          retries.push([operation, attempt]);
+          // The directory appears before the next attempt, like a share coming back
+          fs.mkdirSync(retryDir, { recursive: true });
+        })
+        .fromAsyncGenerator(
+          (async function* () {
+            await Promise.resolve();
+            yield { id: 1, name: 'Alice', email: 'alice@example.com' };
+          })()
+        );
+
+      expect(result.success).toBe(true);
+      expect(retries).toEqual([['open', 1]]);
+      expect(fs.readFileSync(retryFile, 'utf-8')).toContain('Alice');
+    });
+
+    it('should fail once the attempts are used up', () => {
+      const onRetry = vi.fn();
+
+      const result = outport<TestUser>()
+        .to(path.join(retryDir, 'users.json'))
+        .withRetry({ attempts: 2, delayMs: 1, retryOn: ['ENOENT'] })
+        .onRetry(onRetry)
+        .writeSync([{ id: 1, name: 'Alice', email: 'alice@example.com' }]);
+
+      expect(result.success).toBe(false);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Cancellation', () => {
+    const cancelDir = path.join(testDir, 'cancel');
+    const cancelFile = path.join(cancelDir, 'users.json');
+
+    function cancellableUsers(
+      controller: AbortController,
+      abortAfter: number
+    ): { source: AsyncGenerator<TestUser>; closed: () => boolean } {
+      let closed = false;
+      async function* source(): AsyncGenerator<TestUser> {
+        try {
+          for (let i = 1; i <= 10; i++) {
+            await Promise.resolve();
+            if (i > abortAfter) {
+              controller.abort();
+            }
+            yield { id: i, name: `User${i}`, email: `user${i}@example.com` };
+          }
+        } finally {
+          closed = true;
+        }
+      }
+      return { source: source(), closed: () => closed };
+    }
+
+    beforeEach(() => {
+      fs.rmSync(cancelDir, { recursive: true, force: true });
+      fs.mkdirSync(cancelDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(cancelDir, { recursive: true, force: true });
+    });
+
+    it('should stop the stream and keep a valid partial file by default', async () => {
+      const controller = new AbortController();
+      const { source, closed } = cancellableUsers(controller, 4);
+      const onError = vi.fn();
+
+      const result = await outport<TestUser>()
+        .to(cancelFile)
+        .withBatchSize(2)
+        .withSignal(controller.signal)
+        .onError(onError)
+        .fromAsyncGenerator(source);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(AbortedError);
+        expect(onError).toHaveBeenCalledWith(result.error);
+      }
+      expect(closed()).toBe(true);
+      const users = JSON.parse(fs.readFileSync(cancelFile, 'utf-8')) as TestUser[];
+      expect(users.map((user) => user.id)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should discard the partial output and leave the target untouched', async () => {
+      const controller = new AbortController();
+      const { source } = cancellableUsers(controller, 4);
+      fs.writeFileSync(cancelFile, '[]');
+
+      const result = await outport<TestUser>()
+        .to(cancelFile)
+        .withBatchSize(2)
+        .withSignal(controller.signal, { onAbort: 'discard' })
+        .fromAsyncGenerator(source);
+
+      expect(result.success).toBe(false);
+      expect(fs.readFileSync(cancelFile, 'utf-8')).toBe('[]');
+      expect(fs.readdirSync(cancelDir)).toEqual(['users.json']);
+    });
+
+    it('should not write when the signal is already aborted', async () => {
+      const result = await outport<TestUser>()
+        .to(cancelFile)
+        .withSignal(AbortSignal.abort())
+        .write([{ id: 1, name: 'Alice', email: 'alice@example.com' }]);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(AbortedError);
+      }
+      expect(fs.existsSync(cancelFile)).toBe(false);
+    });
+
+    it('should cancel partitioned exports', async () => {
+      const controller = new AbortController();
+      const { source } = cancellableUsers(controller, 2);
+
+      const result = await outport<TestUser>()
+        .to(path.join(cancelDir, '{partition}.csv'))
+        .withBatchSize(2)
+        .withSignal(controller.signal)
+        .partitionBy((user) => (user.id % 2 === 0 ? 'even' : 'odd'))
+        .fromAsyncGenerator(source);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(AbortedError);
+      }
+      expect(fs.readFileSync(path.join(cancelDir, 'odd.csv'), 'utf-8')).toContain('User1');
+    });
+  });
+
+  describe('Checkpoints', () => {
+    const checkpointDir = path.join(testDir, 'checkpoint');
+    const checkpointCsv = path.join(checkpointDir, 'users.csv');
+    const checkpointFile = `${checkpointCsv}.checkpoint.json`;
+
+    async function* fetchUsers(after: number, crashAt?: number): AsyncGenerator<TestUser> {
+      for (let i = after + 1; i <= 10; i++) {
+        await Promise.resolve();
+        if (i === crashAt) {
+          throw new Error('Connection reset');
+        }
+        yield { id: i, name: `User${i}`, email: `user${i}@example.com` };
+      }
+    }
+
+    beforeEach(() => {
+      fs.rmSync(checkpointDir, { recursive: true, force: true });
+      fs.mkdirSync(checkpointDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(checkpointDir, { recursive: true, force: true });
+    });
+
+    it('should keep the checkpoint of a failed export and resume from its cursor', async () => {
+      const export1 = await outport<TestUser>()
+        .to(checkpointCsv)
+        .withBatchSize(3)
+        .withCheckpoint({ cursor: (user) => user.id })
+        .fromAsyncGenerator(fetchUsers(0, 8));
+
+      expect(export1.success).toBe(false);
+      const saved = JSON.parse(fs.readFileSync(checkpointFile, 'utf-8')) as Checkpoint<number>;
+      expect(saved).toMatchObject({ batchNumber: 2, records: 6, cursor: 6 });
+
+      // A batch that was only partly written before the crash
+      fs.appendFileSync(checkpointCsv, '7,Us');
+      const cursors: Array<number | undefined> = [];
+      const export2 = await outport<TestUser>()
+        .to(checkpointCsv)
+        .withBatchSize(3)
+        .withCheckpoint({ cursor: (user) => user.id })
+        .resume<number>((checkpoint) => {
+          cursors.push(checkpoint?.cursor);
+          return fetchUsers(checkpoint?.cursor ?? 0);
+        });
+
+      expect(export2).toEqual({ success: true, value: 4 });
+      expect(cursors).toEqual([6]);
+      const lines = fs.readFileSync(checkpointCsv, 'utf-8').trim().split('\n');
+      expect(lines).toHaveLength(11);
+      expect(lines[0]).toBe('id,name,email');
+      expect(lines[10]).toBe('10,User10,user10@example.com');
+      expect(fs.existsSync(checkpointFile)).toBe(false);
+    });
+
+    it('should start a new export when there is no checkpoint to resume', async () => {
+      const result = await outport<TestUser>()
+        .to(checkpointCsv)
+        .withCheckpoint()
+        .resume((checkpoint) => fetchUsers(checkpoint ? 10 : 0));
+
+      expect(result).toEqual({ success: true, value: 10 });
+      expect(fs.existsSync(checkpointFile)).toBe(false);
+    });
+
+    it('should reject output that cannot be resumed', async () => {
+      await expect(
+        outport<TestUser>()
+          .to(path.join(checkpointDir, 'users.json'))
+          .withCheckpoint()
+          .fromAsyncGenerator(fetchUsers(0))
+      ).rejects.toThrow('Checkpoints are only supported for CSV and JSON Lines output');
+      await expect(
+        outport<TestUser>()
+          .to(checkpointCsv)
+          .resume(() => fetchUsers(0))
+      ).rejects.toThrow('Checkpoints must be enabled using .withCheckpoint()');
+    });
+  });
+
+  describe('Header strategy', () => {
+    const eventsCsv = path.join(testDir, 'events.csv');
+    const events = [
+      { id: 1, type: 'login' },
+      { id: 2, type: 'purchase', amount: 10 },
+      { id: 3, type: 'logout', device: 'mobile' },
+    ] as Array<Record<string, unknown>>;
+
+    afterEach(() => {
+      fs.rmSync(eventsCsv, { force: true });
+    });
+
+    async function* generateEvents(): AsyncGenerator<Record<string, unknown>> {
+      for (const event of events) {
+        await Promise.resolve();
+        yield event;
+      }
+    }
+
+    it('should stream every key into the header with the union strategy', async () => {
+      const result = await outport<Record<string, unknown>>()
+        .to(eventsCsv)
+        .withBatchSize(1)
+        .withHeaderStrategy('union')
+        .fromAsyncGenerator(generateEvents());
+
+      expect(result).toEqual({ success: true, value: 3 });
+      expect(fs.readFileSync(eventsCsv, 'utf-8')).toBe(
+        'id,type,amount,device\n1,login,,\n2,purchase,10,\n3,logout,,mobile\n'
+      );
+    });
+
+    it('should fail the stream with the strict strategy', async () => {
+      const result = await outport<Record<string, unknown>>()
+        .to(eventsCsv)
+        .withBatchSize(1)
+        .withHeaderStrategy('strict')
+        .fromAsyncGenerator(generateEvents());
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(UnexpectedColumnsError);
+        expect((result.error as UnexpectedColumnsError).keys).toEqual(['amount']);
+      }
+    });
+
+    it('should reject the union strategy with a bytes split limit', async () => {
+      await expect(
+        outport<Record<string, unknown>>()
+          .to(eventsCsv)
+          .withHeaderStrategy('union')
+          .splitEvery({ bytes: 1024 })
+          .fromAsyncGenerator(generateEvents())
+      ).rejects.toThrow(
+        'splitEvery() with a bytes limit cannot be combined with the union header strategy'
+      );
+    });
+  });
+
+  describe('Manifest', () => {
+    const manifestDir = path.join(testDir, 'manifest');
+    const manifestCsv = path.join(manifestDir, 'users.csv');
+    const users: TestUser[] = [
+      { id: 1, name: 'Alice', email: 'alice@example.com' },
+      { id: 2, name: 'Bob', email: 'bob@example.com' },
+      { id: 3, name: 'Carol', email: 'carol@example.com' },
+    ];
+
+    const readManifest = (file: string): ExportManifest =>
+      JSON.parse(fs.readFileSync(`${file}.manifest.json`, 'utf-8')) as ExportManifest;
+    const sha256 = (file: string): string =>
+      createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+
+    beforeEach(() => {
+      fs.rmSync(manifestDir, { recursive: true, force: true });
+      fs.mkdirSync(manifestDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(manifestDir, { recursive: true, force: true });
+    });
+
+    it('should describe the output of a completed write', async () => {
+      const result = await outport<TestUser>()
+        .to(manifestCsv)
+        .withDelimiter(';')
+        .withManifest()
+        .write(users);
+
+      expect(result.success).toBe(true);
+      const manifest = readManifest(manifestCsv);
+      expect(manifest).toMatchObject({
+        file: manifestCsv,
+        rows: 3,
+        bytes: fs.statSync(manifestCsv).size,
+        sha256: sha256(manifestCsv),
+        columns: ['id', 'name', 'email'],
+        config: { type: 'csv', mode: 'write', delimiter: ';' },
+      });
+      expect(Date.parse(manifest.completedAt)).toBeGreaterThanOrEqual(
+        Date.parse(manifest.startedAt)
+      );
+    });
+
+    it('should throw error when combined with append mode', async () => {
+      await expect(
+        outport<TestUser>().to(manifestCsv).inMode('append').withManifest().write(users)
+      ).rejects.toThrow('withManifest() cannot be combined with append mode');
+      expect(fs.existsSync(manifestCsv)).toBe(false);
+    });
+
+    it('should list the part files of a split stream and pass the manifest to onComplete', async () => {
+      const manifestJsonl = path.join(manifestDir, 'users.jsonl');
+      const onComplete = vi.fn();
+
+      const result = await outport<TestUser>()
+        .to(manifestJsonl)
+        .withBatchSize(2)
+        .splitEvery({ rows: 2 })
+        .withManifest()
+        .onComplete(onComplete)
+        .fromAsyncGenerator(
+          (async function* () {
+            await Promise.resolve();
+            yield* users;
+          })()
+        );
+
+      expect(result.success).toBe(true);
+      const manifest = readManifest(manifestJsonl);
+      const part1 = path.join(manifestDir, 'users-0001.jsonl');
+      const part2 = path.join(manifestDir, 'users-0002.jsonl');
+      expect(manifest.sha256).toBeUndefined();
+      expect(manifest.rows).toBe(3);
+      expect(manifest.columns).toEqual(['id', 'name', 'email']);
+      expect(manifest.parts).toEqual([
+        { file: part1, rows: 2, bytes: fs.statSync(part1).size, sha256: sha256(part1) },
+        { file: part2, rows: 1, bytes: fs.statSync(part2).size, sha256: sha256(part2) },
+      ]);
+      expect(manifest.bytes).toBe(fs.statSync(part1).size + fs.statSync(part2).size);
+      expect(onComplete).toHaveBeenCalledWith({ success: true, value: undefined }, 3, manifest);
+    });
+
+    it('should report the cells neutralized by formula sanitization', async () => {
+      const result = await outport<TestUser>()
+        .to(manifestCsv)
+        .withFormulaSanitization()
+        .withManifest()
+        .write([...users, { id: 4, name: '=HYPERLINK("http://evil")', email: '-x' }]);
+
+      expect(result.success).toBe(true);
+      expect(readManifest(manifestCsv)).toMatchObject({
+        neutralizedCells: 2,
+        config: { type: 'csv', mode: 'write', sanitizeFormulas: 'escape' },
+      });
+      expect(fs.readFileSync(manifestCsv, 'utf-8')).toContain(
+        `4,"'=HYPERLINK(""http://evil"")",'-x`
+      );
+    });
+
+    it('should not write a manifest for a failed export', async () => {
+      const result = await outport<TestUser>()
+        .to(manifestCsv)
+        .withManifest()
+        .onBeforeWrite(() => {
+          throw new Error('Upstream failure');
+        })
+        .write(users);
+
+      expect(result.success).toBe(false);
+      expect(fs.existsSync(`${manifestCsv}.manifest.json`)).toBe(false);
+    });
+  });
+
+  describe('Splitting', () => {
+    const splitDir = path.join(testDir, 'split');
+
+    async function* generateUsers(count: number): AsyncGenerator<TestUser> {
+      for (let i = 1; i <= count; i++) {
+        await Promise.resolve();
+        yield { id: i, name: `User${i}`, email: `user${i}@example.com` };
+      }
+    }
+
+    beforeEach(() => {
+      fs.rmSync(splitDir, { recursive: true, force: true });
+      fs.mkdirSync(splitDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(splitDir, { recursive: true, force: true });
+    });
+
+    it('should split a streamed CSV export into numbered files', async () => {
+      const result = await outport<TestUser>()
+        .to(path.join(splitDir, 'users.csv'))
+        .splitEvery({ rows: 20 })
+        .withBatchSize(15)
+        .fromAsyncGenerator(generateUsers(50));
+
+      expect(result).toEqual({ success: true, value: 50 });
+      expect(fs.readdirSync(splitDir).sort()).toEqual([
+        'users-0001.csv',
+        'users-0002.csv',
+        'users-0003.csv',
+      ]);
+      const last = fs.readFileSync(path.join(splitDir, 'users-0003.csv'), 'utf-8');
+      expect(last.startsWith('id,name,email\n41,User41')).toBe(true);
+    });
+
+    it('should split compressed output atomically', async () => {
+      const result = await outport<TestUser>()
+        .to(path.join(splitDir, 'users.jsonl.gz'))
+        .atomic()
+        .splitEvery({ rows: 30 })
+        .fromAsyncGenerator(generateUsers(40));
+
+      expect(result.success).toBe(true);
+      expect(fs.readdirSync(splitDir).sort()).toEqual([
+        'users-0001.jsonl.gz',
+        'users-0002.jsonl.gz',
+      ]);
+      const content = zlib
+        .gunzipSync(fs.readFileSync(path.join(splitDir, 'users-0002.jsonl.gz')))
+        .toString('utf-8');
+      expect(content.trim().split('\n')).toHaveLength(10);
+    });
+
+    it('should keep atomically written parts within a bytes limit', async () => {
+      const result = await outport<TestUser>()
+        .to(path.join(splitDir, 'users.json'))
+        .atomic()
+        .splitEvery({ bytes: 300 })
+        .withBatchSize(100)
+        .fromAsyncGenerator(generateUsers(20));
+
+      expect(result).toEqual({ success: true, value: 20 });
+      const parts = fs.readdirSync(splitDir).sort();
+      expect(parts.length).toBeGreaterThan(1);
+      let records = 0;
+      for (const part of parts) {
+        const content = fs.readFileSync(path.join(splitDir, part), 'utf-8');
+        expect(Buffer.byteLength(content)).toBeLessThanOrEqual(300);
+        records += (JSON.parse(content) as TestUser[]).length;
+      }
+      expect(records).toBe(20);
+    });
+
+    it('should throw error for a bytes limit with compressed output', async () => {
+      await expect(
+        outport<TestUser>()
+          .to(path.join(splitDir, 'users.csv'))
+          .compress('gzip')
+          .splitEvery({ bytes: 1000 })
+          .fromAsyncGenerator(generateUsers(5))
+      ).rejects.toThrow(
+        'splitEvery() with a bytes limit cannot be combined with compression or XLSX output'
+      );
+    });
+
+    it('should throw error when used with write()', async () => {
+      await expect(
+        outport<TestUser>().to(csvFile).splitEvery({ rows: 10 }).write([])
+      ).rejects.toThrow('splitEvery() only applies to streamed exports');
+    });
+  });
+
+  describe('Partitioning', () => {
+    interface TestOrder extends Record<string, unknown> {
+      id: number;
+      region: string;
+    }
+
+    const partitionDir = path.join(testDir, 'partitions');
+    const orders: TestOrder[] = [
+      { id: 1, region: 'emea' },
+      { id: 2, region: 'apac' },
+      { id: 3, region: 'emea' },
+    ];
+
+    beforeEach(() => {
+      fs.rmSync(partitionDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(partitionDir, { recursive: true, force: true });
+    });
+
+    it('should write one file per partition with the builder configuration', async () => {
+      const result = await outport<TestOrder>()
+        .to(path.join(partitionDir, '{partition}', 'orders.csv'))
+        .withColumnMapping({ id: 'Order ID' })
+        .partitionBy((order) => order.region)
+        .write(orders);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map(({ partition, rows }) => [partition, rows])).toEqual([
+          ['emea', 2],
+          ['apac', 1],
+        ]);
+      }
+      const emea = fs.readFileSync(path.join(partitionDir, 'emea', 'orders.csv'), 'utf-8');
+      expect(emea).toBe('Order ID,region\n1,emea\n3,emea\n');
+    });
+
+    it('should stream partitions atomically and call onComplete with the total', async () => {
+      async function* generateOrders(): AsyncGenerator<TestOrder> {
+        for (const order of orders) {
+          await Promise.resolve();
+          yield order;
+        }
+      }
+      let completed = 0;
+
+      const result = await outport<TestOrder>()
+        .to(path.join(partitionDir, 'orders-{partition}.jsonl'))
+        .atomic()
+        .onComplete((_result, totalRecords) => {
+          completed = totalRecords;
+        })
+        .partitionBy((order) => order.region)
+        .fromAsyncGenerator(generateOrders());
+
+      expect(result.success).toBe(true);
+      expect(completed).toBe(3);
+      expect(fs.readdirSync(partitionDir).sort()).toEqual([
+        'orders-apac.jsonl',
+        'orders-emea.jsonl',
+      ]);
+    });
+
+    it('should run the beforeWrite and afterWrite hooks around a partitioned write', async () => {
+      const afterWrite = vi.fn();
+
+      const result = await outport<TestOrder>()
+        .to(path.join(partitionDir, '{partition}.csv'))
+        .onBeforeWrite((data) => data.filter((order) => order.id !== 3))
+        .onAfterWrite(afterWrite)
+        .partitionBy((order) => order.region)
+        .write(orders);
+
+      expect(result.success).toBe(true);
+      expect(afterWrite).toHaveBeenCalledWith(orders.slice(0, 2), 2);
+      expect(fs.readFileSync(path.join(partitionDir, 'emea.csv'), 'utf-8')).toBe(
+        'id,region\n1,emea\n'
+      );
+    });
+
+    it('should throw error when combined with splitEvery()', () => {
+      expect(() =>
+        outport<TestOrder>()
+          .to(path.join(partitionDir, '{partition}.csv'))
+          .splitEvery({ rows: 10 })
+          .partitionBy((order) => order.region)
+      ).toThrow('partitionBy() cannot be combined with splitEvery()');
+    });
+
+    it('should throw error when combined with withManifest() or withCheckpoint()', () => {
+      const builder = (): OutportBuilder<TestOrder> =>
+        outport<TestOrder>().to(path.join(partitionDir, '{partition}.csv'));
+
+      expect(() =>
+        builder()
+          .withManifest()
+          .partitionBy((order) => order.region)
+      ).toThrow('partitionBy() cannot be combined with withManifest()');
+      expect(() =>
+        builder()
+          .withCheckpoint({ cursor: (order) => order.id })
+          .partitionBy((order) => order.region)
+      ).toThrow('partitionBy() cannot be combined with withCheckpoint()');
+    });
+  });
+
+  describe('Fan-out', () => {
+    interface TestOrder extends Record<string, unknown> {
+      id: number;
+      region: string;
+    }
+
+    const fanOutDir = path.join(testDir, 'fan-out');
+    const orders: TestOrder[] = [
+      { id: 1, region: 'emea' },
+      { id: 2, region: 'apac' },
+      { id: 3, region: 'emea' },
+    ];
+
+    async function* generateOrders(): AsyncGenerator<TestOrder> {
+      for (const order of orders) {
+        await Promise.resolve();
+        yield order;
+      }
+    }
+
+    beforeEach(() => {
+      fs.rmSync(fanOutDir, { recursive: true, force: true });
+      fs.mkdirSync(fanOutDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(fanOutDir, { recursive: true, force: true });
+    });
+
+    it('should write one stream to every destination with its own configuration', async () => {
+      let generatorRuns = 0;
+      const csvPath = path.join(fanOutDir, 'orders.csv');
+      const jsonlPath = path.join(fanOutDir, 'orders.jsonl');
+      const xlsxPath = path.join(fanOutDir, 'orders.xlsx');
+
+      const result = await outport<TestOrder>()
+        .to(csvPath)
+        .withColumnMapping({ id: 'Order ID' })
+        .withBatchSize(2)
+        .fanOut(outport<TestOrder>().to(jsonlPath), outport<TestOrder>().to(xlsxPath).atomic())
+        .stream(() => {
+          generatorRuns++;
+          return generateOrders();
+        });
+
+      expect(generatorRuns).toBe(1);
+      expect(result).toEqual({
+        success: true,
+        value: [
+          { file: csvPath, result: { success: true, value: 3 } },
+          { file: jsonlPath, result: { success: true, value: 3 } },
+          { file: xlsxPath, result: { success: true, value: 3 } },
+        ],
+      });
+      expect(fs.readFileSync(csvPath, 'utf-8')).toBe('Order ID,region\n1,emea\n2,apac\n3,emea\n');
+      expect(fs.readFileSync(jsonlPath, 'utf-8').trim().split('\n')).toHaveLength(3);
+      expect(fs.readdirSync(fanOutDir).sort()).toEqual([
+        'orders.csv',
+        'orders.jsonl',
+        'orders.xlsx',
+      ]);
+    });
+
+    it('should isolate a failing destination and call its own hooks', async () => {
+      const failures: string[] = [];
+      let completed = 0;
+      const jsonPath = path.join(fanOutDir, 'orders.json');
+
+      const result = await outport<TestOrder>()
+        .to(path.join(fanOutDir, 'missing', 'orders.csv'))
+        .onError((error) => {
+          failures.push(error.message);
+          return false;
+        })
+        .fanOut(
+          outport<TestOrder>()
+            .to(jsonPath)
+            .onComplete((_result, totalRecords) => {
+              completed = totalRecords;
+            }),
+          outport<TestOrder>().to(path.join(fanOutDir, 'orders.txt'))
+        )
+        .write(orders);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map(({ result }) => result.success)).toEqual([false, true, false]);
+      }
+      expect(failures).toHaveLength(1);
+      expect(completed).toBe(3);
+      expect(JSON.parse(fs.readFileSync(jsonPath, 'utf-8'))).toEqual(orders);
+    });
+
+    it('should throw error when a destination uses splitEvery()', () => {
+      expect(() =>
+        outport<TestOrder>()
+          .to(path.join(fanOutDir, 'orders.csv'))
+          .fanOut(
+            outport<TestOrder>().to(path.join(fanOutDir, 'orders.jsonl')).splitEvery({ rows: 10 })
+          )
+      ).toThrow('fanOut() cannot be combined with splitEvery()');
+    });
+
+    it('should throw error when a destination uses withManifest() or withCheckpoint()', () => {
+      const csvPath = path.join(fanOutDir, 'orders.csv');
+      const jsonlPath = path.join(fanOutDir, 'orders.jsonl');
+
+      expect(() =>
+        outport<TestOrder>().to(csvPath).withManifest().fanOut(outport<TestOrder>().to(jsonlPath))
+      ).toThrow('fanOut() cannot be combined with withManifest()');
+      expect(() =>
+        outport<TestOrder>()
+          .to(csvPath)
+          .fanOut(
+            outport<TestOrder>()
+              .to(jsonlPath)
+              .withCheckpoint({ cursor: (order) => order.id })
+          )
+      ).toThrow('fanOut() cannot be combined with withCheckpoint()');
+    });
+  });
+
+  describe('Schema', () => {
+    const users: TestUser[] = [
+      { id: 1, name: 'Alice', email: 'ALICE@example.com' },
+      { id: 2, name: 'Bob', email: '' },
+    ];
+
+    const schema: ColumnSchema<TestUser> = [
+      { key: 'id', header: 'ID' },
+      { key: 'email', header: 'Email', format: (email) => email.toLowerCase() || null },
+      { header: 'Label', value: (user) => `${user.id}-${user.name}` },
+    ];
+
+    it('should write schema columns to CSV', () => {
+      const result = outport<TestUser>().to(csvFile).withSchema(schema).writeSync(users);
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toBe(
+        'ID,Email,Label\n1,alice@example.com,1-Alice\n2,,2-Bob\n'
+      );
+    });
+
+    it('should write schema columns as JSON and JSON Lines objects', async () => {
+      const expected = [
+        { ID: 1, Email: 'alice@example.com', Label: '1-Alice' },
+        { ID: 2, Email: null, Label: '2-Bob' },
+      ];
+
+      const jsonResult = await outport<TestUser>().to(jsonFile).withSchema(schema).write(users);
+      const jsonlResult = await outport<TestUser>()
+        .to(jsonlFile)
+        .withSchema(schema)
+        .fromAsyncGenerator(
+          (async function* () {
+            await Promise.resolve();
+            yield* users;
+          })()
+        );
+
+      expect(jsonResult.success).toBe(true);
+      expect(jsonlResult.success).toBe(true);
+      expect(JSON.parse(fs.readFileSync(jsonFile, 'utf-8'))).toEqual(expected);
+      expect(
+        fs
+          .readFileSync(jsonlFile, 'utf-8')
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line) as unknown)
+      ).toEqual(expected);
+    });
+
+    it('should apply default values for missing columns', () => {
+      const result = outport<TestUser>()
+        .to(csvFile)
+        .withSchema([{ key: 'id' }, { key: 'email', defaultValue: 'n/a' }])
+        .writeSync([{ id: 1, name: 'Alice', email: undefined as unknown as string }]);
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toBe('id,email\n1,n/a\n');
+    });
+
+    it('should throw error when combined with other column options', () => {
+      expect(() =>
+        outport<TestUser>().to(csvFile).withColumns(['id']).withSchema(schema).writeSync(users)
+      ).toThrow('schema cannot be combined with headers, includeKeys, columnMapping');
+    });
+  });
+
+  describe('Value serialization', () => {
+    interface Payment extends Record<string, unknown> {
+      id: bigint;
+      paidAt: Date;
+      amount: Money;
+    }
+
+    class Money {
+      constructor(readonly cents: number) {}
+    }
+
+    const payments: Payment[] = [
+      { id: 1n, paidAt: new Date('2024-01-15T10:30:00Z'), amount: new Money(1999) },
+    ];
+
+    it('should write CSV and JSON values with registered serializers and date format', async () => {
+      const csvResult = await outport<Payment>()
+        .to(csvFile)
+        .withDateFormat({ timeZone: 'America/New_York', format: 'yyyy-MM-dd HH:mm' })
+        .withSerializer(Money, (money) => (money.cents / 100).toFixed(2))
+        .write(payments);
+      const jsonResult = await outport<Payment>()
+        .to(jsonFile)
+        .withSerializer(Money, (money) => money.cents)
+        .withSerializer('bigint', (id) => Number(id))
+        .write(payments);
+
+      expect(csvResult.success).toBe(true);
+      expect(jsonResult.success).toBe(true);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toBe(
+        'id,paidAt,amount\n1,2024-01-15 05:30,19.99\n'
+      );
+      expect(JSON.parse(fs.readFileSync(jsonFile, 'utf-8'))).toEqual([
+        { id: 1, paidAt: '2024-01-15T10:30:00.000Z', amount: 1999 },
+      ]);
+    });
+
+    it('should throw error for an invalid time zone', async () => {
+      await expect(
+        outport<Payment>().to(csvFile).withDateFormat({ timeZone: 'Mars/Olympus' }).write(payments)
+      ).rejects.toThrow('Invalid time zone: Mars/Olympus');
+    });
+  });
+
+  describe('Locale', () => {
+    it('should format CSV numbers and dates for a locale', async () => {
+      interface Invoice extends Record<string, unknown> {
+        total: number;
+        issuedAt: Date;
+      }
+
+      const result = await outport<Invoice>()
+        .to(csvFile)
+        .withDelimiter(';')
+        .withLocale('de-DE', {
+          numberFormat: { minimumFractionDigits: 2 },
+          dateFormat: { dateStyle: 'short', timeZone: 'Europe/Berlin' },
+        })
+        .write([{ total: 1234.5, issuedAt: new Date('2024-01-15T23:30:00Z') }]);
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toBe('total;issuedAt\n1.234,50;16.01.24\n');
+    });
+  });
+
+  describe('Validation', () => {
+    interface TestOrder extends Record<string, unknown> {
+      id: number;
+      email: string;
+      total: number;
+    }
+
+    const validationDir = path.join(testDir, 'validation');
+    const ordersFile = path.join(validationDir, 'orders.csv');
+    const rejectsFile = path.join(validationDir, 'orders.rejects.jsonl');
+    const orders: TestOrder[] = [
+      { id: 1, email: 'a@example.com', total: 10 },
+      { id: 2, email: 'invalid', total: 20 },
+      { id: 3, email: 'c@example.com', total: -5 },
+      { id: 4, email: 'd@example.com', total: 40 },
+    ];
+
+    async function* generateOrders(): AsyncGenerator<TestOrder> {
+      for (const order of orders) {
+        await Promise.resolve();
+        yield order;
+      }
+    }
+
+    function readRejects(file: string): unknown[] {
+      return fs
+        .readFileSync(file, 'utf-8')
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line) as unknown);
+    }
+
+    beforeEach(() => {
+      fs.rmSync(validationDir, { recursive: true, force: true });
+      fs.mkdirSync(validationDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(validationDir, { recursive: true, force: true });
+    });
+
+    it('should write accepted records and quarantine rejects next to the output', async () => {
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .withColumns(['id', 'total'])
+        .withBatchSize(2)
+        .validate((order) => order.total >= 0 || 'total must not be negative')
+        .fromAsyncGenerator(generateOrders());
+
+      expect(result).toEqual({
+        success: true,
+        value: { accepted: 3, rejected: 1, rejectFile: rejectsFile },
+      });
+      expect(fs.readFileSync(ordersFile, 'utf-8')).toBe('id,total\n1,10\n2,20\n4,40\n');
+      expect(readRejects(rejectsFile)).toEqual([
+        { index: 2, reason: 'total must not be negative', record: orders[2] },
+      ]);
+    });
+
+    it('should name every failing field when validating with field rules', async () => {
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .validate({
+          email: (email) => email.includes('@') || 'must be an email address',
+          total: (total) => total >= 0,
+        })
+        .write([...orders, { id: 5, email: 'bad', total: -1 }]);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toMatchObject({ accepted: 2, rejected: 3 });
+      }
+      expect(
+        readRejects(rejectsFile).map((rejection) => (rejection as { reason: string }).reason)
+      ).toEqual([
+        'email: must be an email address',
+        'total: is invalid',
+        'email: must be an email address; total: is invalid',
+      ]);
+    });
+
+    it('should send rejects to a handler and reject records whose validator throws', async () => {
+      const rejections: Array<RejectedRecord<TestOrder>> = [];
+
+      const result = await outport<TestOrder>()
+        .to(path.join(validationDir, 'orders.json'))
+        .validate((order) => {
+          if (order.id === 4) {
+            throw new Error('lookup failed');
+          }
+          return order.email !== 'invalid';
+        })
+        .rejectTo((rejection) => {
+          rejections.push(rejection);
+        })
+        .stream(generateOrders);
+
+      expect(result).toEqual({ success: true, value: { accepted: 2, rejected: 2 } });
+      expect(rejections.map(({ index, reason }) => [index, reason])).toEqual([
+        [1, 'Validation failed'],
+        [3, 'lookup failed'],
+      ]);
+      expect(fs.existsSync(path.join(validationDir, 'orders.rejects.jsonl'))).toBe(false);
+    });
+
+    it('should write rejects to a custom file', async () => {
+      const customFile = path.join(validationDir, 'quarantine.jsonl');
+
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .validate({ total: (total) => total >= 0 })
+        .rejectTo(customFile)
+        .write(orders);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.rejectFile).toBe(customFile);
+      }
+      expect(readRejects(customFile)).toHaveLength(1);
+      expect(fs.existsSync(rejectsFile)).toBe(false);
+    });
+
+    it('should quarantine records that cannot be formatted', async () => {
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .withFormulaSanitization('reject')
+        .validate(() => true)
+        .write([orders[0]!, { id: 2, email: '=HYPERLINK("x")', total: 20 }, orders[3]!]);
+
+      expect(result).toEqual({
+        success: true,
+        value: { accepted: 2, rejected: 1, rejectFile: rejectsFile },
+      });
+      expect(fs.readFileSync(ordersFile, 'utf-8')).toBe(
+        'id,email,total\n1,a@example.com,10\n4,d@example.com,40\n'
+      );
+      expect(readRejects(rejectsFile)).toEqual([
+        {
+          index: 1,
+          reason: 'Cell value starts with a formula character: "=HYPERLINK(\\"x\\")"',
+          record: { id: 2, email: '=HYPERLINK("x")', total: 20 },
+        },
+      ]);
+    });
+
+    it('should quarantine records with keys the strict header strategy rejects', async () => {
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .withHeaderStrategy('strict')
+        .validate(() => true)
+        .write([orders[0]!, { ...orders[1]!, note: 'extra' }, orders[3]!]);
+
+      expect(result).toEqual({
+        success: true,
+        value: { accepted: 2, rejected: 1, rejectFile: rejectsFile },
+      });
+      expect(fs.readFileSync(ordersFile, 'utf-8')).toBe(
+        'id,email,total\n1,a@example.com,10\n4,d@example.com,40\n'
+      );
+      expect(readRejects(rejectsFile)).toEqual([
+        {
+          index: 1,
+          reason: 'Records have keys that are not in the CSV header: note',
+          record: { ...orders[1], note: 'extra' },
+        },
+      ]);
+    });
+
+    it('should keep a safe copy of rejected records that cannot be serialized', async () => {
+      const circular: TestOrder = { id: 2, email: 'b@example.com', total: -20 };
+      circular.self = circular;
+      const big: TestOrder = { id: 3, email: 'c@example.com', total: -30, amount: 10n };
+
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .withColumns(['id', 'total'])
+        .validate((order) => order.total >= 0)
+        .write([orders[0]!, circular, big]);
+
+      expect(result).toEqual({
+        success: true,
+        value: { accepted: 1, rejected: 2, rejectFile: rejectsFile },
+      });
+      expect(fs.readFileSync(ordersFile, 'utf-8')).toBe('id,total\n1,10\n');
+      expect(readRejects(rejectsFile)).toEqual([
+        {
+          index: 1,
+          reason: 'Validation failed',
+          record: { id: 2, email: 'b@example.com', total: -20, self: '[Circular]' },
+        },
+        {
+          index: 2,
+          reason: 'Validation failed',
+          record: { id: 3, email: 'c@example.com', total: -30, amount: '10' },
+        },
+      ]);
+    });
+
+    it('should pass the accepted records of write() to the write hooks in one call', async () => {
+      const beforeWrite = vi.fn((data: TestOrder[]) => data);
+      const afterWrite = vi.fn();
+
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .withColumns(['id', 'total'])
+        .onBeforeWrite(beforeWrite)
+        .onAfterWrite(afterWrite)
+        .validate((order) => order.total >= 0)
+        .write(orders);
+
+      expect(result.success).toBe(true);
+      expect(beforeWrite).toHaveBeenCalledTimes(1);
+      expect(beforeWrite).toHaveBeenCalledWith([orders[0], orders[1], orders[3]]);
+      expect(afterWrite).toHaveBeenCalledTimes(1);
+      expect(fs.readFileSync(ordersFile, 'utf-8')).toBe('id,total\n1,10\n2,20\n4,40\n');
+    });
+
+    it('should create an empty output when write() rejects every record', async () => {
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .validate(() => false)
+        .write(orders);
+
+      expect(result).toEqual({
+        success: true,
+        value: { accepted: 0, rejected: 4, rejectFile: rejectsFile },
+      });
+      expect(fs.readFileSync(ordersFile, 'utf-8')).toBe('');
+      expect(readRejects(rejectsFile)).toHaveLength(4);
+    });
+
+    it('should not report a reject file when nothing was rejected', async () => {
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .validate(() => true)
+        .write(orders);
+
+      expect(result).toEqual({ success: true, value: { accepted: 4, rejected: 0 } });
+      expect(fs.existsSync(rejectsFile)).toBe(false);
+    });
+
+    it('should append to the reject file in append mode', async () => {
+      const validator = (order: TestOrder): boolean => order.total >= 0;
+
+      await outport<TestOrder>().to(ordersFile).validate(validator).write(orders);
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .inMode('append')
+        .validate(validator)
+        .write([{ id: 5, email: 'e@example.com', total: -1 }]);
+
+      expect(result.success).toBe(true);
+      expect(
+        readRejects(rejectsFile).map((rejection) => (rejection as { index: number }).index)
+      ).toEqual([2, 0]);
+    });
+
+    it('should fail when the reject sink fails', async () => {
+      const result = await outport<TestOrder>()
+        .to(ordersFile)
+        .validate(() => false)
+        .rejectTo(() => {
+          throw new Error('sink unavailable');
+        })
+        .write(orders);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('sink unavailable');
+      }
+    });
+  });
+
   describe('Method Chaining', () => {
     it('should support fluent API chaining', async () => {
       const users: TestUser[] = [{ id: 1, name: 'Alice', email: 'alice@example.com' }];
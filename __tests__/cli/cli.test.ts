@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { runCli } from '../../src/cli/cli';
+import type { CliIO } from '../../src/cli/cli';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+describe('runCli', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'cli');
+  const csvFile = path.join(testDir, 'users.csv');
+  const jsonFile = path.join(testDir, 'users.json');
+
+  let stdout: string;
+  let stderr: string;
+
+  const createIO = (stdinLines: string[] = []): CliIO => ({
+    stdin: stdinLines.map((line) => Buffer.from(line)),
+    stdout: { write: (text: string) => (stdout += text) },
+    stderr: { write: (text: string) => (stderr += text) },
+  });
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should export NDJSON from stdin with CSV options', async () => {
+    // Arrange
+    const io = createIO(['{"id":1,"name":"Alice","role":"admin"}\n{"id":2,', '"name":"Bob"}\n']);
+
+    // Act
+    const exitCode = await runCli(
+      ['export', csvFile, '--delimiter', ';', '--columns', 'name,id'],
+      io
+    );
+
+    // Assert
+    expect(exitCode).toBe(0);
+    expect(fs.readFileSync(csvFile, 'utf-8')).toBe('name;id\nAlice;1\nBob;2\n');
+    expect(stderr).toBe(`Wrote 2 records to ${csvFile}\n`);
+  });
+
+  it('should convert a file with input and output options', async () => {
+    // Arrange
+    fs.writeFileSync(csvFile, 'id;name\n1;Alice\n2;Bob\n');
+
+    // Act
+    const exitCode = await runCli(
+      ['convert', csvFile, jsonFile, '--input-delimiter', ';', '--infer-types', '--compact'],
+      createIO()
+    );
+
+    // Assert
+    expect(exitCode).toBe(0);
+    expect(fs.readFileSync(jsonFile, 'utf-8')).toBe(
+      '[{"id":1,"name":"Alice"},{"id":2,"name":"Bob"}]'
+    );
+  });
+
+  it('should convert NDJSON from stdin when the input is -', async () => {
+    // Arrange
+    const io = createIO(['{"id":1}\n']);
+
+    // Act
+    const exitCode = await runCli(['convert', '-', jsonFile], io);
+
+    // Assert
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(fs.readFileSync(jsonFile, 'utf-8'))).toEqual([{ id: 1 }]);
+  });
+
+  it('should exit with 1 and report the error when the export fails', async () => {
+    // Arrange
+    const io = createIO(['{"id":1}\nnot json\n']);
+
+    // Act
+    const exitCode = await runCli(['export', jsonFile], io);
+
+    // Assert
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain('Error: Invalid JSON');
+    expect(stderr).toContain('(line 2)');
+  });
+
+  it('should exit with 2 and print usage for invalid arguments', async () => {
+    // Act
+    const unknownOption = await runCli(['export', csvFile, '--nope'], createIO());
+    const missingOutput = await runCli(['convert', csvFile], createIO());
+    const badFormat = await runCli(['export', csvFile, '--format', 'xml'], createIO());
+
+    // Assert
+    expect([unknownOption, missingOutput, badFormat]).toEqual([2, 2, 2]);
+    expect(stderr).toContain('--format must be one of csv, json, jsonl, xlsx');
+    expect(stderr).toContain('Usage:');
+  });
+
+  it('should print help and version', async () => {
+    // Act
+    await runCli(['--help'], createIO());
+    await runCli(['--version'], createIO());
+
+    // Assert
+    expect(stdout).toContain('export-toolkit convert <input> <output> [options]');
+    expect(stdout.trim().split('\n').pop()).toMatch(/^\d+\.\d+\.\d+/);
+  });
+});
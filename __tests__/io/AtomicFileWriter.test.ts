@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { AtomicFileWriter } from '../../src/io/AtomicFileWriter';
+
+describe('AtomicFileWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'atomic-file-writer');
+  let testFile: string;
+  let fileWriter: AtomicFileWriter;
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+    testFile = path.join(testDir, 'output.txt');
+    fileWriter = new AtomicFileWriter();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('writing', () => {
+    it('should write to a hidden sibling temp file instead of the target', async () => {
+      // Act
+      await fileWriter.write(testFile, 'Hello');
+
+      // Assert
+      const tempPath = fileWriter.getTempPath(testFile);
+      expect(tempPath).toBeDefined();
+      expect(path.dirname(tempPath)).toBe(testDir);
+      expect(path.basename(tempPath).startsWith('.output.txt.')).toBe(true);
+      expect(fs.readFileSync(tempPath, 'utf-8')).toBe('Hello');
+      expect(fs.existsSync(testFile)).toBe(false);
+    });
+
+    it('should copy the existing target before appending', () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Line 1\n');
+
+      // Act
+      fileWriter.appendSync(testFile, 'Line 2\n');
+
+      // Assert
+      expect(fs.readFileSync(fileWriter.getTempPath(testFile), 'utf-8')).toBe('Line 1\nLine 2\n');
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Line 1\n');
+    });
+
+    it('should write through an open sink to the temp file', async () => {
+      // Act
+      const result = await fileWriter.open(testFile, 'write');
+      if (!result.success) {
+        throw result.error;
+      }
+      await result.value.write('streamed');
+      await result.value.close();
+
+      // Assert
+      expect(fs.readFileSync(fileWriter.getTempPath(testFile), 'utf-8')).toBe('streamed');
+      expect(fs.existsSync(testFile)).toBe(false);
+    });
+
+    it('should report the temp file as existing once written', async () => {
+      // Arrange
+      await fileWriter.write(testFile, 'Hello');
+
+      // Act & Assert
+      expect(fileWriter.existsSync(testFile)).toBe(true);
+      expect(await fileWriter.exists(testFile)).toBe(true);
+    });
+  });
+
+  describe('commit', () => {
+    it('should rename the temp file onto the target', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Old content');
+      await fileWriter.write(testFile, 'New content');
+
+      // Act
+      const result = await fileWriter.commit();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('New content');
+      expect(fs.readdirSync(testDir)).toEqual(['output.txt']);
+    });
+
+    it('should rename the temp file onto the target synchronously', () => {
+      // Arrange
+      fileWriter.writeSync(testFile, 'Sync content');
+
+      // Act
+      const result = fileWriter.commitSync();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Sync content');
+      expect(fs.readdirSync(testDir)).toEqual(['output.txt']);
+    });
+  });
+
+  describe('abort', () => {
+    it('should delete the temp file and leave the target untouched', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Original');
+      await fileWriter.append(testFile, ' partial');
+
+      // Act
+      await fileWriter.abort();
+
+      // Assert
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Original');
+      expect(fs.readdirSync(testDir)).toEqual(['output.txt']);
+    });
+  });
+
+  describe('settle', () => {
+    it('should commit after a successful result', async () => {
+      // Arrange
+      await fileWriter.write(testFile, 'Done');
+
+      // Act
+      const result = await fileWriter.settle({ success: true, value: 42 });
+
+      // Assert
+      expect(result).toEqual({ success: true, value: 42 });
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Done');
+    });
+
+    it('should abort after a failed result', () => {
+      // Arrange
+      fileWriter.writeSync(testFile, 'Partial');
+      const error = new Error('Export failed');
+
+      // Act
+      const result = fileWriter.settleSync({ success: false, error });
+
+      // Assert
+      expect(result).toEqual({ success: false, error });
+      expect(fs.readdirSync(testDir)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as zlib from 'node:zlib';
+import {
+  CompressingFileWriter,
+  detectCompression,
+  stripCompressionExtension,
+} from '../../src/io/CompressingFileWriter';
+import { FileWriteError } from '../../src/errors';
+
+describe('CompressingFileWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'compressing-file-writer');
+  const gzipFile = path.join(testDir, 'output.txt.gz');
+  const brotliFile = path.join(testDir, 'output.txt.br');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('gzip', () => {
+    it('should compress whole-content writes', async () => {
+      // Arrange
+      const fileWriter = new CompressingFileWriter('gzip');
+
+      // Act
+      const result = await fileWriter.write(gzipFile, 'Hello, World!');
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(zlib.gunzipSync(fs.readFileSync(gzipFile)).toString('utf-8')).toBe('Hello, World!');
+    });
+
+    it('should append as additional gzip members that decompress as one stream', () => {
+      // Arrange
+      const fileWriter = new CompressingFileWriter('gzip');
+      fileWriter.writeSync(gzipFile, 'Line 1\n');
+
+      // Act
+      const result = fileWriter.appendSync(gzipFile, 'Line 2\n');
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(zlib.gunzipSync(fs.readFileSync(gzipFile)).toString('utf-8')).toBe('Line 1\nLine 2\n');
+    });
+
+    it('should stream content written through an open sink', async () => {
+      // Arrange
+      const fileWriter = new CompressingFileWriter('gzip');
+      const opened = await fileWriter.open(gzipFile, 'write');
+      if (!opened.success) {
+        throw opened.error;
+      }
+
+      // Act
+      for (let i = 0; i < 100; i++) {
+        await opened.value.write(`row ${i}\n`);
+      }
+      const result = await opened.value.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      const lines = zlib.gunzipSync(fs.readFileSync(gzipFile)).toString('utf-8').trim().split('\n');
+      expect(lines).toHaveLength(100);
+      expect(lines[99]).toBe('row 99');
+    });
+
+    it('should refuse to truncate', async () => {
+      // Arrange
+      const fileWriter = new CompressingFileWriter('gzip');
+      await fileWriter.write(gzipFile, 'content');
+
+      // Act
+      const result = await fileWriter.truncate(gzipFile, 2);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(FileWriteError);
+        expect(result.error.message).toContain('Cannot truncate a compressed file');
+      }
+    });
+  });
+
+  describe('brotli', () => {
+    it('should stream content written through an open sink', async () => {
+      // Arrange
+      const fileWriter = new CompressingFileWriter('brotli');
+      const opened = await fileWriter.open(brotliFile, 'write');
+      if (!opened.success) {
+        throw opened.error;
+      }
+
+      // Act
+      await opened.value.write('Hello, ');
+      await opened.value.write('World!');
+      await opened.value.close();
+
+      // Assert
+      expect(zlib.brotliDecompressSync(fs.readFileSync(brotliFile)).toString('utf-8')).toBe(
+        'Hello, World!'
+      );
+    });
+
+    it('should create a new file when appending to a missing file', async () => {
+      // Arrange
+      const fileWriter = new CompressingFileWriter('brotli');
+
+      // Act
+      const result = await fileWriter.append(brotliFile, 'first');
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(zlib.brotliDecompressSync(fs.readFileSync(brotliFile)).toString('utf-8')).toBe(
+        'first'
+      );
+    });
+
+    it('should refuse to append to an existing file', async () => {
+      // Arrange
+      const fileWriter = new CompressingFileWriter('brotli');
+      await fileWriter.write(brotliFile, 'first');
+
+      // Act
+      const appendResult = await fileWriter.append(brotliFile, 'second');
+      const openResult = await fileWriter.open(brotliFile, 'append');
+
+      // Assert
+      expect(appendResult.success).toBe(false);
+      expect(openResult.success).toBe(false);
+      if (!appendResult.success) {
+        expect(appendResult.error.message).toContain('Cannot append to an existing brotli');
+      }
+    });
+  });
+
+  describe('extension helpers', () => {
+    it('should detect compression from the final extension', () => {
+      expect(detectCompression('users.csv.gz')).toBe('gzip');
+      expect(detectCompression('users.JSON.GZ')).toBe('gzip');
+      expect(detectCompression('events.jsonl.br')).toBe('brotli');
+      expect(detectCompression('users.csv')).toBeUndefined();
+    });
+
+    it('should strip only the matching compression extension', () => {
+      expect(stripCompressionExtension('users.csv.gz', 'gzip')).toBe('users.csv');
+      expect(stripCompressionExtension('users.csv', 'gzip')).toBe('users.csv');
+      expect(stripCompressionExtension('users.csv.gz', 'brotli')).toBe('users.csv.gz');
+      expect(stripCompressionExtension('users.csv.gz')).toBe('users.csv.gz');
+    });
+  });
+});
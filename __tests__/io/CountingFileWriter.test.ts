@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { CountingFileWriter } from '../../src/io/CountingFileWriter';
+
+describe('CountingFileWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'counting-file-writer');
+  const testFile = path.join(testDir, 'output.txt');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should count bytes of writes and appends', async () => {
+    // Arrange
+    const fileWriter = new CountingFileWriter();
+
+    // Act
+    await fileWriter.write(testFile, 'héllo');
+    fileWriter.appendSync(testFile, Buffer.from([1, 2, 3]));
+
+    // Assert
+    expect(fileWriter.getBytesWritten(testFile)).toBe(9);
+    expect(fileWriter.getBytesWritten(testFile)).toBe(fs.statSync(testFile).size);
+  });
+
+  it('should reset the count on write and set it on truncate', async () => {
+    // Arrange
+    const fileWriter = new CountingFileWriter();
+    await fileWriter.write(testFile, 'first content');
+
+    // Act
+    await fileWriter.write(testFile, 'second');
+    const afterWrite = fileWriter.getBytesWritten(testFile);
+    await fileWriter.truncate(testFile, 3);
+
+    // Assert
+    expect(afterWrite).toBe(6);
+    expect(fileWriter.getBytesWritten(testFile)).toBe(3);
+  });
+
+  it('should count bytes written through an open sink', async () => {
+    // Arrange
+    const fileWriter = new CountingFileWriter();
+    await fileWriter.write(testFile, 'old content');
+    const opened = await fileWriter.open(testFile, 'write');
+    if (!opened.success) {
+      throw opened.error;
+    }
+
+    // Act
+    await opened.value.write('abc');
+    await opened.value.write('def');
+    await opened.value.close();
+
+    // Assert
+    expect(fileWriter.getBytesWritten(testFile)).toBe(6);
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('abcdef');
+  });
+
+  it('should not count failed operations', () => {
+    // Arrange
+    const fileWriter = new CountingFileWriter();
+    const missing = path.join(testDir, 'missing', 'output.txt');
+
+    // Act
+    fs.writeFileSync(path.join(testDir, 'missing'), 'a file, not a directory');
+    const result = fileWriter.writeSync(missing, 'content');
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(fileWriter.getBytesWritten(missing)).toBe(0);
+  });
+});
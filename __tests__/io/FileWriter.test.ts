@@ -195,6 +195,103 @@ describe('NodeFileWriter', () => {
     });
   });
 
+  describe('truncateSync', () => {
+    it('should truncate file to the given length', () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Hello, World!');
+
+      // Act
+      const result = fileWriter.truncateSync(testFile, 5);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Hello');
+    });
+
+    it('should return error result for missing file', () => {
+      // Act
+      const result = fileWriter.truncateSync(testFile, 0);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('Failed to truncate file');
+      }
+    });
+  });
+
+  describe('truncate (async)', () => {
+    it('should truncate file to the given length', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Hello, World!');
+
+      // Act
+      const result = await fileWriter.truncate(testFile, 5);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Hello');
+    });
+
+    it('should return error result for missing file', async () => {
+      // Act
+      const result = await fileWriter.truncate(testFile, 0);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('Failed to truncate file');
+      }
+    });
+  });
+
+  describe('open', () => {
+    it('should truncate the file in write mode and write sequentially', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Old content');
+
+      // Act
+      const result = await fileWriter.open(testFile, 'write');
+      if (!result.success) {
+        throw result.error;
+      }
+      await result.value.write('Line 1\n');
+      await result.value.write('Line 2\n');
+      const closeResult = await result.value.close();
+
+      // Assert
+      expect(closeResult.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Line 1\nLine 2\n');
+    });
+
+    it('should keep existing content in append mode', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Line 1\n');
+
+      // Act
+      const result = await fileWriter.open(testFile, 'append');
+      if (!result.success) {
+        throw result.error;
+      }
+      await result.value.write('Line 2\n');
+      await result.value.close();
+
+      // Assert
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Line 1\nLine 2\n');
+    });
+
+    it('should return error result for invalid path', async () => {
+      // Act
+      const result = await fileWriter.open('/invalid/path/that/does/not/exist/file.txt', 'write');
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('Failed to open file');
+      }
+    });
+  });
+
   describe('existsSync', () => {
     it('should return true for existing file', () => {
       // Arrange
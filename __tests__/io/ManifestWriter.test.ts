@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { ManifestWriter } from '../../src/io/ManifestWriter';
+import { FileWriteError } from '../../src/errors';
+import type { ExportManifest } from '../../src/types';
+
+describe('ManifestWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'manifest-writer');
+  const outputFile = path.join(testDir, 'orders.csv');
+  const manifestFile = path.join(testDir, 'orders.csv.manifest.json');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('describe', () => {
+    it('should measure the size and SHA-256 digest of a file', async () => {
+      // Arrange
+      const content = 'id,total\n1,9.99\n2,5.00\n';
+      fs.writeFileSync(outputFile, content);
+
+      // Act
+      const result = await ManifestWriter.describe(outputFile, 2);
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        value: {
+          file: outputFile,
+          rows: 2,
+          bytes: Buffer.byteLength(content),
+          sha256: createHash('sha256').update(content).digest('hex'),
+        },
+      });
+    });
+
+    it('should fail for a missing file', async () => {
+      // Act
+      const result = await ManifestWriter.describe(outputFile, 0);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(FileWriteError);
+      }
+    });
+  });
+
+  describe('write', () => {
+    it('should write the manifest as JSON without leaving temp files', async () => {
+      // Arrange
+      const manifest: ExportManifest = {
+        file: outputFile,
+        rows: 2,
+        bytes: 24,
+        sha256: 'abc',
+        config: { type: 'csv', mode: 'write' },
+        startedAt: '2024-01-15T10:30:00.000Z',
+        completedAt: '2024-01-15T10:31:00.000Z',
+      };
+
+      // Act
+      const result = await new ManifestWriter().write(manifestFile, manifest);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(JSON.parse(fs.readFileSync(manifestFile, 'utf-8'))).toEqual(manifest);
+      expect(fs.readdirSync(testDir)).toEqual(['orders.csv.manifest.json']);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { RetryingFileWriter } from '../../src/io/RetryingFileWriter';
+import { NodeFileWriter } from '../../src/io/FileWriter';
+import { FileWriteError, ValidationError } from '../../src/errors';
+import type { FileSink, Result, WriterMode } from '../../src/types';
+
+/**
+ * Node file writer whose operations fail with the given errno codes before succeeding.
+ *
+ * Every call takes the next code; an undefined code lets that call succeed.
+ */
+class FlakyFileWriter extends NodeFileWriter {
+  public calls = 0;
+
+  constructor(
+    private readonly codes: Array<string | undefined>,
+    private readonly syscall = 'write'
+  ) {
+    super();
+  }
+
+  override writeSync(filePath: string, content: string | Uint8Array): Result<void> {
+    const error = this.failure(filePath);
+    return error ? { success: false, error } : super.writeSync(filePath, content);
+  }
+
+  override async write(filePath: string, content: string | Uint8Array): Promise<Result<void>> {
+    const error = this.failure(filePath);
+    return error ? { success: false, error } : await super.write(filePath, content);
+  }
+
+  override async append(filePath: string, content: string | Uint8Array): Promise<Result<void>> {
+    const error = this.failure(filePath);
+    return error ? { success: false, error } : await super.append(filePath, content);
+  }
+
+  override async open(filePath: string, mode: WriterMode): Promise<Result<FileSink>> {
+    const error = this.failure(filePath);
+    if (error) {
+      return { success: false, error };
+    }
+    const opened = await super.open(filePath, mode);
+    if (!opened.success) {
+      return opened;
+    }
+    const sink = opened.value;
+    return {
+      success: true,
+      value: {
+        write: async (content) => {
+          const error = this.failure(filePath);
+          return error ? { success: false, error } : await sink.write(content);
+        },
+        close: () => sink.close(),
+      },
+    };
+  }
+
+  private failure(filePath: string): Error | undefined {
+    const code = this.codes[this.calls++];
+    if (code === undefined) {
+      return undefined;
+    }
+    const cause = Object.assign(new Error(`${code}: resource busy`), {
+      code,
+      syscall: this.syscall,
+    });
+    return new FileWriteError(`Failed to write file: ${filePath}`, cause);
+  }
+}
+
+describe('RetryingFileWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'retrying-file-writer');
+  const testFile = path.join(testDir, 'output.txt');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should retry transient errors until the write succeeds', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EBUSY', 'EAGAIN']);
+    const fileWriter = new RetryingFileWriter({ delayMs: 1 }, inner);
+
+    // Act
+    const result = await fileWriter.write(testFile, 'content');
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(inner.calls).toBe(3);
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('content');
+  });
+
+  it('should retry synchronous operations', () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EBUSY']);
+    const fileWriter = new RetryingFileWriter({ delayMs: 1 }, inner);
+
+    // Act
+    const result = fileWriter.writeSync(testFile, 'content');
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(inner.calls).toBe(2);
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EBUSY', 'EBUSY', 'EBUSY']);
+    const fileWriter = new RetryingFileWriter({ attempts: 2, delayMs: 1 }, inner);
+
+    // Act
+    const result = await fileWriter.write(testFile, 'content');
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(FileWriteError);
+    }
+    expect(inner.calls).toBe(2);
+  });
+
+  it('should not retry errors that are not listed', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EACCES']);
+    const fileWriter = new RetryingFileWriter({ delayMs: 1, retryOn: ['EBUSY'] }, inner);
+
+    // Act
+    const result = await fileWriter.write(testFile, 'content');
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(inner.calls).toBe(1);
+  });
+
+  it('should retry appends that fail to open the file', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EBUSY', 'EMFILE'], 'open');
+    const fileWriter = new RetryingFileWriter({ delayMs: 1 }, inner);
+
+    // Act
+    const result = await fileWriter.append(testFile, 'content');
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(inner.calls).toBe(3);
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('content');
+  });
+
+  it('should not retry appends that may have written part of their content', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EBUSY']);
+    const onRetry = vi.fn();
+    const fileWriter = new RetryingFileWriter({ delayMs: 1 }, inner, onRetry);
+
+    // Act
+    const result = await fileWriter.append(testFile, 'content');
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(inner.calls).toBe(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('should retry opening a sink and sink writes that fail to open the file', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EBUSY', undefined, 'EBUSY'], 'open');
+    const fileWriter = new RetryingFileWriter({ delayMs: 1 }, inner);
+
+    // Act
+    const opened = await fileWriter.open(testFile, 'write');
+    if (!opened.success) {
+      throw opened.error;
+    }
+    const result = await opened.value.write('content');
+    await opened.value.close();
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(inner.calls).toBe(4);
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('content');
+  });
+
+  it('should not retry writes through an open sink', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter([undefined, 'EAGAIN']);
+    const fileWriter = new RetryingFileWriter({ delayMs: 1 }, inner);
+
+    const opened = await fileWriter.open(testFile, 'write');
+    if (!opened.success) {
+      throw opened.error;
+    }
+
+    // Act
+    const result = await opened.value.write('content');
+    await opened.value.close();
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(inner.calls).toBe(2);
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('');
+  });
+
+  it('should report each retry with an exponential delay', async () => {
+    // Arrange
+    const inner = new FlakyFileWriter(['EBUSY', 'EBUSY', 'EBUSY']);
+    const onRetry = vi.fn();
+    const fileWriter = new RetryingFileWriter({ attempts: 4, delayMs: 2 }, inner, onRetry);
+
+    // Act
+    await fileWriter.write(testFile, 'content');
+
+    // Assert
+    expect(onRetry.mock.calls.map(([, context]) => context as unknown)).toEqual([
+      { operation: 'write', path: testFile, attempt: 1, delayMs: 2 },
+      { operation: 'write', path: testFile, attempt: 2, delayMs: 4 },
+      { operation: 'write', path: testFile, attempt: 3, delayMs: 8 },
+    ]);
+    expect(onRetry.mock.calls[0]?.[0]).toBeInstanceOf(FileWriteError);
+  });
+
+  it('should keep a fixed delay and cap it at maxDelayMs', async () => {
+    // Arrange
+    const delays: number[] = [];
+    const onRetry = vi.fn((_error: Error, { delayMs }: { delayMs: number }) => {
+      delays.push(delayMs);
+    });
+    const fixed = new RetryingFileWriter(
+      { backoff: 'fixed', delayMs: 3 },
+      new FlakyFileWriter(['EBUSY', 'EBUSY']),
+      onRetry
+    );
+    const capped = new RetryingFileWriter(
+      { attempts: 4, delayMs: 2, maxDelayMs: 5 },
+      new FlakyFileWriter(['EBUSY', 'EBUSY', 'EBUSY']),
+      onRetry
+    );
+
+    // Act
+    await fixed.write(testFile, 'fixed');
+    await capped.write(testFile, 'capped');
+
+    // Assert
+    expect(delays).toEqual([3, 3, 2, 4, 5]);
+  });
+
+  it('should reject an invalid policy', () => {
+    // Act & Assert
+    expect(() => new RetryingFileWriter({ attempts: 0 })).toThrow(ValidationError);
+    expect(() => new RetryingFileWriter({ delayMs: -1 })).toThrow(
+      'Retry delays must be non-negative numbers'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { CsvParser } from '../../../src/readers/csv/CsvParser';
+import { CsvParseError } from '../../../src/errors';
+
+const parseAll = (parser: CsvParser, chunks: string[]): string[][] =>
+  chunks
+    .flatMap((chunk) => parser.push(chunk))
+    .concat(parser.end())
+    .map((record) => record.fields);
+
+describe('CsvParser', () => {
+  it('should split records and fields', () => {
+    // Arrange
+    const parser = new CsvParser();
+
+    // Act
+    const result = parseAll(parser, ['id,name\n1,Alice\n2,Bob\n']);
+
+    // Assert
+    expect(result).toEqual([
+      ['id', 'name'],
+      ['1', 'Alice'],
+      ['2', 'Bob'],
+    ]);
+  });
+
+  it('should unescape quoted values with delimiters, quotes and line breaks', () => {
+    // Arrange
+    const parser = new CsvParser();
+
+    // Act
+    const result = parseAll(parser, ['"New York, NY","say ""hi""","a\nb"\n']);
+
+    // Assert
+    expect(result).toEqual([['New York, NY', 'say "hi"', 'a\nb']]);
+  });
+
+  it('should handle records split across chunks, CRLF and a missing final line break', () => {
+    // Arrange
+    const parser = new CsvParser();
+
+    // Act
+    const result = parseAll(parser, ['id,na', 'me\r', '\n"1', '""",x\r\n\r\n', '2,']);
+
+    // Assert
+    expect(result).toEqual([
+      ['id', 'name'],
+      ['1"', 'x'],
+      ['2', ''],
+    ]);
+  });
+
+  it('should honor a custom delimiter and quote', () => {
+    // Arrange
+    const parser = new CsvParser(';', "'");
+
+    // Act
+    const result = parseAll(parser, ["a;'b;c'\n"]);
+
+    // Assert
+    expect(result).toEqual([['a', 'b;c']]);
+  });
+
+  it('should unescape characters prefixed with a distinct escape character', () => {
+    // Arrange
+    const parser = new CsvParser(',', '"', '\\');
+
+    // Act
+    const result = parseAll(parser, ['"say \\"hi\\"","C:\\\\temp",a\\,b\\\n', 'c\n']);
+
+    // Assert
+    expect(result).toEqual([['say "hi"', 'C:\\temp', 'a,b\nc']]);
+  });
+
+  it('should report an escape character at the end of the input', () => {
+    // Arrange
+    const parser = new CsvParser(',', '"', '\\');
+    parser.push('a,b\\');
+
+    // Act & Assert
+    expect(() => parser.end()).toThrow(CsvParseError);
+  });
+
+  it('should report the position of a quote in an unquoted field', () => {
+    // Arrange
+    const parser = new CsvParser();
+
+    // Act & Assert
+    expect(() => parser.push('id,name\n1,Al"ice\n')).toThrow(
+      new CsvParseError('Unexpected quote in unquoted field', 2, 5)
+    );
+  });
+
+  it('should report the position of text after a closing quote', () => {
+    // Arrange
+    const parser = new CsvParser();
+
+    // Act & Assert
+    expect(() => parser.push('"a"b\n')).toThrow('Unexpected character after closing quote');
+  });
+
+  it('should report where an unterminated quoted field starts', () => {
+    // Arrange
+    const parser = new CsvParser();
+    parser.push('id,name\n1,"Alice\n2,Bob\n');
+
+    // Act
+    let error: unknown;
+    try {
+      parser.end();
+    } catch (e) {
+      error = e;
+    }
+
+    // Assert
+    expect(error).toBeInstanceOf(CsvParseError);
+    expect(error).toMatchObject({ line: 2, column: 3 });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { CsvReader } from '../../../src/readers/csv/CsvReader';
+import { CsvWriter } from '../../../src/writers/csv/CsvWriter';
+import { CsvParseError, ValidationError } from '../../../src/errors';
+import { outport } from '../../../src/convenience/factory';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+interface TestUser extends Record<string, unknown> {
+  id: number;
+  name: string;
+  active: boolean;
+}
+
+describe('CsvReader', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'csv-reader');
+  const csvFile = path.join(testDir, 'users.csv');
+  const users: TestUser[] = [
+    { id: 1, name: 'Smith, Alice', active: true },
+    { id: 2, name: 'Bob "The Builder"', active: false },
+    { id: 3, name: 'Line1\nLine2', active: true },
+  ];
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a file written by CsvWriter with the same config', async () => {
+    // Arrange
+    const config = {
+      delimiter: ';',
+      includeUtf8Bom: true,
+      columnMapping: { id: 'User ID', name: 'Full Name' },
+    };
+    new CsvWriter<TestUser>({ type: 'csv', mode: 'write', file: csvFile, config }).writeSync(users);
+    const reader = new CsvReader<TestUser>({ file: csvFile, config, inferTypes: true });
+
+    // Act
+    const result = await reader.read();
+
+    // Assert
+    expect(result).toEqual({ success: true, value: users });
+  });
+
+  it('should round-trip files written with an escape character', async () => {
+    // Arrange
+    const quotedFile = path.join(testDir, 'quoted.csv');
+    await outport<TestUser>().to(quotedFile).withEscape('\\').write(users);
+    await outport<TestUser>().to(csvFile).withQuoteMode('none').withEscape('\\').write(users);
+    const config = { escape: '\\' };
+
+    // Act
+    const quoted = await new CsvReader<TestUser>({
+      file: quotedFile,
+      config,
+      inferTypes: true,
+    }).read();
+    const unquoted = await new CsvReader<TestUser>({
+      file: csvFile,
+      config,
+      inferTypes: true,
+    }).read();
+
+    // Assert
+    expect(quoted).toEqual({ success: true, value: users });
+    expect(unquoted).toEqual({ success: true, value: users });
+  });
+
+  it('should read values as strings unless inferring types', () => {
+    // Arrange
+    fs.writeFileSync(csvFile, 'id,code,flag\n7,007,true\n');
+    const reader = new CsvReader({ file: csvFile });
+
+    // Act
+    const result = reader.readSync();
+
+    // Assert
+    expect(result).toEqual({ success: true, value: [{ id: '7', code: '007', flag: 'true' }] });
+    expect(new CsvReader({ file: csvFile, inferTypes: true }).readSync()).toEqual({
+      success: true,
+      value: [{ id: 7, code: '007', flag: true }],
+    });
+  });
+
+  it('should map explicit headers back to the included keys', () => {
+    // Arrange
+    const config = {
+      headers: ['ID', 'Name'],
+      includeKeys: ['id', 'name'] as Array<keyof TestUser>,
+    };
+    new CsvWriter<TestUser>({ type: 'csv', mode: 'write', file: csvFile, config }).writeSync(users);
+
+    // Act
+    const result = new CsvReader<TestUser>({ file: csvFile, config, inferTypes: true }).readSync();
+
+    // Assert
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value[0]).toEqual({ id: 1, name: 'Smith, Alice' });
+    }
+  });
+
+  it('should stream rows into another export and read compressed files', async () => {
+    // Arrange
+    const gzipFile = path.join(testDir, 'users.csv.gz');
+    const jsonlFile = path.join(testDir, 'users.jsonl');
+    await outport<TestUser>().to(gzipFile).write(users);
+
+    // Act
+    const result = await outport<TestUser>()
+      .to(jsonlFile)
+      .fromAsyncGenerator(new CsvReader<TestUser>({ file: gzipFile, inferTypes: true }));
+
+    // Assert
+    expect(result).toEqual({ success: true, value: 3 });
+    const lines = fs.readFileSync(jsonlFile, 'utf-8').trim().split('\n');
+    expect(JSON.parse(lines[2]!)).toEqual(users[2]);
+  });
+
+  it('should report a row with the wrong number of fields by line and column', async () => {
+    // Arrange
+    fs.writeFileSync(csvFile, 'id,name\n1,Alice\n2,Bob,extra\n');
+    const reader = new CsvReader({ file: csvFile });
+
+    // Act
+    const result = await reader.read();
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(CsvParseError);
+      expect(result.error).toMatchObject({ line: 3, column: 7 });
+      expect(result.error.message).toBe('Expected 2 fields but found 3 (line 3, column 7)');
+    }
+  });
+
+  it('should return error when the file does not exist', () => {
+    // Arrange
+    const reader = new CsvReader({ file: path.join(testDir, 'missing.csv') });
+
+    // Act
+    const result = reader.readSync();
+
+    // Assert
+    expect(result.success).toBe(false);
+  });
+
+  it('should throw error for a non-csv file or invalid delimiter', () => {
+    // Act & Assert
+    expect(() => new CsvReader({ file: path.join(testDir, 'users.json') })).toThrow(
+      ValidationError
+    );
+    expect(() => new CsvReader({ file: csvFile, config: { delimiter: ';;' } })).toThrow(
+      'Delimiter must be a single character'
+    );
+    expect(() => new CsvReader({ file: csvFile, config: { escape: ',' } })).toThrow(
+      'Delimiter and escape character must be different'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { JsonReader } from '../../../src/readers/json/JsonReader';
+import { JsonArrayParser } from '../../../src/readers/json/JsonArrayParser';
+import { JsonWriter } from '../../../src/writers/json/JsonWriter';
+import { JsonParseError, ValidationError } from '../../../src/errors';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+interface TestProduct extends Record<string, unknown> {
+  id: number;
+  name: string;
+  tags: string[];
+}
+
+describe('JsonReader', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'json-reader');
+  const jsonFile = path.join(testDir, 'products.json');
+  const products: TestProduct[] = [
+    { id: 1, name: 'Brace } in "name"', tags: ['a', ']'] },
+    { id: 2, name: 'Plain', tags: [] },
+  ];
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a file written by JsonWriter', async () => {
+    // Arrange
+    new JsonWriter<TestProduct>({ type: 'json', mode: 'write', file: jsonFile }).writeSync(
+      products
+    );
+    const reader = new JsonReader<TestProduct>({ file: jsonFile });
+
+    // Act
+    const result = await reader.read();
+
+    // Assert
+    expect(result).toEqual({ success: true, value: products });
+    expect(reader.readSync()).toEqual({ success: true, value: products });
+  });
+
+  it('should yield objects split across chunks', () => {
+    // Arrange
+    const parser = new JsonArrayParser();
+
+    // Act
+    const first = parser.push('[{"id":1,"name":"a\\"');
+    const second = parser.push('}"},\n {"id":2}]');
+    parser.end();
+
+    // Assert
+    expect(first).toEqual([]);
+    expect(second).toEqual([{ id: 1, name: 'a"}' }, { id: 2 }]);
+  });
+
+  it('should return error with the line of an invalid object', async () => {
+    // Arrange
+    fs.writeFileSync(jsonFile, '[\n  {"id": 1},\n  {"id": }\n]');
+    const reader = new JsonReader({ file: jsonFile });
+
+    // Act
+    const result = await reader.read();
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(JsonParseError);
+      expect(result.error).toMatchObject({ line: 3 });
+    }
+  });
+
+  it('should return error when the file is not an array of objects', () => {
+    // Arrange
+    fs.writeFileSync(jsonFile, '[1, 2]');
+
+    // Act
+    const result = new JsonReader({ file: jsonFile }).readSync();
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toBe('Expected an object in JSON array (line 1)');
+    }
+  });
+
+  it('should return error for a truncated array', () => {
+    // Arrange
+    fs.writeFileSync(jsonFile, '[{"id": 1},');
+
+    // Act
+    const result = new JsonReader({ file: jsonFile }).readSync();
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain('Unexpected end of JSON array');
+    }
+  });
+
+  it('should throw error for a non-json file', () => {
+    // Act & Assert
+    expect(() => new JsonReader({ file: path.join(testDir, 'products.csv') })).toThrow(
+      ValidationError
+    );
+  });
+});
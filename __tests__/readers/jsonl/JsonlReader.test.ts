@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { JsonlReader } from '../../../src/readers/jsonl/JsonlReader';
+import { JsonlWriter } from '../../../src/writers/jsonl/JsonlWriter';
+import { JsonParseError, ValidationError } from '../../../src/errors';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+interface TestEvent extends Record<string, unknown> {
+  id: number;
+  type: string;
+}
+
+describe('JsonlReader', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'jsonl-reader');
+  const jsonlFile = path.join(testDir, 'events.jsonl');
+  const events: TestEvent[] = [
+    { id: 1, type: 'click' },
+    { id: 2, type: 'view' },
+  ];
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a compressed file written by JsonlWriter', async () => {
+    // Arrange
+    const gzipFile = path.join(testDir, 'events.jsonl.gz');
+    await new JsonlWriter<TestEvent>({
+      type: 'jsonl',
+      mode: 'write',
+      file: gzipFile,
+      compression: 'gzip',
+    }).write(events);
+    const reader = new JsonlReader<TestEvent>({ file: gzipFile });
+
+    // Act
+    const result = await reader.read();
+
+    // Assert
+    expect(result).toEqual({ success: true, value: events });
+  });
+
+  it('should skip blank lines and accept CRLF line endings', () => {
+    // Arrange
+    fs.writeFileSync(jsonlFile, '{"id":1,"type":"click"}\r\n\r\n{"id":2,"type":"view"}');
+
+    // Act
+    const result = new JsonlReader<TestEvent>({ file: jsonlFile }).readSync();
+
+    // Assert
+    expect(result).toEqual({ success: true, value: events });
+  });
+
+  it('should return error with the line number of an invalid line', async () => {
+    // Arrange
+    fs.writeFileSync(jsonlFile, '{"id":1}\n\n[1,2]\n');
+
+    // Act
+    const result = await new JsonlReader({ file: jsonlFile }).read();
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(JsonParseError);
+      expect(result.error.message).toBe('Expected a JSON object (line 3)');
+    }
+  });
+
+  it('should throw error for a non-jsonl file', () => {
+    // Act & Assert
+    expect(() => new JsonlReader({ file: path.join(testDir, 'events.json') })).toThrow(
+      ValidationError
+    );
+  });
+});
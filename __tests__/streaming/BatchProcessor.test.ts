@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
+import { setTimeout as sleep } from 'node:timers/promises';
 import { BatchProcessor } from '../../src/streaming/BatchProcessor';
+import { AbortedError } from '../../src/errors';
 
 interface TestItem extends Record<string, unknown> {
   id: number;
@@ -31,6 +33,20 @@ describe('BatchProcessor', () => {
       expect(batches[2]).toHaveLength(2);
     });
 
+    it('should process arrays in batches', async () => {
+      const processor = new BatchProcessor<TestItem>(2);
+      const items: TestItem[] = [1, 2, 3].map((id) => ({ id, value: `item${id}` }));
+      const sizes: number[] = [];
+
+      const total = await processor.process(items, async (batch) => {
+        await Promise.resolve();
+        sizes.push(batch.length);
+      });
+
+      expect(total).toBe(3);
+      expect(sizes).toEqual([2, 1]);
+    });
+
     it('should handle empty generator', async () => {
       async function* empty(): AsyncGenerator<TestItem> {
         // Empty
@@ -123,4 +139,78 @@ describe('BatchProcessor', () => {
       expect(batches[2]).toHaveLength(1);
     });
   });
+
+  describe('Cancellation', () => {
+    it('should stop pulling and close the source when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const pulled: number[] = [];
+      let closed = false;
+      async function* source(): AsyncGenerator<TestItem> {
+        try {
+          for await (const item of generateItems(10)) {
+            pulled.push(item.id);
+            yield item;
+          }
+        } finally {
+          closed = true;
+        }
+      }
+
+      const processor = new BatchProcessor<TestItem>(2);
+      const batches: number[] = [];
+      const promise = processor.process(
+        source(),
+        async (batch, batchNumber) => {
+          await Promise.resolve();
+          batches.push(batchNumber);
+          if (batchNumber === 2) {
+            controller.abort('cancelled by user');
+          }
+        },
+        controller.signal
+      );
+
+      const error = await promise.catch((error: unknown) => error);
+      expect(error).toBeInstanceOf(AbortedError);
+      expect((error as AbortedError).reason).toBe('cancelled by user');
+      expect(batches).toEqual([1, 2]);
+      expect(pulled).toEqual([1, 2, 3, 4]);
+      expect(closed).toBe(true);
+    });
+
+    it('should stop while waiting for the next item', async () => {
+      const controller = new AbortController();
+      let release = (): void => undefined;
+      async function* source(): AsyncGenerator<TestItem> {
+        yield { id: 1, value: 'item1' };
+        await new Promise<void>((resolve) => (release = resolve));
+        yield { id: 2, value: 'item2' };
+      }
+
+      const processor = new BatchProcessor<TestItem>(10);
+      const promise = processor.process(source(), () => Promise.resolve(), controller.signal);
+      await sleep(10);
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(AbortedError);
+      release();
+    });
+
+    it('should not process anything when the signal is already aborted', async () => {
+      const processor = new BatchProcessor<TestItem>(2);
+      const batches: TestItem[][] = [];
+
+      const promise = processor.process(
+        generateItems(4),
+        async (batch) => {
+          await Promise.resolve();
+          batches.push(batch);
+        },
+        AbortSignal.abort()
+      );
+
+      await expect(promise).rejects.toThrow('Export was aborted');
+      expect(batches).toHaveLength(0);
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { CheckpointWriter } from '../../src/streaming/CheckpointWriter';
+import { StreamingWriter } from '../../src/streaming/StreamingWriter';
+import { CountingFileWriter } from '../../src/io/CountingFileWriter';
+import { CsvWriter } from '../../src/writers/csv/CsvWriter';
+import { ValidationError } from '../../src/errors';
+import type { Checkpoint } from '../../src/types';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+interface TestUser extends Record<string, unknown> {
+  id: number;
+  name: string;
+}
+
+describe('CheckpointWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'checkpoint-writer');
+  const csvFile = path.join(testDir, 'users.csv');
+  const checkpointFile = path.join(testDir, 'users.csv.checkpoint.json');
+
+  const readCheckpoint = (): Checkpoint =>
+    JSON.parse(fs.readFileSync(checkpointFile, 'utf-8')) as Checkpoint;
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  async function* generateUsers(from: number, to: number): AsyncGenerator<TestUser> {
+    for (let i = from; i <= to; i++) {
+      await Promise.resolve();
+      yield { id: i, name: `User${i}` };
+    }
+  }
+
+  describe('commit', () => {
+    it('should save a checkpoint after each batch written by a streaming writer', async () => {
+      // Arrange
+      const fileWriter = new CountingFileWriter();
+      const checkpoints = new CheckpointWriter<TestUser>(
+        checkpointFile,
+        csvFile,
+        fileWriter,
+        (user) => user.id
+      );
+      const writer = new CsvWriter<TestUser>(
+        { type: 'csv', mode: 'write', file: csvFile },
+        fileWriter
+      );
+
+      // Act
+      const result = await new StreamingWriter(writer, {
+        batchSize: 2,
+        checkpoint: checkpoints,
+      }).stream(generateUsers(1, 5));
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(readCheckpoint()).toEqual({
+        file: csvFile,
+        batchNumber: 3,
+        records: 5,
+        bytes: fs.statSync(csvFile).size,
+        cursor: 5,
+      });
+    });
+
+    it('should continue the counts of the checkpoint it resumes from', async () => {
+      // Arrange
+      const fileWriter = new CountingFileWriter();
+      fs.writeFileSync(csvFile, 'id,name\n1,User1\n');
+      await fileWriter.truncate(csvFile, 16);
+      const checkpoints = new CheckpointWriter<TestUser>(
+        checkpointFile,
+        csvFile,
+        fileWriter,
+        undefined,
+        { file: csvFile, batchNumber: 1, records: 1, bytes: 16 }
+      );
+      await fileWriter.append(csvFile, '2,User2\n');
+
+      // Act
+      const result = await checkpoints.commit([{ id: 2, name: 'User2' }]);
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        value: { file: csvFile, batchNumber: 2, records: 2, bytes: 24 },
+      });
+    });
+  });
+
+  describe('load', () => {
+    it('should return undefined when there is no checkpoint file', async () => {
+      // Act
+      const result = await CheckpointWriter.load(checkpointFile);
+
+      // Assert
+      expect(result).toEqual({ success: true, value: undefined });
+    });
+
+    it('should reject a checkpoint file that is not a checkpoint', async () => {
+      // Arrange
+      fs.writeFileSync(checkpointFile, '{"file": "users.csv"}');
+
+      // Act
+      const result = await CheckpointWriter.load(checkpointFile);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+  });
+
+  describe('rewind', () => {
+    it('should truncate the output to the checkpoint offset', async () => {
+      // Arrange
+      fs.writeFileSync(csvFile, 'id,name\n1,User1\n2,Us');
+      const checkpoints = new CheckpointWriter<TestUser>(
+        checkpointFile,
+        csvFile,
+        new CountingFileWriter(),
+        undefined,
+        { file: csvFile, batchNumber: 1, records: 1, bytes: 16 }
+      );
+
+      // Act
+      const result = await checkpoints.rewind();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toBe('id,name\n1,User1\n');
+    });
+
+    it('should fail when the output is smaller than the checkpoint', async () => {
+      // Arrange
+      fs.writeFileSync(csvFile, 'id,name\n');
+      const checkpoints = new CheckpointWriter<TestUser>(
+        checkpointFile,
+        csvFile,
+        new CountingFileWriter(),
+        undefined,
+        { file: csvFile, batchNumber: 1, records: 1, bytes: 16 }
+      );
+
+      // Act
+      const result = await checkpoints.rewind();
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(fs.readFileSync(csvFile, 'utf-8')).toBe('id,name\n');
+    });
+  });
+});
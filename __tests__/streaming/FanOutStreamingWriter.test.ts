@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { FanOutStreamingWriter } from '../../src/streaming/FanOutStreamingWriter';
+import { CsvWriter } from '../../src/writers/csv/CsvWriter';
+import { JsonWriter } from '../../src/writers/json/JsonWriter';
+import { JsonlWriter } from '../../src/writers/jsonl/JsonlWriter';
+import type { OutportWriter, Result } from '../../src/types';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+interface TestOrder extends Record<string, unknown> {
+  id: number;
+  total: number;
+}
+
+describe('FanOutStreamingWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'fan-out-streaming');
+  const csvFile = path.join(testDir, 'orders.csv');
+  const jsonFile = path.join(testDir, 'orders.json');
+  const jsonlFile = path.join(testDir, 'orders.jsonl');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  async function* generateOrders(count: number): AsyncGenerator<TestOrder> {
+    for (let i = 1; i <= count; i++) {
+      await Promise.resolve();
+      yield { id: i, total: i * 10 };
+    }
+  }
+
+  const failingWriter = (afterBatches: number): OutportWriter<TestOrder> => {
+    let batches = 0;
+    const failOrSucceed = (): Promise<Result<void>> => {
+      batches++;
+      return Promise.resolve(
+        batches > afterBatches
+          ? { success: false, error: new Error('Disk full') }
+          : { success: true, value: undefined }
+      );
+    };
+    return {
+      writeSync: () => ({ success: true, value: undefined }),
+      write: failOrSucceed,
+      appendSync: () => ({ success: true, value: undefined }),
+      append: failOrSucceed,
+    };
+  };
+
+  it('should write every record to every target in a single pass', async () => {
+    // Arrange
+    const progress: number[] = [];
+    const fanOut = new FanOutStreamingWriter<TestOrder>(
+      [
+        {
+          writer: new CsvWriter<TestOrder>({ type: 'csv', mode: 'write', file: csvFile }),
+          onProgress: (count) => {
+            progress.push(count);
+          },
+        },
+        { writer: new JsonWriter<TestOrder>({ type: 'json', mode: 'write', file: jsonFile }) },
+        { writer: new JsonlWriter<TestOrder>({ type: 'jsonl', mode: 'write', file: jsonlFile }) },
+      ],
+      { batchSize: 2 }
+    );
+
+    // Act
+    const result = await fanOut.stream(generateOrders(5));
+
+    // Assert
+    expect(result).toEqual({
+      success: true,
+      value: [
+        { success: true, value: 5 },
+        { success: true, value: 5 },
+        { success: true, value: 5 },
+      ],
+    });
+    expect(progress).toEqual([2, 4, 5]);
+    expect(fs.readFileSync(csvFile, 'utf-8').trim().split('\n')).toHaveLength(6);
+    const json = JSON.parse(fs.readFileSync(jsonFile, 'utf-8')) as TestOrder[];
+    expect(json.map((order) => order.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(fs.readFileSync(jsonlFile, 'utf-8').trim().split('\n')).toHaveLength(5);
+  });
+
+  it('should keep writing the other targets when one fails', async () => {
+    // Arrange
+    const fanOut = new FanOutStreamingWriter<TestOrder>(
+      [
+        { writer: failingWriter(1) },
+        { writer: new JsonWriter<TestOrder>({ type: 'json', mode: 'write', file: jsonFile }) },
+      ],
+      { batchSize: 2 }
+    );
+
+    // Act
+    const result = await fanOut.stream(generateOrders(5));
+
+    // Assert
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const [failed, succeeded] = result.value;
+      expect(failed).toEqual({ success: false, error: new Error('Disk full') });
+      expect(succeeded).toEqual({ success: true, value: 5 });
+    }
+    const json = JSON.parse(fs.readFileSync(jsonFile, 'utf-8')) as TestOrder[];
+    expect(json).toHaveLength(5);
+  });
+
+  it('should stop reading the source once every target has failed', async () => {
+    // Arrange
+    let read = 0;
+    async function* countingSource(): AsyncGenerator<TestOrder> {
+      for await (const order of generateOrders(100)) {
+        read++;
+        yield order;
+      }
+    }
+    const fanOut = new FanOutStreamingWriter<TestOrder>([{ writer: failingWriter(0) }], {
+      batchSize: 10,
+    });
+
+    // Act
+    const result = await fanOut.stream(countingSource());
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(read).toBeLessThan(100);
+  });
+
+  it('should return error when the source fails', async () => {
+    // Arrange
+    async function* brokenSource(): AsyncGenerator<TestOrder> {
+      await Promise.resolve();
+      yield { id: 1, total: 10 };
+      throw new Error('Connection lost');
+    }
+    const fanOut = new FanOutStreamingWriter<TestOrder>([
+      { writer: new CsvWriter<TestOrder>({ type: 'csv', mode: 'write', file: csvFile }) },
+    ]);
+
+    // Act
+    const result = await fanOut.stream(brokenSource());
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toBe('Connection lost');
+    }
+  });
+});
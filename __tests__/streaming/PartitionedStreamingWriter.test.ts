@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { PartitionedStreamingWriter } from '../../src/streaming/PartitionedStreamingWriter';
+import { CsvWriter } from '../../src/writers/csv/CsvWriter';
+import { JsonWriter } from '../../src/writers/json/JsonWriter';
+import { ValidationError } from '../../src/errors';
+import type { PartWriterFactory } from '../../src/streaming/SplitStreamingWriter';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+interface TestOrder extends Record<string, unknown> {
+  id: number;
+  region: string;
+  total: number;
+}
+
+describe('PartitionedStreamingWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'partitioned-streaming');
+  const template = path.join(testDir, '{partition}', 'orders.csv');
+
+  const csvPartitions: PartWriterFactory<TestOrder> = (file, fileWriter) =>
+    new CsvWriter<TestOrder>({ type: 'csv', mode: 'write', file }, fileWriter);
+
+  const readLines = (region: string): string[] =>
+    fs
+      .readFileSync(path.join(testDir, region, 'orders.csv'), 'utf-8')
+      .trim()
+      .split('\n');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  async function* generateOrders(count: number): AsyncGenerator<TestOrder> {
+    const regions = ['emea', 'apac', 'amer'];
+    for (let i = 1; i <= count; i++) {
+      await Promise.resolve();
+      yield { id: i, region: regions[i % 3]!, total: i * 10 };
+    }
+  }
+
+  it('should write each partition to its own file with its own header', async () => {
+    // Arrange
+    const writer = new PartitionedStreamingWriter(
+      csvPartitions,
+      template,
+      (order) => order.region,
+      { batchSize: 4 }
+    );
+
+    // Act
+    const result = await writer.stream(generateOrders(10));
+
+    // Assert
+    expect(result).toEqual({
+      success: true,
+      value: [
+        { partition: 'apac', file: path.join(testDir, 'apac', 'orders.csv'), rows: 4 },
+        { partition: 'amer', file: path.join(testDir, 'amer', 'orders.csv'), rows: 3 },
+        { partition: 'emea', file: path.join(testDir, 'emea', 'orders.csv'), rows: 3 },
+      ],
+    });
+    expect(readLines('amer')).toEqual(['id,region,total', '2,amer,20', '5,amer,50', '8,amer,80']);
+    expect(readLines('emea')[0]).toBe('id,region,total');
+  });
+
+  it('should finalize every JSON partition as a complete document', async () => {
+    // Arrange
+    const writer = new PartitionedStreamingWriter<TestOrder>(
+      (file, fileWriter) =>
+        new JsonWriter<TestOrder>({ type: 'json', mode: 'write', file }, fileWriter),
+      path.join(testDir, 'orders-{partition}.json'),
+      (order) => order.region,
+      { batchSize: 2 }
+    );
+
+    // Act
+    const result = await writer.stream(generateOrders(9));
+
+    // Assert
+    expect(result.success).toBe(true);
+    const apac = JSON.parse(
+      fs.readFileSync(path.join(testDir, 'orders-apac.json'), 'utf-8')
+    ) as TestOrder[];
+    expect(apac.map((order) => order.id)).toEqual([1, 4, 7]);
+  });
+
+  it('should accept an array source and numeric keys', async () => {
+    // Arrange
+    const orders: TestOrder[] = [
+      { id: 1, region: 'emea', total: 5 },
+      { id: 2, region: 'emea', total: 15 },
+    ];
+    const writer = new PartitionedStreamingWriter(csvPartitions, template, (order) =>
+      order.total > 10 ? 1 : 0
+    );
+
+    // Act
+    const result = await writer.stream(orders);
+
+    // Assert
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.map((summary) => summary.partition)).toEqual(['0', '1']);
+    }
+  });
+
+  it('should return error for a partition value that is not a path segment', async () => {
+    // Arrange
+    const writer = new PartitionedStreamingWriter(csvPartitions, template, () => '../escape');
+
+    // Act
+    const result = await writer.stream(generateOrders(2));
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error.message).toContain('Invalid partition value');
+    }
+  });
+
+  it('should throw error when the path template has no placeholder', () => {
+    // Act & Assert
+    expect(
+      () =>
+        new PartitionedStreamingWriter(csvPartitions, path.join(testDir, 'orders.csv'), () => 'x')
+    ).toThrow('Partitioned output path must contain {partition}');
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { SplitStreamingWriter } from '../../src/streaming/SplitStreamingWriter';
+import { CsvWriter } from '../../src/writers/csv/CsvWriter';
+import { JsonWriter } from '../../src/writers/json/JsonWriter';
+import type { PartWriterFactory } from '../../src/streaming/SplitStreamingWriter';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+interface TestUser extends Record<string, unknown> {
+  id: number;
+  name: string;
+  email: string;
+}
+
+describe('SplitStreamingWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'split-streaming');
+  const csvFile = path.join(testDir, 'users.csv');
+  const jsonFile = path.join(testDir, 'users.json');
+
+  const csvParts: PartWriterFactory<TestUser> = (file, fileWriter) =>
+    new CsvWriter<TestUser>({ type: 'csv', mode: 'write', file }, fileWriter);
+
+  const readLines = (file: string): string[] => fs.readFileSync(file, 'utf-8').trim().split('\n');
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  async function* generateUsers(count: number): AsyncGenerator<TestUser> {
+    for (let i = 1; i <= count; i++) {
+      await Promise.resolve();
+      yield { id: i, name: `User${i}`, email: `user${i}@example.com` };
+    }
+  }
+
+  describe('row limit', () => {
+    it('should roll over to numbered CSV files that each have a header', async () => {
+      // Arrange
+      const writer = new SplitStreamingWriter(csvParts, csvFile, { rows: 10 }, { batchSize: 4 });
+
+      // Act
+      const result = await writer.stream(generateUsers(25));
+
+      // Assert
+      expect(result).toEqual({ success: true, value: 25 });
+      expect(fs.readdirSync(testDir).sort()).toEqual([
+        'users-0001.csv',
+        'users-0002.csv',
+        'users-0003.csv',
+      ]);
+      const second = readLines(path.join(testDir, 'users-0002.csv'));
+      expect(second[0]).toBe('id,name,email');
+      expect(second).toHaveLength(11);
+      expect(second[1]).toBe('11,User11,user11@example.com');
+      expect(readLines(path.join(testDir, 'users-0003.csv'))).toHaveLength(6);
+    });
+
+    it('should write each JSON part as a standalone document', async () => {
+      // Arrange
+      const writer = new SplitStreamingWriter<TestUser>(
+        (file, fileWriter) =>
+          new JsonWriter<TestUser>({ type: 'json', mode: 'write', file }, fileWriter),
+        jsonFile,
+        { rows: 7 }
+      );
+
+      // Act
+      const result = await writer.stream(generateUsers(10));
+
+      // Assert
+      expect(result.success).toBe(true);
+      const first = JSON.parse(
+        fs.readFileSync(path.join(testDir, 'users-0001.json'), 'utf-8')
+      ) as TestUser[];
+      const second = JSON.parse(
+        fs.readFileSync(path.join(testDir, 'users-0002.json'), 'utf-8')
+      ) as TestUser[];
+      expect(first).toHaveLength(7);
+      expect(second.map((user) => user.id)).toEqual([8, 9, 10]);
+    });
+  });
+
+  describe('byte limit', () => {
+    it('should keep parts within the byte limit when rows are similar in size', async () => {
+      // Arrange
+      async function* sameSizeUsers(): AsyncGenerator<TestUser> {
+        for (let i = 100; i < 300; i++) {
+          await Promise.resolve();
+          yield { id: i, name: `User${i}`, email: `user${i}@example.com` };
+        }
+      }
+      const writer = new SplitStreamingWriter(csvParts, csvFile, { bytes: 1000 }, { batchSize: 5 });
+
+      // Act
+      const result = await writer.stream(sameSizeUsers());
+
+      // Assert
+      expect(result.success).toBe(true);
+      const parts = fs.readdirSync(testDir).sort();
+      expect(parts.length).toBeGreaterThan(5);
+      let rows = 0;
+      for (const part of parts) {
+        const file = path.join(testDir, part);
+        expect(fs.statSync(file).size).toBeLessThanOrEqual(1000);
+        rows += readLines(file).length - 1;
+      }
+      expect(rows).toBe(200);
+    });
+
+    it('should keep parts within the byte limit when row sizes vary', async () => {
+      // Arrange
+      async function* mixedUsers(): AsyncGenerator<TestUser> {
+        for (let i = 1; i <= 60; i++) {
+          await Promise.resolve();
+          const note = i % 7 === 0 ? 'x'.repeat(150) : '';
+          yield { id: i, name: `User${i}${note}`, email: `user${i}@example.com` };
+        }
+      }
+      const writer = new SplitStreamingWriter(csvParts, csvFile, { bytes: 200 }, { batchSize: 50 });
+
+      // Act
+      const result = await writer.stream(mixedUsers());
+
+      // Assert
+      expect(result).toEqual({ success: true, value: 60 });
+      const ids: number[] = [];
+      for (const part of fs.readdirSync(testDir).sort()) {
+        const file = path.join(testDir, part);
+        expect(fs.statSync(file).size).toBeLessThanOrEqual(200);
+        ids.push(
+          ...readLines(file)
+            .slice(1)
+            .map((line) => Number(line.split(',')[0]))
+        );
+      }
+      expect(ids).toEqual(Array.from({ length: 60 }, (_, index) => index + 1));
+    });
+
+    it('should split a first batch that is larger than the limit, counting the JSON footer', async () => {
+      // Arrange
+      const writer = new SplitStreamingWriter<TestUser>(
+        (file, fileWriter) =>
+          new JsonWriter<TestUser>({ type: 'json', mode: 'write', file }, fileWriter),
+        jsonFile,
+        { bytes: 200 },
+        { batchSize: 100 }
+      );
+
+      // Act
+      const result = await writer.stream(generateUsers(10));
+
+      // Assert
+      expect(result.success).toBe(true);
+      const parts = writer.getParts();
+      expect(parts.length).toBeGreaterThan(1);
+      const ids: number[] = [];
+      for (const part of parts) {
+        expect(fs.statSync(part.file).size).toBeLessThanOrEqual(200);
+        const users = JSON.parse(fs.readFileSync(part.file, 'utf-8')) as TestUser[];
+        expect(users).toHaveLength(part.rows);
+        ids.push(...users.map((user) => user.id));
+      }
+      expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it('should fill a part up to the exact byte limit', async () => {
+      // Arrange
+      const header = 'id,name,email\n';
+      const row = '1,User1,user1@example.com\n';
+      const limit = header.length + row.length * 3;
+      const writer = new SplitStreamingWriter(csvParts, csvFile, { bytes: limit });
+
+      // Act
+      const result = await writer.stream(generateUsers(9));
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(writer.getParts().map((part) => part.rows)).toEqual([3, 3, 3]);
+      expect(fs.statSync(path.join(testDir, 'users-0001.csv')).size).toBe(limit);
+    });
+
+    it('should fail when a single record does not fit within the limit', async () => {
+      // Arrange
+      const writer = new SplitStreamingWriter(csvParts, csvFile, { bytes: 30 });
+
+      // Act
+      const result = await writer.stream(generateUsers(1));
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('A record does not fit in a file of 30 bytes');
+      }
+    });
+
+    it('should reject a byte limit for compressed output', () => {
+      // Act & Assert
+      expect(() => new SplitStreamingWriter(csvParts, `${csvFile}.gz`, { bytes: 1000 })).toThrow(
+        'A split bytes limit cannot be used with compressed output'
+      );
+    });
+
+    it('should report progress across parts', async () => {
+      // Arrange
+      const progress: number[] = [];
+      const writer = new SplitStreamingWriter(
+        csvParts,
+        csvFile,
+        { rows: 5 },
+        { batchSize: 4, onProgress: (current) => void progress.push(current) }
+      );
+
+      // Act
+      await writer.stream(generateUsers(10));
+
+      // Assert
+      expect(progress).toEqual([4, 8, 10]);
+    });
+  });
+
+  describe('errors', () => {
+    it('should return error when the source fails', async () => {
+      // Arrange
+      async function* failing(): AsyncGenerator<TestUser> {
+        yield* generateUsers(3);
+        throw new Error('Source failed');
+      }
+      const writer = new SplitStreamingWriter(csvParts, csvFile, { rows: 2 }, { batchSize: 1 });
+
+      // Act
+      const result = await writer.stream(failing());
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('Source failed');
+      }
+    });
+
+    it('should throw error without a limit', () => {
+      // Act & Assert
+      expect(() => new SplitStreamingWriter(csvParts, csvFile, {})).toThrow(
+        'splitEvery requires a rows or bytes limit'
+      );
+      expect(() => new SplitStreamingWriter(csvParts, csvFile, { rows: 0 })).toThrow(
+        'Split rows limit must be a positive integer'
+      );
+    });
+  });
+
+  describe('partPath', () => {
+    it('should number the part before the format and compression extensions', () => {
+      expect(SplitStreamingWriter.partPath('users.csv', 1)).toBe('users-0001.csv');
+      expect(SplitStreamingWriter.partPath('out/events.jsonl.gz', 12)).toBe(
+        'out/events-0012.jsonl.gz'
+      );
+      expect(SplitStreamingWriter.partPath('my.data.json', 3)).toBe('my.data-0003.json');
+    });
+  });
+});
@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { StreamingWriter } from '../../src/streaming/StreamingWriter';
 import { outport } from '../../src/convenience/factory';
 import { CsvWriter } from '../../src/writers/csv/CsvWriter';
+import { JsonWriter } from '../../src/writers/json/JsonWriter';
+import { AbortedError } from '../../src/errors';
+import type { OutportWriter, Result } from '../../src/types';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 
@@ -14,6 +17,7 @@ interface TestUser extends Record<string, unknown> {
 describe('StreamingWriter', () => {
   const testDir = path.join(process.cwd(), '__tests__', 'temp', 'streaming');
   const csvFile = path.join(testDir, 'stream-users.csv');
+  const jsonFile = path.join(testDir, 'stream-users.json');
 
   beforeEach(() => {
     if (!fs.existsSync(testDir)) {
@@ -22,9 +26,11 @@ describe('StreamingWriter', () => {
   });
 
   afterEach(() => {
-    if (fs.existsSync(csvFile)) {
-      fs.unlinkSync(csvFile);
-    }
+    [csvFile, jsonFile].forEach((file) => {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    });
   });
 
   // Helper async generator
@@ -107,6 +113,57 @@ describe('StreamingWriter', () => {
     });
   });
 
+  describe('Writer Lifecycle', () => {
+    it('should open the writer before streaming and close it afterwards', async () => {
+      const calls: string[] = [];
+      const ok = { success: true as const, value: undefined };
+      const writer: OutportWriter<TestUser> = {
+        writeSync: vi.fn(),
+        appendSync: vi.fn(),
+        write: vi.fn(() => (calls.push('write'), Promise.resolve(ok))),
+        append: vi.fn(() => (calls.push('append'), Promise.resolve(ok))),
+        open: vi.fn(() => (calls.push('open'), Promise.resolve(ok))),
+        close: vi.fn(() => (calls.push('close'), Promise.resolve(ok))),
+      };
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 5 });
+      const result = await streamWriter.stream(generateUsers(12));
+
+      expect(result.success).toBe(true);
+      expect(calls).toEqual(['open', 'write', 'append', 'append', 'close']);
+    });
+
+    it('should close the writer when streaming fails', async () => {
+      const ok = { success: true as const, value: undefined };
+      const writer: OutportWriter<TestUser> = {
+        writeSync: vi.fn(),
+        appendSync: vi.fn(),
+        write: vi.fn().mockResolvedValue({ success: false, error: new Error('Disk full') }),
+        append: vi.fn(),
+        open: vi.fn().mockResolvedValue(ok),
+        close: vi.fn().mockResolvedValue(ok),
+      };
+
+      const streamWriter = new StreamingWriter(writer);
+      const result = await streamWriter.stream(generateUsers(3));
+
+      expect(result.success).toBe(false);
+      expect(writer.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should produce a valid JSON array when streaming to a JsonWriter', async () => {
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'write', file: jsonFile });
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 4 });
+      const result = await streamWriter.stream(generateUsers(10));
+
+      expect(result.success).toBe(true);
+      const parsed = JSON.parse(fs.readFileSync(jsonFile, 'utf-8')) as TestUser[];
+      expect(parsed).toHaveLength(10);
+      expect(parsed[9]?.id).toBe(10);
+    });
+  });
+
   describe('Progress Reporting', () => {
     it('should call onProgress hook', async () => {
       const writer = new CsvWriter<TestUser>({
@@ -250,6 +307,190 @@ describe('StreamingWriter', () => {
     });
   });
 
+  describe('Failed Batches', () => {
+    const ok = { success: true as const, value: undefined };
+
+    function createFlakyWriter(failures: Map<number, number>): {
+      writer: OutportWriter<TestUser>;
+      written: number[];
+    } {
+      // Fails the write of the batch starting at a given id the given number of times
+      const written: number[] = [];
+      const writeBatch = (batch: TestUser[]): Promise<Result<void>> => {
+        const firstId = batch[0]!.id;
+        const remaining = failures.get(firstId) ?? 0;
+        if (remaining > 0) {
+          failures.set(firstId, remaining - 1);
+          return Promise.resolve({
+            success: false as const,
+            error: new Error(`Disk error ${firstId}`),
+          });
+        }
+        written.push(...batch.map((user) => user.id));
+        return Promise.resolve(ok);
+      };
+      return {
+        writer: {
+          writeSync: vi.fn(),
+          appendSync: vi.fn(),
+          write: vi.fn(writeBatch),
+          append: vi.fn(writeBatch),
+        },
+        written,
+      };
+    }
+
+    it('should abort at the first failed batch without an onError callback', async () => {
+      const { writer, written } = createFlakyWriter(new Map([[3, 1]]));
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 2 });
+      const result = await streamWriter.stream(generateUsers(6));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('Disk error 3');
+      }
+      expect(written).toEqual([1, 2]);
+    });
+
+    it('should skip failed batches when onError continues', async () => {
+      const { writer, written } = createFlakyWriter(new Map([[3, 1]]));
+      const onError = vi.fn().mockReturnValue(true);
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 2, onError });
+      const result = await streamWriter.stream(generateUsers(6));
+
+      expect(onError).toHaveBeenCalledWith(new Error('Disk error 3'), {
+        batchNumber: 2,
+        records: 2,
+        attempt: 1,
+      });
+      expect(result).toEqual({
+        success: true,
+        value: 4,
+        failedBatches: [
+          { batchNumber: 2, records: 2, attempts: 1, error: new Error('Disk error 3') },
+        ],
+      });
+      expect(written).toEqual([1, 2, 5, 6]);
+    });
+
+    it('should retry a failed batch until it is written', async () => {
+      const { writer, written } = createFlakyWriter(new Map([[3, 2]]));
+      const attempts: number[] = [];
+
+      const streamWriter = new StreamingWriter(writer, {
+        batchSize: 2,
+        onError: (_error, context) => {
+          attempts.push(context!.attempt);
+          return 'retry';
+        },
+      });
+      const result = await streamWriter.stream(generateUsers(6));
+
+      expect(result).toEqual({ success: true, value: 6 });
+      expect(attempts).toEqual([1, 2]);
+      expect(written).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('should abort with the last error once a batch is out of attempts', async () => {
+      const { writer, written } = createFlakyWriter(new Map([[3, 100]]));
+      const onError = vi.fn().mockReturnValue('retry');
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 2, onError, maxAttempts: 4 });
+      const result = await streamWriter.stream(generateUsers(6));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('Disk error 3');
+      }
+      expect(onError).toHaveBeenCalledTimes(4);
+      expect(written).toEqual([1, 2]);
+    });
+
+    it('should allow three attempts per batch by default', async () => {
+      const { writer } = createFlakyWriter(new Map([[3, 100]]));
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 2, onError: () => 'retry' });
+      const result = await streamWriter.stream(generateUsers(6));
+
+      expect(result.success).toBe(false);
+      expect(writer.append).toHaveBeenCalledTimes(3);
+    });
+
+    it('should initialize the file with the first batch that is written', async () => {
+      const { writer } = createFlakyWriter(new Map([[1, 1]]));
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 2, onError: () => 'continue' });
+      const result = await streamWriter.stream(generateUsers(6));
+
+      expect(result.success).toBe(true);
+      expect(writer.write).toHaveBeenCalledTimes(2);
+      expect(writer.append).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort when onError returns abort', async () => {
+      const { writer, written } = createFlakyWriter(new Map([[3, 1]]));
+
+      const streamWriter = new StreamingWriter(writer, { batchSize: 2, onError: () => 'abort' });
+      const result = await streamWriter.stream(generateUsers(6));
+
+      expect(result.success).toBe(false);
+      expect(written).toEqual([1, 2]);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should stop streaming and finalize the file when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'write', file: jsonFile });
+
+      const streamWriter = new StreamingWriter(writer, {
+        batchSize: 2,
+        signal: controller.signal,
+        onProgress: (current) => {
+          if (current === 4) {
+            controller.abort();
+          }
+        },
+      });
+      const result = await streamWriter.stream(generateUsers(10));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(AbortedError);
+      }
+      const users = JSON.parse(fs.readFileSync(jsonFile, 'utf-8')) as TestUser[];
+      expect(users.map((user) => user.id)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should stop retrying a failed batch once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const write = vi.fn(() => {
+        controller.abort();
+        return Promise.resolve({ success: false as const, error: new Error('Disk error') });
+      });
+      const writer: OutportWriter<TestUser> = {
+        writeSync: vi.fn(),
+        appendSync: vi.fn(),
+        write,
+        append: vi.fn(),
+      };
+
+      const streamWriter = new StreamingWriter(writer, {
+        signal: controller.signal,
+        onError: () => 'retry',
+      });
+      const result = await streamWriter.stream(generateUsers(3));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(AbortedError);
+      }
+      expect(write).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Large Dataset Simulation', () => {
     it('should handle large datasets efficiently', async () => {
       const result = await outport<TestUser>()
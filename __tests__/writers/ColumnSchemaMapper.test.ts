@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnSchemaMapper } from '../../src/writers/ColumnSchemaMapper';
+import { ValidationError } from '../../src/errors';
+import type { ColumnSchema } from '../../src/types';
+
+interface TestUser extends Record<string, unknown> {
+  id: number;
+  first: string;
+  last: string;
+  createdAt: Date;
+  team?: string | null;
+}
+
+describe('ColumnSchemaMapper', () => {
+  const user: TestUser = {
+    id: 1,
+    first: 'Ada',
+    last: 'Lovelace',
+    createdAt: new Date('2024-01-15T10:30:00Z'),
+  };
+
+  describe('getHeaders', () => {
+    it('should use the header of each column in schema order', () => {
+      // Arrange
+      const mapper = new ColumnSchemaMapper<TestUser>([
+        { key: 'id', header: 'ID' },
+        { header: 'Full Name', value: (record) => `${record.first} ${record.last}` },
+      ]);
+
+      // Act
+      const headers = mapper.getHeaders();
+
+      // Assert
+      expect(headers).toEqual(['ID', 'Full Name']);
+    });
+
+    it('should default the header to the key', () => {
+      // Arrange
+      const mapper = new ColumnSchemaMapper<TestUser>([{ key: 'id' }, { key: 'first' }]);
+
+      // Act
+      const headers = mapper.getHeaders();
+
+      // Assert
+      expect(headers).toEqual(['id', 'first']);
+    });
+  });
+
+  describe('toValues', () => {
+    it('should read keys and compute values', () => {
+      // Arrange
+      const mapper = new ColumnSchemaMapper<TestUser>([
+        { key: 'id' },
+        { header: 'Full Name', value: (record) => `${record.first} ${record.last}` },
+      ]);
+
+      // Act
+      const values = mapper.toValues(user);
+
+      // Assert
+      expect(values).toEqual([1, 'Ada Lovelace']);
+    });
+
+    it('should apply column formatters to present values', () => {
+      // Arrange
+      const mapper = new ColumnSchemaMapper<TestUser>([
+        { key: 'createdAt', format: (date) => date.toISOString().slice(0, 10) },
+        {
+          header: 'Initials',
+          value: (record) => record.first[0]! + record.last[0]!,
+          format: (value) => String(value).toLowerCase(),
+        },
+      ]);
+
+      // Act
+      const values = mapper.toValues(user);
+
+      // Assert
+      expect(values).toEqual(['2024-01-15', 'al']);
+    });
+
+    it('should write the default value for null or undefined values', () => {
+      // Arrange
+      const schema: ColumnSchema<TestUser> = [
+        { key: 'team', defaultValue: 'unassigned', format: (team) => team?.toUpperCase() },
+      ];
+      const mapper = new ColumnSchemaMapper<TestUser>(schema);
+
+      // Act
+      const missing = mapper.toValues(user);
+      const nullValue = mapper.toValues({ ...user, team: null });
+      const present = mapper.toValues({ ...user, team: 'core' });
+
+      // Assert
+      expect(missing).toEqual(['unassigned']);
+      expect(nullValue).toEqual(['unassigned']);
+      expect(present).toEqual(['CORE']);
+    });
+
+    it('should keep missing values without a default', () => {
+      // Arrange
+      const mapper = new ColumnSchemaMapper<TestUser>([{ key: 'team' }]);
+
+      // Act
+      const values = mapper.toValues(user);
+
+      // Assert
+      expect(values).toEqual([undefined]);
+    });
+  });
+
+  describe('toObject', () => {
+    it('should key the column values by header in schema order', () => {
+      // Arrange
+      const mapper = new ColumnSchemaMapper<TestUser>([
+        { key: 'last', header: 'Last Name' },
+        { key: 'id', header: 'ID' },
+      ]);
+
+      // Act
+      const object = mapper.toObject(user);
+
+      // Assert
+      expect(Object.entries(object)).toEqual([
+        ['Last Name', 'Lovelace'],
+        ['ID', 1],
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject an empty schema', () => {
+      // Act & Assert
+      expect(() => new ColumnSchemaMapper<TestUser>([])).toThrow(
+        new ValidationError('Schema must define at least one column')
+      );
+    });
+
+    it('should reject a column without a key or header', () => {
+      // Arrange
+      const schema = [{ key: 'id' }, { value: () => 1 }] as unknown as ColumnSchema<TestUser>;
+
+      // Act & Assert
+      expect(() => new ColumnSchemaMapper<TestUser>(schema)).toThrow(
+        'Schema column 2 must have a key or a header'
+      );
+    });
+
+    it('should reject a column without a key or value function', () => {
+      // Arrange
+      const schema = [{ header: 'Name' }] as unknown as ColumnSchema<TestUser>;
+
+      // Act & Assert
+      expect(() => new ColumnSchemaMapper<TestUser>(schema)).toThrow(
+        'Schema column "Name" must have a key or a value function'
+      );
+    });
+
+    it('should reject duplicate headers', () => {
+      // Act & Assert
+      expect(
+        () =>
+          new ColumnSchemaMapper<TestUser>([
+            { key: 'id', header: 'Name' },
+            { key: 'first', header: 'Name' },
+          ])
+      ).toThrow('Duplicate schema column header: "Name"');
+    });
+  });
+});
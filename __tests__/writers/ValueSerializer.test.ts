@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { ValueSerializer } from '../../src/writers/ValueSerializer';
+import { ValidationError } from '../../src/errors';
+
+class Money {
+  constructor(readonly cents: number) {}
+}
+
+describe('ValueSerializer', () => {
+  const date = new Date('2024-01-15T10:30:00.250Z');
+
+  describe('serialize', () => {
+    it('should write dates as UTC ISO 8601 by default', () => {
+      // Arrange
+      const serializer = new ValueSerializer();
+
+      // Act
+      const result = serializer.serialize(date);
+
+      // Assert
+      expect(result).toBe('2024-01-15T10:30:00.250Z');
+    });
+
+    it('should write dates in a time zone with its offset', () => {
+      // Arrange
+      const serializer = new ValueSerializer({ dates: { timeZone: 'America/New_York' } });
+
+      // Act
+      const result = serializer.serialize(date);
+
+      // Assert
+      expect(result).toBe('2024-01-15T05:30:00.250-05:00');
+    });
+
+    it('should write dates with a format pattern', () => {
+      // Arrange
+      const serializer = new ValueSerializer({
+        dates: { timeZone: 'Asia/Kolkata', format: 'dd/MM/yyyy HH:mm XXX' },
+      });
+
+      // Act
+      const result = serializer.serialize(date);
+
+      // Assert
+      expect(result).toBe('15/01/2024 16:00 +05:30');
+    });
+
+    it('should write invalid dates as null', () => {
+      // Arrange
+      const serializer = new ValueSerializer();
+
+      // Act
+      const result = serializer.serialize(new Date('not a date'));
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should convert bigint, Buffer, Map and Set values', () => {
+      // Arrange
+      const serializer = new ValueSerializer();
+
+      // Act
+      const results = [
+        serializer.serialize(12345678901234567890n),
+        serializer.serialize(Buffer.from('hello')),
+        serializer.serialize(new Map([['a', 1]])),
+        serializer.serialize(new Set([1, 2])),
+      ];
+
+      // Assert
+      expect(results).toEqual(['12345678901234567890', 'aGVsbG8=', { a: 1 }, [1, 2]]);
+    });
+
+    it('should prefer registered serializers over the built-ins', () => {
+      // Arrange
+      const serializer = new ValueSerializer({
+        serializers: [
+          { type: Money, serialize: (value: Money) => (value.cents / 100).toFixed(2) },
+          { type: 'bigint', serialize: (value: bigint) => Number(value) },
+        ],
+      });
+
+      // Act
+      const results = [serializer.serialize(new Money(1999)), serializer.serialize(10n)];
+
+      // Assert
+      expect(results).toEqual(['19.99', 10]);
+    });
+
+    it('should throw for an invalid time zone', () => {
+      // Act & Assert
+      expect(() => new ValueSerializer({ dates: { timeZone: 'Mars/Olympus' } })).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('stringify', () => {
+    it('should convert values nested in objects and arrays', () => {
+      // Arrange
+      const serializer = new ValueSerializer({ dates: { format: 'yyyy-MM-dd' } });
+
+      // Act
+      const result = serializer.stringify({
+        total: 10n,
+        items: [{ createdAt: date, tags: new Set(['a']) }],
+        payload: Buffer.from('hi'),
+      });
+
+      // Assert
+      expect(result).toBe(
+        '{"total":"10","items":[{"createdAt":"2024-01-15","tags":["a"]}],"payload":"aGk="}'
+      );
+    });
+  });
+});
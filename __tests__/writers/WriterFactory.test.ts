@@ -28,6 +28,26 @@ describe('WriterFactory', () => {
     }).not.toThrow();
   });
 
+  it('should create JsonlWriter successfully', () => {
+    expect(() => {
+      WriterFactory.create({
+        type: 'jsonl',
+        mode: 'write',
+        file: 'test.jsonl',
+      });
+    }).not.toThrow();
+  });
+
+  it('should create XlsxWriter successfully', () => {
+    expect(() => {
+      WriterFactory.create({
+        type: 'xlsx',
+        mode: 'write',
+        file: 'test.xlsx',
+      });
+    }).not.toThrow();
+  });
+
   it('should throw ValidationError for unknown writer type', () => {
     expect(() => {
       WriterFactory.create({
@@ -236,4 +236,206 @@ describe('CsvFormatter', () => {
       expect(result).toBe('John,"Line1\r\nLine2",30');
     });
   });
+
+  describe('with formula sanitization', () => {
+    const values = ['=SUM(A1:A9)', '+cmd', '-2+3', '@import', '\tdata', 'plain'];
+
+    it('should escape formula cells with a leading apostrophe', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { sanitizeFormulas: 'escape' });
+
+      // Act
+      const result = formatter.formatRow(values);
+
+      // Assert
+      expect(result).toBe("'=SUM(A1:A9),'+cmd,'-2+3,'@import,'\tdata,plain");
+      expect(formatter.getNeutralizedCells()).toBe(5);
+    });
+
+    it('should strip the leading formula characters', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { sanitizeFormulas: 'strip' });
+
+      // Act
+      const result = formatter.formatRow(['=-cmd', '@user']);
+
+      // Assert
+      expect(result).toBe('cmd,user');
+      expect(formatter.getNeutralizedCells()).toBe(2);
+    });
+
+    it('should keep numbers and numeric strings intact', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { sanitizeFormulas: 'escape' });
+
+      // Act
+      const result = formatter.formatRow([-42, '-42', '+1.5', '-1e3', '-.5']);
+
+      // Assert
+      expect(result).toBe('-42,-42,+1.5,-1e3,-.5');
+      expect(formatter.getNeutralizedCells()).toBe(0);
+    });
+
+    it('should throw for formula cells in reject mode', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { sanitizeFormulas: 'reject' });
+
+      // Act & Assert
+      expect(() => formatter.formatRow(['ok', '=HYPERLINK("x")'])).toThrow(
+        'Cell value starts with a formula character: "=HYPERLINK(\\"x\\")"'
+      );
+    });
+
+    it('should not sanitize header cells', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { sanitizeFormulas: 'escape' });
+
+      // Act
+      const result = formatter.formatHeader(['=id', 'name']);
+
+      // Assert
+      expect(result).toBe('=id,name');
+      expect(formatter.getNeutralizedCells()).toBe(0);
+    });
+  });
+
+  describe('with quote modes and escape character', () => {
+    const values = ['John', 'Doe, Jr.', 42, null, true];
+
+    it('should quote every cell in all mode', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { quoteMode: 'all' });
+
+      // Act
+      const result = formatter.formatRow(values);
+
+      // Assert
+      expect(result).toBe('"John","Doe, Jr.","42","","true"');
+    });
+
+    it('should quote every cell except numbers in nonNumeric mode', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { quoteMode: 'nonNumeric' });
+
+      // Act
+      const result = formatter.formatRow(values);
+
+      // Assert
+      expect(result).toBe('"John","Doe, Jr.",42,"","true"');
+    });
+
+    it('should escape quotes and the escape character with a distinct escape character', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { escape: '\\' });
+
+      // Act
+      const result = formatter.formatRow(['say "hi"', 'C:\\temp', 'plain']);
+
+      // Assert
+      expect(result).toBe('"say \\"hi\\"","C:\\\\temp",plain');
+    });
+
+    it('should escape special characters instead of quoting in none mode', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { quoteMode: 'none', escape: '\\' });
+
+      // Act
+      const result = formatter.formatRow(['Doe, Jr.', 'line\nbreak', 'plain']);
+
+      // Assert
+      expect(result).toBe('Doe\\, Jr.,line\\\nbreak,plain');
+    });
+
+    it('should throw in none mode when a cell needs escaping and there is no escape character', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { quoteMode: 'none' });
+
+      // Act & Assert
+      expect(() => formatter.formatRow(['Doe, Jr.'])).toThrow(
+        'Cell value contains "," and cannot be written unquoted without an escape character'
+      );
+    });
+
+    it('should end every line with the line ending', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', { lineEnding: '\r\n' });
+
+      // Act
+      const result = formatter.joinLines(['id,name', '1,John']);
+
+      // Assert
+      expect(result).toBe('id,name\r\n1,John\r\n');
+    });
+  });
+
+  describe('with value serialization', () => {
+    it('should write dates and bigints as plain cells', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', {
+        serialization: { dates: { format: 'yyyy-MM-dd HH:mm' } },
+      });
+
+      // Act
+      const result = formatter.formatRow([new Date('2024-01-15T10:30:00Z'), 10n]);
+
+      // Assert
+      expect(result).toBe('2024-01-15 10:30,10');
+    });
+
+    it('should apply serializers to values nested in objects', () => {
+      // Arrange
+      const formatter = new CsvFormatter();
+
+      // Act
+      const result = formatter.formatRow([
+        { at: new Date('2024-01-15T10:30:00Z'), ids: new Set([1]) },
+      ]);
+
+      // Assert
+      expect(result).toBe('"{""at"":""2024-01-15T10:30:00.000Z"",""ids"":[1]}"');
+    });
+  });
+
+  describe('with a locale', () => {
+    const date = new Date('2024-01-15T10:30:00Z');
+
+    it('should format numbers, bigints and dates for the locale', () => {
+      // Arrange
+      const formatter = new CsvFormatter(';', '"', {
+        locale: 'de-DE',
+        dateFormat: { dateStyle: 'medium' },
+      });
+
+      // Act
+      const result = formatter.formatRow([1234.56, 10000n, date, 'Berlin']);
+
+      // Assert
+      expect(result).toBe('1.234,56;10.000;15.01.2024;Berlin');
+      expect(formatter.getDecimalSeparator()).toBe(',');
+    });
+
+    it('should treat localized numbers as numeric when quoting and sanitizing', () => {
+      // Arrange
+      const formatter = new CsvFormatter(',', '"', {
+        locale: 'en-US',
+        quoteMode: 'nonNumeric',
+        sanitizeFormulas: 'escape',
+        numberFormat: { minimumFractionDigits: 2 },
+      });
+
+      // Act
+      const result = formatter.formatRow([-42, 1234.5, date]);
+
+      // Assert
+      expect(result).toBe('-42.00,"1,234.50","1/15/24, 10:30:00 AM"');
+      expect(formatter.getNeutralizedCells()).toBe(0);
+    });
+
+    it('should throw ValidationError for an invalid locale', () => {
+      // Act & Assert
+      expect(() => new CsvFormatter(',', '"', { locale: 'not_a_locale' })).toThrow(
+        'Invalid locale or format options for not_a_locale'
+      );
+    });
+  });
 });
@@ -437,4 +437,135 @@ describe('CsvHeaderManager', () => {
       expect(values).toEqual([1, 'John', null]);
     });
   });
+
+  describe('schema config option', () => {
+    it('should take headers and values from the schema', () => {
+      // Arrange
+      const manager = new CsvHeaderManager<TestUser>({
+        schema: [
+          { key: 'id', header: 'ID' },
+          { header: 'Name', value: (user) => `${user.firstName} ${user.lastName}` },
+          { key: 'age', format: (age) => age + 1 },
+        ],
+      });
+
+      // Act
+      const result = manager.initialize(sampleUser);
+      const values = manager.objectToValues(sampleUser);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(manager.getHeaders()).toEqual(['ID', 'Name', 'age']);
+      expect(values).toEqual([1, 'John Doe', 31]);
+    });
+
+    it('should reject a schema combined with other column options', () => {
+      // Arrange
+      const config: CsvConfig<TestUser> = {
+        schema: [{ key: 'id' }],
+        includeKeys: ['id'],
+      };
+
+      // Act & Assert
+      expect(() => new CsvHeaderManager<TestUser>(config)).toThrow(
+        'schema cannot be combined with headers, includeKeys, columnMapping or flattenNestedObjects'
+      );
+    });
+  });
+
+  describe('header strategy', () => {
+    const partialUser = { id: 2, firstName: 'Jane' } as TestUser;
+    const extendedUser = { ...sampleUser, team: 'core' } as TestUser;
+
+    it('should ignore keys of later objects with the first strategy', () => {
+      // Arrange
+      const manager = new CsvHeaderManager<TestUser>();
+      manager.initialize([partialUser, sampleUser]);
+
+      // Act
+      const unexpected = manager.findUnexpectedKeys([extendedUser]);
+
+      // Assert
+      expect(manager.getHeaders()).toEqual(['id', 'firstName']);
+      expect(unexpected).toEqual([]);
+    });
+
+    it('should collect the keys of every object with the union strategy', () => {
+      // Arrange
+      const manager = new CsvHeaderManager<TestUser>({
+        headerStrategy: 'union',
+        columnMapping: { firstName: 'First Name' },
+      });
+
+      // Act
+      const result = manager.initialize([partialUser, extendedUser]);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(manager.getHeaders()).toEqual([
+        'id',
+        'First Name',
+        'lastName',
+        'email',
+        'age',
+        'team',
+      ]);
+      expect(manager.objectToValues(partialUser)).toEqual([
+        2,
+        'Jane',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+      ]);
+    });
+
+    it('should find and add keys that are not columns yet', () => {
+      // Arrange
+      const manager = new CsvHeaderManager<TestUser>({ headerStrategy: 'strict' });
+      manager.initialize(sampleUser);
+
+      // Act
+      const unexpected = manager.findUnexpectedKeys([sampleUser, extendedUser, partialUser]);
+      manager.addKeys(unexpected);
+
+      // Assert
+      expect(unexpected).toEqual(['team']);
+      expect(manager.getKeys()).toEqual(['id', 'firstName', 'lastName', 'email', 'age', 'team']);
+    });
+
+    it('should reject union and strict strategies combined with explicit columns', () => {
+      // Arrange
+      const config: CsvConfig<TestUser> = { headerStrategy: 'union', includeKeys: ['id'] };
+
+      // Act & Assert
+      expect(() => new CsvHeaderManager<TestUser>(config)).toThrow(
+        'The union header strategy cannot be combined with schema, headers or includeKeys'
+      );
+    });
+  });
+
+  describe('initializeFromHeader', () => {
+    it('should map written header names back to keys', () => {
+      // Arrange
+      const manager = new CsvHeaderManager<TestUser>({ columnMapping: { firstName: 'First' } });
+
+      // Act
+      manager.initializeFromHeader(['id', 'First']);
+
+      // Assert
+      expect(manager.getHeaders()).toEqual(['id', 'First']);
+      expect(manager.getKeys()).toEqual(['id', 'firstName']);
+      expect(manager.objectToValues(sampleUser)).toEqual([sampleUser.id, sampleUser.firstName]);
+    });
+
+    it('should not take columns from a header when includeKeys defines them', () => {
+      // Arrange
+      const manager = new CsvHeaderManager<TestUser>({ includeKeys: ['id'] });
+
+      // Act & Assert
+      expect(manager.canInitializeFromHeader()).toBe(false);
+      expect(new CsvHeaderManager<TestUser>().canInitializeFromHeader()).toBe(true);
+    });
+  });
 });
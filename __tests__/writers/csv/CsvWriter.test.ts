@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import * as zlib from 'node:zlib';
 import { CsvWriter } from '../../../src/writers/csv/CsvWriter';
+import { CsvFormattingError, UnexpectedColumnsError } from '../../../src/errors';
 import type { WriterOptions, FileWriter } from '../../../src/types';
 
 interface TestUser extends Record<string, unknown> {
@@ -524,6 +526,47 @@ describe('CsvWriter', () => {
       const headerCount = lines.filter((line) => line === 'id,name,email').length;
       expect(headerCount).toBe(1); // Should only have one header row
     });
+
+    it('should write appended rows under the header already in the file', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'Name,id\nJohn,1\n');
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'append',
+        file: testFile,
+        config: { columnMapping: { name: 'Name' } },
+      });
+
+      // Act
+      const result = await writer.append({ id: 2, email: 'jane@example.com', name: 'Jane' });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('Name,id\nJohn,1\nJane,2\n');
+      expect(writer.getColumns()).toEqual(['Name', 'id']);
+    });
+
+    it('should reject appended keys outside the existing header with the union strategy', () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'a,b\n1,2\n');
+      const writer = new CsvWriter<Record<string, unknown>>({
+        type: 'csv',
+        mode: 'append',
+        file: testFile,
+        config: { headerStrategy: 'union' },
+      });
+
+      // Act
+      const result = writer.appendSync({ a: 9, z: 1 });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(UnexpectedColumnsError);
+        expect((result.error as UnexpectedColumnsError).keys).toEqual(['z']);
+      }
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('a,b\n1,2\n');
+    });
   });
 
   describe('flattenNestedObjects option', () => {
@@ -816,6 +859,492 @@ describe('CsvWriter', () => {
     });
   });
 
+  describe('lifecycle (open/close)', () => {
+    it('should write headers once and rows through a single handle', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({ type: 'csv', mode: 'write', file: testFile });
+
+      // Act
+      await writer.open();
+      await writer.write([{ id: 1, name: 'John', email: 'john@example.com' }]);
+      await writer.write([{ id: 2, name: 'Jane', email: 'jane@example.com' }]);
+      await writer.append({ id: 3, name: 'Bob', email: 'bob@example.com' });
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      const lines = fs.readFileSync(testFile, 'utf-8').trim().split('\n');
+      expect(lines).toEqual([
+        'id,name,email',
+        '1,John,john@example.com',
+        '2,Jane,jane@example.com',
+        '3,Bob,bob@example.com',
+      ]);
+    });
+
+    it('should fall back to write and append for a file writer without open()', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'stale content\n', 'utf-8');
+      const fileWriter: FileWriter = {
+        writeSync: vi.fn(),
+        write: vi.fn((file: string, content: string | Uint8Array) => {
+          fs.writeFileSync(file, content);
+          return Promise.resolve({ success: true as const, value: undefined });
+        }),
+        appendSync: vi.fn(),
+        append: vi.fn((file: string, content: string | Uint8Array) => {
+          fs.appendFileSync(file, content);
+          return Promise.resolve({ success: true as const, value: undefined });
+        }),
+        existsSync: (file) => fs.existsSync(file),
+        exists: (file) => Promise.resolve(fs.existsSync(file)),
+      };
+      const writer = new CsvWriter<TestUser>(
+        { type: 'csv', mode: 'write', file: testFile },
+        fileWriter
+      );
+
+      // Act
+      await writer.open();
+      await writer.write([{ id: 1, name: 'John', email: 'john@example.com' }]);
+      await writer.append({ id: 2, name: 'Jane', email: 'jane@example.com' });
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+        'id,name,email\n1,John,john@example.com\n2,Jane,jane@example.com\n'
+      );
+    });
+
+    it('should not repeat headers when opening an existing file in append mode', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, 'id,name,email\n1,John,john@example.com\n', 'utf-8');
+      const writer = new CsvWriter<TestUser>({ type: 'csv', mode: 'append', file: testFile });
+
+      // Act
+      await writer.open();
+      await writer.append({ id: 2, name: 'Jane', email: 'jane@example.com' });
+      await writer.close();
+
+      // Assert
+      const lines = fs.readFileSync(testFile, 'utf-8').trim().split('\n');
+      expect(lines).toEqual([
+        'id,name,email',
+        '1,John,john@example.com',
+        '2,Jane,jane@example.com',
+      ]);
+    });
+
+    it('should reject synchronous methods while open', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({ type: 'csv', mode: 'write', file: testFile });
+      await writer.open();
+
+      // Act
+      const result = writer.appendSync({ id: 1, name: 'John', email: 'john@example.com' });
+      await writer.close();
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('while the writer is open');
+      }
+    });
+
+    it('should close through Symbol.asyncDispose', async () => {
+      // Arrange
+      const sink = {
+        write: vi.fn().mockResolvedValue({ success: true, value: undefined }),
+        close: vi.fn().mockResolvedValue({ success: true, value: undefined }),
+      };
+      const fileWriter: FileWriter = {
+        writeSync: vi.fn(),
+        write: vi.fn(),
+        appendSync: vi.fn(),
+        append: vi.fn(),
+        truncateSync: vi.fn(),
+        truncate: vi.fn(),
+        open: vi.fn().mockResolvedValue({ success: true, value: sink }),
+        existsSync: vi.fn(),
+        exists: vi.fn().mockResolvedValue(false),
+      };
+      const writer = new CsvWriter<TestUser>(
+        { type: 'csv', mode: 'write', file: testFile },
+        fileWriter
+      );
+
+      // Act
+      await writer.open();
+      await writer.write([{ id: 1, name: 'John', email: 'john@example.com' }]);
+      await writer[Symbol.asyncDispose]();
+
+      // Assert
+      expect(fileWriter.open).toHaveBeenCalledWith(testFile, 'write');
+      expect(fileWriter.append).not.toHaveBeenCalled();
+      expect(sink.write).toHaveBeenCalledTimes(2);
+      expect(sink.close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('header strategy', () => {
+    const records = [
+      { id: 1, name: 'John' },
+      { id: 2, name: 'Jane', email: 'jane@example.com' },
+    ] as TestUser[];
+    const laterRecord = { id: 3, name: 'Bob', team: 'core' } as TestUser;
+
+    it('should write the columns of every record with the union strategy', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { headerStrategy: 'union' },
+      });
+
+      // Act
+      const result = await writer.write(records);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+        'id,name,email\n1,John,\n2,Jane,jane@example.com\n'
+      );
+    });
+
+    it('should spool rows while open and write the final header on close', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { headerStrategy: 'union' },
+      });
+
+      // Act
+      await writer.open();
+      await writer.write(records);
+      await writer.append(laterRecord);
+      const sizeBeforeClose = fs.statSync(testFile).size;
+      const spooled = fs
+        .readdirSync(path.dirname(testFile))
+        .filter((name) => name.endsWith('.spool'));
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(sizeBeforeClose).toBe(0);
+      expect(spooled).toHaveLength(1);
+      expect(spooled[0]?.startsWith(`.${path.basename(testFile)}.`)).toBe(true);
+      expect(fs.readdirSync(path.dirname(testFile))).not.toContainEqual(
+        expect.stringMatching(/\.spool$/)
+      );
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+        'id,name,email,team\n1,John,,\n2,Jane,jane@example.com,\n3,Bob,,core\n'
+      );
+      expect(writer.getColumns()).toEqual(['id', 'name', 'email', 'team']);
+    });
+
+    it('should fail with the union strategy when appended keys cannot be added', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { headerStrategy: 'union' },
+      });
+      await writer.write(records);
+
+      // Act
+      const result = await writer.append(laterRecord);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(UnexpectedColumnsError);
+      }
+    });
+
+    it('should fail with the strict strategy listing the unexpected keys', () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { headerStrategy: 'strict' },
+      });
+
+      // Act
+      const result = writer.writeSync([...records, laterRecord]);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(UnexpectedColumnsError);
+        expect(result.error.message).toBe(
+          'Records have keys that are not in the CSV header: email, team'
+        );
+      }
+      expect(fs.existsSync(testFile)).toBe(false);
+    });
+  });
+
+  describe('formula sanitization', () => {
+    it('should neutralize formula cells and count them', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { sanitizeFormulas: 'escape' },
+      });
+
+      // Act
+      const result = await writer.write([
+        { id: -1, name: '=cmd|calc', email: 'a@example.com' },
+        { id: 2, name: 'Jane', email: '@jane' },
+      ]);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+        "id,name,email\n-1,'=cmd|calc,a@example.com\n2,Jane,'@jane\n"
+      );
+      expect(writer.getNeutralizedCells()).toBe(2);
+    });
+
+    it('should fail the write in reject mode without writing rows', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { sanitizeFormulas: 'reject' },
+      });
+
+      // Act
+      const result = await writer.write([{ id: 1, name: '+cmd', email: 'a@example.com' }]);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(CsvFormattingError);
+      }
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe('id,name,email\n');
+    });
+  });
+
+  describe('quoting and line endings', () => {
+    it('should write RFC 4180 output with every field quoted and CRLF line endings', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { quoteMode: 'all', lineEnding: '\r\n' },
+      });
+
+      // Act
+      await writer.write([{ id: 1, name: 'John', email: 'john@example.com' }]);
+      const result = await writer.append({ id: 2, name: 'Jane "JJ"', email: 'jane@example.com' });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+        '"id","name","email"\r\n' +
+          '"1","John","john@example.com"\r\n' +
+          '"2","Jane ""JJ""","jane@example.com"\r\n'
+      );
+    });
+
+    it('should reject an invalid escape character or line ending', () => {
+      // Act & Assert
+      expect(
+        () =>
+          new CsvWriter<TestUser>({
+            type: 'csv',
+            mode: 'write',
+            file: testFile,
+            config: { escape: '\\\\' },
+          })
+      ).toThrow('Escape character must be a single character');
+      expect(
+        () =>
+          new CsvWriter<TestUser>({
+            type: 'csv',
+            mode: 'write',
+            file: testFile,
+            config: { lineEnding: '\r' as '\n' },
+          })
+      ).toThrow('Line ending must be');
+    });
+  });
+
+  describe('measure', () => {
+    it('should measure rows and the pending header without writing or counting cells', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { sanitizeFormulas: 'escape' },
+      });
+      const users = [
+        { id: 1, name: '=Jo', email: 'jo@example.com' },
+        { id: 2, name: 'Zoë', email: 'zoe@example.com' },
+      ];
+      await writer.open();
+
+      // Act
+      const result = writer.measure(users);
+      await writer.write(users);
+      await writer.close();
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        value: {
+          records: [
+            Buffer.byteLength("id,name,email\n1,'=Jo,jo@example.com\n"),
+            Buffer.byteLength('2,Zoë,zoe@example.com\n'),
+          ],
+          footer: 0,
+        },
+      });
+      expect(fs.statSync(testFile).size).toBe(
+        result.success ? result.value.records[0]! + result.value.records[1]! : -1
+      );
+      expect(writer.getNeutralizedCells()).toBe(1);
+    });
+  });
+
+  describe('locale', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should write numbers in the locale format', async () => {
+      // Arrange
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { delimiter: ';', locale: 'de-DE' },
+      });
+
+      // Act
+      const result = await writer.write([{ id: 1234.5, name: 'Jürgen', email: 'j@example.de' }]);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+        'id;name;email\n1.234,5;Jürgen;j@example.de\n'
+      );
+    });
+
+    it('should warn once when the decimal separator is the delimiter', () => {
+      // Arrange
+      const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+
+      // Act
+      for (let part = 0; part < 2; part++) {
+        new CsvWriter<TestUser>({
+          type: 'csv',
+          mode: 'write',
+          file: testFile,
+          config: { locale: 'de-DE' },
+        });
+      }
+      new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: testFile,
+        config: { locale: 'en-US' },
+      });
+
+      // Assert
+      expect(emitWarning).toHaveBeenCalledTimes(1);
+      expect(emitWarning).toHaveBeenCalledWith(
+        expect.stringContaining('The decimal separator of locale de-DE is the CSV delimiter ","'),
+        'CsvLocaleWarning'
+      );
+    });
+  });
+
+  describe('compression', () => {
+    it('should accept a .csv.gz path when compression is set', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = {
+        type: 'csv',
+        mode: 'write',
+        file: 'users.csv.gz',
+        compression: 'gzip',
+      };
+
+      // Act & Assert
+      expect(() => new CsvWriter(options)).not.toThrow();
+    });
+
+    it('should reject a .csv.gz path without compression', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = {
+        type: 'csv',
+        mode: 'write',
+        file: 'users.csv.gz',
+      };
+
+      // Act & Assert
+      expect(() => new CsvWriter(options)).toThrow('File extension must be .csv for CsvWriter');
+    });
+
+    it('should write gzip-compressed CSV synchronously', () => {
+      // Arrange
+      const gzipFile = `${testFile}.gz`;
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: gzipFile,
+        compression: 'gzip',
+      });
+
+      // Act
+      const result = writer.writeSync([
+        { id: 1, name: 'John', email: 'john@example.com' },
+        { id: 2, name: 'Jane', email: 'jane@example.com' },
+      ]);
+
+      // Assert
+      expect(result.success).toBe(true);
+      const content = zlib.gunzipSync(fs.readFileSync(gzipFile)).toString('utf-8');
+      expect(content).toBe('id,name,email\n1,John,john@example.com\n2,Jane,jane@example.com\n');
+      fs.unlinkSync(gzipFile);
+    });
+
+    it('should stream brotli-compressed CSV through the lifecycle', async () => {
+      // Arrange
+      const brotliFile = `${testFile}.br`;
+      const writer = new CsvWriter<TestUser>({
+        type: 'csv',
+        mode: 'write',
+        file: brotliFile,
+        compression: 'brotli',
+      });
+
+      // Act
+      await writer.open();
+      await writer.write([{ id: 1, name: 'John', email: 'john@example.com' }]);
+      await writer.append({ id: 2, name: 'Jane', email: 'jane@example.com' });
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      const content = zlib.brotliDecompressSync(fs.readFileSync(brotliFile)).toString('utf-8');
+      expect(content).toBe('id,name,email\n1,John,john@example.com\n2,Jane,jane@example.com\n');
+      fs.unlinkSync(brotliFile);
+    });
+  });
+
   // Cleanup temp directory after all tests
   afterAll(() => {
     if (fs.existsSync(testDir)) {
@@ -304,4 +304,111 @@ describe('JsonFormatter', () => {
       expect(() => formatter.formatItem(circular)).toThrow(/Failed to format data as JSON/);
     });
   });
+
+  describe('formatElements', () => {
+    it('should match a pretty-printed array when wrapped in array brackets', () => {
+      // Arrange
+      const formatter = new JsonFormatter();
+      const data: TestData[] = [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ];
+
+      // Act
+      const result =
+        formatter.arrayOpen() + formatter.formatElements(data) + formatter.arrayClose();
+
+      // Assert
+      expect(result).toBe(JSON.stringify(data, null, 2));
+    });
+
+    it('should match a compact array when wrapped in array brackets', () => {
+      // Arrange
+      const formatter = new JsonFormatter(false);
+      const data: TestData[] = [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ];
+
+      // Act
+      const result =
+        formatter.arrayOpen() + formatter.formatElements(data) + formatter.arrayClose();
+
+      // Assert
+      expect(result).toBe(JSON.stringify(data));
+    });
+
+    it('should produce the same array when elements are split with the separator', () => {
+      // Arrange
+      const formatter = new JsonFormatter(true, 4);
+      const data: TestData[] = [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+        { id: 3, name: 'Charlie' },
+      ];
+
+      // Act
+      const result =
+        formatter.arrayOpen() +
+        formatter.formatElements(data.slice(0, 1)) +
+        formatter.elementSeparator() +
+        formatter.formatElements(data.slice(1)) +
+        formatter.arrayClose();
+
+      // Assert
+      expect(result).toBe(JSON.stringify(data, null, 4));
+    });
+
+    it('should treat an indent of 0 as compact output', () => {
+      // Arrange
+      const formatter = new JsonFormatter(true, 0);
+      const data: TestData[] = [{ id: 1, name: 'Alice' }];
+
+      // Act
+      const result =
+        formatter.arrayOpen() + formatter.formatElements(data) + formatter.arrayClose();
+
+      // Assert
+      expect(result).toBe(JSON.stringify(data, null, 0));
+    });
+
+    it('should throw JsonFormattingError for circular references', () => {
+      // Arrange
+      const formatter = new JsonFormatter();
+      interface CircularData extends Record<string, unknown> {
+        id: number;
+        self?: CircularData;
+      }
+      const circular: CircularData = { id: 1 };
+      circular.self = circular;
+
+      // Act & Assert
+      expect(() => formatter.formatElements([circular])).toThrow(JsonFormattingError);
+    });
+  });
+
+  describe('value serialization', () => {
+    it('should write bigint, Map and Buffer values', () => {
+      // Arrange
+      const formatter = new JsonFormatter(false);
+      const data = [{ id: 10n, totals: new Map([['eu', 5]]), payload: Buffer.from('hi') }];
+
+      // Act
+      const result = formatter.formatElements(data);
+
+      // Assert
+      expect(result).toBe('{"id":"10","totals":{"eu":5},"payload":"aGk="}');
+    });
+
+    it('should write dates in the configured time zone', () => {
+      // Arrange
+      const formatter = new JsonFormatter(false, 2, { dates: { timeZone: 'Europe/Paris' } });
+
+      // Act
+      const result = formatter.formatItem({ createdAt: new Date('2024-07-01T10:00:00Z') });
+
+      // Assert
+      expect(result).toBe('{"createdAt":"2024-07-01T12:00:00.000+02:00"}');
+    });
+  });
 });
@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import * as zlib from 'node:zlib';
 import { JsonWriter } from '../../../src/writers/json/JsonWriter';
 import type { WriterOptions, FileWriter } from '../../../src/types';
+import { FileWriteError } from '../../../src/errors';
 
 interface TestUser extends Record<string, unknown> {
   id: number;
@@ -469,6 +471,277 @@ describe('JsonWriter', () => {
     });
   });
 
+  describe('incremental append', () => {
+    it('should produce the same file as a single write when appending in batches', async () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = {
+        type: 'json',
+        mode: 'write',
+        file: testFile,
+      };
+      const writer = new JsonWriter<TestUser>(options);
+      const data: TestUser[] = Array.from({ length: 10 }, (_, i) => ({
+        id: i,
+        name: `User ${i}`,
+        email: `user${i}@example.com`,
+      }));
+
+      // Act
+      await writer.write(data.slice(0, 3));
+      await writer.append(data.slice(3, 7));
+      writer.appendSync(data.slice(7));
+
+      // Assert
+      const content = fs.readFileSync(testFile, 'utf-8');
+      expect(content).toBe(JSON.stringify(data, null, 2));
+    });
+
+    it('should only write new items when appending', async () => {
+      // Arrange
+      const { NodeFileWriter } = await import('../../../src/io/FileWriter');
+      const fileWriter = new NodeFileWriter();
+      const writeSpy = vi.spyOn(fileWriter, 'write');
+      const appendSpy = vi.spyOn(fileWriter, 'append');
+      const options: WriterOptions<TestUser> = {
+        type: 'json',
+        mode: 'write',
+        file: testFile,
+        config: { prettyPrint: false },
+      };
+      const writer = new JsonWriter<TestUser>(options, fileWriter);
+      const first: TestUser = { id: 1, name: 'John', email: 'john@example.com' };
+      const second: TestUser = { id: 2, name: 'Jane', email: 'jane@example.com' };
+
+      // Act
+      await writer.write([first]);
+      await writer.append(second);
+
+      // Assert
+      expect(writeSpy).toHaveBeenCalledTimes(1);
+      expect(appendSpy).toHaveBeenCalledWith(testFile, ',' + JSON.stringify(second) + ']');
+      expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual([first, second]);
+    });
+
+    it('should fail to reopen the array through a file writer without truncate support', async () => {
+      // Arrange
+      const { NodeFileWriter } = await import('../../../src/io/FileWriter');
+      const node = new NodeFileWriter();
+      const fileWriter: FileWriter = {
+        writeSync: (path, content) => node.writeSync(path, content),
+        write: (path, content) => node.write(path, content),
+        appendSync: (path, content) => node.appendSync(path, content),
+        append: (path, content) => node.append(path, content),
+        existsSync: (path) => node.existsSync(path),
+        exists: (path) => node.exists(path),
+      };
+      const writer = new JsonWriter<TestUser>(
+        { type: 'json', mode: 'append', file: testFile },
+        fileWriter
+      );
+      const data: TestUser[] = [1, 2, 3].map((id) => ({
+        id,
+        name: `User ${id}`,
+        email: `user${id}@example.com`,
+      }));
+
+      // Act
+      const first = await writer.append(data[0]!);
+      const second = await writer.append(data[1]!);
+      const third = writer.appendSync(data[2]!);
+
+      // Assert
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      if (!second.success) {
+        expect(second.error).toBeInstanceOf(FileWriteError);
+        expect(second.error.message).toBe(`File writer does not implement truncate(): ${testFile}`);
+      }
+      expect(third.success).toBe(false);
+      if (!third.success) {
+        expect(third.error.message).toBe(
+          `File writer does not implement truncateSync(): ${testFile}`
+        );
+      }
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(JSON.stringify([data[0]], null, 2));
+    });
+
+    it('should reopen an existing pretty-printed array with trailing whitespace', () => {
+      // Arrange
+      const existingData: TestUser[] = [{ id: 1, name: 'Existing', email: 'existing@example.com' }];
+      fs.writeFileSync(testFile, JSON.stringify(existingData, null, 2) + '\n\n', 'utf-8');
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'append', file: testFile });
+      const newData: TestUser = { id: 2, name: 'New', email: 'new@example.com' };
+
+      // Act
+      const result = writer.appendSync(newData);
+
+      // Assert
+      expect(result.success).toBe(true);
+      const content = fs.readFileSync(testFile, 'utf-8');
+      expect(content).toBe(JSON.stringify([...existingData, newData], null, 2));
+    });
+
+    it('should reopen an existing empty array', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, '[]', 'utf-8');
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'append', file: testFile });
+      const newData: TestUser = { id: 1, name: 'New', email: 'new@example.com' };
+
+      // Act
+      const result = await writer.append(newData);
+
+      // Assert
+      expect(result.success).toBe(true);
+      const content = fs.readFileSync(testFile, 'utf-8');
+      expect(content).toBe(JSON.stringify([newData], null, 2));
+    });
+
+    it('should start a new array when the existing file is empty', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, '', 'utf-8');
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'append', file: testFile });
+      const newData: TestUser = { id: 1, name: 'New', email: 'new@example.com' };
+
+      // Act
+      const result = await writer.append(newData);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual([newData]);
+    });
+
+    it('should return error when the existing file is not a JSON array', async () => {
+      // Arrange
+      fs.writeFileSync(testFile, JSON.stringify({ id: 1 }), 'utf-8');
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'append', file: testFile });
+
+      // Act
+      const result = await writer.append({ id: 2, name: 'New', email: 'new@example.com' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('expected the file to contain a JSON array');
+      }
+    });
+  });
+
+  describe('lifecycle (open/close)', () => {
+    it('should leave the array open until close', async () => {
+      // Arrange
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'write', file: testFile });
+      const data: TestUser[] = [
+        { id: 1, name: 'John', email: 'john@example.com' },
+        { id: 2, name: 'Jane', email: 'jane@example.com' },
+        { id: 3, name: 'Bob', email: 'bob@example.com' },
+      ];
+
+      // Act
+      await writer.open();
+      await writer.write(data.slice(0, 1));
+      await writer.append(data.slice(1));
+      const beforeClose = fs.readFileSync(testFile, 'utf-8');
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(beforeClose.endsWith(']')).toBe(false);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(JSON.stringify(data, null, 2));
+    });
+
+    it('should write an empty array when nothing was written', async () => {
+      // Arrange
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'write', file: testFile });
+
+      // Act
+      await writer.open();
+      await writer.close();
+
+      // Assert
+      expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual([]);
+    });
+
+    it('should reopen an existing array in append mode', async () => {
+      // Arrange
+      const existing: TestUser = { id: 1, name: 'Existing', email: 'existing@example.com' };
+      fs.writeFileSync(testFile, JSON.stringify([existing]), 'utf-8');
+      const writer = new JsonWriter<TestUser>({
+        type: 'json',
+        mode: 'append',
+        file: testFile,
+        config: { prettyPrint: false },
+      });
+      const newData: TestUser = { id: 2, name: 'New', email: 'new@example.com' };
+
+      // Act
+      await writer.open();
+      await writer.append(newData);
+      await writer.close();
+
+      // Assert
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(JSON.stringify([existing, newData]));
+    });
+
+    it('should reject synchronous methods while open', async () => {
+      // Arrange
+      const writer = new JsonWriter<TestUser>({ type: 'json', mode: 'write', file: testFile });
+      await writer.open();
+
+      // Act
+      const result = writer.writeSync([{ id: 1, name: 'John', email: 'john@example.com' }]);
+      await writer[Symbol.asyncDispose]();
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('while the writer is open');
+      }
+    });
+  });
+
+  describe('compression', () => {
+    it('should reject append mode for compressed output', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = {
+        type: 'json',
+        mode: 'append',
+        file: 'users.json.gz',
+        compression: 'gzip',
+      };
+
+      // Act & Assert
+      expect(() => new JsonWriter(options)).toThrow(
+        'Append mode is not supported for compressed JSON files'
+      );
+    });
+
+    it('should stream a gzip-compressed JSON array through the lifecycle', async () => {
+      // Arrange
+      const gzipFile = `${testFile}.gz`;
+      const writer = new JsonWriter<TestUser>({
+        type: 'json',
+        mode: 'write',
+        file: gzipFile,
+        compression: 'gzip',
+      });
+
+      // Act
+      await writer.open();
+      await writer.write([{ id: 1, name: 'John', email: 'john@example.com' }]);
+      await writer.append([{ id: 2, name: 'Jane', email: 'jane@example.com' }]);
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      const content = zlib.gunzipSync(fs.readFileSync(gzipFile)).toString('utf-8');
+      expect(JSON.parse(content)).toEqual([
+        { id: 1, name: 'John', email: 'john@example.com' },
+        { id: 2, name: 'Jane', email: 'jane@example.com' },
+      ]);
+      fs.unlinkSync(gzipFile);
+    });
+  });
+
   describe('append mode with writeSync', () => {
     it('should append to existing file when using writeSync in append mode', () => {
       // Arrange
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { JsonlWriter } from '../../../src/writers/jsonl/JsonlWriter';
+import type { WriterOptions, FileWriter } from '../../../src/types';
+
+interface TestUser extends Record<string, unknown> {
+  id: number;
+  name: string;
+}
+
+/**
+ * Parses a JSON Lines file into its records.
+ */
+function readLines(file: string): unknown[] {
+  return fs
+    .readFileSync(file, 'utf-8')
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => JSON.parse(line));
+}
+
+describe('JsonlWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'jsonl-writer');
+  let testFile: string;
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+    testFile = path.join(testDir, `test-${Date.now()}-${Math.random()}.jsonl`);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testFile)) {
+      fs.unlinkSync(testFile);
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('constructor validation', () => {
+    it('should throw error for non-jsonl type', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = { type: 'json', mode: 'write', file: testFile };
+
+      // Act & Assert
+      expect(() => new JsonlWriter(options as any)).toThrow('Invalid writer type for JsonlWriter');
+    });
+
+    it('should throw error for empty file path', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = { type: 'jsonl', mode: 'write', file: '' };
+
+      // Act & Assert
+      expect(() => new JsonlWriter(options)).toThrow('File path must be provided for JsonlWriter');
+    });
+
+    it('should throw error for unsupported file extension', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = { type: 'jsonl', mode: 'write', file: 'test.json' };
+
+      // Act & Assert
+      expect(() => new JsonlWriter(options)).toThrow(
+        'File extension must be .jsonl or .ndjson for JsonlWriter'
+      );
+    });
+
+    it('should accept .ndjson extension', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = { type: 'jsonl', mode: 'write', file: 'a.ndjson' };
+
+      // Act & Assert
+      expect(() => new JsonlWriter(options)).not.toThrow();
+    });
+  });
+
+  describe('writeSync', () => {
+    it('should write each record on its own line', () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'write', file: testFile });
+      const data: TestUser[] = [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ];
+
+      // Act
+      const result = writer.writeSync(data);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+        '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n'
+      );
+    });
+
+    it('should overwrite file in write mode', () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'write', file: testFile });
+
+      // Act
+      writer.writeSync([{ id: 1, name: 'Alice' }]);
+      writer.writeSync([{ id: 2, name: 'Bob' }]);
+
+      // Assert
+      expect(readLines(testFile)).toEqual([{ id: 2, name: 'Bob' }]);
+    });
+
+    it('should add to existing file in append mode', () => {
+      // Arrange
+      fs.writeFileSync(testFile, '{"id":1,"name":"Alice"}\n', 'utf-8');
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'append', file: testFile });
+
+      // Act
+      writer.writeSync([{ id: 2, name: 'Bob' }]);
+
+      // Assert
+      expect(readLines(testFile)).toEqual([
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ]);
+    });
+
+    it('should return error for empty data array', () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'write', file: testFile });
+
+      // Act
+      const result = writer.writeSync([]);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('Cannot write empty data array');
+      }
+    });
+  });
+
+  describe('write (async)', () => {
+    it('should write records asynchronously', async () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'write', file: testFile });
+      const data: TestUser[] = [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ];
+
+      // Act
+      const result = await writer.write(data);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(readLines(testFile)).toEqual(data);
+    });
+  });
+
+  describe('append', () => {
+    it('should append records with a plain file append', async () => {
+      // Arrange
+      const fileWriter: FileWriter = {
+        writeSync: vi.fn(),
+        write: vi.fn().mockResolvedValue({ success: true, value: undefined }),
+        appendSync: vi.fn(),
+        append: vi.fn().mockResolvedValue({ success: true, value: undefined }),
+        truncateSync: vi.fn(),
+        truncate: vi.fn(),
+        open: vi.fn(),
+        existsSync: vi.fn(),
+        exists: vi.fn(),
+      };
+      const writer = new JsonlWriter<TestUser>(
+        { type: 'jsonl', mode: 'write', file: testFile },
+        fileWriter
+      );
+
+      // Act
+      await writer.write([{ id: 1, name: 'Alice' }]);
+      await writer.append({ id: 2, name: 'Bob' });
+
+      // Assert
+      expect(fileWriter.append).toHaveBeenCalledWith(testFile, '{"id":2,"name":"Bob"}\n');
+      expect(fileWriter.exists).not.toHaveBeenCalled();
+      expect(fileWriter.truncate).not.toHaveBeenCalled();
+    });
+
+    it('should create file if it does not exist', () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'append', file: testFile });
+
+      // Act
+      const result = writer.appendSync({ id: 1, name: 'Alice' });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(readLines(testFile)).toEqual([{ id: 1, name: 'Alice' }]);
+    });
+
+    it('should handle empty array as no-op', async () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'append', file: testFile });
+
+      // Act
+      const result = await writer.append([]);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.existsSync(testFile)).toBe(false);
+    });
+  });
+
+  describe('lifecycle (open/close)', () => {
+    it('should write all calls through a single handle', async () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'write', file: testFile });
+
+      // Act
+      await writer.open();
+      await writer.write([{ id: 1, name: 'Alice' }]);
+      await writer.write([{ id: 2, name: 'Bob' }]);
+      await writer.append({ id: 3, name: 'Charlie' });
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(readLines(testFile)).toEqual([
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+        { id: 3, name: 'Charlie' },
+      ]);
+    });
+
+    it('should treat close without open as a no-op', async () => {
+      // Arrange
+      const writer = new JsonlWriter<TestUser>({ type: 'jsonl', mode: 'write', file: testFile });
+
+      // Act
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(fs.existsSync(testFile)).toBe(false);
+    });
+  });
+
+  describe('error handling', () => {
+    it('should return JsonFormattingError for circular references', async () => {
+      // Arrange
+      const writer = new JsonlWriter<Record<string, unknown>>({
+        type: 'jsonl',
+        mode: 'write',
+        file: testFile,
+      });
+      const circular: Record<string, unknown> = { id: 1 };
+      circular.self = circular;
+
+      // Act
+      const result = await writer.write([circular]);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.name).toBe('JsonFormattingError');
+      }
+    });
+  });
+});
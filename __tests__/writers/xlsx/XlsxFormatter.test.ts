@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { XlsxFormatter, MAX_CELL_LENGTH } from '../../../src/writers/xlsx/XlsxFormatter';
+
+describe('XlsxFormatter', () => {
+  describe('formatRow', () => {
+    it('should write numbers as numeric cells', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatRow([42, -1.5], 2);
+
+      // Assert
+      expect(result).toBe('<row r="2"><c r="A2"><v>42</v></c><c r="B2"><v>-1.5</v></c></row>');
+    });
+
+    it('should write strings as inline strings so leading zeros are kept', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatRow(['01234'], 2);
+
+      // Assert
+      expect(result).toContain('t="inlineStr"><is><t xml:space="preserve">01234</t></is>');
+    });
+
+    it('should write booleans as boolean cells', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatRow([true, false], 3);
+
+      // Assert
+      expect(result).toContain('<c r="A3" t="b"><v>1</v></c>');
+      expect(result).toContain('<c r="B3" t="b"><v>0</v></c>');
+    });
+
+    it('should write dates as serial numbers with a date style', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatRow(
+        [new Date('2024-01-15T00:00:00Z'), new Date('2024-01-15T12:00:00Z')],
+        2
+      );
+
+      // Assert
+      expect(result).toContain('<c r="A2" s="2"><v>45306</v></c>');
+      expect(result).toContain('<c r="B2" s="3"><v>45306.5</v></c>');
+    });
+
+    it('should leave null, undefined and invalid dates empty', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatRow([null, undefined, new Date(NaN)], 2);
+
+      // Assert
+      expect(result).toBe('<row r="2"></row>');
+    });
+
+    it('should escape XML and drop characters XML cannot hold', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatRow(['a & <b> "c"\u0001'], 2);
+
+      // Assert
+      expect(result).toContain('a &amp; &lt;b&gt; &quot;c&quot;</t>');
+    });
+
+    it('should fail for text longer than Excel keeps in a cell', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const longest = formatter.formatRow(['x'.repeat(MAX_CELL_LENGTH)], 2);
+
+      // Assert
+      expect(longest).toContain('x'.repeat(MAX_CELL_LENGTH));
+      expect(() => formatter.formatRow(['x'.repeat(MAX_CELL_LENGTH + 1)], 2)).toThrow(
+        "Cell A2 has 32768 characters, more than Excel's limit of 32,767"
+      );
+    });
+
+    it('should serialize objects and arrays as JSON text', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatRow([{ a: 1 }, [1, 2]], 2);
+
+      // Assert
+      expect(result).toContain('{&quot;a&quot;:1}');
+      expect(result).toContain('[1,2]');
+    });
+
+    it('should use multi-letter column references past column Z', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+      const values = Array.from({ length: 28 }, (_, i) => i);
+
+      // Act
+      const result = formatter.formatRow(values, 2);
+
+      // Assert
+      expect(result).toContain('<c r="Z2">');
+      expect(result).toContain('<c r="AA2">');
+      expect(result).toContain('<c r="AB2">');
+    });
+  });
+
+  describe('formatHeaderRow', () => {
+    it('should write bold header cells', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act
+      const result = formatter.formatHeaderRow(['id', 'name'], 1);
+
+      // Assert
+      expect(result).toContain('<c r="A1" s="1" t="inlineStr">');
+      expect(result).toContain('<t xml:space="preserve">name</t>');
+    });
+  });
+
+  describe('sheetOpen', () => {
+    it('should freeze the header row when requested', () => {
+      // Arrange
+      const formatter = new XlsxFormatter();
+
+      // Act & Assert
+      expect(formatter.sheetOpen(true)).toContain('state="frozen"');
+      expect(formatter.sheetOpen(false)).not.toContain('<pane');
+    });
+  });
+});
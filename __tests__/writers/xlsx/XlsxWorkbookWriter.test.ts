@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { XlsxWorkbookWriter } from '../../../src/writers/xlsx/XlsxWorkbookWriter';
+import { ValidationError } from '../../../src/errors';
+import { readZipEntries } from './readZipEntries';
+
+describe('XlsxWorkbookWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'xlsx-workbook-writer');
+  const testFile = path.join(testDir, 'report.xlsx');
+  const users = [
+    { id: 1, name: 'Alice' },
+    { id: 2, name: 'Bob' },
+  ];
+  const orders = [{ orderId: 'A-1', total: 9.5, paid: true }];
+
+  const readWorkbook = (): Map<string, string> => readZipEntries(fs.readFileSync(testFile));
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('constructor validation', () => {
+    it('should throw error for non-xlsx file extension', () => {
+      // Arrange
+      const sheets = [{ name: 'Users', data: users }];
+
+      // Act & Assert
+      expect(() => new XlsxWorkbookWriter({ file: 'report.csv', sheets })).toThrow(
+        'File extension must be .xlsx for XlsxWorkbookWriter'
+      );
+    });
+
+    it('should throw error for duplicate sheet names', () => {
+      // Arrange
+      const sheets = [
+        { name: 'Users', data: users },
+        { name: 'USERS', data: users },
+      ];
+
+      // Act & Assert
+      expect(() => new XlsxWorkbookWriter({ file: testFile, sheets })).toThrow(
+        'Duplicate sheet name: "USERS"'
+      );
+    });
+
+    it('should throw error for a workbook without sheets', () => {
+      // Act & Assert
+      expect(() => new XlsxWorkbookWriter({ file: testFile, sheets: [] })).toThrow(
+        'A workbook must contain at least one sheet'
+      );
+    });
+  });
+
+  describe('writeSync', () => {
+    it('should write each dataset into its own sheet with its own columns', () => {
+      // Arrange
+      const writer = new XlsxWorkbookWriter({
+        file: testFile,
+        sheets: [
+          { name: 'Users', data: users },
+          { name: 'Orders', data: orders, config: { includeKeys: ['orderId', 'total'] } },
+        ],
+      });
+
+      // Act
+      const result = writer.writeSync();
+
+      // Assert
+      expect(result).toEqual({ success: true, value: 3 });
+      const workbook = readWorkbook();
+      expect(workbook.get('xl/workbook.xml')).toContain(
+        '<sheet name="Users" sheetId="1" r:id="rId1"/><sheet name="Orders" sheetId="2" r:id="rId2"/>'
+      );
+      const userSheet = workbook.get('xl/worksheets/sheet1.xml')!;
+      expect(userSheet.match(/<row /g)).toHaveLength(3);
+      expect(userSheet).toContain('Alice');
+      const orderSheet = workbook.get('xl/worksheets/sheet2.xml')!;
+      expect(orderSheet).toContain('orderId');
+      expect(orderSheet).toContain('<c r="B2"><v>9.5</v></c>');
+      expect(orderSheet).not.toContain('paid');
+    });
+
+    it('should write an empty sheet for an empty dataset', () => {
+      // Arrange
+      const writer = new XlsxWorkbookWriter({
+        file: testFile,
+        sheets: [
+          { name: 'Empty', data: [] },
+          { name: 'Users', data: users },
+        ],
+      });
+
+      // Act
+      const result = writer.writeSync();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(readWorkbook().get('xl/worksheets/sheet1.xml')).not.toContain('<row ');
+    });
+
+    it('should return error for async sheet data', () => {
+      // Arrange
+      async function* generate(): AsyncGenerator<Record<string, unknown>> {
+        await Promise.resolve();
+        yield* users;
+      }
+      const writer = new XlsxWorkbookWriter({
+        file: testFile,
+        sheets: [{ name: 'Users', data: generate() }],
+      });
+
+      // Act
+      const result = writer.writeSync();
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+        expect(result.error.message).toContain('use write() to stream it');
+      }
+      expect(fs.existsSync(testFile)).toBe(false);
+    });
+  });
+
+  describe('write', () => {
+    it('should stream arrays and async iterables into consecutive sheets', async () => {
+      // Arrange
+      async function* generateEvents(): AsyncGenerator<Record<string, unknown>> {
+        for (let i = 1; i <= 25; i++) {
+          await Promise.resolve();
+          yield { event: `event-${i}`, at: new Date('2024-01-15T00:00:00Z') };
+        }
+      }
+      const progress: number[] = [];
+      const writer = new XlsxWorkbookWriter({
+        file: testFile,
+        sheets: [
+          { name: 'Users', data: users },
+          { name: 'Events', data: generateEvents() },
+        ],
+        batchSize: 10,
+        onProgress: (current) => {
+          progress.push(current);
+        },
+      });
+
+      // Act
+      const result = await writer.write();
+
+      // Assert
+      expect(result).toEqual({ success: true, value: 27 });
+      expect(progress).toEqual([2, 12, 22, 27]);
+      const eventSheet = readWorkbook().get('xl/worksheets/sheet2.xml')!;
+      expect(eventSheet.match(/<row /g)).toHaveLength(26);
+      expect(eventSheet.match(/<c r="A1"/g)).toHaveLength(1);
+    });
+
+    it('should return error when a source fails and still release the file', async () => {
+      // Arrange
+      async function* failing(): AsyncGenerator<Record<string, unknown>> {
+        await Promise.resolve();
+        yield { id: 1 };
+        throw new Error('Source failed');
+      }
+      const writer = new XlsxWorkbookWriter({
+        file: testFile,
+        sheets: [{ name: 'Users', data: failing() }],
+      });
+
+      // Act
+      const result = await writer.write();
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('Source failed');
+      }
+      fs.rmSync(testFile);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { XlsxWriter } from '../../../src/writers/xlsx/XlsxWriter';
+import { MAX_ROWS } from '../../../src/writers/xlsx/XlsxSheet';
+import { XlsxFormattingError } from '../../../src/errors';
+import type { WriterOptions } from '../../../src/types';
+import { readZipEntries } from './readZipEntries';
+
+interface TestUser extends Record<string, unknown> {
+  id: number;
+  zip: string;
+  active: boolean;
+  joined: Date;
+}
+
+describe('XlsxWriter', () => {
+  const testDir = path.join(process.cwd(), '__tests__', 'temp', 'xlsx-writer');
+  const testFile = path.join(testDir, 'users.xlsx');
+  const users: TestUser[] = [
+    { id: 1, zip: '01234', active: true, joined: new Date('2024-01-15T00:00:00Z') },
+    { id: 2, zip: '00999', active: false, joined: new Date('2023-06-01T00:00:00Z') },
+  ];
+
+  const readSheet = (sheet: number = 1): string =>
+    readZipEntries(fs.readFileSync(testFile)).get(`xl/worksheets/sheet${sheet}.xml`)!;
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('constructor validation', () => {
+    it('should throw error for non-xlsx file extension', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = { type: 'xlsx', mode: 'write', file: 'test.csv' };
+
+      // Act & Assert
+      expect(() => new XlsxWriter(options)).toThrow('File extension must be .xlsx for XlsxWriter');
+    });
+
+    it('should throw error for append mode', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = { type: 'xlsx', mode: 'append', file: testFile };
+
+      // Act & Assert
+      expect(() => new XlsxWriter(options)).toThrow('Append mode is not supported for XlsxWriter');
+    });
+
+    it('should throw error for an invalid sheet name', () => {
+      // Arrange
+      const options: WriterOptions<TestUser> = {
+        type: 'xlsx',
+        mode: 'write',
+        file: testFile,
+        config: { sheetName: 'Q1/Q2' },
+      };
+
+      // Act & Assert
+      expect(() => new XlsxWriter(options)).toThrow(/Sheet name cannot contain/);
+    });
+  });
+
+  describe('writeSync', () => {
+    it('should write a complete workbook package', () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({
+        type: 'xlsx',
+        mode: 'write',
+        file: testFile,
+        config: { sheetName: 'Users' },
+      });
+
+      // Act
+      const result = writer.writeSync(users);
+
+      // Assert
+      expect(result.success).toBe(true);
+      const entries = readZipEntries(fs.readFileSync(testFile));
+      expect([...entries.keys()]).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/styles.xml',
+        'xl/worksheets/sheet1.xml',
+      ]);
+      expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Users" sheetId="1"');
+    });
+
+    it('should write typed cells below a frozen bold header row', () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({ type: 'xlsx', mode: 'write', file: testFile });
+
+      // Act
+      writer.writeSync(users);
+
+      // Assert
+      const sheet = readSheet();
+      expect(sheet).toContain('state="frozen"');
+      expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">id</t>');
+      expect(sheet).toContain('<c r="A2"><v>1</v></c>');
+      expect(sheet).toContain('<t xml:space="preserve">01234</t>');
+      expect(sheet).toContain('<c r="C2" t="b"><v>1</v></c>');
+      expect(sheet).toContain('<c r="D2" s="2"><v>45306</v></c>');
+    });
+
+    it('should select and rename columns like the CSV writer', () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({
+        type: 'xlsx',
+        mode: 'write',
+        file: testFile,
+        config: { includeKeys: ['zip', 'id'], columnMapping: { zip: 'Zip Code' } },
+      });
+
+      // Act
+      writer.writeSync(users);
+
+      // Assert
+      const sheet = readSheet();
+      expect(sheet).toContain(
+        '<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Zip Code</t>'
+      );
+      expect(sheet).toContain('<c r="B2"><v>1</v></c>');
+      expect(sheet).not.toContain('r="C2"');
+    });
+
+    it('should not freeze the header when disabled', () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({
+        type: 'xlsx',
+        mode: 'write',
+        file: testFile,
+        config: { freezeHeader: false },
+      });
+
+      // Act
+      writer.writeSync(users);
+
+      // Assert
+      expect(readSheet()).not.toContain('<pane');
+    });
+
+    it('should return error for empty data array', () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({ type: 'xlsx', mode: 'write', file: testFile });
+
+      // Act
+      const result = writer.writeSync([]);
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toBe('Cannot write empty data array');
+      }
+    });
+  });
+
+  describe('write (async)', () => {
+    it('should replace the workbook on each call', async () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({ type: 'xlsx', mode: 'write', file: testFile });
+
+      // Act
+      await writer.write(users);
+      await writer.write(users.slice(1));
+
+      // Assert
+      const sheet = readSheet();
+      expect(sheet).toContain('<row r="2">');
+      expect(sheet).not.toContain('<row r="3">');
+      expect(sheet).toContain('00999');
+    });
+  });
+
+  describe('append', () => {
+    it('should require the writer to be open', async () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({ type: 'xlsx', mode: 'write', file: testFile });
+
+      // Act
+      const asyncResult = await writer.append(users);
+      const syncResult = writer.appendSync(users);
+
+      // Assert
+      expect(asyncResult.success).toBe(false);
+      expect(syncResult.success).toBe(false);
+      if (!asyncResult.success) {
+        expect(asyncResult.error.message).toContain('can only append rows while open');
+      }
+    });
+  });
+
+  describe('lifecycle (open/close)', () => {
+    it('should stream rows into one sheet until closed', async () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({ type: 'xlsx', mode: 'write', file: testFile });
+
+      // Act
+      await writer.open();
+      await writer.write(users.slice(0, 1));
+      await writer.append(users.slice(1));
+      await writer.append({ ...users[0]!, id: 3 });
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      const sheet = readSheet();
+      expect(sheet.match(/<row /g)).toHaveLength(4);
+      expect(sheet).toContain('<c r="A4"><v>3</v></c>');
+      expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true);
+    });
+
+    it('should produce a valid workbook when nothing was written', async () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({ type: 'xlsx', mode: 'write', file: testFile });
+
+      // Act
+      await writer.open();
+      const result = await writer.close();
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(readSheet()).not.toContain('<row');
+    });
+
+    it("should fill a sheet up to Excel's row limit and fail past it", async () => {
+      // Arrange
+      const writer = new XlsxWriter<{ id: number }>({
+        type: 'xlsx',
+        mode: 'write',
+        file: testFile,
+      });
+      const batch = Array.from({ length: 2 ** 16 }, () => ({ id: 1 }));
+      await writer.open();
+      // The header takes the first row
+      for (let written = 0; written < MAX_ROWS - 1; written += batch.length) {
+        await writer.append(batch.slice(0, MAX_ROWS - 1 - written));
+      }
+
+      // Act
+      const overflow = await writer.append({ id: 2 });
+      const result = await writer.close();
+
+      // Assert
+      expect(overflow.success).toBe(false);
+      if (!overflow.success) {
+        expect(overflow.error).toBeInstanceOf(XlsxFormattingError);
+        expect(overflow.error.message).toContain('1,048,576 rows');
+      }
+      expect(result.success).toBe(true);
+      expect(readSheet()).toContain(`<row r="${MAX_ROWS}">`);
+    });
+
+    it('should reject synchronous methods while open', async () => {
+      // Arrange
+      const writer = new XlsxWriter<TestUser>({ type: 'xlsx', mode: 'write', file: testFile });
+      await writer.open();
+
+      // Act
+      const result = writer.writeSync(users);
+      await writer.close();
+
+      // Assert
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('while the writer is open');
+      }
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ZipArchive } from '../../../src/writers/xlsx/ZipArchive';
+import { readZipEntries } from './readZipEntries';
+
+describe('ZipArchive', () => {
+  it('should build an archive from complete entries', () => {
+    // Arrange
+    const zip = new ZipArchive();
+
+    // Act
+    const archive = Buffer.concat([
+      zip.addEntry('first.txt', 'Hello'),
+      zip.addEntry('nested/second.txt', 'World'),
+      zip.finish(),
+    ]);
+
+    // Assert
+    const entries = readZipEntries(archive);
+    expect([...entries.keys()]).toEqual(['first.txt', 'nested/second.txt']);
+    expect(entries.get('first.txt')).toBe('Hello');
+    expect(entries.get('nested/second.txt')).toBe('World');
+  });
+
+  it('should stream an entry in several chunks', () => {
+    // Arrange
+    const zip = new ZipArchive();
+    const chunks = [zip.addEntry('header.txt', 'header'), zip.startEntry('rows.txt')];
+
+    // Act
+    for (let i = 0; i < 50; i++) {
+      chunks.push(zip.writeEntry(`row ${i} – ünïcode\n`));
+    }
+    chunks.push(zip.endEntry(), zip.finish());
+
+    // Assert
+    const rows = readZipEntries(Buffer.concat(chunks)).get('rows.txt')!.trim().split('\n');
+    expect(rows).toHaveLength(50);
+    expect(rows[49]).toBe('row 49 – ünïcode');
+  });
+
+  it('should flag streamed entries as having a data descriptor', () => {
+    // Arrange
+    const zip = new ZipArchive();
+
+    // Act
+    const header = zip.startEntry('rows.txt');
+
+    // Assert
+    expect(header.readUInt32LE(0)).toBe(0x04034b50);
+    expect(header.readUInt16LE(6) & 0x0008).toBe(0x0008);
+  });
+
+  it('should reject starting an entry while another is open', () => {
+    // Arrange
+    const zip = new ZipArchive();
+    zip.startEntry('first.txt');
+
+    // Act & Assert
+    expect(() => zip.startEntry('second.txt')).toThrow(/another entry is open/);
+    expect(() => zip.finish()).toThrow(/entry is open/);
+  });
+
+  it('should refuse more entries than a ZIP without ZIP64 can list', () => {
+    // Arrange
+    const zip = new ZipArchive();
+    for (let i = 0; i < 0xffff; i++) {
+      zip.addEntry(`${i}.txt`, '');
+    }
+
+    // Act & Assert
+    expect(() => zip.addEntry('one-too-many.txt', '')).toThrow(
+      'ZIP archive cannot hold more than 65,535 entries; ZIP64 is not supported'
+    );
+    expect(() => zip.finish()).not.toThrow();
+  });
+});
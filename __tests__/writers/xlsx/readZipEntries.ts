@@ -0,0 +1,37 @@
+import { expect } from 'vitest';
+import * as zlib from 'node:zlib';
+
+/**
+ * Reads every entry of a deflated ZIP archive into a map of name to text content.
+ * Only supports what ZipArchive produces: no archive comment and no ZIP64.
+ */
+export function readZipEntries(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const entryCount = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf-8', position + 46, position + 46 + nameLength);
+
+    const dataStart =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28);
+    const content = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(content.length).toBe(size);
+
+    entries.set(name, content.toString('utf-8'));
+    position += 46 + nameLength;
+  }
+
+  return entries;
+}
@@ -18,6 +18,8 @@ export default [
         console: 'readonly',
         process: 'readonly',
         Buffer: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         __dirname: 'readonly',
         __filename: 'readonly',
       },
@@ -0,0 +1,321 @@
+import type { OutportReader, ReaderType, CsvConfig, CoercionType, Result } from '../types.js';
+import { ValidationError } from '../errors.js';
+import { ReaderFactory } from '../readers/ReaderFactory.js';
+import { detectCompression, stripCompressionExtension } from '../io/CompressingFileWriter.js';
+import { OutportBuilder } from './OutportBuilder.js';
+
+/**
+ * A step applied to every record between the reader and the writer
+ */
+type RecordStep = (
+  record: Record<string, unknown>,
+  index: number
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+/**
+ * Fluent builder for converting a file from one format to another.
+ *
+ * Records are streamed from a reader for the source format, passed through
+ * any coercions and transforms in the order they were added, and written by
+ * an OutportBuilder for the target format. Source and target formats are
+ * detected from the file extensions, including `.gz` and `.br` compression.
+ *
+ * @template T - The type of the records at this point of the conversion
+ *
+ * @example
+ * ```typescript
+ * // Vendor CSV to JSON
+ * await convert<Product>('./vendor/products.csv')
+ *   .withDelimiter(';')
+ *   .coerce({ price: 'number', inStock: 'boolean' })
+ *   .to('./products.json')
+ *   .run();
+ *
+ * // JSON Lines to CSV, reshaping each record
+ * await convert<Event>('./events.jsonl')
+ *   .transform((event) => ({ id: event.id, at: event.timestamp }))
+ *   .to(outport<{ id: string; at: string }>().to('./events.csv').withUtf8Bom())
+ *   .run();
+ * ```
+ */
+export class ConvertBuilder<T extends Record<string, unknown>> {
+  private readerType?: ReaderType;
+  private csvConfig: Partial<CsvConfig<T>> = {};
+  private typeInference: boolean = false;
+  private steps: RecordStep[] = [];
+  private target?: string | OutportBuilder<T>;
+
+  /**
+   * Creates a new convert builder.
+   *
+   * @param input - Path of the file to convert
+   */
+  constructor(private readonly input: string) {}
+
+  /**
+   * Explicitly set the source format.
+   * Usually not needed as the format is auto-detected from the file extension.
+   *
+   * @param type - Reader type ('csv', 'json' or 'jsonl')
+   * @returns This builder instance for chaining
+   */
+  as(type: ReaderType): this {
+    this.readerType = type;
+    return this;
+  }
+
+  /**
+   * Set the delimiter of a CSV source.
+   *
+   * @param delimiter - Single character delimiter (default: ',')
+   * @returns This builder instance for chaining
+   */
+  withDelimiter(delimiter: string): this {
+    this.csvConfig.delimiter = delimiter;
+    return this;
+  }
+
+  /**
+   * Set the quote character of a CSV source.
+   *
+   * @param quote - Single character for quoting (default: '"')
+   * @returns This builder instance for chaining
+   */
+  withQuote(quote: string): this {
+    this.csvConfig.quote = quote;
+    return this;
+  }
+
+  /**
+   * Map the header names of a CSV source back to object keys.
+   *
+   * @param mapping - Object mapping keys to the header names used in the file
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * convert<User>('./vendor.csv').withColumnMapping({ id: 'Customer No.' })
+   * ```
+   */
+  withColumnMapping(mapping: Partial<Record<keyof T, string>>): this {
+    this.csvConfig.columnMapping = mapping;
+    return this;
+  }
+
+  /**
+   * Convert numeric and `true`/`false` values of a CSV source to numbers and booleans.
+   *
+   * @param enabled - Whether to infer value types (default: true)
+   * @returns This builder instance for chaining
+   */
+  inferTypes(enabled: boolean = true): this {
+    this.typeInference = enabled;
+    return this;
+  }
+
+  /**
+   * Coerce fields of every record to the given types.
+   *
+   * Empty values become null for `number`, `boolean` and `date`. A value that
+   * cannot be coerced fails the conversion with a ValidationError naming the
+   * field and record.
+   *
+   * @param types - Target type of each field to coerce
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * convert<Order>('./orders.csv').coerce({ total: 'number', placedAt: 'date' })
+   * ```
+   */
+  coerce(types: Partial<Record<keyof T, CoercionType>>): this {
+    const entries = Object.entries(types) as Array<[string, CoercionType]>;
+    this.steps.push((record, index) => {
+      const coerced: Record<string, unknown> = { ...record };
+      for (const [field, type] of entries) {
+        coerced[field] = coerceValue(record[field], type, field, index);
+      }
+      return coerced;
+    });
+    return this;
+  }
+
+  /**
+   * Transform every record before it is written.
+   *
+   * Call before `to()`: the output is configured for the transformed type.
+   *
+   * @param fn - Returns the record to write, given a source record and its 0-based index
+   * @returns A convert builder for the transformed records
+   *
+   * @example
+   * ```typescript
+   * convert<User>('./users.csv')
+   *   .transform((user) => ({ ...user, email: user.email.toLowerCase() }))
+   * ```
+   */
+  transform<U extends Record<string, unknown>>(
+    fn: (record: T, index: number) => U | Promise<U>
+  ): ConvertBuilder<U> {
+    const next = new ConvertBuilder<U>(this.input);
+    next.readerType = this.readerType;
+    next.csvConfig = this.csvConfig as Partial<CsvConfig<U>>;
+    next.typeInference = this.typeInference;
+    next.steps = [...this.steps, fn as RecordStep];
+    return next;
+  }
+
+  /**
+   * Specify the output of the conversion.
+   *
+   * Pass a path to write with the format detected from its extension, or an
+   * OutportBuilder to configure the output (columns, pretty printing,
+   * atomic writes, hooks and so on).
+   *
+   * @param target - Output path, or a builder configured with one
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * convert<User>('./users.csv').to('./users.jsonl')
+   * convert<User>('./users.csv').to(outport<User>().to('./users.json').prettyPrint(false))
+   * ```
+   */
+  to(target: string | OutportBuilder<T>): this {
+    this.target = target;
+    return this;
+  }
+
+  /**
+   * Run the conversion, streaming every record from the input to the output.
+   *
+   * @returns Promise of Result with the number of records converted
+   * @throws {ValidationError} If the input or output is not configured correctly
+   *
+   * @example
+   * ```typescript
+   * const result = await convert<User>('./users.csv').to('./users.json').run();
+   * if (result.success) {
+   *   console.log(`Converted ${result.value} records`);
+   * }
+   * ```
+   */
+  async run(): Promise<Result<number>> {
+    if (!this.target) {
+      throw new ValidationError('Output must be specified using .to()');
+    }
+
+    const reader = this.createReader();
+    const builder =
+      typeof this.target === 'string' ? new OutportBuilder<T>().to(this.target) : this.target;
+    return await builder.fromAsyncGenerator(this.records(reader));
+  }
+
+  /**
+   * Streams the records of the reader through the coercions and transforms
+   */
+  private async *records(reader: OutportReader<Record<string, unknown>>): AsyncGenerator<T> {
+    let index = 0;
+    for await (const source of reader) {
+      let record = source;
+      for (const step of this.steps) {
+        record = await step(record, index);
+      }
+      index++;
+      yield record as T;
+    }
+  }
+
+  /**
+   * Creates the reader for the input file.
+   *
+   * @returns A reader for the configured or detected source format
+   * @throws {ValidationError} If configuration is invalid
+   */
+  private createReader(): OutportReader<Record<string, unknown>> {
+    const type = this.readerType ?? detectReaderType(this.input);
+    if (!type) {
+      throw new ValidationError(
+        'Could not determine reader type. Use .as() or specify file extension (.csv, .json or .jsonl)'
+      );
+    }
+
+    if (type === 'csv') {
+      return ReaderFactory.create({
+        type,
+        file: this.input,
+        config: this.csvConfig as Partial<CsvConfig<Record<string, unknown>>>,
+        inferTypes: this.typeInference,
+      });
+    }
+    return ReaderFactory.create({ type, file: this.input });
+  }
+}
+
+/**
+ * Detects the source format from a file extension, ignoring compression
+ */
+function detectReaderType(path: string): ReaderType | undefined {
+  const basePath = stripCompressionExtension(path, detectCompression(path));
+  if (basePath.endsWith('.csv')) {
+    return 'csv';
+  } else if (basePath.endsWith('.json')) {
+    return 'json';
+  } else if (basePath.endsWith('.jsonl') || basePath.endsWith('.ndjson')) {
+    return 'jsonl';
+  }
+  return undefined;
+}
+
+/**
+ * Coerces one field value, failing with the field and 1-based record number
+ */
+function coerceValue(value: unknown, type: CoercionType, field: string, index: number): unknown {
+  if (type === 'string') {
+    return value == null ? value : toText(value);
+  }
+  if (value == null || value === '') {
+    return null;
+  }
+
+  const fail = (): never => {
+    throw new ValidationError(
+      `Cannot coerce ${JSON.stringify(value)} to ${type} for field "${field}" of record ${index + 1}`
+    );
+  };
+
+  if (type === 'number') {
+    const number = typeof value === 'number' ? value : Number(toText(value).trim());
+    return Number.isNaN(number) ? fail() : number;
+  }
+
+  if (type === 'boolean') {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    const text = toText(value).trim().toLowerCase();
+    if (text === 'true' || text === '1') {
+      return true;
+    }
+    if (text === 'false' || text === '0') {
+      return false;
+    }
+    return fail();
+  }
+
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? fail() : date;
+}
+
+/**
+ * Converts a value to text, serializing objects and arrays as JSON
+ */
+function toText(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value as string | number);
+}
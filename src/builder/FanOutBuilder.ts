@@ -0,0 +1,171 @@
+import type { OutportWriter, Result, FileWriter, FanOutTargetResult } from '../types.js';
+import type { ProgressHook, ErrorHook, CompleteHook } from './hooks.js';
+import { FanOutStreamingWriter } from '../streaming/FanOutStreamingWriter.js';
+import type { FanOutTarget } from '../streaming/FanOutStreamingWriter.js';
+import { AtomicFileWriter } from '../io/AtomicFileWriter.js';
+
+/**
+ * Settings carried over from one OutportBuilder taking part in a fan-out export.
+ *
+ * @template T - The type of data objects being written
+ */
+export interface FanOutDestination<T extends Record<string, unknown>> {
+  file: string;
+  createWriter: (fileWriter?: FileWriter) => OutportWriter<T>;
+  atomicWrites: boolean;
+  onProgress?: ProgressHook;
+  onError?: ErrorHook;
+  onComplete?: CompleteHook;
+}
+
+/**
+ * Settings of a fan-out export.
+ *
+ * @template T - The type of data objects being written
+ */
+export interface FanOutBuilderSettings<T extends Record<string, unknown>> {
+  destinations: Array<FanOutDestination<T>>;
+  batchSize: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A destination prepared for a run: its writer, or the error that prevented creating it
+ */
+interface PreparedDestination<T extends Record<string, unknown>> {
+  destination: FanOutDestination<T>;
+  fileWriter?: AtomicFileWriter;
+  writer?: OutportWriter<T>;
+  error?: Error;
+}
+
+/**
+ * Runs an export that writes the same records to several files in a single pass.
+ *
+ * Created by calling fanOut() on an OutportBuilder with the builders of the
+ * other destinations. Each destination keeps its own format, columns, hooks
+ * and write strategy, while the source is read only once. A failing
+ * destination does not stop the others: each execution method resolves to the
+ * outcome of every destination, and fails only if the source itself fails.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const result = await outport<Order>()
+ *   .to('./orders.csv')
+ *   .fanOut(outport<Order>().to('./orders.jsonl'), outport<Order>().to('./orders.xlsx'))
+ *   .fromAsyncGenerator(fetchOrders());
+ * ```
+ */
+export class FanOutBuilder<T extends Record<string, unknown>> {
+  /**
+   * Creates a new fan-out builder.
+   *
+   * @param settings - Destinations and batch size
+   */
+  constructor(private readonly settings: FanOutBuilderSettings<T>) {}
+
+  /**
+   * Write an array of records to every destination.
+   *
+   * @param data - Array of data objects to write
+   * @returns Promise of Result with the outcome of each destination
+   */
+  async write(data: T[]): Promise<Result<FanOutTargetResult[]>> {
+    return await this.run(data);
+  }
+
+  /**
+   * Stream data from an async generator to every destination.
+   *
+   * @param source - Async generator or iterable providing data
+   * @returns Promise of Result with the outcome of each destination
+   */
+  async fromAsyncGenerator(
+    source: AsyncGenerator<T> | AsyncIterable<T>
+  ): Promise<Result<FanOutTargetResult[]>> {
+    return await this.run(source);
+  }
+
+  /**
+   * Stream data using a generator function to every destination.
+   *
+   * @param generatorFn - Function that returns an async generator
+   * @returns Promise of Result with the outcome of each destination
+   */
+  async stream(
+    generatorFn: () => AsyncGenerator<T> | AsyncIterable<T>
+  ): Promise<Result<FanOutTargetResult[]>> {
+    return await this.run(generatorFn());
+  }
+
+  /**
+   * Writes the source to every destination, settling atomic writes and calling
+   * each destination's hooks with its own outcome
+   */
+  private async run(
+    source: AsyncGenerator<T> | AsyncIterable<T> | T[]
+  ): Promise<Result<FanOutTargetResult[]>> {
+    const prepared = this.settings.destinations.map((destination) => this.prepare(destination));
+    const writable = prepared.filter((entry) => entry.writer !== undefined);
+
+    const fanOut = new FanOutStreamingWriter<T>(
+      writable.map(
+        (entry): FanOutTarget<T> => ({
+          writer: entry.writer!,
+          onProgress: entry.destination.onProgress,
+        })
+      ),
+      { batchSize: this.settings.batchSize, signal: this.settings.signal }
+    );
+    const streamResult = await fanOut.stream(source);
+
+    if (!streamResult.success) {
+      for (const entry of prepared) {
+        await entry.fileWriter?.abort();
+        if (entry.destination.onError) {
+          await entry.destination.onError(streamResult.error);
+        }
+      }
+      return streamResult;
+    }
+
+    const targetResults: FanOutTargetResult[] = [];
+    for (const entry of prepared) {
+      let result: Result<number> = entry.error
+        ? { success: false, error: entry.error }
+        : streamResult.value[writable.indexOf(entry)]!;
+      if (entry.fileWriter) {
+        result = await entry.fileWriter.settle(result);
+      }
+
+      if (result.success) {
+        if (entry.destination.onComplete) {
+          await entry.destination.onComplete({ success: true, value: undefined }, result.value);
+        }
+      } else if (entry.destination.onError) {
+        await entry.destination.onError(result.error);
+      }
+
+      targetResults.push({ file: entry.destination.file, result });
+    }
+
+    return { success: true, value: targetResults };
+  }
+
+  /**
+   * Creates the file writer and writer of a destination, recording a configuration error
+   */
+  private prepare(destination: FanOutDestination<T>): PreparedDestination<T> {
+    const fileWriter = destination.atomicWrites ? new AtomicFileWriter() : undefined;
+    try {
+      return { destination, fileWriter, writer: destination.createWriter(fileWriter) };
+    } catch (error) {
+      return {
+        destination,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+}
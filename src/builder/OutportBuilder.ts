@@ -2,9 +2,32 @@ import type {
   OutportWriter,
   WriterType,
   WriterMode,
+  CompressionType,
   CsvConfig,
+  CsvQuoteMode,
   JsonConfig,
+  XlsxConfig,
+  ColumnSchema,
+  SerializableType,
+  SerializedValue,
+  SerializationConfig,
+  DateSerialization,
+  HeaderStrategy,
+  FormulaSanitization,
+  SplitConfig,
+  RetryPolicy,
+  AbortPolicy,
+  Checkpoint,
+  CheckpointConfig,
+  ExportManifest,
+  ManifestFile,
+  ManifestWriterConfig,
+  PartitionKey,
+  RecordValidator,
+  FieldRules,
   Result,
+  StreamResult,
+  FileWriter,
 } from '../types.js';
 import { WriterFactory } from '../writers/WriterFactory.js';
 import type {
@@ -12,11 +35,25 @@ import type {
   AfterWriteHook,
   ProgressHook,
   ErrorHook,
+  RetryHook,
   CompleteHook,
   LifecycleHooks,
 } from './hooks.js';
-import { ValidationError } from '../errors.js';
+import { ValidationError, AbortedError } from '../errors.js';
 import { StreamingWriter } from '../streaming/StreamingWriter.js';
+import { SplitStreamingWriter } from '../streaming/SplitStreamingWriter.js';
+import { CheckpointWriter } from '../streaming/CheckpointWriter.js';
+import type { SplitPart } from '../streaming/SplitStreamingWriter.js';
+import { AtomicFileWriter } from '../io/AtomicFileWriter.js';
+import { RetryingFileWriter } from '../io/RetryingFileWriter.js';
+import { CountingFileWriter } from '../io/CountingFileWriter.js';
+import { ManifestWriter } from '../io/ManifestWriter.js';
+import { detectCompression, stripCompressionExtension } from '../io/CompressingFileWriter.js';
+import { WorkbookBuilder } from './WorkbookBuilder.js';
+import { PartitionedBuilder } from './PartitionedBuilder.js';
+import { FanOutBuilder } from './FanOutBuilder.js';
+import { ValidatingBuilder } from './ValidatingBuilder.js';
+import type { FanOutDestination } from './FanOutBuilder.js';
 
 /**
  * Fluent builder for creating and configuring data writers.
@@ -47,12 +84,24 @@ export class OutportBuilder<T extends Record<string, unknown>> {
   private mode: WriterMode = 'write';
   private csvConfig: Partial<CsvConfig<T>> = {};
   private jsonConfig: Partial<JsonConfig> = {};
+  private schema?: ColumnSchema<T>;
+  private serialization: SerializationConfig = {};
+  private sheetName?: string;
   private hooks: LifecycleHooks<T> = {};
   private batchSize: number = 100;
+  private atomicWrites: boolean = false;
+  private compression?: CompressionType;
+  private retry?: RetryPolicy;
+  private signal?: AbortSignal;
+  private abortPolicy: AbortPolicy = 'keep';
+  private checkpoint?: CheckpointConfig<T>;
+  private manifest?: { file?: string };
+  private split?: SplitConfig;
 
   /**
    * Specify the output file path.
    * File extension is used to auto-detect format if not explicitly set.
+   * A trailing `.gz` or `.br` extension also enables gzip or brotli compression.
    *
    * @param path - Path to the output file
    * @returns This builder instance for chaining
@@ -61,17 +110,28 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * ```typescript
    * outport<User>().to('./users.csv')
    * outport<User>().to('./data.json')
+   * outport<User>().to('./events.jsonl')
+   * outport<User>().to('./report.xlsx')
+   * outport<User>().to('./archive/users.csv.gz')
    * ```
    */
   to(path: string): this {
     this.filePath = path;
 
+    // Auto-detect compression from a trailing .gz/.br extension if not already set
+    this.compression ??= detectCompression(path);
+    const basePath = stripCompressionExtension(path, this.compression);
+
     // Auto-detect type from extension if not already set
     if (!this.writerType) {
-      if (path.endsWith('.csv')) {
+      if (basePath.endsWith('.csv')) {
         this.writerType = 'csv';
-      } else if (path.endsWith('.json')) {
+      } else if (basePath.endsWith('.json')) {
         this.writerType = 'json';
+      } else if (basePath.endsWith('.jsonl') || basePath.endsWith('.ndjson')) {
+        this.writerType = 'jsonl';
+      } else if (basePath.endsWith('.xlsx')) {
+        this.writerType = 'xlsx';
       }
     }
 
@@ -82,7 +142,7 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * Explicitly set the writer type.
    * Usually not needed as type is auto-detected from file extension.
    *
-   * @param type - Writer type ('csv' or 'json')
+   * @param type - Writer type ('csv', 'json', 'jsonl' or 'xlsx')
    * @returns This builder instance for chaining
    */
   as(type: WriterType): this {
@@ -106,6 +166,355 @@ export class OutportBuilder<T extends Record<string, unknown>> {
     return this;
   }
 
+  /**
+   * Write atomically through a temp file that replaces the target on success.
+   *
+   * Output goes to a hidden sibling temp file, which is fsynced and renamed onto
+   * the target only when the export completes. If the export fails, the temp
+   * file is deleted and the target is left untouched, so processes watching the
+   * directory never see a partial file.
+   *
+   * @param enabled - Whether to write atomically (default: true)
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * await outport<User>().to('./users.csv').atomic().fromAsyncGenerator(fetchUsers());
+   * ```
+   */
+  atomic(enabled: boolean = true): this {
+    this.atomicWrites = enabled;
+    return this;
+  }
+
+  /**
+   * Compress the output file with gzip or brotli.
+   *
+   * Usually not needed as compression is auto-detected from a `.gz` or `.br`
+   * extension. Async exports stream through a node:zlib compressor, so large
+   * exports are never held in memory. Brotli output must be written in a
+   * single pass, so it cannot be appended to or written with writeSync().
+   *
+   * @param type - Compression algorithm (default: 'gzip')
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * await outport<User>().to('./users.csv').compress('brotli').write(users);
+   * ```
+   */
+  compress(type: CompressionType = 'gzip'): this {
+    this.compression = type;
+    return this;
+  }
+
+  /**
+   * Retry file operations that fail with transient errors.
+   *
+   * A write, truncate or open that fails with one of the `retryOn` errno codes
+   * (read from the `originalError` of the FileWriteError) is attempted again
+   * after a fixed or exponentially growing delay, up to `attempts` times in
+   * total. Each retry is reported to the onRetry hook. Appended and streamed
+   * chunks are only retried when opening the file failed, since a later
+   * failure may already have written part of them. `attempts` also caps how
+   * often the onError hook can retry a streamed batch. Useful for network
+   * shares that intermittently return EBUSY.
+   *
+   * @param policy - Attempts, backoff, delays and errno codes to retry (default: 3 exponential attempts)
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * await outport<User>()
+   *   .to('/mnt/share/users.csv')
+   *   .withRetry({ attempts: 5, backoff: 'exponential', retryOn: ['EBUSY', 'EAGAIN', 'EMFILE'] })
+   *   .onRetry((error, { attempt }) => console.warn(`Attempt ${attempt} failed: ${error.message}`))
+   *   .fromAsyncGenerator(fetchUsers());
+   * ```
+   */
+  withRetry(policy: RetryPolicy = {}): this {
+    this.retry = policy;
+    return this;
+  }
+
+  /**
+   * Cancel the export when a signal is aborted.
+   *
+   * An aborted stream stops pulling from the source - even while it waits for
+   * the next record - and closes it by calling its `return()`. The export then
+   * resolves to a failed Result with an AbortedError, which is also passed to
+   * the onError hook. With the default `'keep'` policy the records written so
+   * far are finalized into a valid file; with `'discard'` the output is staged
+   * like an atomic write and deleted, leaving the target untouched. Applies to
+   * every async execution method, including partitioned, fan-out and workbook
+   * exports.
+   *
+   * @param signal - Signal that cancels the export, e.g. from an AbortController
+   * @param options - What to do with the partial output (default: keep it)
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * cancelButton.onclick = () => controller.abort();
+   *
+   * const result = await outport<User>()
+   *   .to('./users.csv')
+   *   .withSignal(controller.signal, { onAbort: 'discard' })
+   *   .fromAsyncGenerator(fetchUsers());
+   *
+   * if (!result.success && result.error instanceof AbortedError) {
+   *   console.log('Export cancelled');
+   * }
+   * ```
+   */
+  withSignal(signal: AbortSignal, options: { onAbort?: AbortPolicy } = {}): this {
+    this.signal = signal;
+    this.abortPolicy = options.onAbort ?? 'keep';
+    return this;
+  }
+
+  /**
+   * Save a checkpoint after each streamed batch, so a crashed export can be resumed.
+   *
+   * The checkpoint file records the last written batch, the record count, the
+   * byte offset of the output and the cursor of the last record. It is
+   * replaced atomically after every batch and deleted once the export
+   * completes. After a crash, run the same export with resume() instead of
+   * fromAsyncGenerator(): the output is truncated to the last good offset and
+   * the source restarts from the saved cursor. Supported for uncompressed CSV
+   * and JSON Lines output written with fromAsyncGenerator(), stream() or
+   * resume().
+   *
+   * @param config - Checkpoint file path and cursor function (default: `<output>.checkpoint.json`, no cursor)
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * await outport<Order>()
+   *   .to('./orders.csv')
+   *   .withCheckpoint({ cursor: (order) => order.id })
+   *   .resume((checkpoint) => fetchOrders({ after: checkpoint?.cursor }));
+   * ```
+   */
+  withCheckpoint<C = unknown>(config: CheckpointConfig<T, C> = {}): this {
+    this.checkpoint = config;
+    return this;
+  }
+
+  /**
+   * Write a manifest sidecar describing the output once the export completes.
+   *
+   * The manifest holds the row count, byte size and SHA-256 digest of the
+   * output, its columns, the writer configuration and the start and end
+   * timestamps; a split export lists every part file with its own count, size
+   * and digest. It is written atomically after the output is complete, so a
+   * loader that finds the manifest can trust the output it describes. The
+   * manifest is also passed to the onComplete hook. Applies to write(),
+   * fromAsyncGenerator(), stream() and resume(), and cannot be combined with
+   * append mode.
+   *
+   * @param options - Path of the manifest (default: `<output>.manifest.json`)
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * await outport<Order>()
+   *   .to('./orders.csv')
+   *   .withManifest()
+   *   .fromAsyncGenerator(fetchOrders()); // Also writes ./orders.csv.manifest.json
+   * ```
+   */
+  withManifest(options: { file?: string } = {}): this {
+    this.manifest = options;
+    return this;
+  }
+
+  /**
+   * Split a streamed export into numbered files of limited size.
+   *
+   * The stream rolls over to a new file once the current one holds the given
+   * number of rows or bytes: `users.csv` is written as `users-0001.csv`,
+   * `users-0002.csv` and so on. Each CSV part gets its own header row and each
+   * JSON part is a valid standalone document. Applies to fromAsyncGenerator()
+   * and stream().
+   *
+   * @param split - Maximum rows and/or bytes per file
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * await outport<User>()
+   *   .to('./users.csv')
+   *   .splitEvery({ bytes: 95 * 1024 * 1024 })
+   *   .fromAsyncGenerator(fetchUsers());
+   * ```
+   */
+  splitEvery(split: SplitConfig): this {
+    this.split = split;
+    return this;
+  }
+
+  /**
+   * Write one file per partition, routing each record by a key.
+   *
+   * The output path given to `to()` must contain a `{partition}` placeholder,
+   * which is replaced by the key of each record. A writer with its own header
+   * state is created for each partition when its first record arrives, and all
+   * partition files are finalized together once the data ends. Call this last:
+   * the format, columns, hooks, batch size, retries and `.atomic()` configured
+   * before it apply to every partition. As for a single file, the beforeWrite
+   * and afterWrite hooks run around write() and not for streamed records.
+   *
+   * @param key - Returns the partition of a record
+   * @returns A partitioned builder whose execution methods resolve to a per-partition summary
+   * @throws {ValidationError} If combined with splitEvery(), withManifest() or withCheckpoint()
+   *
+   * @example
+   * ```typescript
+   * const result = await outport<Order>()
+   *   .to('./out/{partition}/orders.csv')
+   *   .partitionBy((order) => order.region)
+   *   .fromAsyncGenerator(fetchOrders());
+   *
+   * if (result.success) {
+   *   result.value.forEach(({ partition, rows }) => console.log(`${partition}: ${rows}`));
+   * }
+   * ```
+   */
+  partitionBy(key: PartitionKey<T>): PartitionedBuilder<T> {
+    if (!this.filePath) {
+      throw new ValidationError('File path must be specified using .to()');
+    }
+
+    if (this.split) {
+      throw new ValidationError('partitionBy() cannot be combined with splitEvery()');
+    }
+
+    if (this.manifest) {
+      throw new ValidationError('partitionBy() cannot be combined with withManifest()');
+    }
+
+    if (this.checkpoint) {
+      throw new ValidationError('partitionBy() cannot be combined with withCheckpoint()');
+    }
+
+    return new PartitionedBuilder<T>({
+      pathTemplate: this.filePath,
+      partitionKey: key,
+      createWriter: (file, fileWriter) => this.createWriter(fileWriter, file),
+      atomicWrites: this.stagesOutput(),
+      batchSize: this.batchSize,
+      signal: this.signal,
+      beforeWrite: this.hooks.beforeWrite,
+      afterWrite: this.hooks.afterWrite,
+      onProgress: this.hooks.onProgress,
+      onError: this.hooks.onError,
+      onComplete: this.hooks.onComplete,
+    });
+  }
+
+  /**
+   * Validate every record and quarantine the ones that fail instead of writing them.
+   *
+   * Pass a function that checks a whole record, or rules for individual
+   * fields. A check returns `true` (or nothing) to accept the record, `false`
+   * to reject it, or a string to reject it with that reason; a check that
+   * throws also rejects the record, and so does a record that CSV, JSON or
+   * JSON Lines output cannot format, such as a formula rejected by
+   * withFormulaSanitization('reject') or a key outside the header of the
+   * `strict` header strategy. Rejected records go to
+   * `<output>.rejects.jsonl` next to the output file, or wherever rejectTo()
+   * sends them, while the export carries on. Call this last.
+   *
+   * @param validator - Record validator function, or validation rules per field
+   * @returns A validating builder whose execution methods resolve to the accepted and rejected counts
+   *
+   * @example
+   * ```typescript
+   * const result = await outport<Order>()
+   *   .to('./orders.csv')
+   *   .validate({
+   *     id: (id) => id > 0,
+   *     email: (email) => email.includes('@') || 'must be an email address',
+   *   })
+   *   .fromAsyncGenerator(fetchOrders());
+   *
+   * // Rejected records are in ./orders.rejects.jsonl
+   * ```
+   */
+  validate(validator: RecordValidator<T> | FieldRules<T>): ValidatingBuilder<T> {
+    return new ValidatingBuilder<T>({
+      file: this.filePath,
+      mode: this.mode,
+      validator,
+      checkFormat: this.createFormatCheck(),
+      writeAll: (data) => this.write(data),
+      writeAccepted: (source) => this.fromAsyncGenerator(source),
+    });
+  }
+
+  /**
+   * Creates a check that formats one record at a time, to find records the export cannot write.
+   *
+   * Records are measured by a writer that never writes to the file. Each one is
+   * measured after the first record that passed, so CSV columns come from the
+   * same record as in the export.
+   *
+   * @returns A function that formats a record, failing with the formatting error
+   */
+  private createFormatCheck(): (record: T) => Result<unknown> {
+    let writer: OutportWriter<T> | undefined;
+    let first: T | undefined;
+    return (record) => {
+      writer ??= this.createWriter(undefined, this.filePath);
+      if (!writer.measure) {
+        return { success: true, value: undefined };
+      }
+      const result = writer.measure(first ? [first, record] : [record]);
+      if (result.success) {
+        first ??= record;
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Write the same records to this and other destinations in a single pass.
+   *
+   * Each builder passed in describes one more destination, with its own
+   * output path, format, columns, hooks and `.atomic()` setting. The data is
+   * read once and every batch goes to all destinations; a destination that
+   * fails is dropped without stopping the others. The batch size of this
+   * builder applies to the whole export. Call this last.
+   *
+   * @param others - Builders describing the other destinations
+   * @returns A fan-out builder whose execution methods resolve to the outcome of each destination
+   * @throws {ValidationError} If a destination has no output path or uses splitEvery(), withManifest() or withCheckpoint()
+   *
+   * @example
+   * ```typescript
+   * const result = await outport<Order>()
+   *   .to('./orders.csv')
+   *   .fanOut(
+   *     outport<Order>().to('./orders.jsonl'),
+   *     outport<Order>().to('./orders.xlsx').withSheetName('Orders')
+   *   )
+   *   .fromAsyncGenerator(fetchOrders());
+   *
+   * if (result.success) {
+   *   result.value.forEach(({ file, result }) => console.log(file, result.success));
+   * }
+   * ```
+   */
+  fanOut(...others: Array<OutportBuilder<T>>): FanOutBuilder<T> {
+    return new FanOutBuilder<T>({
+      destinations: [this, ...others].map((builder) => builder.toFanOutDestination()),
+      batchSize: this.batchSize,
+      signal: this.signal,
+    });
+  }
+
   // CSV-specific configuration methods
 
   /**
@@ -135,6 +544,82 @@ export class OutportBuilder<T extends Record<string, unknown>> {
     return this;
   }
 
+  /**
+   * Set which CSV cells are quoted.
+   *
+   * @param mode - 'minimal', 'all', 'nonNumeric' or 'none' (default: 'minimal')
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * // RFC 4180 with every field quoted, as many bank and ERP importers require
+   * outport<Payment>().to('./payments.csv').withQuoteMode('all').withLineEnding('\r\n')
+   * ```
+   */
+  withQuoteMode(mode: CsvQuoteMode): this {
+    this.csvConfig.quoteMode = mode;
+    return this;
+  }
+
+  /**
+   * Set the character that escapes quotes inside quoted CSV cells.
+   *
+   * By default quotes are doubled. A distinct escape character is written
+   * before each quote and escape character instead, and lets the 'none' quote
+   * mode write cells containing special characters.
+   *
+   * @param escape - Single escape character (default: the quote character)
+   * @returns This builder instance for chaining
+   */
+  withEscape(escape: string): this {
+    this.csvConfig.escape = escape;
+    return this;
+  }
+
+  /**
+   * Set the line ending written after the CSV header and every row.
+   *
+   * @param lineEnding - '\n' or '\r\n' (default: '\n')
+   * @returns This builder instance for chaining
+   */
+  withLineEnding(lineEnding: '\n' | '\r\n'): this {
+    this.csvConfig.lineEnding = lineEnding;
+    return this;
+  }
+
+  /**
+   * Format CSV numbers and dates for a locale.
+   *
+   * Numbers and bigints are written with `Intl.NumberFormat` and dates with
+   * `Intl.DateTimeFormat`, in UTC unless the date format sets a `timeZone`.
+   * A warning is emitted when the locale's decimal separator is the delimiter.
+   *
+   * @param locale - BCP 47 locale such as 'de-DE' or 'en-US'
+   * @param options - Intl number and date format options
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * // 1234.56 is written as 1.234,56 and dates as 15.01.2024
+   * outport<Invoice>()
+   *   .to('./invoices.csv')
+   *   .withDelimiter(';')
+   *   .withLocale('de-DE', { dateFormat: { dateStyle: 'medium' } })
+   * ```
+   */
+  withLocale(
+    locale: string,
+    options: {
+      numberFormat?: Intl.NumberFormatOptions;
+      dateFormat?: Intl.DateTimeFormatOptions;
+    } = {}
+  ): this {
+    this.csvConfig.locale = locale;
+    this.csvConfig.numberFormat = options.numberFormat;
+    this.csvConfig.dateFormat = options.dateFormat;
+    return this;
+  }
+
   /**
    * Set custom CSV headers.
    *
@@ -189,6 +674,135 @@ export class OutportBuilder<T extends Record<string, unknown>> {
     return this;
   }
 
+  /**
+   * Define the output columns with a typed schema.
+   *
+   * Each column reads a property (`key`) or computes a value from the record
+   * (`value`), and can set its header, a `format` function and a `defaultValue`
+   * for null or undefined values. Keys and formatter arguments are checked
+   * against T. The schema drives every format: CSV and XLSX headers and rows,
+   * and the objects written to JSON and JSON Lines. It replaces withColumns(),
+   * withHeaders() and withColumnMapping(), and cannot be combined with them.
+   *
+   * @param schema - Ordered column definitions
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * outport<User>()
+   *   .to('./users.csv')
+   *   .withSchema([
+   *     { key: 'id', header: 'ID' },
+   *     { key: 'createdAt', header: 'Created', format: (date) => date.toISOString() },
+   *     { header: 'Full Name', value: (user) => `${user.first} ${user.last}` },
+   *     { key: 'team', defaultValue: 'unassigned' },
+   *   ])
+   * ```
+   */
+  withSchema(schema: ColumnSchema<T>): this {
+    this.schema = schema;
+    return this;
+  }
+
+  /**
+   * Register how values of a type are written to CSV, JSON and JSON Lines output.
+   *
+   * The serializer converts each value of the type - a class, matched with
+   * instanceof, or `'bigint'` or `'symbol'` - including values nested in
+   * objects and arrays. CSV writes strings, numbers and booleans it returns as
+   * they are and anything else as JSON. Registered serializers take precedence
+   * over the built-ins for Date, bigint, Buffer, Map and Set, and are checked
+   * in the order they were registered.
+   *
+   * @param type - The class or primitive type name to serialize
+   * @param serialize - Converts a value of the type
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * outport<Order>()
+   *   .to('./orders.csv')
+   *   .withSerializer(Decimal, (value) => value.toFixed(2))
+   *   .withSerializer('bigint', (value) => Number(value))
+   * ```
+   */
+  withSerializer<K extends SerializableType>(
+    type: K,
+    serialize: (value: SerializedValue<K>) => unknown
+  ): this {
+    this.serialization.serializers = [
+      ...(this.serialization.serializers ?? []),
+      { type, serialize },
+    ];
+    return this;
+  }
+
+  /**
+   * Set how Date values are written to CSV, JSON and JSON Lines output.
+   *
+   * Dates are written as UTC ISO 8601 strings by default. A time zone writes
+   * them in that zone with its UTC offset; a format pattern replaces ISO 8601.
+   *
+   * @param options - IANA time zone and/or format pattern
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * outport<Order>()
+   *   .to('./orders.csv')
+   *   .withDateFormat({ timeZone: 'America/New_York', format: 'yyyy-MM-dd HH:mm' })
+   * ```
+   */
+  withDateFormat(options: DateSerialization): this {
+    this.serialization.dates = options;
+    return this;
+  }
+
+  /**
+   * Set how CSV columns are determined when records have different keys.
+   *
+   * `'first'` (the default) takes the columns from the first record and drops
+   * keys that only appear later. `'union'` collects every key in the order it
+   * is first seen; streamed exports spool their rows to a temporary file and
+   * write the header once the stream ends. `'strict'` fails the export with an
+   * UnexpectedColumnsError listing keys that are not columns of the header.
+   *
+   * @param strategy - The header strategy
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * outport<Event>().to('./events.csv').withHeaderStrategy('union')
+   * ```
+   */
+  withHeaderStrategy(strategy: HeaderStrategy): this {
+    this.csvConfig.headerStrategy = strategy;
+    return this;
+  }
+
+  /**
+   * Neutralize CSV cells that spreadsheet applications would run as formulas.
+   *
+   * Protects exports of user-generated content from formula injection: data
+   * cells starting with `=`, `+`, `-`, `@`, a tab or a carriage return are
+   * escaped with a leading apostrophe, stripped of those characters, or fail
+   * the export with a CsvFormattingError. Numbers and numeric strings such as
+   * `-42` are left intact. The manifest written by withManifest() reports how
+   * many cells were neutralized.
+   *
+   * @param mode - 'escape', 'strip' or 'reject' (default: 'escape')
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * outport<Comment>().to('./comments.csv').withFormulaSanitization('escape')
+   * ```
+   */
+  withFormulaSanitization(mode: FormulaSanitization = 'escape'): this {
+    this.csvConfig.sanitizeFormulas = mode;
+    return this;
+  }
+
   /**
    * Enable UTF-8 BOM for CSV files.
    *
@@ -204,6 +818,67 @@ export class OutportBuilder<T extends Record<string, unknown>> {
     return this;
   }
 
+  // XLSX-specific configuration methods
+
+  /**
+   * Set the worksheet name for XLSX output.
+   *
+   * Headers, columns and column mapping are configured with the same methods
+   * as for CSV output.
+   *
+   * @param name - Sheet name, 1-31 characters (default: 'Sheet1')
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * outport<User>().to('./users.xlsx').withSheetName('Users')
+   * ```
+   */
+  withSheetName(name: string): this {
+    this.sheetName = name;
+    return this;
+  }
+
+  /**
+   * Start a multi-sheet workbook and add its first sheet.
+   *
+   * Returns a WorkbookBuilder, on which further sheets of any row type are
+   * added before calling write(). The output path, atomic writes, batch size
+   * and the progress, error and completion hooks of this builder carry over.
+   *
+   * @template U - The type of data objects in the sheet
+   * @param name - Sheet name, 1-31 characters and unique within the workbook
+   * @param data - Rows of the sheet, as an array or an async iterable
+   * @param config - Optional column and header configuration for the sheet
+   * @returns A workbook builder for adding more sheets
+   *
+   * @example
+   * ```typescript
+   * await outport()
+   *   .to('./report.xlsx')
+   *   .sheet<User>('Users', users)
+   *   .sheet<Order>('Orders', orders)
+   *   .write();
+   * ```
+   */
+  sheet<U extends Record<string, unknown>>(
+    name: string,
+    data: U[] | AsyncIterable<U>,
+    config?: Omit<XlsxConfig<U>, 'sheetName'>
+  ): WorkbookBuilder {
+    return new WorkbookBuilder({
+      filePath: this.filePath,
+      atomicWrites: this.atomicWrites,
+      batchSize: this.batchSize,
+      retry: this.retry,
+      signal: this.signal,
+      onProgress: this.hooks.onProgress,
+      onError: this.hooks.onError,
+      onRetry: this.hooks.onRetry,
+      onComplete: this.hooks.onComplete,
+    }).sheet<U>(name, data, config);
+  }
+
   // JSON-specific configuration methods
 
   /**
@@ -301,6 +976,19 @@ export class OutportBuilder<T extends Record<string, unknown>> {
     return this;
   }
 
+  /**
+   * Register a handler called before a failed file operation is retried.
+   *
+   * Only called when retries are enabled with withRetry().
+   *
+   * @param hook - Function to call with the error and the attempt being retried
+   * @returns This builder instance for chaining
+   */
+  onRetry(hook: RetryHook): this {
+    this.hooks.onRetry = hook;
+    return this;
+  }
+
   /**
    * Register a completion callback.
    *
@@ -361,7 +1049,8 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * ```
    */
   writeSync(data: T[]): Result<void> {
-    const writer = this.createWriter();
+    const fileWriter = this.createFileWriter();
+    const writer = this.createWriter(fileWriter);
     let processedData = data;
     let totalRecords = data.length;
 
@@ -382,8 +1071,11 @@ export class OutportBuilder<T extends Record<string, unknown>> {
         void this.hooks.onProgress(0, totalRecords);
       }
 
-      // Perform write
-      const result = writer.writeSync(processedData);
+      // Perform write, then commit or discard the temp file when writing atomically
+      let result = writer.writeSync(processedData);
+      if (fileWriter) {
+        result = fileWriter.settleSync(result);
+      }
 
       if (result.success) {
         // Report completion progress (fire-and-forget if hook returns a promise)
@@ -407,6 +1099,7 @@ export class OutportBuilder<T extends Record<string, unknown>> {
 
       return result;
     } catch (error) {
+      fileWriter?.abortSync();
       const err = error instanceof Error ? error : new Error(String(error));
       if (this.hooks.onError) {
         // Fire-and-forget error hook
@@ -424,6 +1117,9 @@ export class OutportBuilder<T extends Record<string, unknown>> {
   /**
    * Write data asynchronously.
    *
+   * Fails with an AbortedError, without writing, if the signal passed to
+   * withSignal() is aborted before the data is written.
+   *
    * @param data - Array of data objects to write
    * @returns Promise of Result indicating success or failure
    *
@@ -435,15 +1131,21 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * ```
    */
   async write(data: T[]): Promise<Result<void>> {
-    const writer = this.createWriter();
+    this.validateManifest();
+    const startedAt = new Date().toISOString();
+    const fileWriter = this.createFileWriter();
+    const writer = this.createWriter(fileWriter);
     let processedData = data;
     let totalRecords = data.length;
 
     try {
+      this.throwIfAborted();
+
       // Call beforeWrite hook
       if (this.hooks.beforeWrite) {
         processedData = await this.hooks.beforeWrite(data);
         totalRecords = processedData.length;
+        this.throwIfAborted();
       }
 
       // Report progress before write
@@ -451,8 +1153,26 @@ export class OutportBuilder<T extends Record<string, unknown>> {
         await this.hooks.onProgress(0, totalRecords);
       }
 
-      // Perform write
-      const result = await writer.write(processedData);
+      // Perform write, then commit or discard the temp file when writing atomically
+      let result = await this.runWriter(writer, () => writer.write(processedData));
+      if (fileWriter) {
+        result = await fileWriter.settle(result);
+      }
+
+      let manifest: ExportManifest | undefined;
+      if (result.success && this.manifest) {
+        const written = await this.writeManifest(this.manifest, {
+          startedAt,
+          rows: totalRecords,
+          columns: writer.getColumns?.(),
+          neutralizedCells: writer.getNeutralizedCells?.(),
+        });
+        if (written.success) {
+          manifest = written.value;
+        } else {
+          result = written;
+        }
+      }
 
       if (result.success) {
         // Report completion progress
@@ -470,11 +1190,12 @@ export class OutportBuilder<T extends Record<string, unknown>> {
 
       // Call complete hook
       if (this.hooks.onComplete) {
-        await this.hooks.onComplete(result, totalRecords);
+        await this.hooks.onComplete(result, totalRecords, manifest);
       }
 
       return result;
     } catch (error) {
+      await fileWriter?.abort();
       const err = error instanceof Error ? error : new Error(String(error));
       if (this.hooks.onError) {
         await this.hooks.onError(err);
@@ -494,8 +1215,10 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * @returns Result indicating success or failure
    */
   appendSync(data: T | T[]): Result<void> {
-    const writer = this.createWriter();
-    return writer.appendSync(data);
+    const fileWriter = this.createFileWriter();
+    const writer = this.createWriter(fileWriter);
+    const result = writer.appendSync(data);
+    return fileWriter ? fileWriter.settleSync(result) : result;
   }
 
   /**
@@ -505,8 +1228,14 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * @returns Promise of Result indicating success or failure
    */
   async append(data: T | T[]): Promise<Result<void>> {
-    const writer = this.createWriter();
-    return await writer.append(data);
+    if (this.signal?.aborted) {
+      return { success: false, error: new AbortedError(undefined, this.signal.reason) };
+    }
+
+    const fileWriter = this.createFileWriter();
+    const writer = this.createWriter(fileWriter);
+    const result = await this.runWriter(writer, () => writer.append(data));
+    return fileWriter ? await fileWriter.settle(result) : result;
   }
 
   /**
@@ -515,8 +1244,16 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * Automatically batches data for efficient processing and memory usage.
    * The first batch initializes the file with headers, subsequent batches are appended.
    *
+   * When a batch fails to write, the onError hook decides whether to skip it,
+   * retry it or abort the export (the default). Skipped batches are listed in
+   * `failedBatches` of an otherwise successful result. Exports split with
+   * splitEvery() always stop at the first failed batch.
+   *
+   * Aborting the signal passed to withSignal() stops the stream and resolves
+   * to a failed Result with an AbortedError.
+   *
    * @param source - Async generator or iterable providing data
-   * @returns Promise of Result with total number of records processed
+   * @returns Promise of Result with total number of records written, and any skipped batches
    *
    * @example
    * ```typescript
@@ -534,33 +1271,16 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    *   .withBatchSize(50)
    *   .onProgress((count) => console.log(`Processed ${count}`))
    *   .fromAsyncGenerator(fetchUsers());
+   *
+   * // Skip batches that still fail after two retries
+   * const result = await outport<User>()
+   *   .to('./users.csv')
+   *   .onError((error, batch) => (batch && batch.attempt < 3 ? 'retry' : 'continue'))
+   *   .fromAsyncGenerator(fetchUsers());
    * ```
    */
-  async fromAsyncGenerator(source: AsyncGenerator<T> | AsyncIterable<T>): Promise<Result<number>> {
-    const writer = this.createWriter();
-    const streamingWriter = new StreamingWriter(writer, {
-      batchSize: this.batchSize,
-      onProgress: this.hooks.onProgress,
-      initializeWithFirstBatch: true,
-    });
-
-    try {
-      const result = await streamingWriter.stream(source);
-
-      if (result.success && this.hooks.onComplete) {
-        await this.hooks.onComplete({ success: true, value: undefined }, result.value);
-      } else if (!result.success && this.hooks.onError) {
-        await this.hooks.onError(result.error);
-      }
-
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      if (this.hooks.onError) {
-        await this.hooks.onError(err);
-      }
-      return { success: false, error: err };
-    }
+  async fromAsyncGenerator(source: AsyncGenerator<T> | AsyncIterable<T>): Promise<StreamResult> {
+    return await this.runStream(source);
   }
 
   /**
@@ -569,7 +1289,7 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    * Convenience method that accepts a function returning an async generator.
    *
    * @param generatorFn - Function that returns an async generator
-   * @returns Promise of Result with total number of records processed
+   * @returns Promise of Result with total number of records written, and any skipped batches
    *
    * @example
    * ```typescript
@@ -582,41 +1302,532 @@ export class OutportBuilder<T extends Record<string, unknown>> {
    *   });
    * ```
    */
-  async stream(generatorFn: () => AsyncGenerator<T> | AsyncIterable<T>): Promise<Result<number>> {
+  async stream(generatorFn: () => AsyncGenerator<T> | AsyncIterable<T>): Promise<StreamResult> {
     return await this.fromAsyncGenerator(generatorFn());
   }
 
+  /**
+   * Stream data, resuming from the checkpoint of a previous run if there is one.
+   *
+   * Without a checkpoint file this starts a new export. With one, the output
+   * is truncated to the checkpoint's byte offset - dropping any partial batch
+   * written before the crash - and the records from the generator are
+   * appended after it. The generator function receives the checkpoint, so it
+   * can restart the source from the saved cursor. Requires withCheckpoint().
+   *
+   * @param generatorFn - Function that returns an async generator, starting after the checkpoint if given one
+   * @returns Promise of Result with the number of records written by this run, and any skipped batches
+   * @throws {ValidationError} If checkpoints are not enabled
+   *
+   * @example
+   * ```typescript
+   * const result = await outport<Order>()
+   *   .to('./orders.csv')
+   *   .withCheckpoint({ cursor: (order) => order.id })
+   *   .resume((checkpoint) => fetchOrders({ after: checkpoint?.cursor }));
+   * ```
+   */
+  async resume<C = unknown>(
+    generatorFn: (checkpoint?: Checkpoint<C>) => AsyncGenerator<T> | AsyncIterable<T>
+  ): Promise<StreamResult> {
+    if (!this.checkpoint) {
+      throw new ValidationError('Checkpoints must be enabled using .withCheckpoint()');
+    }
+
+    const loaded = await CheckpointWriter.load<C>(this.checkpointFile(this.checkpoint));
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    const checkpoint = loaded.value;
+    if (checkpoint && checkpoint.file !== this.filePath) {
+      return {
+        success: false,
+        error: new ValidationError(`Checkpoint belongs to another output file: ${checkpoint.file}`),
+      };
+    }
+    return await this.runStream(generatorFn(checkpoint), checkpoint);
+  }
+
+  /**
+   * Streams the source to the output, saving checkpoints when enabled.
+   *
+   * @param source - Async generator or iterable providing data
+   * @param resumeFrom - Checkpoint to resume from, appending after its byte offset
+   * @returns Promise of Result with total number of records written, and any skipped batches
+   */
+  private async runStream(
+    source: AsyncGenerator<T> | AsyncIterable<T>,
+    resumeFrom?: Checkpoint
+  ): Promise<StreamResult> {
+    this.validateManifest();
+    const startedAt = new Date().toISOString();
+    const fileWriter = this.createFileWriter();
+    const checkpoint = this.checkpoint && this.createCheckpointWriter(this.checkpoint, resumeFrom);
+    const onError = this.hooks.onError;
+    // The last batch error the hook decided on, so an abort is not reported twice
+    let batchError: Error | undefined;
+    const splitWriter = this.split && this.createSplitWriter(this.split, fileWriter);
+    const writer = splitWriter
+      ? undefined
+      : this.createWriter(
+          checkpoint?.fileWriter ?? fileWriter,
+          undefined,
+          resumeFrom ? 'append' : this.mode
+        );
+    const streamingWriter =
+      splitWriter ??
+      new StreamingWriter(writer!, {
+        batchSize: this.batchSize,
+        onProgress: this.hooks.onProgress,
+        signal: this.signal,
+        checkpoint: checkpoint?.writer,
+        maxAttempts: this.retry?.attempts,
+        onError:
+          onError &&
+          ((error, context) => {
+            batchError = error;
+            return onError(error, context);
+          }),
+        // A resumed export appends to the rows already in the file
+        initializeWithFirstBatch: !resumeFrom,
+      });
+
+    try {
+      if (checkpoint && resumeFrom) {
+        const rewound = await checkpoint.writer.rewind();
+        if (!rewound.success) {
+          throw rewound.error;
+        }
+      }
+
+      let result = await streamingWriter.stream(source);
+      if (fileWriter) {
+        result = await fileWriter.settle(result);
+      }
+      if (result.success && checkpoint) {
+        const cleared = await checkpoint.writer.clear();
+        if (!cleared.success) {
+          result = cleared;
+        }
+      }
+
+      let manifest: ExportManifest | undefined;
+      if (result.success && this.manifest) {
+        const written = await this.writeManifest(this.manifest, {
+          startedAt,
+          rows: (resumeFrom?.records ?? 0) + result.value,
+          columns: writer?.getColumns?.(),
+          neutralizedCells: writer?.getNeutralizedCells?.(),
+          parts: splitWriter?.getParts(),
+        });
+        if (written.success) {
+          manifest = written.value;
+        } else {
+          result = written;
+        }
+      }
+
+      if (result.success && this.hooks.onComplete) {
+        await this.hooks.onComplete({ success: true, value: undefined }, result.value, manifest);
+      } else if (!result.success && onError && result.error !== batchError) {
+        await onError(result.error);
+      }
+
+      return result;
+    } catch (error) {
+      await fileWriter?.abort();
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (this.hooks.onError) {
+        await this.hooks.onError(err);
+      }
+      return { success: false, error: err };
+    }
+  }
+
+  /**
+   * Runs a write operation, wrapping it in the writer's open/close lifecycle
+   * when compressing so the file is produced by a single compression stream.
+   *
+   * @param writer - The writer the operation uses
+   * @param operation - The write or append call to run
+   * @returns Promise of the operation result, or the close failure
+   */
+  private async runWriter(
+    writer: OutportWriter<T>,
+    operation: () => Promise<Result<void>>
+  ): Promise<Result<void>> {
+    if (!this.compression || !writer.open) {
+      return await operation();
+    }
+
+    const openResult = await writer.open();
+    if (!openResult.success) {
+      return openResult;
+    }
+
+    try {
+      const result = await operation();
+      const closeResult: Result<void> = writer.close
+        ? await writer.close()
+        : { success: true, value: undefined };
+      return result.success ? closeResult : result;
+    } catch (error) {
+      await writer.close?.();
+      throw error;
+    }
+  }
+
+  /**
+   * Throws an AbortedError if the signal passed to withSignal() is aborted.
+   */
+  private throwIfAborted(): void {
+    if (this.signal?.aborted) {
+      throw new AbortedError(undefined, this.signal.reason);
+    }
+  }
+
+  /**
+   * Whether output is staged in a temp file: for atomic writes, or to discard an aborted export.
+   */
+  private stagesOutput(): boolean {
+    return this.atomicWrites || (this.signal !== undefined && this.abortPolicy === 'discard');
+  }
+
+  /**
+   * Creates the file writer decorator for the configured write strategy.
+   *
+   * @returns An atomic file writer when output is staged, otherwise undefined
+   */
+  private createFileWriter(): AtomicFileWriter | undefined {
+    return this.stagesOutput() ? new AtomicFileWriter() : undefined;
+  }
+
+  /**
+   * Describes this builder as one destination of a fan-out export.
+   *
+   * @returns The output path, writer factory, write strategy and hooks of this builder
+   * @throws {ValidationError} If configuration is invalid
+   */
+  private toFanOutDestination(): FanOutDestination<T> {
+    if (!this.filePath) {
+      throw new ValidationError('File path must be specified using .to()');
+    }
+
+    if (this.split) {
+      throw new ValidationError('fanOut() cannot be combined with splitEvery()');
+    }
+
+    if (this.manifest) {
+      throw new ValidationError('fanOut() cannot be combined with withManifest()');
+    }
+
+    if (this.checkpoint) {
+      throw new ValidationError('fanOut() cannot be combined with withCheckpoint()');
+    }
+
+    return {
+      file: this.filePath,
+      createWriter: (fileWriter) => this.createWriter(fileWriter),
+      atomicWrites: this.stagesOutput(),
+      onProgress: this.hooks.onProgress,
+      onError: this.hooks.onError,
+      onComplete: this.hooks.onComplete,
+    };
+  }
+
+  /**
+   * Checks that a manifest, when enabled, can describe the whole output.
+   *
+   * @throws {ValidationError} If the manifest is combined with append mode
+   */
+  private validateManifest(): void {
+    // Appended rows would be counted while the size and digest cover the whole file
+    if (this.manifest && this.mode === 'append') {
+      throw new ValidationError('withManifest() cannot be combined with append mode');
+    }
+  }
+
+  /**
+   * Measures the output and writes the manifest sidecar of a completed export.
+   *
+   * @param options - Manifest options from withManifest()
+   * @param details - Start time, total row count, columns, and the part files when split
+   * @returns Promise of Result with the manifest that was written
+   */
+  private async writeManifest(
+    options: { file?: string },
+    details: {
+      startedAt: string;
+      rows: number;
+      columns?: string[];
+      neutralizedCells?: number;
+      parts?: SplitPart[];
+    }
+  ): Promise<Result<ExportManifest>> {
+    const file = this.filePath!;
+    // Only CSV writers report neutralized cells; they are counted when sanitization is enabled
+    const counts = (
+      details.parts
+        ? details.parts.map((part) => part.neutralizedCells)
+        : [details.neutralizedCells]
+    ).filter((count): count is number => count !== undefined);
+    const neutralizedCells =
+      this.csvConfig.sanitizeFormulas && counts.length > 0
+        ? counts.reduce((total, count) => total + count, 0)
+        : undefined;
+    let manifest: ExportManifest;
+
+    if (details.parts) {
+      const parts: ManifestFile[] = [];
+      for (const part of details.parts) {
+        const described = await ManifestWriter.describe(part.file, part.rows);
+        if (!described.success) {
+          return described;
+        }
+        parts.push(described.value);
+      }
+      manifest = {
+        file,
+        rows: details.rows,
+        bytes: parts.reduce((total, part) => total + part.bytes, 0),
+        columns: details.parts[0]?.columns,
+        neutralizedCells,
+        config: this.manifestConfig(),
+        startedAt: details.startedAt,
+        completedAt: new Date().toISOString(),
+        parts,
+      };
+    } else {
+      const described = await ManifestWriter.describe(file, details.rows);
+      if (!described.success) {
+        return described;
+      }
+      manifest = {
+        ...described.value,
+        columns: details.columns,
+        neutralizedCells,
+        config: this.manifestConfig(),
+        startedAt: details.startedAt,
+        completedAt: new Date().toISOString(),
+      };
+    }
+
+    const manifestWriter = new ManifestWriter(
+      this.retry && new RetryingFileWriter(this.retry, undefined, this.hooks.onRetry)
+    );
+    const written = await manifestWriter.write(options.file ?? `${file}.manifest.json`, manifest);
+    return written.success ? { success: true, value: manifest } : written;
+  }
+
+  /**
+   * Describes the writer configuration for the manifest.
+   *
+   * @returns The format, write mode, compression and format options that were set
+   */
+  private manifestConfig(): ManifestWriterConfig {
+    return {
+      type: this.writerType!,
+      mode: this.mode,
+      compression: this.compression,
+      delimiter: this.csvConfig.delimiter,
+      quote: this.csvConfig.quote,
+      includeUtf8Bom: this.csvConfig.includeUtf8Bom ?? this.jsonConfig.includeUtf8Bom,
+      prettyPrint: this.jsonConfig.prettyPrint,
+      indent: this.jsonConfig.indent,
+      sheetName: this.sheetName,
+      sanitizeFormulas: this.csvConfig.sanitizeFormulas,
+      quoteMode: this.csvConfig.quoteMode,
+      escape: this.csvConfig.escape,
+      lineEnding: this.csvConfig.lineEnding,
+      locale: this.csvConfig.locale,
+    };
+  }
+
+  /**
+   * Gets the path of the checkpoint file.
+   *
+   * @param config - Checkpoint configuration
+   * @returns The configured path, or `<output>.checkpoint.json`
+   * @throws {ValidationError} If no output path is set
+   */
+  private checkpointFile(config: CheckpointConfig<T>): string {
+    if (!this.filePath) {
+      throw new ValidationError('File path must be specified using .to()');
+    }
+    return config.file ?? `${this.filePath}.checkpoint.json`;
+  }
+
+  /**
+   * Creates the checkpoint writer and the byte-counting file writer the output goes through.
+   *
+   * @param config - Checkpoint configuration
+   * @param resumeFrom - Checkpoint of the run being resumed
+   * @returns The checkpoint writer and the file writer to create the output writer with
+   * @throws {ValidationError} If the output cannot be checkpointed
+   */
+  private createCheckpointWriter(
+    config: CheckpointConfig<T>,
+    resumeFrom?: Checkpoint
+  ): { writer: CheckpointWriter<T>; fileWriter: CountingFileWriter } {
+    const file = this.checkpointFile(config);
+
+    if (this.writerType !== 'csv' && this.writerType !== 'jsonl') {
+      throw new ValidationError('Checkpoints are only supported for CSV and JSON Lines output');
+    }
+    if (this.compression) {
+      throw new ValidationError('withCheckpoint() cannot be combined with compression');
+    }
+    if (this.stagesOutput()) {
+      throw new ValidationError('withCheckpoint() cannot be combined with atomic writes');
+    }
+    if (this.split) {
+      throw new ValidationError('withCheckpoint() cannot be combined with splitEvery()');
+    }
+    if (this.mode === 'append') {
+      throw new ValidationError('withCheckpoint() cannot be combined with append mode');
+    }
+    if (this.csvConfig.headerStrategy === 'union') {
+      throw new ValidationError(
+        'withCheckpoint() cannot be combined with the union header strategy'
+      );
+    }
+
+    const fileWriter = new CountingFileWriter();
+    return {
+      writer: new CheckpointWriter<T>(file, this.filePath!, fileWriter, config.cursor, resumeFrom),
+      fileWriter,
+    };
+  }
+
+  /**
+   * Creates the streaming writer that rolls over to numbered part files.
+   *
+   * @param split - Row and byte limits per part
+   * @param fileWriter - Optional file writer to perform I/O through
+   * @returns A configured split streaming writer
+   * @throws {ValidationError} If configuration is invalid
+   */
+  private createSplitWriter(split: SplitConfig, fileWriter?: FileWriter): SplitStreamingWriter<T> {
+    if (!this.filePath) {
+      throw new ValidationError('File path must be specified using .to()');
+    }
+
+    if (this.mode === 'append') {
+      throw new ValidationError('splitEvery() cannot be combined with append mode');
+    }
+
+    // Spooled rows reach the part file only when it is closed, too late to measure its size
+    if (split.bytes !== undefined && this.csvConfig.headerStrategy === 'union') {
+      throw new ValidationError(
+        'splitEvery() with a bytes limit cannot be combined with the union header strategy'
+      );
+    }
+
+    // Compressed and zipped sizes are only known once the data has been written
+    if (split.bytes !== undefined && (this.compression || this.writerType === 'xlsx')) {
+      throw new ValidationError(
+        'splitEvery() with a bytes limit cannot be combined with compression or XLSX output'
+      );
+    }
+
+    return new SplitStreamingWriter<T>(
+      (file, partFileWriter) => this.createWriter(partFileWriter, file),
+      this.filePath,
+      split,
+      { batchSize: this.batchSize, onProgress: this.hooks.onProgress, signal: this.signal },
+      fileWriter
+    );
+  }
+
   /**
    * Creates the appropriate writer instance based on configuration.
    *
+   * @param fileWriter - Optional file writer to perform I/O through
+   * @param partFile - Path of the part file when splitting, instead of the output path
+   * @param mode - Write mode, when it differs from the configured one
    * @returns A configured writer instance
    * @throws {ValidationError} If configuration is invalid
    */
-  private createWriter(): OutportWriter<T> {
+  private createWriter(
+    fileWriter?: FileWriter,
+    partFile?: string,
+    mode: WriterMode = this.mode
+  ): OutportWriter<T> {
     if (!this.filePath) {
       throw new ValidationError('File path must be specified using .to()');
     }
 
+    if (this.split && partFile === undefined) {
+      throw new ValidationError(
+        'splitEvery() only applies to streamed exports; use fromAsyncGenerator() or stream()'
+      );
+    }
+    const file = partFile ?? this.filePath;
+    if (this.retry) {
+      fileWriter = new RetryingFileWriter(this.retry, fileWriter, this.hooks.onRetry);
+    }
+
     if (!this.writerType) {
       throw new ValidationError(
-        'Could not determine writer type. Use .as() or specify file extension (.csv or .json)'
+        'Could not determine writer type. Use .as() or specify file extension (.csv, .json, .jsonl or .xlsx)'
       );
     }
 
     if (this.writerType === 'csv') {
-      return WriterFactory.create<T>({
-        type: 'csv',
-        mode: this.mode,
-        file: this.filePath,
-        config: this.csvConfig,
-      });
+      return WriterFactory.create<T>(
+        {
+          type: 'csv',
+          mode,
+          file,
+          compression: this.compression,
+          serialization: this.serialization,
+          config: { ...this.csvConfig, schema: this.schema },
+        },
+        fileWriter
+      );
+    } else if (this.writerType === 'xlsx') {
+      return WriterFactory.create<T>(
+        {
+          type: 'xlsx',
+          mode,
+          file,
+          compression: this.compression,
+          config: {
+            headers: this.csvConfig.headers,
+            columnMapping: this.csvConfig.columnMapping,
+            includeKeys: this.csvConfig.includeKeys,
+            flattenNestedObjects: this.csvConfig.flattenNestedObjects,
+            schema: this.schema,
+            sheetName: this.sheetName,
+          },
+        },
+        fileWriter
+      );
+    } else if (this.writerType === 'jsonl') {
+      return WriterFactory.create<T>(
+        {
+          type: 'jsonl',
+          mode,
+          file,
+          compression: this.compression,
+          serialization: this.serialization,
+          config: { schema: this.schema },
+        },
+        fileWriter
+      );
     } else {
-      return WriterFactory.create<T>({
-        type: 'json',
-        mode: this.mode,
-        file: this.filePath,
-        config: this.jsonConfig,
-      });
+      return WriterFactory.create<T>(
+        {
+          type: 'json',
+          mode,
+          file,
+          compression: this.compression,
+          serialization: this.serialization,
+          config: { ...this.jsonConfig, schema: this.schema },
+        },
+        fileWriter
+      );
     }
   }
 }
@@ -0,0 +1,153 @@
+import type { Result, PartitionKey, PartitionSummary } from '../types.js';
+import type {
+  BeforeWriteHook,
+  AfterWriteHook,
+  ProgressHook,
+  ErrorHook,
+  CompleteHook,
+} from './hooks.js';
+import type { PartWriterFactory } from '../streaming/SplitStreamingWriter.js';
+import { PartitionedStreamingWriter } from '../streaming/PartitionedStreamingWriter.js';
+import { AtomicFileWriter } from '../io/AtomicFileWriter.js';
+
+/**
+ * Settings carried over from the OutportBuilder that started the partitioned export.
+ *
+ * @template T - The type of data objects being written
+ */
+export interface PartitionedBuilderSettings<T extends Record<string, unknown>> {
+  pathTemplate: string;
+  partitionKey: PartitionKey<T>;
+  createWriter: PartWriterFactory<T>;
+  atomicWrites: boolean;
+  batchSize: number;
+  signal?: AbortSignal;
+  beforeWrite?: BeforeWriteHook<T>;
+  afterWrite?: AfterWriteHook<T>;
+  onProgress?: ProgressHook;
+  onError?: ErrorHook;
+  onComplete?: CompleteHook;
+}
+
+/**
+ * Runs an export that writes one file per partition.
+ *
+ * Created by calling partitionBy() on an OutportBuilder, after the format,
+ * columns, hooks and write strategy have been configured. Every partition file
+ * is written with that configuration, and each execution method resolves to
+ * the row count and file of every partition.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const result = await outport<Order>()
+ *   .to('./out/{partition}/orders.csv')
+ *   .withColumns(['id', 'total'])
+ *   .partitionBy((order) => order.region)
+ *   .fromAsyncGenerator(fetchOrders());
+ * ```
+ */
+export class PartitionedBuilder<T extends Record<string, unknown>> {
+  /**
+   * Creates a new partitioned builder.
+   *
+   * @param settings - Path template, partition key, writer factory and hooks
+   */
+  constructor(private readonly settings: PartitionedBuilderSettings<T>) {}
+
+  /**
+   * Write an array of records, one file per partition.
+   *
+   * The beforeWrite hook transforms the whole array before it is partitioned,
+   * and the afterWrite hook receives the records written to all partitions.
+   *
+   * @param data - Array of data objects to write
+   * @returns Promise of Result with the row count and file of each partition
+   */
+  async write(data: T[]): Promise<Result<PartitionSummary[]>> {
+    const { beforeWrite, afterWrite } = this.settings;
+    let processedData = data;
+
+    if (beforeWrite) {
+      try {
+        processedData = await beforeWrite(data);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (this.settings.onError) {
+          await this.settings.onError(err);
+        }
+        return { success: false, error: err };
+      }
+    }
+
+    return await this.run(
+      processedData,
+      afterWrite && ((totalRecords) => afterWrite(processedData, totalRecords))
+    );
+  }
+
+  /**
+   * Stream data from an async generator, one file per partition.
+   *
+   * @param source - Async generator or iterable providing data
+   * @returns Promise of Result with the row count and file of each partition
+   */
+  async fromAsyncGenerator(
+    source: AsyncGenerator<T> | AsyncIterable<T>
+  ): Promise<Result<PartitionSummary[]>> {
+    return await this.run(source);
+  }
+
+  /**
+   * Stream data using a generator function, one file per partition.
+   *
+   * @param generatorFn - Function that returns an async generator
+   * @returns Promise of Result with the row count and file of each partition
+   */
+  async stream(
+    generatorFn: () => AsyncGenerator<T> | AsyncIterable<T>
+  ): Promise<Result<PartitionSummary[]>> {
+    return await this.run(generatorFn());
+  }
+
+  /**
+   * Writes the source through a partitioned writer, settling atomic writes and calling the hooks
+   */
+  private async run(
+    source: AsyncGenerator<T> | AsyncIterable<T> | T[],
+    afterWrite?: (totalRecords: number) => void | Promise<void>
+  ): Promise<Result<PartitionSummary[]>> {
+    const fileWriter = this.settings.atomicWrites ? new AtomicFileWriter() : undefined;
+    const partitionedWriter = new PartitionedStreamingWriter<T>(
+      this.settings.createWriter,
+      this.settings.pathTemplate,
+      this.settings.partitionKey,
+      {
+        batchSize: this.settings.batchSize,
+        onProgress: this.settings.onProgress,
+        signal: this.settings.signal,
+      },
+      fileWriter
+    );
+
+    let result = await partitionedWriter.stream(source);
+    if (fileWriter) {
+      result = await fileWriter.settle(result);
+    }
+
+    if (result.success) {
+      const totalRecords = result.value.reduce((total, partition) => total + partition.rows, 0);
+      if (afterWrite) {
+        await afterWrite(totalRecords);
+      }
+      if (this.settings.onComplete) {
+        await this.settings.onComplete({ success: true, value: undefined }, totalRecords);
+      }
+    } else if (this.settings.onError) {
+      await this.settings.onError(result.error);
+    }
+
+    return result;
+  }
+}
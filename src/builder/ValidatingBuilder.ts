@@ -0,0 +1,353 @@
+import type {
+  Result,
+  RecordValidator,
+  FieldRules,
+  RejectedRecord,
+  RejectHandler,
+  ValidationOutcome,
+  ValidationSummary,
+  WriterMode,
+} from '../types.js';
+import { JsonFormattingError, ValidationError } from '../errors.js';
+import { JsonlWriter } from '../writers/jsonl/JsonlWriter.js';
+import { detectCompression, stripCompressionExtension } from '../io/CompressingFileWriter.js';
+
+/**
+ * Settings carried over from the OutportBuilder that started the validated export.
+ *
+ * @template T - The type of data objects being written
+ */
+export interface ValidatingBuilderSettings<T extends Record<string, unknown>> {
+  /** Output path of the export, used to name the default reject file */
+  file?: string;
+  /** Write mode of the export, which the reject file follows */
+  mode?: WriterMode;
+  validator: RecordValidator<T> | FieldRules<T>;
+  /** Formats a record the way the export would, failing for records it cannot write */
+  checkFormat?: (record: T) => Result<unknown>;
+  /** Writes the accepted records of an array in one write(), like the builder's write() */
+  writeAll: (data: T[]) => Promise<Result<void>>;
+  /** Streams the accepted records, like the builder's fromAsyncGenerator() */
+  writeAccepted: (source: AsyncIterable<T>) => Promise<Result<number>>;
+}
+
+/**
+ * Where rejected records go during one run
+ */
+interface RejectSink<T> {
+  reject(rejection: RejectedRecord<T>): Promise<void>;
+  close(): Promise<Result<void>>;
+}
+
+/**
+ * Runs an export that validates every record before it is written.
+ *
+ * Created by calling validate() on an OutportBuilder, after the format,
+ * columns, hooks and write strategy have been configured. Records that pass
+ * are written with that configuration; records that fail - or that cannot be
+ * formatted, such as a formula rejected by CSV sanitization - are quarantined
+ * in a reject sink with the reason attached, and the export carries on. Each
+ * execution method resolves to the accepted and rejected counts.
+ *
+ * By default rejections go to a JSON Lines file next to the output -
+ * `orders.csv` rejects to `orders.rejects.jsonl`. The file is only created
+ * once a record is rejected, and is appended to when the export appends.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const result = await outport<Order>()
+ *   .to('./orders.csv')
+ *   .validate((order) => order.total >= 0 || 'total must not be negative')
+ *   .fromAsyncGenerator(fetchOrders());
+ *
+ * if (result.success) {
+ *   console.log(`${result.value.accepted} written, ${result.value.rejected} rejected`);
+ * }
+ * ```
+ */
+export class ValidatingBuilder<T extends Record<string, unknown>> {
+  private rejectTarget?: string | RejectHandler<T>;
+
+  /**
+   * Creates a new validating builder.
+   *
+   * @param settings - Validator, output path and the export of accepted records
+   */
+  constructor(private readonly settings: ValidatingBuilderSettings<T>) {
+    this.rejectTarget = settings.file ? defaultRejectFile(settings.file) : undefined;
+  }
+
+  /**
+   * Send rejected records to a JSON Lines file or a handler instead of the default reject file.
+   *
+   * Each line of a reject file holds the record's 0-based `index`, the `reason`
+   * and the `record` itself.
+   *
+   * @param target - Path of a .jsonl or .ndjson file, or a function receiving each rejection
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * .validate(isValidOrder).rejectTo('./quarantine/orders.jsonl')
+   * .validate(isValidOrder).rejectTo((rejection) => logger.warn(rejection.reason))
+   * ```
+   */
+  rejectTo(target: string | RejectHandler<T>): this {
+    this.rejectTarget = target;
+    return this;
+  }
+
+  /**
+   * Validate and write an array of records.
+   *
+   * Every record is validated first, then the accepted records are written in
+   * a single write(), so the beforeWrite and afterWrite hooks receive them.
+   *
+   * @param data - Array of data objects to write
+   * @returns Promise of Result with the accepted and rejected counts
+   */
+  async write(data: T[]): Promise<Result<ValidationSummary>> {
+    return await this.run(data);
+  }
+
+  /**
+   * Validate and stream data from an async generator.
+   *
+   * @param source - Async generator or iterable providing data
+   * @returns Promise of Result with the accepted and rejected counts
+   */
+  async fromAsyncGenerator(
+    source: AsyncGenerator<T> | AsyncIterable<T>
+  ): Promise<Result<ValidationSummary>> {
+    return await this.run(source);
+  }
+
+  /**
+   * Validate and stream data using a generator function.
+   *
+   * @param generatorFn - Function that returns an async generator
+   * @returns Promise of Result with the accepted and rejected counts
+   */
+  async stream(
+    generatorFn: () => AsyncGenerator<T> | AsyncIterable<T>
+  ): Promise<Result<ValidationSummary>> {
+    return await this.run(generatorFn());
+  }
+
+  /**
+   * Writes the accepted records of the source, sending the rest to the reject sink
+   *
+   * @throws {ValidationError} If no reject sink is configured or the reject file is invalid
+   */
+  private async run(
+    source: AsyncGenerator<T> | AsyncIterable<T> | T[]
+  ): Promise<Result<ValidationSummary>> {
+    const target = this.rejectTarget;
+    if (target === undefined) {
+      throw new ValidationError('Reject file must be specified using .rejectTo()');
+    }
+
+    const sink =
+      typeof target === 'string'
+        ? createFileSink<T>(target, this.settings.mode ?? 'write')
+        : createHandlerSink(target);
+    const summary: ValidationSummary = { accepted: 0, rejected: 0 };
+
+    const result = Array.isArray(source)
+      ? await this.writeArray(source, sink, summary)
+      : await this.settings.writeAccepted(this.accepted(source, sink, summary));
+    const closed = await sink.close();
+    if (!result.success) {
+      return result;
+    }
+    if (!closed.success) {
+      return closed;
+    }
+    // The reject file only exists once a record has been rejected
+    if (typeof target === 'string' && summary.rejected > 0) {
+      summary.rejectFile = target;
+    }
+    return { success: true, value: summary };
+  }
+
+  /**
+   * Validates an array, then writes the records that pass in one write()
+   */
+  private async writeArray(
+    data: T[],
+    sink: RejectSink<T>,
+    summary: ValidationSummary
+  ): Promise<Result<unknown>> {
+    const accepted: T[] = [];
+    try {
+      for await (const record of this.accepted(data, sink, summary)) {
+        accepted.push(record);
+      }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+
+    // write() fails on an empty array, so an export that rejected every record streams no records
+    return accepted.length > 0
+      ? await this.settings.writeAll(accepted)
+      : await this.settings.writeAccepted(this.accepted([], sink, summary));
+  }
+
+  /**
+   * Streams the records that pass validation, counting and rejecting the others
+   */
+  private async *accepted(
+    source: AsyncGenerator<T> | AsyncIterable<T> | T[],
+    sink: RejectSink<T>,
+    summary: ValidationSummary
+  ): AsyncGenerator<T> {
+    let index = 0;
+    for await (const record of source) {
+      const reason = (await this.check(record, index)) ?? this.checkFormat(record);
+      if (reason === undefined) {
+        summary.accepted++;
+        yield record;
+      } else {
+        summary.rejected++;
+        await sink.reject({ index, reason, record });
+      }
+      index++;
+    }
+  }
+
+  /**
+   * Validates one record
+   *
+   * @returns The reason the record is rejected, or undefined if it is accepted
+   */
+  private async check(record: T, index: number): Promise<string | undefined> {
+    const validator = this.settings.validator;
+    try {
+      if (typeof validator === 'function') {
+        return toReason(await validator(record, index), 'Validation failed');
+      }
+
+      const failures: string[] = [];
+      for (const [field, rule] of Object.entries(validator) as Array<
+        [string, ((value: unknown, record: T) => ValidationOutcome) | undefined]
+      >) {
+        const reason = rule ? toReason(rule(record[field], record), 'is invalid') : undefined;
+        if (reason !== undefined) {
+          failures.push(`${field}: ${reason}`);
+        }
+      }
+      return failures.length > 0 ? failures.join('; ') : undefined;
+    } catch (error) {
+      // A validator that throws rejects the record rather than aborting the export
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Formats one record the way the export would
+   *
+   * @returns The formatting error message, or undefined if the record can be written
+   */
+  private checkFormat(record: T): string | undefined {
+    const result = this.settings.checkFormat?.(record);
+    return result && !result.success ? result.error.message : undefined;
+  }
+}
+
+/**
+ * Converts a validation outcome to the reason for a rejection, using the fallback for `false`
+ */
+function toReason(outcome: ValidationOutcome, fallback: string): string | undefined {
+  if (outcome === true || outcome === undefined) {
+    return undefined;
+  }
+  return outcome === false ? fallback : outcome;
+}
+
+/**
+ * Names the default reject file after the output: `orders.csv` becomes `orders.rejects.jsonl`
+ */
+function defaultRejectFile(file: string): string {
+  const basePath = stripCompressionExtension(file, detectCompression(file));
+  const extension = /\.[^./\\]+$/.exec(basePath);
+  return `${extension ? basePath.slice(0, extension.index) : basePath}.rejects.jsonl`;
+}
+
+/**
+ * Copies a value into plain JSON, writing bigints as strings and circular references as '[Circular]'
+ */
+function toJsonSafe(value: unknown): unknown {
+  const ancestors: unknown[] = [];
+  try {
+    return JSON.parse(
+      JSON.stringify(value, function (this: unknown, _key: string, item: unknown) {
+        if (typeof item === 'bigint') {
+          return item.toString();
+        }
+        if (typeof item === 'object' && item !== null) {
+          // The holder is the innermost object still being stringified
+          while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+            ancestors.pop();
+          }
+          if (ancestors.includes(item)) {
+            return '[Circular]';
+          }
+          ancestors.push(item);
+        }
+        return item;
+      })
+    ) as unknown;
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Writes rejections to a JSON Lines file, opened when the first record is rejected
+ */
+function createFileSink<T extends Record<string, unknown>>(
+  file: string,
+  mode: WriterMode
+): RejectSink<T> {
+  const writer = new JsonlWriter<Record<string, unknown>>({ type: 'jsonl', mode, file });
+  let opened = false;
+
+  return {
+    async reject(rejection) {
+      if (!opened) {
+        const openResult = await writer.open();
+        if (!openResult.success) {
+          throw openResult.error;
+        }
+        opened = true;
+      }
+      let result = await writer.write([{ ...rejection }]);
+      // A record that cannot be serialized is often why it was rejected; keep a safe copy instead
+      if (!result.success && result.error instanceof JsonFormattingError) {
+        result = await writer.write([{ ...rejection, record: toJsonSafe(rejection.record) }]);
+      }
+      if (!result.success) {
+        throw result.error;
+      }
+    },
+    async close() {
+      return await writer.close();
+    },
+  };
+}
+
+/**
+ * Passes rejections to a handler
+ */
+function createHandlerSink<T>(handler: RejectHandler<T>): RejectSink<T> {
+  return {
+    async reject(rejection) {
+      await handler(rejection);
+    },
+    close() {
+      return Promise.resolve({ success: true, value: undefined });
+    },
+  };
+}
@@ -0,0 +1,232 @@
+import type { Result, XlsxConfig, XlsxSheetDefinition, FileWriter, RetryPolicy } from '../types.js';
+import type { ProgressHook, ErrorHook, RetryHook, CompleteHook } from './hooks.js';
+import { ValidationError } from '../errors.js';
+import { AtomicFileWriter } from '../io/AtomicFileWriter.js';
+import { RetryingFileWriter } from '../io/RetryingFileWriter.js';
+import { XlsxWorkbookWriter } from '../writers/xlsx/XlsxWorkbookWriter.js';
+
+/**
+ * Settings carried over from the OutportBuilder that started the workbook.
+ */
+export interface WorkbookBuilderSettings {
+  filePath?: string;
+  atomicWrites: boolean;
+  batchSize: number;
+  retry?: RetryPolicy;
+  signal?: AbortSignal;
+  onProgress?: ProgressHook;
+  onError?: ErrorHook;
+  onRetry?: RetryHook;
+  onComplete?: CompleteHook;
+}
+
+/**
+ * Fluent builder for exporting several datasets into named sheets of one
+ * XLSX workbook.
+ *
+ * Created by calling sheet() on an OutportBuilder. Each sheet has its own row
+ * type and column configuration, and sheets appear in the order they are added.
+ *
+ * @example
+ * ```typescript
+ * await outport()
+ *   .to('./report.xlsx')
+ *   .sheet<User>('Users', users)
+ *   .sheet<Order>('Orders', orders, { includeKeys: ['id', 'total'] })
+ *   .write();
+ * ```
+ */
+export class WorkbookBuilder {
+  private readonly sheets: Array<XlsxSheetDefinition<Record<string, unknown>>> = [];
+
+  /**
+   * Creates a new workbook builder.
+   *
+   * @param settings - File path, write strategy and hooks from the originating builder
+   */
+  constructor(private readonly settings: WorkbookBuilderSettings) {}
+
+  /**
+   * Add a sheet to the workbook.
+   *
+   * @template U - The type of data objects in the sheet
+   * @param name - Sheet name, 1-31 characters and unique within the workbook
+   * @param data - Rows of the sheet, as an array or an async iterable
+   * @param config - Optional column and header configuration for the sheet
+   * @returns This builder instance for chaining
+   *
+   * @example
+   * ```typescript
+   * outport()
+   *   .to('./report.xlsx')
+   *   .sheet<User>('Users', users, { columnMapping: { id: 'User ID' } })
+   *   .sheet<Event>('Events', streamEvents())
+   * ```
+   */
+  sheet<U extends Record<string, unknown>>(
+    name: string,
+    data: U[] | AsyncIterable<U>,
+    config?: Omit<XlsxConfig<U>, 'sheetName'>
+  ): this {
+    this.sheets.push({ name, data, config } as XlsxSheetDefinition<Record<string, unknown>>);
+    return this;
+  }
+
+  /**
+   * Write the workbook atomically through a temp file that replaces the target on success.
+   *
+   * @param enabled - Whether to write atomically (default: true)
+   * @returns This builder instance for chaining
+   */
+  atomic(enabled: boolean = true): this {
+    this.settings.atomicWrites = enabled;
+    return this;
+  }
+
+  /**
+   * Set the number of rows formatted and written at a time.
+   *
+   * @param size - Number of rows per batch (default: 100)
+   * @returns This builder instance for chaining
+   */
+  withBatchSize(size: number): this {
+    this.settings.batchSize = size;
+    return this;
+  }
+
+  /**
+   * Register a progress callback, called with the total rows written so far.
+   *
+   * @param hook - Function to call with progress updates
+   * @returns This builder instance for chaining
+   */
+  onProgress(hook: ProgressHook): this {
+    this.settings.onProgress = hook;
+    return this;
+  }
+
+  /**
+   * Register an error handler.
+   *
+   * @param hook - Function to call when errors occur
+   * @returns This builder instance for chaining
+   */
+  onError(hook: ErrorHook): this {
+    this.settings.onError = hook;
+    return this;
+  }
+
+  /**
+   * Register a completion callback.
+   *
+   * @param hook - Function to call when operation completes
+   * @returns This builder instance for chaining
+   */
+  onComplete(hook: CompleteHook): this {
+    this.settings.onComplete = hook;
+    return this;
+  }
+
+  /**
+   * Write the workbook synchronously.
+   *
+   * Every sheet's data must be an array. Hooks are called fire-and-forget, as
+   * in OutportBuilder.writeSync().
+   *
+   * @returns Result with the total number of rows written across all sheets
+   */
+  writeSync(): Result<number> {
+    const fileWriter = this.settings.atomicWrites ? new AtomicFileWriter() : undefined;
+    const writer = this.createWriter(fileWriter);
+
+    let result = writer.writeSync();
+    if (fileWriter) {
+      result = fileWriter.settleSync(result);
+    }
+
+    if (result.success) {
+      if (this.settings.onProgress) {
+        void this.settings.onProgress(result.value, result.value);
+      }
+      if (this.settings.onComplete) {
+        void this.settings.onComplete({ success: true, value: undefined }, result.value);
+      }
+    } else {
+      if (this.settings.onError) {
+        void this.settings.onError(result.error);
+      }
+      if (this.settings.onComplete) {
+        void this.settings.onComplete(result, 0);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Write the workbook asynchronously, streaming each sheet in batches.
+   *
+   * An incomplete workbook cannot be opened, so when the builder has a signal
+   * the workbook is staged like an atomic write: aborting the signal discards
+   * it and leaves the target untouched, whatever the abort policy.
+   *
+   * @returns Promise of Result with the total number of rows written across all sheets
+   */
+  async write(): Promise<Result<number>> {
+    const fileWriter =
+      this.settings.atomicWrites || this.settings.signal ? new AtomicFileWriter() : undefined;
+    const writer = this.createWriter(fileWriter);
+
+    let result = await writer.write();
+    if (fileWriter) {
+      result = await fileWriter.settle(result);
+    }
+
+    if (result.success) {
+      if (this.settings.onComplete) {
+        await this.settings.onComplete({ success: true, value: undefined }, result.value);
+      }
+    } else {
+      if (this.settings.onError) {
+        await this.settings.onError(result.error);
+      }
+      if (this.settings.onComplete) {
+        await this.settings.onComplete(result, 0);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates the workbook writer for the configured sheets.
+   *
+   * @param fileWriter - Optional file writer to perform I/O through
+   * @returns A configured workbook writer
+   * @throws {ValidationError} If the path is missing or not .xlsx, or a sheet name is invalid
+   */
+  private createWriter(fileWriter?: FileWriter): XlsxWorkbookWriter {
+    if (!this.settings.filePath) {
+      throw new ValidationError('File path must be specified using .to()');
+    }
+
+    if (!this.settings.filePath.endsWith('.xlsx')) {
+      throw new ValidationError('Multi-sheet workbooks must be written to an .xlsx file');
+    }
+
+    if (this.settings.retry) {
+      fileWriter = new RetryingFileWriter(this.settings.retry, fileWriter, this.settings.onRetry);
+    }
+
+    return new XlsxWorkbookWriter(
+      {
+        file: this.settings.filePath,
+        sheets: this.sheets,
+        batchSize: this.settings.batchSize,
+        onProgress: this.settings.onProgress,
+        signal: this.settings.signal,
+      },
+      fileWriter
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import type { Result } from '../types.js';
+import type { Result, ExportManifest } from '../types.js';
 
 /**
  * Hook called before data is written.
@@ -30,21 +30,84 @@ export type AfterWriteHook<T extends Record<string, unknown>> = (
  */
 export type ProgressHook = (current: number, total?: number) => void | Promise<void>;
 
+/**
+ * What to do about a batch that failed to write during a streamed export.
+ *
+ * - `'continue'` skips the batch and carries on with the next one
+ * - `'retry'` writes the same batch again, up to 3 attempts or the `attempts` of withRetry()
+ * - `'abort'` stops the export and fails it with the batch's error
+ */
+export type ErrorAction = 'continue' | 'retry' | 'abort';
+
+/**
+ * Describes the batch whose write failed.
+ */
+export interface BatchErrorContext {
+  /** 1-based number of the batch in the stream */
+  batchNumber: number;
+
+  /** Number of records in the batch */
+  records: number;
+
+  /** 1-based attempt that failed; above 1 when the batch is being retried */
+  attempt: number;
+}
+
 /**
  * Hook called when an error occurs during write operations.
  *
+ * When a batch of a streamed export fails to write, the hook receives the
+ * batch context and its return value decides what happens next: `true` or
+ * `'continue'` skips the batch, `'retry'` writes it again, and `false` or
+ * `'abort'` stops the export. For any other error, such as a failing source or
+ * a one-shot write, the context is undefined and the return value is ignored.
+ *
  * @param error - The error that occurred
- * @returns Whether to continue processing (true) or stop (false)
+ * @param context - The failed batch, when a streamed batch failed to write
+ * @returns Whether to continue with the next batch, retry the batch, or abort
  */
-export type ErrorHook = (error: Error) => boolean | Promise<boolean>;
+export type ErrorHook = (
+  error: Error,
+  context?: BatchErrorContext
+) => ErrorAction | boolean | Promise<ErrorAction | boolean>;
+
+/**
+ * Describes a file operation about to be retried.
+ */
+export interface RetryContext {
+  /** The file operation that failed, such as 'write', 'append' or 'open' */
+  operation: string;
+
+  /** Path of the file */
+  path: string;
+
+  /** 1-based attempt that failed */
+  attempt: number;
+
+  /** Milliseconds until the next attempt */
+  delayMs: number;
+}
+
+/**
+ * Hook called when a file operation failed with a transient error and will be retried.
+ *
+ * @param error - The error of the failed attempt
+ * @param context - The operation, file, attempt number and delay before the retry
+ */
+export type RetryHook = (error: Error, context: RetryContext) => void | Promise<void>;
 
 /**
  * Hook called when all write operations are complete.
  *
  * @param result - The final result of the write operation
  * @param totalRecords - Total number of records processed
+ * @param manifest - The manifest written for a successful export, when enabled with withManifest()
  */
-export type CompleteHook = (result: Result<void>, totalRecords: number) => void | Promise<void>;
+export type CompleteHook = (
+  result: Result<void>,
+  totalRecords: number,
+  manifest?: ExportManifest
+) => void | Promise<void>;
 
 /**
  * Container for all lifecycle hooks.
@@ -56,5 +119,6 @@ export interface LifecycleHooks<T extends Record<string, unknown>> {
   afterWrite?: AfterWriteHook<T>;
   onProgress?: ProgressHook;
   onError?: ErrorHook;
+  onRetry?: RetryHook;
   onComplete?: CompleteHook;
 }
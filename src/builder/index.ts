@@ -1,9 +1,22 @@
 export { OutportBuilder } from './OutportBuilder.js';
+export { WorkbookBuilder } from './WorkbookBuilder.js';
+export type { WorkbookBuilderSettings } from './WorkbookBuilder.js';
+export { PartitionedBuilder } from './PartitionedBuilder.js';
+export type { PartitionedBuilderSettings } from './PartitionedBuilder.js';
+export { FanOutBuilder } from './FanOutBuilder.js';
+export { ConvertBuilder } from './ConvertBuilder.js';
+export type { FanOutBuilderSettings, FanOutDestination } from './FanOutBuilder.js';
+export { ValidatingBuilder } from './ValidatingBuilder.js';
+export type { ValidatingBuilderSettings } from './ValidatingBuilder.js';
 export type {
   BeforeWriteHook,
   AfterWriteHook,
   ProgressHook,
   ErrorHook,
+  RetryHook,
+  RetryContext,
+  ErrorAction,
+  BatchErrorContext,
   CompleteHook,
   LifecycleHooks,
 } from './hooks.js';
@@ -0,0 +1,292 @@
+import * as fs from 'node:fs';
+import { URL } from 'node:url';
+import { parseArgs } from 'node:util';
+import type { ReaderType, WriterType, CompressionType, Result } from '../types.js';
+import { OutportBuilder } from '../builder/OutportBuilder.js';
+import { convert } from '../convenience/factory.js';
+import { decodeTextChunks } from '../readers/textSource.js';
+import { parseJsonLines } from '../readers/jsonl/JsonlReader.js';
+
+/**
+ * Streams the CLI reads from and writes to
+ */
+export interface CliIO {
+  stdin: AsyncIterable<Buffer | string>;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+/**
+ * Error in the command line itself, reported with the usage text
+ */
+class UsageError extends Error {}
+
+type CliRecord = Record<string, unknown>;
+
+const STDIN = '-';
+
+const USAGE = `Usage:
+  export-toolkit convert <input> <output> [options]
+  export-toolkit export <output> [options]
+
+Commands:
+  convert   Convert a .csv, .json or .jsonl file to another format.
+            Use - as the input to read NDJSON from stdin.
+  export    Write NDJSON records read from stdin to a file.
+
+Input options (convert):
+  --input-format <type>     Source format: csv, json or jsonl (default: from extension)
+  --input-delimiter <char>  Delimiter of a CSV source (default: ,)
+  --infer-types             Read numeric and true/false CSV values as numbers and booleans
+
+Output options:
+  --format <type>           Output format: csv, json, jsonl or xlsx (default: from extension)
+  --columns <keys>          Comma-separated keys to include, in order
+  --headers <names>         Comma-separated header names
+  --delimiter <char>        CSV delimiter (default: ,)
+  --quote <char>            CSV quote character (default: ")
+  --bom                     Start CSV or JSON output with a UTF-8 BOM
+  --compact                 Write JSON on a single line
+  --indent <spaces>         JSON indentation (default: 2)
+  --sheet <name>            XLSX worksheet name
+  --compress <type>         Compress the output: gzip or brotli (default: from extension)
+  --atomic                  Write to a temp file and rename it when complete
+  --append                  Append to an existing file
+  --batch-size <n>          Records per batch (default: 100)
+
+  -h, --help                Show this help
+  -v, --version             Show the version
+`;
+
+const OPTIONS = {
+  'input-format': { type: 'string' },
+  'input-delimiter': { type: 'string' },
+  'infer-types': { type: 'boolean' },
+  format: { type: 'string' },
+  columns: { type: 'string' },
+  headers: { type: 'string' },
+  delimiter: { type: 'string' },
+  quote: { type: 'string' },
+  bom: { type: 'boolean' },
+  compact: { type: 'boolean' },
+  indent: { type: 'string' },
+  sheet: { type: 'string' },
+  compress: { type: 'string' },
+  atomic: { type: 'boolean' },
+  append: { type: 'boolean' },
+  'batch-size': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+/**
+ * Runs the export-toolkit command line.
+ *
+ * @param args - Command line arguments, without the node and script paths
+ * @param io - Streams to read records from and report to
+ * @returns The process exit code: 0 on success, 1 if the export failed, 2 for invalid usage
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = await runCli(process.argv.slice(2));
+ * ```
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+  let command: string | undefined;
+  let positionals: string[];
+  let options: CliOptions;
+  try {
+    const parsed = parseArgs({ args, options: OPTIONS, allowPositionals: true, strict: true });
+    [command, ...positionals] = parsed.positionals;
+    options = parsed.values;
+  } catch (error) {
+    return usageError(io, error instanceof Error ? error.message : String(error));
+  }
+
+  if (options.help) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+  if (options.version) {
+    io.stdout.write(`${readVersion()}\n`);
+    return 0;
+  }
+
+  try {
+    let result: Result<number>;
+    let output: string;
+    if (command === 'convert') {
+      const [input, target] = expectPositionals(positionals, ['input', 'output'] as const);
+      output = target;
+      result = await runConvert(input, createOutput(target, options), options, io);
+    } else if (command === 'export') {
+      [output] = expectPositionals(positionals, ['output'] as const);
+      result = await createOutput(output, options).fromAsyncGenerator(readStdin(io));
+    } else {
+      throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+    }
+
+    if (!result.success) {
+      io.stderr.write(`Error: ${result.error.message}\n`);
+      return 1;
+    }
+    io.stderr.write(`Wrote ${result.value} records to ${output}\n`);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      return usageError(io, error.message);
+    }
+    io.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * Converts a file, or NDJSON from stdin, to the output
+ */
+async function runConvert(
+  input: string,
+  output: OutportBuilder<CliRecord>,
+  options: CliOptions,
+  io: CliIO
+): Promise<Result<number>> {
+  if (input === STDIN) {
+    return await output.fromAsyncGenerator(readStdin(io));
+  }
+
+  const conversion = convert(input).inferTypes(options['infer-types'] ?? false);
+  if (options['input-format'] !== undefined) {
+    conversion.as(oneOf<ReaderType>('--input-format', options['input-format'], READER_TYPES));
+  }
+  if (options['input-delimiter'] !== undefined) {
+    conversion.withDelimiter(options['input-delimiter']);
+  }
+  return await conversion.to(output).run();
+}
+
+const READER_TYPES: ReaderType[] = ['csv', 'json', 'jsonl'];
+const WRITER_TYPES: WriterType[] = ['csv', 'json', 'jsonl', 'xlsx'];
+const COMPRESSION_TYPES: CompressionType[] = ['gzip', 'brotli'];
+
+/**
+ * Configures the output builder from the command line options
+ */
+function createOutput(file: string, options: CliOptions): OutportBuilder<CliRecord> {
+  const builder = new OutportBuilder<CliRecord>();
+  if (options.format !== undefined) {
+    builder.as(oneOf<WriterType>('--format', options.format, WRITER_TYPES));
+  }
+  if (options.compress !== undefined) {
+    builder.compress(oneOf<CompressionType>('--compress', options.compress, COMPRESSION_TYPES));
+  }
+  builder.to(file);
+
+  if (options.columns !== undefined) {
+    builder.withColumns(splitList(options.columns));
+  }
+  if (options.headers !== undefined) {
+    builder.withHeaders(splitList(options.headers));
+  }
+  if (options.delimiter !== undefined) {
+    builder.withDelimiter(options.delimiter);
+  }
+  if (options.quote !== undefined) {
+    builder.withQuote(options.quote);
+  }
+  if (options.bom) {
+    builder.withUtf8Bom();
+  }
+  if (options.compact) {
+    builder.prettyPrint(false);
+  }
+  if (options.indent !== undefined) {
+    builder.withIndent(parseCount('--indent', options.indent, 0));
+  }
+  if (options.sheet !== undefined) {
+    builder.withSheetName(options.sheet);
+  }
+  if (options.atomic) {
+    builder.atomic();
+  }
+  if (options.append) {
+    builder.inMode('append');
+  }
+  if (options['batch-size'] !== undefined) {
+    builder.withBatchSize(parseCount('--batch-size', options['batch-size'], 1));
+  }
+  return builder;
+}
+
+/**
+ * Streams NDJSON records from stdin
+ */
+function readStdin(io: CliIO): AsyncGenerator<CliRecord> {
+  return parseJsonLines<CliRecord>(decodeTextChunks(io.stdin));
+}
+
+/**
+ * Checks the number of positional arguments of a command
+ */
+function expectPositionals<N extends readonly string[]>(
+  positionals: string[],
+  names: N
+): { [K in keyof N]: string } {
+  if (positionals.length !== names.length) {
+    throw new UsageError(
+      `Expected ${names.map((name) => `<${name}>`).join(' ')}, got ${positionals.length} argument(s)`
+    );
+  }
+  return positionals as { [K in keyof N]: string };
+}
+
+/**
+ * Checks that an option value is one of the allowed values
+ */
+function oneOf<V extends string>(option: string, value: string, allowed: V[]): V {
+  if (!(allowed as string[]).includes(value)) {
+    throw new UsageError(`${option} must be one of ${allowed.join(', ')}`);
+  }
+  return value as V;
+}
+
+/**
+ * Parses an integer option with a minimum value
+ */
+function parseCount(option: string, value: string, minimum: number): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < minimum) {
+    throw new UsageError(`${option} must be an integer of at least ${minimum}`);
+  }
+  return count;
+}
+
+/**
+ * Splits a comma-separated list, dropping empty entries
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Reports invalid usage
+ */
+function usageError(io: CliIO, message: string): number {
+  io.stderr.write(`Error: ${message}\n\n${USAGE}`);
+  return 2;
+}
+
+/**
+ * Reads the package version
+ */
+function readVersion(): string {
+  const packageJson = fs.readFileSync(new URL('../../package.json', import.meta.url), 'utf-8');
+  return (JSON.parse(packageJson) as { version: string }).version;
+}
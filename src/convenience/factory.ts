@@ -1,4 +1,5 @@
 import { OutportBuilder } from '../builder/OutportBuilder.js';
+import { ConvertBuilder } from '../builder/ConvertBuilder.js';
 
 /**
  * Creates a new fluent builder for configuring and executing data exports.
@@ -35,3 +36,32 @@ import { OutportBuilder } from '../builder/OutportBuilder.js';
 export function outport<T extends Record<string, unknown>>(): OutportBuilder<T> {
   return new OutportBuilder<T>();
 }
+
+/**
+ * Creates a new fluent builder for converting a file to another format.
+ *
+ * Records are streamed from the input, so files of any size can be
+ * converted. The source and target formats are detected from the file
+ * extensions.
+ *
+ * @template T - The type of the records in the input file
+ * @param input - Path of the file to convert (.csv, .json or .jsonl, optionally compressed)
+ * @returns A new ConvertBuilder instance
+ *
+ * @example
+ * ```typescript
+ * // CSV to JSON
+ * await convert('./vendor/products.csv').to('./products.json').run();
+ *
+ * // JSON to CSV with typed fields and a per-record transform
+ * await convert<Product>('./products.json')
+ *   .transform((product) => ({ ...product, name: product.name.trim() }))
+ *   .to('./products.csv')
+ *   .run();
+ * ```
+ */
+export function convert<T extends Record<string, unknown> = Record<string, unknown>>(
+  input: string
+): ConvertBuilder<T> {
+  return new ConvertBuilder<T>(input);
+}
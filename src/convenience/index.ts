@@ -1 +1 @@
-export { outport } from './factory.js';
+export { outport, convert } from './factory.js';
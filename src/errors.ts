@@ -54,6 +54,57 @@ export class CsvFormattingError extends OutportError {
   }
 }
 
+/**
+ * Error thrown when a CSV file cannot be parsed.
+ *
+ * Reports where the malformed row was found, so the source file can be fixed.
+ *
+ * @property line - 1-based line number in the file
+ * @property column - 1-based column number within the line
+ *
+ * @example
+ * ```typescript
+ * const result = await new CsvReader<User>({ file: './users.csv' }).read();
+ * if (!result.success && result.error instanceof CsvParseError) {
+ *   console.error(`Line ${result.error.line}, column ${result.error.column}`);
+ * }
+ * ```
+ */
+export class CsvParseError extends OutportError {
+  public readonly line: number;
+  public readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'CsvParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Error thrown when a JSON or JSON Lines file cannot be parsed.
+ *
+ * @property line - 1-based line number where the invalid record starts
+ *
+ * @example
+ * ```typescript
+ * const result = await new JsonlReader<Event>({ file: './events.jsonl' }).read();
+ * if (!result.success && result.error instanceof JsonParseError) {
+ *   console.error(`Invalid record on line ${result.error.line}`);
+ * }
+ * ```
+ */
+export class JsonParseError extends OutportError {
+  public readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'JsonParseError';
+    this.line = line;
+  }
+}
+
 /**
  * Error thrown when JSON formatting fails.
  *
@@ -67,6 +118,46 @@ export class JsonFormattingError extends OutportError {
   }
 }
 
+/**
+ * Error thrown when records have keys that are not columns of the CSV header.
+ *
+ * Raised by the `strict` header strategy, and by the `union` strategy when the
+ * header has already been written and cannot grow.
+ *
+ * @property keys - The unexpected keys
+ *
+ * @example
+ * ```typescript
+ * const result = await writer.write(records);
+ * if (!result.success && result.error instanceof UnexpectedColumnsError) {
+ *   console.error('Unexpected keys:', result.error.keys);
+ * }
+ * ```
+ */
+export class UnexpectedColumnsError extends OutportError {
+  public readonly keys: string[];
+
+  constructor(message: string, keys: string[]) {
+    super(`${message}: ${keys.join(', ')}`);
+    this.name = 'UnexpectedColumnsError';
+    this.keys = keys;
+  }
+}
+
+/**
+ * Error thrown when XLSX formatting fails.
+ *
+ * This error occurs when data cannot be converted to worksheet cells,
+ * typically due to circular references in object values, or when the
+ * workbook would exceed Excel's row or cell limits or the 4 GB ZIP limit.
+ */
+export class XlsxFormattingError extends OutportError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxFormattingError';
+  }
+}
+
 /**
  * Error thrown when file write operation fails.
  *
@@ -94,6 +185,36 @@ export class FileWriteError extends OutportError {
   }
 }
 
+/**
+ * Error returned when an export is cancelled through its AbortSignal.
+ *
+ * The source generator is closed and no further records are written.
+ *
+ * @property reason - The `reason` of the aborted signal
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const result = await outport<User>()
+ *   .to('./users.csv')
+ *   .withSignal(controller.signal)
+ *   .fromAsyncGenerator(fetchUsers());
+ *
+ * if (!result.success && result.error instanceof AbortedError) {
+ *   console.log('Export cancelled');
+ * }
+ * ```
+ */
+export class AbortedError extends OutportError {
+  public readonly reason?: unknown;
+
+  constructor(message: string = 'Export was aborted', reason?: unknown) {
+    super(message);
+    this.name = 'AbortedError';
+    this.reason = reason;
+  }
+}
+
 /**
  * Error thrown when header initialization fails.
  *
@@ -1,14 +1,57 @@
 // Export types
 export type {
   OutportWriter,
+  RecordSizes,
   WriterOptions,
   WriterConfig,
   WriterType,
   WriterMode,
+  CompressionType,
   CsvConfig,
   JsonConfig,
+  JsonlConfig,
+  XlsxConfig,
+  ColumnSchema,
+  ColumnDefinition,
+  KeyColumn,
+  ComputedColumn,
+  XlsxSheetDefinition,
+  SplitConfig,
+  RetryPolicy,
+  AbortPolicy,
+  HeaderStrategy,
+  SerializableType,
+  SerializedValue,
+  TypeSerializer,
+  DateSerialization,
+  SerializationConfig,
+  CsvQuoteMode,
+  FormulaSanitization,
+  Checkpoint,
+  CheckpointConfig,
+  ExportManifest,
+  ManifestFile,
+  ManifestWriterConfig,
+  PartitionKey,
+  PartitionSummary,
+  FanOutTargetResult,
+  ValidationOutcome,
+  RecordValidator,
+  FieldRules,
+  RejectedRecord,
+  RejectHandler,
+  ValidationSummary,
+  OutportReader,
+  ReaderType,
+  ReaderOptions,
+  CsvReaderOptions,
+  JsonReaderOptions,
+  CoercionType,
   Result,
+  StreamResult,
+  BatchFailure,
   FileWriter,
+  FileSink,
 } from './types.js';
 
 // Export errors
@@ -16,33 +59,77 @@ export {
   OutportError,
   ValidationError,
   CsvFormattingError,
+  CsvParseError,
+  UnexpectedColumnsError,
+  JsonParseError,
   JsonFormattingError,
+  XlsxFormattingError,
   FileWriteError,
+  AbortedError,
   HeaderInitializationError,
 } from './errors.js';
 
 // Export writers
 export { CsvWriter } from './writers/csv/CsvWriter.js';
 export { JsonWriter } from './writers/json/JsonWriter.js';
+export { JsonlWriter } from './writers/jsonl/JsonlWriter.js';
+export { XlsxWriter } from './writers/xlsx/XlsxWriter.js';
+export { XlsxWorkbookWriter } from './writers/xlsx/XlsxWorkbookWriter.js';
+export type { XlsxWorkbookOptions } from './writers/xlsx/XlsxWorkbookWriter.js';
 export { WriterFactory } from './writers/WriterFactory.js';
+export { ValueSerializer } from './writers/ValueSerializer.js';
 
-// Export file writer implementation
+// Export readers
+export { CsvReader } from './readers/csv/CsvReader.js';
+export { JsonReader } from './readers/json/JsonReader.js';
+export { JsonlReader } from './readers/jsonl/JsonlReader.js';
+export { ReaderFactory } from './readers/ReaderFactory.js';
+
+// Export file writer implementations
 export { NodeFileWriter } from './io/FileWriter.js';
+export { AtomicFileWriter } from './io/AtomicFileWriter.js';
+export { CompressingFileWriter } from './io/CompressingFileWriter.js';
+export { CountingFileWriter } from './io/CountingFileWriter.js';
+export { RetryingFileWriter } from './io/RetryingFileWriter.js';
+export { ManifestWriter } from './io/ManifestWriter.js';
 
 // Export builder API
-export { OutportBuilder } from './builder/index.js';
+export {
+  OutportBuilder,
+  WorkbookBuilder,
+  PartitionedBuilder,
+  FanOutBuilder,
+  ValidatingBuilder,
+  ConvertBuilder,
+} from './builder/index.js';
 export type {
   BeforeWriteHook,
   AfterWriteHook,
   ProgressHook,
   ErrorHook,
+  RetryHook,
+  RetryContext,
+  ErrorAction,
+  BatchErrorContext,
   CompleteHook,
   LifecycleHooks,
 } from './builder/index.js';
 
 // Export convenience functions
-export { outport } from './convenience/index.js';
+export { outport, convert } from './convenience/index.js';
 
 // Export streaming utilities
-export { StreamingWriter, BatchProcessor } from './streaming/index.js';
-export type { StreamingOptions } from './streaming/index.js';
+export {
+  StreamingWriter,
+  BatchProcessor,
+  SplitStreamingWriter,
+  PartitionedStreamingWriter,
+  FanOutStreamingWriter,
+  CheckpointWriter,
+} from './streaming/index.js';
+export type {
+  StreamingOptions,
+  PartWriterFactory,
+  SplitPart,
+  FanOutTarget,
+} from './streaming/index.js';
@@ -0,0 +1,240 @@
+import * as fs from 'node:fs';
+import * as fsPromises from 'node:fs/promises';
+import * as nodePath from 'node:path';
+import { randomBytes } from 'node:crypto';
+import type { FileWriter, FileSink, Result, WriterMode } from '../types.js';
+import { FileWriteError } from '../errors.js';
+import { NodeFileWriter, openFile, truncateFile, truncateFileSync } from './FileWriter.js';
+
+/**
+ * File writer decorator that makes writes atomic using a temp file and rename.
+ *
+ * Every operation on a target path is redirected to a hidden sibling temp file.
+ * The target is only replaced when commit() is called, which fsyncs the temp
+ * file and renames it onto the target. abort() deletes the temp file instead,
+ * so a failed export never leaves a partial file at the target path.
+ *
+ * Appending operations copy the existing target into the temp file first, so
+ * append mode keeps working.
+ *
+ * @example
+ * ```typescript
+ * const fileWriter = new AtomicFileWriter();
+ * const writer = new CsvWriter<User>(options, fileWriter);
+ *
+ * const result = await fileWriter.settle(await writer.write(users));
+ * // On success users.csv was replaced in one step, otherwise it is untouched
+ * ```
+ */
+export class AtomicFileWriter implements FileWriter {
+  private readonly tempPaths = new Map<string, string>();
+
+  /**
+   * Creates a new atomic file writer.
+   *
+   * @param inner - File writer that performs the actual I/O on the temp files
+   */
+  constructor(private readonly inner: FileWriter = new NodeFileWriter()) {}
+
+  /**
+   * Returns the temp file path used for a target, if one has been created.
+   *
+   * @param path - Target file path
+   * @returns The temp file path, or undefined if nothing was written yet
+   */
+  getTempPath(path: string): string | undefined {
+    return this.tempPaths.get(path);
+  }
+
+  writeSync(path: string, content: string | Uint8Array): Result<void> {
+    return this.inner.writeSync(this.resolveSync(path, false), content);
+  }
+
+  async write(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    return await this.inner.write(await this.resolve(path, false), content);
+  }
+
+  appendSync(path: string, content: string | Uint8Array): Result<void> {
+    return this.inner.appendSync(this.resolveSync(path, true), content);
+  }
+
+  async append(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    return await this.inner.append(await this.resolve(path, true), content);
+  }
+
+  truncateSync(path: string, length: number): Result<void> {
+    return truncateFileSync(this.inner, this.resolveSync(path, true), length);
+  }
+
+  async truncate(path: string, length: number): Promise<Result<void>> {
+    return await truncateFile(this.inner, await this.resolve(path, true), length);
+  }
+
+  async open(path: string, mode: WriterMode): Promise<Result<FileSink>> {
+    return await openFile(this.inner, await this.resolve(path, mode === 'append'), mode);
+  }
+
+  existsSync(path: string): boolean {
+    const tempPath = this.tempPaths.get(path);
+    return tempPath ? this.inner.existsSync(tempPath) : this.inner.existsSync(path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const tempPath = this.tempPaths.get(path);
+    return tempPath ? await this.inner.exists(tempPath) : await this.inner.exists(path);
+  }
+
+  /**
+   * Synchronously flushes every temp file to disk and renames it onto its target.
+   *
+   * @returns Result indicating success or failure
+   */
+  commitSync(): Result<void> {
+    for (const [target, tempPath] of this.tempPaths) {
+      try {
+        if (this.inner.existsSync(tempPath)) {
+          const fd = fs.openSync(tempPath, 'r+');
+          try {
+            fs.fsyncSync(fd);
+          } finally {
+            fs.closeSync(fd);
+          }
+          fs.renameSync(tempPath, target);
+        }
+        this.tempPaths.delete(target);
+      } catch (error) {
+        this.abortSync();
+        return {
+          success: false,
+          error: new FileWriteError(
+            `Failed to commit file: ${target}`,
+            error instanceof Error ? error : undefined
+          ),
+        };
+      }
+    }
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Asynchronously flushes every temp file to disk and renames it onto its target.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  async commit(): Promise<Result<void>> {
+    for (const [target, tempPath] of this.tempPaths) {
+      try {
+        if (await this.inner.exists(tempPath)) {
+          const handle = await fsPromises.open(tempPath, 'r+');
+          try {
+            await handle.sync();
+          } finally {
+            await handle.close();
+          }
+          await fsPromises.rename(tempPath, target);
+        }
+        this.tempPaths.delete(target);
+      } catch (error) {
+        await this.abort();
+        return {
+          success: false,
+          error: new FileWriteError(
+            `Failed to commit file: ${target}`,
+            error instanceof Error ? error : undefined
+          ),
+        };
+      }
+    }
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Synchronously deletes every temp file, leaving the targets untouched.
+   */
+  abortSync(): void {
+    for (const tempPath of this.tempPaths.values()) {
+      fs.rmSync(tempPath, { force: true });
+    }
+    this.tempPaths.clear();
+  }
+
+  /**
+   * Asynchronously deletes every temp file, leaving the targets untouched.
+   */
+  async abort(): Promise<void> {
+    for (const tempPath of this.tempPaths.values()) {
+      await fsPromises.rm(tempPath, { force: true });
+    }
+    this.tempPaths.clear();
+  }
+
+  /**
+   * Synchronously commits after a successful operation, or aborts after a failed one.
+   *
+   * @param result - Result of the export operation
+   * @returns The operation result, or the commit failure
+   */
+  settleSync<R>(result: Result<R>): Result<R> {
+    if (!result.success) {
+      this.abortSync();
+      return result;
+    }
+    const commitResult = this.commitSync();
+    return commitResult.success ? result : commitResult;
+  }
+
+  /**
+   * Asynchronously commits after a successful operation, or aborts after a failed one.
+   *
+   * @param result - Result of the export operation
+   * @returns Promise of the operation result, or the commit failure
+   */
+  async settle<R>(result: Result<R>): Promise<Result<R>> {
+    if (!result.success) {
+      await this.abort();
+      return result;
+    }
+    const commitResult = await this.commit();
+    return commitResult.success ? result : commitResult;
+  }
+
+  /**
+   * Returns the temp path for a target, creating it on first use (sync).
+   * When the operation keeps existing content, the target is copied first.
+   */
+  private resolveSync(path: string, preserveContent: boolean): string {
+    let tempPath = this.tempPaths.get(path);
+    if (!tempPath) {
+      tempPath = AtomicFileWriter.createTempPath(path);
+      if (preserveContent && this.inner.existsSync(path)) {
+        fs.copyFileSync(path, tempPath);
+      }
+      this.tempPaths.set(path, tempPath);
+    }
+    return tempPath;
+  }
+
+  /**
+   * Returns the temp path for a target, creating it on first use (async).
+   * When the operation keeps existing content, the target is copied first.
+   */
+  private async resolve(path: string, preserveContent: boolean): Promise<string> {
+    let tempPath = this.tempPaths.get(path);
+    if (!tempPath) {
+      tempPath = AtomicFileWriter.createTempPath(path);
+      if (preserveContent && (await this.inner.exists(path))) {
+        await fsPromises.copyFile(path, tempPath);
+      }
+      this.tempPaths.set(path, tempPath);
+    }
+    return tempPath;
+  }
+
+  /**
+   * Builds a unique hidden temp file path next to the target.
+   */
+  private static createTempPath(path: string): string {
+    const suffix = `${process.pid}.${randomBytes(4).toString('hex')}`;
+    return nodePath.join(nodePath.dirname(path), `.${nodePath.basename(path)}.${suffix}.tmp`);
+  }
+}
@@ -0,0 +1,247 @@
+import * as zlib from 'node:zlib';
+import { promisify } from 'node:util';
+import type { CompressionType, FileWriter, FileSink, Result, WriterMode } from '../types.js';
+import { FileWriteError } from '../errors.js';
+import { NodeFileWriter, openFile } from './FileWriter.js';
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+const COMPRESSION_EXTENSIONS: Record<CompressionType, string> = {
+  gzip: '.gz',
+  brotli: '.br',
+};
+
+/**
+ * Detects the compression implied by a file path's final extension.
+ *
+ * @param path - File path such as `users.csv.gz`
+ * @returns The compression type, or undefined for uncompressed paths
+ */
+export function detectCompression(path: string): CompressionType | undefined {
+  const lowerPath = path.toLowerCase();
+  return (Object.keys(COMPRESSION_EXTENSIONS) as CompressionType[]).find((type) =>
+    lowerPath.endsWith(COMPRESSION_EXTENSIONS[type])
+  );
+}
+
+/**
+ * Removes the compression extension from a path so the format extension can be checked.
+ *
+ * @param path - File path such as `users.csv.gz`
+ * @param compression - Compression applied to the file, if any
+ * @returns The path without its compression extension (e.g. `users.csv`)
+ */
+export function stripCompressionExtension(path: string, compression?: CompressionType): string {
+  if (!compression) {
+    return path;
+  }
+  const extension = COMPRESSION_EXTENSIONS[compression];
+  return path.toLowerCase().endsWith(extension) ? path.slice(0, -extension.length) : path;
+}
+
+/**
+ * File writer decorator that compresses everything it writes with gzip or brotli.
+ *
+ * Whole-content writes are compressed in one step. Files opened with open()
+ * stream through a node:zlib compressor, so content is compressed and flushed
+ * as it is written and the full payload is never held in memory.
+ *
+ * Gzip files can be appended to, because each append adds a gzip member and
+ * concatenated members decompress as one stream. Brotli has no such framing,
+ * so a brotli file must be written in a single pass (for example through
+ * open() and close()). Truncating is not possible for either format.
+ *
+ * @example
+ * ```typescript
+ * const fileWriter = new CompressingFileWriter('gzip');
+ * const writer = new CsvWriter<User>({ type: 'csv', mode: 'write', file: './users.csv.gz' }, fileWriter);
+ * ```
+ */
+export class CompressingFileWriter implements FileWriter {
+  /**
+   * Creates a new compressing file writer.
+   *
+   * @param compression - Compression algorithm to apply
+   * @param inner - File writer that receives the compressed bytes
+   */
+  constructor(
+    private readonly compression: CompressionType,
+    private readonly inner: FileWriter = new NodeFileWriter()
+  ) {}
+
+  writeSync(path: string, content: string | Uint8Array): Result<void> {
+    const compressed = this.compressSync(path, content);
+    if (!compressed.success) {
+      return compressed;
+    }
+    return this.inner.writeSync(path, compressed.value);
+  }
+
+  async write(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    const compressed = await this.compress(path, content);
+    if (!compressed.success) {
+      return compressed;
+    }
+    return await this.inner.write(path, compressed.value);
+  }
+
+  appendSync(path: string, content: string | Uint8Array): Result<void> {
+    if (this.compression === 'brotli' && this.inner.existsSync(path)) {
+      return this.appendUnsupported(path);
+    }
+    const compressed = this.compressSync(path, content);
+    if (!compressed.success) {
+      return compressed;
+    }
+    return this.inner.appendSync(path, compressed.value);
+  }
+
+  async append(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    if (this.compression === 'brotli' && (await this.inner.exists(path))) {
+      return this.appendUnsupported(path);
+    }
+    const compressed = await this.compress(path, content);
+    if (!compressed.success) {
+      return compressed;
+    }
+    return await this.inner.append(path, compressed.value);
+  }
+
+  truncateSync(path: string, _length: number): Result<void> {
+    return this.truncateUnsupported(path);
+  }
+
+  truncate(path: string, _length: number): Promise<Result<void>> {
+    return Promise.resolve(this.truncateUnsupported(path));
+  }
+
+  async open(path: string, mode: WriterMode): Promise<Result<FileSink>> {
+    if (mode === 'append' && this.compression === 'brotli' && (await this.inner.exists(path))) {
+      return this.appendUnsupported(path);
+    }
+
+    const result = await openFile(this.inner, path, mode);
+    if (!result.success) {
+      return result;
+    }
+
+    const stream = this.compression === 'gzip' ? zlib.createGzip() : zlib.createBrotliCompress();
+    return { success: true, value: new CompressingFileSink(path, result.value, stream) };
+  }
+
+  existsSync(path: string): boolean {
+    return this.inner.existsSync(path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return await this.inner.exists(path);
+  }
+
+  /**
+   * Compresses content in one step (sync)
+   */
+  private compressSync(path: string, content: string | Uint8Array): Result<Buffer> {
+    try {
+      const compressed =
+        this.compression === 'gzip' ? zlib.gzipSync(content) : zlib.brotliCompressSync(content);
+      return { success: true, value: compressed };
+    } catch (error) {
+      return { success: false, error: compressionError(path, error) };
+    }
+  }
+
+  /**
+   * Compresses content in one step (async)
+   */
+  private async compress(path: string, content: string | Uint8Array): Promise<Result<Buffer>> {
+    try {
+      const compressed =
+        this.compression === 'gzip' ? await gzip(content) : await brotliCompress(content);
+      return { success: true, value: compressed };
+    } catch (error) {
+      return { success: false, error: compressionError(path, error) };
+    }
+  }
+
+  private appendUnsupported(path: string): { success: false; error: FileWriteError } {
+    return {
+      success: false,
+      error: new FileWriteError(
+        `Cannot append to an existing brotli-compressed file: ${path}. Write brotli output in a single pass`
+      ),
+    };
+  }
+
+  private truncateUnsupported(path: string): { success: false; error: FileWriteError } {
+    return {
+      success: false,
+      error: new FileWriteError(`Cannot truncate a compressed file: ${path}`),
+    };
+  }
+}
+
+/**
+ * File sink that pipes content through a zlib compressor into another sink.
+ *
+ * Each write() resolves once its compressed output has been handed to the
+ * underlying sink, so a producer awaiting writes never races ahead of the disk.
+ */
+class CompressingFileSink implements FileSink {
+  private pending: Promise<Result<void>> = Promise.resolve({ success: true, value: undefined });
+  private streamError: Error | null = null;
+
+  constructor(
+    private readonly path: string,
+    private readonly inner: FileSink,
+    private readonly stream: zlib.Gzip | zlib.BrotliCompress
+  ) {
+    stream.on('data', (chunk: Buffer) => {
+      this.pending = this.pending.then((result) => (result.success ? inner.write(chunk) : result));
+    });
+    stream.on('error', (error) => {
+      this.streamError = error;
+    });
+  }
+
+  async write(content: string | Uint8Array): Promise<Result<void>> {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.stream.write(content, (error) => (error ? reject(error) : resolve()));
+      });
+    } catch (error) {
+      return { success: false, error: compressionError(this.path, error) };
+    }
+    return await this.pending;
+  }
+
+  async close(): Promise<Result<void>> {
+    let result: Result<void>;
+    try {
+      if (this.streamError) {
+        throw this.streamError;
+      }
+      await new Promise<void>((resolve, reject) => {
+        this.stream.once('end', resolve);
+        this.stream.once('error', reject);
+        this.stream.end();
+      });
+      result = await this.pending;
+    } catch (error) {
+      result = { success: false, error: compressionError(this.path, error) };
+    }
+
+    const closeResult = await this.inner.close();
+    return result.success ? closeResult : result;
+  }
+}
+
+/**
+ * Wraps a zlib failure in a FileWriteError
+ */
+function compressionError(path: string, error: unknown): FileWriteError {
+  return new FileWriteError(
+    `Failed to compress file: ${path}`,
+    error instanceof Error ? error : undefined
+  );
+}
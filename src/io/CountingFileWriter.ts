@@ -0,0 +1,116 @@
+import type { FileWriter, FileSink, Result, WriterMode } from '../types.js';
+import { NodeFileWriter, openFile, truncateFile, truncateFileSync } from './FileWriter.js';
+
+/**
+ * File writer decorator that keeps track of how many bytes each file holds.
+ *
+ * Sizes are counted from the content passed through this writer, so they are
+ * available without touching the disk. Writes replace the count, appends and
+ * sink writes add to it, and truncation sets it.
+ *
+ * @example
+ * ```typescript
+ * const fileWriter = new CountingFileWriter();
+ * const writer = new CsvWriter<User>(options, fileWriter);
+ *
+ * await writer.write(users);
+ * console.log(fileWriter.getBytesWritten('./users.csv'));
+ * ```
+ */
+export class CountingFileWriter implements FileWriter {
+  private readonly sizes = new Map<string, number>();
+
+  /**
+   * Creates a new counting file writer.
+   *
+   * @param inner - File writer that performs the actual I/O
+   */
+  constructor(private readonly inner: FileWriter = new NodeFileWriter()) {}
+
+  /**
+   * Returns the number of bytes written to a file through this writer.
+   *
+   * @param path - File path
+   * @returns The byte count, or 0 if nothing was written to the file
+   */
+  getBytesWritten(path: string): number {
+    return this.sizes.get(path) ?? 0;
+  }
+
+  writeSync(path: string, content: string | Uint8Array): Result<void> {
+    return this.track(path, content, false, this.inner.writeSync(path, content));
+  }
+
+  async write(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    return this.track(path, content, false, await this.inner.write(path, content));
+  }
+
+  appendSync(path: string, content: string | Uint8Array): Result<void> {
+    return this.track(path, content, true, this.inner.appendSync(path, content));
+  }
+
+  async append(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    return this.track(path, content, true, await this.inner.append(path, content));
+  }
+
+  truncateSync(path: string, length: number): Result<void> {
+    const result = truncateFileSync(this.inner, path, length);
+    if (result.success) {
+      this.sizes.set(path, length);
+    }
+    return result;
+  }
+
+  async truncate(path: string, length: number): Promise<Result<void>> {
+    const result = await truncateFile(this.inner, path, length);
+    if (result.success) {
+      this.sizes.set(path, length);
+    }
+    return result;
+  }
+
+  async open(path: string, mode: WriterMode): Promise<Result<FileSink>> {
+    const result = await openFile(this.inner, path, mode);
+    if (!result.success) {
+      return result;
+    }
+    if (mode === 'write') {
+      this.sizes.set(path, 0);
+    }
+
+    const sink = result.value;
+    return {
+      success: true,
+      value: {
+        write: async (content: string | Uint8Array): Promise<Result<void>> =>
+          this.track(path, content, true, await sink.write(content)),
+        close: (): Promise<Result<void>> => sink.close(),
+      },
+    };
+  }
+
+  existsSync(path: string): boolean {
+    return this.inner.existsSync(path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return await this.inner.exists(path);
+  }
+
+  /**
+   * Updates the byte count of a file after a successful operation
+   */
+  private track(
+    path: string,
+    content: string | Uint8Array,
+    append: boolean,
+    result: Result<void>
+  ): Result<void> {
+    if (result.success) {
+      const length =
+        typeof content === 'string' ? Buffer.byteLength(content, 'utf-8') : content.byteLength;
+      this.sizes.set(path, (append ? this.getBytesWritten(path) : 0) + length);
+    }
+    return result;
+  }
+}
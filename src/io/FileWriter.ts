@@ -1,6 +1,6 @@
 import * as fs from 'node:fs';
 import * as fsPromises from 'node:fs/promises';
-import type { FileWriter as IFileWriter, Result } from '../types.js';
+import type { FileWriter as IFileWriter, FileSink, Result, WriterMode } from '../types.js';
 import { FileWriteError } from '../errors.js';
 
 /**
@@ -21,7 +21,7 @@ import { FileWriteError } from '../errors.js';
  * ```
  */
 export class NodeFileWriter implements IFileWriter {
-  writeSync(path: string, content: string): Result<void> {
+  writeSync(path: string, content: string | Uint8Array): Result<void> {
     try {
       fs.writeFileSync(path, content, 'utf-8');
       return { success: true, value: undefined };
@@ -36,7 +36,7 @@ export class NodeFileWriter implements IFileWriter {
     }
   }
 
-  async write(path: string, content: string): Promise<Result<void>> {
+  async write(path: string, content: string | Uint8Array): Promise<Result<void>> {
     try {
       await fsPromises.writeFile(path, content, 'utf-8');
       return { success: true, value: undefined };
@@ -51,7 +51,7 @@ export class NodeFileWriter implements IFileWriter {
     }
   }
 
-  appendSync(path: string, content: string): Result<void> {
+  appendSync(path: string, content: string | Uint8Array): Result<void> {
     try {
       fs.appendFileSync(path, content, 'utf-8');
       return { success: true, value: undefined };
@@ -66,7 +66,7 @@ export class NodeFileWriter implements IFileWriter {
     }
   }
 
-  async append(path: string, content: string): Promise<Result<void>> {
+  async append(path: string, content: string | Uint8Array): Promise<Result<void>> {
     try {
       await fsPromises.appendFile(path, content, 'utf-8');
       return { success: true, value: undefined };
@@ -81,6 +81,51 @@ export class NodeFileWriter implements IFileWriter {
     }
   }
 
+  truncateSync(path: string, length: number): Result<void> {
+    try {
+      fs.truncateSync(path, length);
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to truncate file: ${path}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+  }
+
+  async truncate(path: string, length: number): Promise<Result<void>> {
+    try {
+      await fsPromises.truncate(path, length);
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to truncate file: ${path}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+  }
+
+  async open(path: string, mode: WriterMode): Promise<Result<FileSink>> {
+    try {
+      const handle = await fsPromises.open(path, mode === 'write' ? 'w' : 'a');
+      return { success: true, value: new NodeFileSink(path, handle) };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to open file: ${path}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+  }
+
   existsSync(path: string): boolean {
     return fs.existsSync(path);
   }
@@ -94,3 +139,130 @@ export class NodeFileWriter implements IFileWriter {
     }
   }
 }
+
+/**
+ * File sink backed by a persistent fs.FileHandle.
+ */
+class NodeFileSink implements FileSink {
+  constructor(
+    private readonly path: string,
+    private readonly handle: fsPromises.FileHandle
+  ) {}
+
+  async write(content: string | Uint8Array): Promise<Result<void>> {
+    try {
+      await this.handle.writeFile(content, 'utf-8');
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to write file: ${this.path}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+  }
+
+  async close(): Promise<Result<void>> {
+    try {
+      await this.handle.close();
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to close file: ${this.path}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Synchronously truncates a file through a file writer.
+ *
+ * Fails for file writers without truncateSync(), rather than rewriting the
+ * whole file on every call.
+ *
+ * @param fileWriter - File writer that performs the actual I/O
+ * @param path - Absolute or relative file path
+ * @param length - Length in bytes to keep from the start of the file
+ * @returns Result indicating success or failure
+ */
+export function truncateFileSync(
+  fileWriter: IFileWriter,
+  path: string,
+  length: number
+): Result<void> {
+  if (fileWriter.truncateSync) {
+    return fileWriter.truncateSync(path, length);
+  }
+
+  return {
+    success: false,
+    error: new FileWriteError(`File writer does not implement truncateSync(): ${path}`),
+  };
+}
+
+/**
+ * Asynchronously truncates a file through a file writer.
+ *
+ * Fails for file writers without truncate(), rather than rewriting the whole
+ * file on every call.
+ *
+ * @param fileWriter - File writer that performs the actual I/O
+ * @param path - Absolute or relative file path
+ * @param length - Length in bytes to keep from the start of the file
+ * @returns Promise of Result indicating success or failure
+ */
+export async function truncateFile(
+  fileWriter: IFileWriter,
+  path: string,
+  length: number
+): Promise<Result<void>> {
+  if (fileWriter.truncate) {
+    return await fileWriter.truncate(path, length);
+  }
+
+  return {
+    success: false,
+    error: new FileWriteError(`File writer does not implement truncate(): ${path}`),
+  };
+}
+
+/**
+ * Opens a file for sequential writing through a file writer.
+ *
+ * File writers without open() get a sink that appends each chunk with
+ * append(); in 'write' mode the file is emptied first.
+ *
+ * @param fileWriter - File writer that performs the actual I/O
+ * @param path - Absolute or relative file path
+ * @param mode - 'write' to truncate the file, 'append' to write after existing content
+ * @returns Promise of Result with the open file
+ */
+export async function openFile(
+  fileWriter: IFileWriter,
+  path: string,
+  mode: WriterMode
+): Promise<Result<FileSink>> {
+  if (fileWriter.open) {
+    return await fileWriter.open(path, mode);
+  }
+
+  if (mode === 'write') {
+    const result = await fileWriter.write(path, '');
+    if (!result.success) {
+      return result;
+    }
+  }
+  return {
+    success: true,
+    value: {
+      write: (content) => fileWriter.append(path, content),
+      close: () => Promise.resolve({ success: true, value: undefined }),
+    },
+  };
+}
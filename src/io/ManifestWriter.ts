@@ -0,0 +1,77 @@
+import * as fs from 'node:fs';
+import { createHash } from 'node:crypto';
+import type { FileWriter, Result, ExportManifest, ManifestFile } from '../types.js';
+import { FileWriteError } from '../errors.js';
+import { NodeFileWriter } from './FileWriter.js';
+import { AtomicFileWriter } from './AtomicFileWriter.js';
+
+/**
+ * Writes the manifest sidecar of a completed export.
+ *
+ * describe() measures an output file - its size and SHA-256 digest, read back
+ * from disk so the manifest matches exactly what a loader will read. The
+ * manifest itself is written atomically, so a loader never sees a partial
+ * manifest.
+ *
+ * @example
+ * ```typescript
+ * const file = await ManifestWriter.describe('./orders.csv', 1200);
+ * if (file.success) {
+ *   await new ManifestWriter().write('./orders.csv.manifest.json', {
+ *     ...file.value,
+ *     config: { type: 'csv', mode: 'write' },
+ *     startedAt,
+ *     completedAt: new Date().toISOString(),
+ *   });
+ * }
+ * ```
+ */
+export class ManifestWriter {
+  /**
+   * Creates a new manifest writer.
+   *
+   * @param fileWriter - File writer that performs the actual I/O
+   */
+  constructor(private readonly fileWriter: FileWriter = new NodeFileWriter()) {}
+
+  /**
+   * Measures an output file for a manifest.
+   *
+   * @param file - Path of the output file
+   * @param rows - Number of records in the file
+   * @returns Promise of Result with the file's size and SHA-256 digest
+   */
+  static async describe(file: string, rows: number): Promise<Result<ManifestFile>> {
+    const hash = createHash('sha256');
+    let bytes = 0;
+    try {
+      for await (const chunk of fs.createReadStream(file)) {
+        const data = chunk as Buffer;
+        hash.update(data);
+        bytes += data.length;
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to read file for manifest: ${file}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+    return { success: true, value: { file, rows, bytes, sha256: hash.digest('hex') } };
+  }
+
+  /**
+   * Writes a manifest as pretty-printed JSON.
+   *
+   * @param path - Path of the manifest file
+   * @param manifest - The manifest to write
+   * @returns Promise of Result indicating success or failure
+   */
+  async write(path: string, manifest: ExportManifest): Promise<Result<void>> {
+    const fileWriter = new AtomicFileWriter(this.fileWriter);
+    const result = await fileWriter.write(path, JSON.stringify(manifest, null, 2) + '\n');
+    return await fileWriter.settle(result);
+  }
+}
@@ -0,0 +1,198 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { FileWriter, FileSink, Result, WriterMode, RetryPolicy } from '../types.js';
+import type { RetryHook } from '../builder/hooks.js';
+import { FileWriteError, ValidationError } from '../errors.js';
+import { NodeFileWriter, openFile, truncateFile, truncateFileSync } from './FileWriter.js';
+
+/**
+ * errno codes retried when the policy does not list its own
+ */
+export const DEFAULT_RETRY_CODES = ['EBUSY', 'EAGAIN', 'EMFILE', 'ENFILE', 'ETIMEDOUT'];
+
+/**
+ * File writer decorator that retries operations failing with transient errors.
+ *
+ * An operation is retried when its FileWriteError wraps an `originalError`
+ * whose errno `code` is in the policy's `retryOn` list, waiting a fixed or
+ * exponentially growing delay between attempts. Any other failure, and the
+ * last failed attempt, is returned as is. Synchronous operations block for
+ * the delay.
+ *
+ * Operations that are safe to repeat are retried whenever they fail this way:
+ * write(), truncate() and open(). A failed append(), or a failed write through
+ * an open sink, may already have written part of its content, so it is only
+ * retried when the error comes from opening the file (its `syscall` is
+ * `'open'`), before any bytes were written.
+ *
+ * @example
+ * ```typescript
+ * const fileWriter = new RetryingFileWriter({ attempts: 5, retryOn: ['EBUSY'] });
+ * const writer = new CsvWriter<User>(options, fileWriter);
+ *
+ * await writer.write(users); // Survives a few EBUSY failures of the network share
+ * ```
+ */
+export class RetryingFileWriter implements FileWriter {
+  private readonly attempts: number;
+  private readonly retryOn: ReadonlySet<string>;
+
+  /**
+   * Creates a new retrying file writer.
+   *
+   * @param policy - How often and on which errors to retry, and how long to wait
+   * @param inner - File writer that performs the actual I/O
+   * @param onRetry - Called with the error before each retry
+   * @throws {ValidationError} If the policy is invalid
+   */
+  constructor(
+    private readonly policy: RetryPolicy = {},
+    private readonly inner: FileWriter = new NodeFileWriter(),
+    private readonly onRetry?: RetryHook
+  ) {
+    this.attempts = policy.attempts ?? 3;
+    this.retryOn = new Set(policy.retryOn ?? DEFAULT_RETRY_CODES);
+
+    if (!Number.isInteger(this.attempts) || this.attempts < 1) {
+      throw new ValidationError('Retry attempts must be a positive integer');
+    }
+    for (const delay of [policy.delayMs, policy.maxDelayMs]) {
+      if (delay !== undefined && (!Number.isFinite(delay) || delay < 0)) {
+        throw new ValidationError('Retry delays must be non-negative numbers');
+      }
+    }
+  }
+
+  writeSync(path: string, content: string | Uint8Array): Result<void> {
+    return this.retrySync('write', path, () => this.inner.writeSync(path, content));
+  }
+
+  async write(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    return await this.retry('write', path, () => this.inner.write(path, content));
+  }
+
+  appendSync(path: string, content: string | Uint8Array): Result<void> {
+    return this.retrySync('append', path, () => this.inner.appendSync(path, content), true);
+  }
+
+  async append(path: string, content: string | Uint8Array): Promise<Result<void>> {
+    return await this.retry('append', path, () => this.inner.append(path, content), true);
+  }
+
+  truncateSync(path: string, length: number): Result<void> {
+    return this.retrySync('truncate', path, () => truncateFileSync(this.inner, path, length));
+  }
+
+  async truncate(path: string, length: number): Promise<Result<void>> {
+    return await this.retry('truncate', path, () => truncateFile(this.inner, path, length));
+  }
+
+  async open(path: string, mode: WriterMode): Promise<Result<FileSink>> {
+    const result = await this.retry('open', path, () => openFile(this.inner, path, mode));
+    if (!result.success) {
+      return result;
+    }
+
+    const sink = result.value;
+    return {
+      success: true,
+      value: {
+        write: (content: string | Uint8Array): Promise<Result<void>> =>
+          this.retry('write', path, () => sink.write(content), true),
+        close: (): Promise<Result<void>> => sink.close(),
+      },
+    };
+  }
+
+  existsSync(path: string): boolean {
+    return this.inner.existsSync(path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return await this.inner.exists(path);
+  }
+
+  /**
+   * Runs an async operation, retrying transient failures
+   *
+   * @param beforeWriteOnly - Only retry failures to open the file, for operations that are not safe to repeat
+   */
+  private async retry<R>(
+    operation: string,
+    path: string,
+    run: () => Promise<Result<R>>,
+    beforeWriteOnly = false
+  ): Promise<Result<R>> {
+    for (let attempt = 1; ; attempt++) {
+      const result = await run();
+      if (result.success || !this.shouldRetry(result.error, attempt, beforeWriteOnly)) {
+        return result;
+      }
+
+      const delayMs = this.delayAfter(attempt);
+      if (this.onRetry) {
+        await this.onRetry(result.error, { operation, path, attempt, delayMs });
+      }
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * Runs a sync operation, retrying transient failures
+   *
+   * @param beforeWriteOnly - Only retry failures to open the file, for operations that are not safe to repeat
+   */
+  private retrySync<R>(
+    operation: string,
+    path: string,
+    run: () => Result<R>,
+    beforeWriteOnly = false
+  ): Result<R> {
+    for (let attempt = 1; ; attempt++) {
+      const result = run();
+      if (result.success || !this.shouldRetry(result.error, attempt, beforeWriteOnly)) {
+        return result;
+      }
+
+      const delayMs = this.delayAfter(attempt);
+      if (this.onRetry) {
+        // Fire-and-forget if the hook returns a promise
+        void this.onRetry(result.error, { operation, path, attempt, delayMs });
+      }
+      sleepSync(delayMs);
+    }
+  }
+
+  /**
+   * Whether a failed attempt has a transient errno code and attempts are left
+   */
+  private shouldRetry(error: Error, attempt: number, beforeWriteOnly: boolean): boolean {
+    if (attempt >= this.attempts) {
+      return false;
+    }
+    const cause = error instanceof FileWriteError ? error.originalError : error;
+    const { code, syscall } = (cause ?? {}) as { code?: unknown; syscall?: unknown };
+    if (beforeWriteOnly && syscall !== 'open') {
+      return false;
+    }
+    return typeof code === 'string' && this.retryOn.has(code);
+  }
+
+  /**
+   * Milliseconds to wait after a failed attempt
+   */
+  private delayAfter(attempt: number): number {
+    const delay = this.policy.delayMs ?? 100;
+    const backoff = this.policy.backoff ?? 'exponential';
+    const scaled = backoff === 'exponential' ? delay * 2 ** (attempt - 1) : delay;
+    return Math.min(scaled, this.policy.maxDelayMs ?? 5000);
+  }
+}
+
+/**
+ * Blocks the thread for the given number of milliseconds
+ */
+function sleepSync(ms: number): void {
+  if (ms > 0) {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+  }
+}
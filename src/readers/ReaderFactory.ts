@@ -0,0 +1,49 @@
+import type { OutportReader, ReaderOptions } from '../types.js';
+import { CsvReader } from './csv/CsvReader.js';
+import { JsonReader } from './json/JsonReader.js';
+import { JsonlReader } from './jsonl/JsonlReader.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Factory for creating reader instances based on configuration.
+ *
+ * Uses the factory pattern to instantiate the appropriate reader type
+ * based on the provided configuration, mirroring WriterFactory.
+ *
+ * @example
+ * ```typescript
+ * const reader = ReaderFactory.create<User>({ type: 'jsonl', file: './users.jsonl' });
+ *
+ * for await (const user of reader) {
+ *   console.log(user.name);
+ * }
+ * ```
+ */
+export class ReaderFactory {
+  /**
+   * Creates a reader instance based on the provided configuration.
+   *
+   * @template T - The type of data objects being read
+   * @param options - Reader configuration including type and options
+   * @returns A reader instance matching the specified type
+   *
+   * @throws {ValidationError} If an unsupported reader type is specified
+   */
+  static create<T extends Record<string, unknown>>(options: ReaderOptions<T>): OutportReader<T> {
+    switch (options.type) {
+      case 'csv':
+        return new CsvReader<T>(options);
+      case 'json':
+        return new JsonReader<T>(options);
+      case 'jsonl':
+        return new JsonlReader<T>(options);
+      default: {
+        // Exhaustive check - this should never be reached
+        const _exhaustive: never = options;
+        throw new ValidationError(
+          `Unknown reader type: ${String((_exhaustive as ReaderOptions<T>).type)}`
+        );
+      }
+    }
+  }
+}
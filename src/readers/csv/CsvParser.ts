@@ -0,0 +1,251 @@
+import { CsvParseError } from '../../errors.js';
+
+/**
+ * Position of a character in the source, both 1-based
+ */
+export interface CsvPosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * A parsed record with the position of each field, for error reporting
+ */
+export interface CsvRecord {
+  fields: string[];
+  positions: CsvPosition[];
+  end: CsvPosition;
+}
+
+type ParserState =
+  | 'fieldStart'
+  | 'unquoted'
+  | 'escapeInUnquoted'
+  | 'quoted'
+  | 'escapeInQuoted'
+  | 'quoteInQuoted';
+
+/**
+ * Handles CSV parsing logic - splitting text into records and unescaping quoted values.
+ *
+ * Text is pushed in chunks of any size, so a record may span several chunks.
+ * Records end at `\n`, `\r\n` or `\r`; line breaks inside quoted values are kept.
+ * Blank lines are skipped.
+ *
+ * Quotes inside a quoted value are doubled by default. With an escape
+ * character distinct from the quote, as CsvWriter writes with the `escape`
+ * option, that character makes the next one literal instead, in quoted and
+ * unquoted values alike.
+ */
+export class CsvParser {
+  private state: ParserState = 'fieldStart';
+  private field = '';
+  private fields: string[] = [];
+  private positions: CsvPosition[] = [];
+  private quoteStart: CsvPosition = { line: 1, column: 1 };
+  private line = 1;
+  private column = 1;
+  private previousWasCarriageReturn = false;
+
+  constructor(
+    private readonly delimiter: string = ',',
+    private readonly quote: string = '"',
+    private readonly escape: string = quote
+  ) {}
+
+  /**
+   * Parses a chunk of text
+   *
+   * @returns The records completed by this chunk
+   * @throws {CsvParseError} If the chunk contains a malformed value
+   */
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    for (const char of chunk) {
+      const position: CsvPosition = { line: this.line, column: this.column };
+      const isLineFeedOfCrLf = char === '\n' && this.previousWasCarriageReturn;
+      this.advance(char);
+
+      const record = this.consume(char, position, isLineFeedOfCrLf);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Finishes parsing at the end of the input
+   *
+   * @returns The last record, if the input does not end with a line break
+   * @throws {CsvParseError} If a quoted value is never closed or the input ends with an escape character
+   */
+  end(): CsvRecord[] {
+    const end: CsvPosition = { line: this.line, column: this.column };
+    switch (this.state) {
+      case 'escapeInUnquoted':
+        throw new CsvParseError('Escape character at end of input', end.line, end.column - 1);
+      case 'quoted':
+      case 'escapeInQuoted':
+        throw new CsvParseError(
+          'Unterminated quoted field',
+          this.quoteStart.line,
+          this.quoteStart.column
+        );
+      case 'unquoted':
+      case 'quoteInQuoted':
+        this.pushField();
+        return [this.endRecord(end)];
+      case 'fieldStart':
+        if (this.fields.length > 0) {
+          this.startField(end);
+          this.pushField();
+          return [this.endRecord(end)];
+        }
+        return [];
+    }
+  }
+
+  /**
+   * Moves the position past a character
+   */
+  private advance(char: string): void {
+    if (char === '\r' || (char === '\n' && !this.previousWasCarriageReturn)) {
+      this.line++;
+      this.column = 1;
+    } else if (char !== '\n') {
+      this.column++;
+    }
+    this.previousWasCarriageReturn = char === '\r';
+  }
+
+  /**
+   * Applies a character to the current state
+   *
+   * @returns The completed record when the character ends one
+   */
+  private consume(
+    char: string,
+    position: CsvPosition,
+    isLineFeedOfCrLf: boolean
+  ): CsvRecord | undefined {
+    const isLineBreak = char === '\n' || char === '\r';
+
+    switch (this.state) {
+      case 'fieldStart':
+        if (isLineBreak) {
+          if (isLineFeedOfCrLf || this.fields.length === 0) {
+            // Second half of \r\n, or a blank line
+            return undefined;
+          }
+          this.startField(position);
+          this.pushField();
+          return this.endRecord(position);
+        }
+        this.startField(position);
+        if (char === this.quote) {
+          this.quoteStart = position;
+          this.state = 'quoted';
+        } else if (this.isEscape(char)) {
+          this.state = 'escapeInUnquoted';
+        } else if (char === this.delimiter) {
+          this.pushField();
+        } else {
+          this.field = char;
+          this.state = 'unquoted';
+        }
+        return undefined;
+
+      case 'unquoted':
+        if (this.isEscape(char)) {
+          this.state = 'escapeInUnquoted';
+        } else if (char === this.delimiter) {
+          this.pushField();
+        } else if (isLineBreak) {
+          this.pushField();
+          return this.endRecord(position);
+        } else if (char === this.quote) {
+          throw new CsvParseError(
+            'Unexpected quote in unquoted field',
+            position.line,
+            position.column
+          );
+        } else {
+          this.field += char;
+        }
+        return undefined;
+
+      case 'escapeInUnquoted':
+        this.field += char;
+        this.state = 'unquoted';
+        return undefined;
+
+      case 'quoted':
+        if (this.isEscape(char)) {
+          this.state = 'escapeInQuoted';
+        } else if (char === this.quote) {
+          this.state = 'quoteInQuoted';
+        } else {
+          this.field += char;
+        }
+        return undefined;
+
+      case 'escapeInQuoted':
+        this.field += char;
+        this.state = 'quoted';
+        return undefined;
+
+      case 'quoteInQuoted':
+        if (char === this.quote) {
+          // Escaped (doubled) quote
+          this.field += char;
+          this.state = 'quoted';
+        } else if (char === this.delimiter) {
+          this.pushField();
+        } else if (isLineBreak) {
+          this.pushField();
+          return this.endRecord(position);
+        } else {
+          throw new CsvParseError(
+            'Unexpected character after closing quote',
+            position.line,
+            position.column
+          );
+        }
+        return undefined;
+    }
+  }
+
+  /**
+   * Checks whether a character is an escape character distinct from the quote
+   */
+  private isEscape(char: string): boolean {
+    return char === this.escape && this.escape !== this.quote;
+  }
+
+  /**
+   * Records where a new field begins
+   */
+  private startField(position: CsvPosition): void {
+    this.positions.push(position);
+  }
+
+  /**
+   * Completes the current field
+   */
+  private pushField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  /**
+   * Completes the current record
+   */
+  private endRecord(end: CsvPosition): CsvRecord {
+    const record: CsvRecord = { fields: this.fields, positions: this.positions, end };
+    this.fields = [];
+    this.positions = [];
+    return record;
+  }
+}
@@ -0,0 +1,223 @@
+import type { OutportReader, CsvReaderOptions, CompressionType, Result } from '../../types.js';
+import { ValidationError, CsvParseError } from '../../errors.js';
+import { detectCompression, stripCompressionExtension } from '../../io/CompressingFileWriter.js';
+import { readTextChunks, readTextSync } from '../textSource.js';
+import { CsvParser } from './CsvParser.js';
+import type { CsvRecord } from './CsvParser.js';
+
+/**
+ * CSV Reader for importing data from CSV files.
+ *
+ * Reads files produced by CsvWriter back into objects, using the same
+ * CsvConfig: the delimiter, quote and escape characters are honored, a UTF-8 BOM is
+ * skipped, and `columnMapping` is applied in reverse so header names become
+ * object keys again. When the file was written with explicit `headers` and
+ * `includeKeys`, the headers map to those keys by position.
+ *
+ * The reader is an AsyncIterable that parses the file as it streams, so it can
+ * feed straight into `outport().fromAsyncGenerator()` to convert between
+ * formats. Malformed rows raise a CsvParseError with the line and column.
+ *
+ * @template T - The type of data objects being read. Must extend Record<string, unknown>
+ *
+ * @example
+ * ```typescript
+ * const reader = new CsvReader<User>({
+ *   file: './users.csv',
+ *   config: { columnMapping: { id: 'User ID' } },
+ *   inferTypes: true
+ * });
+ *
+ * // Stream rows
+ * for await (const user of reader) {
+ *   console.log(user.id);
+ * }
+ *
+ * // Convert to JSON Lines
+ * await outport<User>().to('./users.jsonl').fromAsyncGenerator(reader);
+ * ```
+ */
+export class CsvReader<T extends Record<string, unknown>> implements OutportReader<T> {
+  private readonly compression?: CompressionType;
+  private readonly delimiter: string;
+  private readonly quote: string;
+  private readonly escape: string;
+
+  /**
+   * Creates a new CSV reader instance.
+   *
+   * @param options - Configuration options for the CSV reader
+   *
+   * @throws {ValidationError} If configuration is invalid (e.g., empty file path, multi-character delimiter)
+   */
+  constructor(private readonly options: CsvReaderOptions<T>) {
+    this.compression = options.compression ?? detectCompression(options.file ?? '');
+    this.delimiter = options.config?.delimiter ?? ',';
+    this.quote = options.config?.quote ?? '"';
+    this.escape = options.config?.escape ?? this.quote;
+    this.validate(options);
+  }
+
+  /**
+   * Validates reader options
+   */
+  private validate(options: CsvReaderOptions<T>): void {
+    if (options.file == null || options.file.length === 0) {
+      throw new ValidationError('File path must be provided for CsvReader');
+    }
+
+    if (!stripCompressionExtension(options.file, this.compression).endsWith('.csv')) {
+      throw new ValidationError('File extension must be .csv for CsvReader');
+    }
+
+    if (this.delimiter.length !== 1) {
+      throw new ValidationError('Delimiter must be a single character');
+    }
+
+    if (this.quote.length !== 1) {
+      throw new ValidationError('Quote character must be a single character');
+    }
+
+    if (this.delimiter === this.quote) {
+      throw new ValidationError('Delimiter and quote character must be different');
+    }
+
+    if (this.escape.length !== 1) {
+      throw new ValidationError('Escape character must be a single character');
+    }
+
+    if (this.escape === this.delimiter) {
+      throw new ValidationError('Delimiter and escape character must be different');
+    }
+  }
+
+  /**
+   * Streams the rows of the file as objects.
+   *
+   * @returns Async generator of rows, in file order
+   * @throws {CsvParseError} If a row is malformed
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    const parser = new CsvParser(this.delimiter, this.quote, this.escape);
+    let keys: string[] | undefined;
+
+    for await (const text of readTextChunks(this.options.file, this.compression)) {
+      for (const record of parser.push(text)) {
+        if (keys) {
+          yield this.toObject(keys, record);
+        } else {
+          keys = this.toKeys(record);
+        }
+      }
+    }
+
+    for (const record of parser.end()) {
+      if (keys) {
+        yield this.toObject(keys, record);
+      } else {
+        keys = this.toKeys(record);
+      }
+    }
+  }
+
+  /**
+   * Synchronously reads all rows of the file.
+   *
+   * @returns Result containing the rows, or the read or parse error
+   */
+  readSync(): Result<T[]> {
+    try {
+      const parser = new CsvParser(this.delimiter, this.quote, this.escape);
+      const [header, ...records] = parser
+        .push(readTextSync(this.options.file, this.compression))
+        .concat(parser.end());
+      if (!header) {
+        return { success: true, value: [] };
+      }
+
+      const keys = this.toKeys(header);
+      return { success: true, value: records.map((record) => this.toObject(keys, record)) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  /**
+   * Asynchronously reads all rows of the file.
+   *
+   * @returns Promise of Result containing the rows, or the read or parse error
+   */
+  async read(): Promise<Result<T[]>> {
+    try {
+      const rows: T[] = [];
+      for await (const row of this) {
+        rows.push(row);
+      }
+      return { success: true, value: rows };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  /**
+   * Maps the header row to object keys, reversing the configured column mapping
+   */
+  private toKeys(header: CsvRecord): string[] {
+    const config = this.options.config;
+    if (config?.headers && config.includeKeys) {
+      const includeKeys = config.includeKeys;
+      return header.fields.map((name, index) => String(includeKeys[index] ?? name));
+    }
+
+    const reverseMapping = new Map<string, string>();
+    for (const [key, name] of Object.entries(config?.columnMapping ?? {})) {
+      if (typeof name === 'string') {
+        reverseMapping.set(name, key);
+      }
+    }
+    return header.fields.map((name) => reverseMapping.get(name) ?? name);
+  }
+
+  /**
+   * Converts a data record to an object, checking its field count against the header
+   */
+  private toObject(keys: string[], record: CsvRecord): T {
+    if (record.fields.length !== keys.length) {
+      const position =
+        record.fields.length > keys.length ? record.positions[keys.length]! : record.end;
+      throw new CsvParseError(
+        `Expected ${keys.length} fields but found ${record.fields.length}`,
+        position.line,
+        position.column
+      );
+    }
+
+    const row: Record<string, unknown> = {};
+    keys.forEach((key, index) => {
+      const value = record.fields[index]!;
+      row[key] = this.options.inferTypes ? this.inferType(value) : value;
+    });
+    return row as T;
+  }
+
+  /**
+   * Converts a value that CsvWriter would have written from a number or boolean
+   */
+  private inferType(value: string): unknown {
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+
+    const number = Number(value);
+    if (value.trim() !== '' && String(number) === value) {
+      return number;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,127 @@
+import { JsonParseError } from '../../errors.js';
+
+type ParserState = 'beforeArray' | 'betweenElements' | 'inElement' | 'afterArray';
+
+/**
+ * Handles JSON array parsing logic - splitting a top-level array into its objects.
+ *
+ * Text is pushed in chunks of any size, and each object is parsed as soon as
+ * its closing brace arrives, so a large array never has to be held in memory.
+ * Every element of the array must be an object.
+ */
+export class JsonArrayParser {
+  private state: ParserState = 'beforeArray';
+  private element = '';
+  private elementLine = 1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private line = 1;
+
+  /**
+   * Parses a chunk of text
+   *
+   * @returns The objects completed by this chunk
+   * @throws {JsonParseError} If the text is not an array of objects
+   */
+  push(chunk: string): Array<Record<string, unknown>> {
+    const objects: Array<Record<string, unknown>> = [];
+    for (const char of chunk) {
+      const object = this.consume(char);
+      if (object) {
+        objects.push(object);
+      }
+      if (char === '\n') {
+        this.line++;
+      }
+    }
+    return objects;
+  }
+
+  /**
+   * Finishes parsing at the end of the input
+   *
+   * @throws {JsonParseError} If the array is never closed
+   */
+  end(): void {
+    if (this.state === 'beforeArray') {
+      throw new JsonParseError('Expected a JSON array', this.line);
+    }
+    if (this.state !== 'afterArray') {
+      throw new JsonParseError('Unexpected end of JSON array', this.line);
+    }
+  }
+
+  /**
+   * Applies a character to the current state
+   *
+   * @returns The completed object when the character closes one
+   */
+  private consume(char: string): Record<string, unknown> | undefined {
+    const isWhitespace = char === ' ' || char === '\n' || char === '\r' || char === '\t';
+
+    switch (this.state) {
+      case 'beforeArray':
+        if (char === '[') {
+          this.state = 'betweenElements';
+        } else if (!isWhitespace) {
+          throw new JsonParseError('Expected a JSON array', this.line);
+        }
+        return undefined;
+
+      case 'betweenElements':
+        if (char === ']') {
+          this.state = 'afterArray';
+        } else if (char === '{') {
+          this.state = 'inElement';
+          this.element = char;
+          this.elementLine = this.line;
+          this.depth = 1;
+        } else if (!isWhitespace && char !== ',') {
+          throw new JsonParseError('Expected an object in JSON array', this.line);
+        }
+        return undefined;
+
+      case 'inElement':
+        this.element += char;
+        if (this.inString) {
+          if (this.escaped) {
+            this.escaped = false;
+          } else if (char === '\\') {
+            this.escaped = true;
+          } else if (char === '"') {
+            this.inString = false;
+          }
+        } else if (char === '"') {
+          this.inString = true;
+        } else if (char === '{' || char === '[') {
+          this.depth++;
+        } else if (char === '}' || char === ']') {
+          this.depth--;
+          if (this.depth === 0) {
+            this.state = 'betweenElements';
+            return this.parseElement();
+          }
+        }
+        return undefined;
+
+      case 'afterArray':
+        if (!isWhitespace) {
+          throw new JsonParseError('Unexpected content after JSON array', this.line);
+        }
+        return undefined;
+    }
+  }
+
+  /**
+   * Parses the text of a completed element
+   */
+  private parseElement(): Record<string, unknown> {
+    try {
+      return JSON.parse(this.element) as Record<string, unknown>;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new JsonParseError(`Invalid JSON object: ${reason}`, this.elementLine);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import type { OutportReader, JsonReaderOptions, CompressionType, Result } from '../../types.js';
+import { ValidationError } from '../../errors.js';
+import { detectCompression, stripCompressionExtension } from '../../io/CompressingFileWriter.js';
+import { readTextChunks, readTextSync } from '../textSource.js';
+import { JsonArrayParser } from './JsonArrayParser.js';
+
+/**
+ * JSON Reader for importing data from JSON files.
+ *
+ * Reads a file holding a JSON array of objects, as written by JsonWriter. The
+ * array is parsed incrementally and each object is yielded as soon as it is
+ * complete, so large files stream without being loaded at once. Invalid
+ * content raises a JsonParseError with the line it starts on.
+ *
+ * @template T - The type of data objects being read. Must extend Record<string, unknown>
+ *
+ * @example
+ * ```typescript
+ * const reader = new JsonReader<Product>({ file: './products.json' });
+ *
+ * for await (const product of reader) {
+ *   console.log(product.name);
+ * }
+ * ```
+ */
+export class JsonReader<T extends Record<string, unknown>> implements OutportReader<T> {
+  private readonly compression?: CompressionType;
+
+  /**
+   * Creates a new JSON reader instance.
+   *
+   * @param options - Configuration options for the JSON reader
+   *
+   * @throws {ValidationError} If configuration is invalid (e.g., empty file path, non-json extension)
+   */
+  constructor(private readonly options: JsonReaderOptions) {
+    this.compression = options.compression ?? detectCompression(options.file ?? '');
+    this.validate(options);
+  }
+
+  /**
+   * Validates reader options
+   */
+  private validate(options: JsonReaderOptions): void {
+    if (options.file == null || options.file.length === 0) {
+      throw new ValidationError('File path must be provided for JsonReader');
+    }
+
+    if (!stripCompressionExtension(options.file, this.compression).endsWith('.json')) {
+      throw new ValidationError('File extension must be .json for JsonReader');
+    }
+  }
+
+  /**
+   * Streams the objects of the array.
+   *
+   * @returns Async generator of objects, in file order
+   * @throws {JsonParseError} If the file is not a JSON array of objects
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    const parser = new JsonArrayParser();
+    for await (const text of readTextChunks(this.options.file, this.compression)) {
+      for (const object of parser.push(text)) {
+        yield object as T;
+      }
+    }
+    parser.end();
+  }
+
+  /**
+   * Synchronously reads all objects of the array.
+   *
+   * @returns Result containing the objects, or the read or parse error
+   */
+  readSync(): Result<T[]> {
+    try {
+      const parser = new JsonArrayParser();
+      const objects = parser.push(readTextSync(this.options.file, this.compression));
+      parser.end();
+      return { success: true, value: objects as T[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  /**
+   * Asynchronously reads all objects of the array.
+   *
+   * @returns Promise of Result containing the objects, or the read or parse error
+   */
+  async read(): Promise<Result<T[]>> {
+    try {
+      const objects: T[] = [];
+      for await (const object of this) {
+        objects.push(object);
+      }
+      return { success: true, value: objects };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import type { OutportReader, JsonReaderOptions, CompressionType, Result } from '../../types.js';
+import { ValidationError, JsonParseError } from '../../errors.js';
+import { detectCompression, stripCompressionExtension } from '../../io/CompressingFileWriter.js';
+import { readTextChunks, readTextSync } from '../textSource.js';
+
+/**
+ * JSON Lines Reader for importing data from JSON Lines (NDJSON) files.
+ *
+ * Reads one JSON object per line, as written by JsonlWriter, streaming the
+ * file line by line. Blank lines are skipped. A line that is not a JSON object
+ * raises a JsonParseError with its line number.
+ *
+ * @template T - The type of data objects being read. Must extend Record<string, unknown>
+ *
+ * @example
+ * ```typescript
+ * const reader = new JsonlReader<Event>({ file: './events.jsonl' });
+ *
+ * for await (const event of reader) {
+ *   console.log(event.type);
+ * }
+ * ```
+ */
+export class JsonlReader<T extends Record<string, unknown>> implements OutportReader<T> {
+  private readonly compression?: CompressionType;
+
+  /**
+   * Creates a new JSON Lines reader instance.
+   *
+   * @param options - Configuration options for the JSON Lines reader
+   *
+   * @throws {ValidationError} If configuration is invalid (e.g., empty file path, non-jsonl extension)
+   */
+  constructor(private readonly options: JsonReaderOptions) {
+    this.compression = options.compression ?? detectCompression(options.file ?? '');
+    this.validate(options);
+  }
+
+  /**
+   * Validates reader options
+   */
+  private validate(options: JsonReaderOptions): void {
+    if (options.file == null || options.file.length === 0) {
+      throw new ValidationError('File path must be provided for JsonlReader');
+    }
+
+    const basePath = stripCompressionExtension(options.file, this.compression);
+    if (!basePath.endsWith('.jsonl') && !basePath.endsWith('.ndjson')) {
+      throw new ValidationError('File extension must be .jsonl or .ndjson for JsonlReader');
+    }
+  }
+
+  /**
+   * Streams the objects of the file, one per line.
+   *
+   * @returns Async generator of objects, in file order
+   * @throws {JsonParseError} If a line is not a JSON object
+   */
+  [Symbol.asyncIterator](): AsyncGenerator<T> {
+    return parseJsonLines<T>(readTextChunks(this.options.file, this.compression));
+  }
+
+  /**
+   * Synchronously reads all objects of the file.
+   *
+   * @returns Result containing the objects, or the read or parse error
+   */
+  readSync(): Result<T[]> {
+    try {
+      const objects: T[] = [];
+      readTextSync(this.options.file, this.compression)
+        .split('\n')
+        .forEach((content, index) => {
+          const object = parseLine<T>(content, index + 1);
+          if (object) {
+            objects.push(object);
+          }
+        });
+      return { success: true, value: objects };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  /**
+   * Asynchronously reads all objects of the file.
+   *
+   * @returns Promise of Result containing the objects, or the read or parse error
+   */
+  async read(): Promise<Result<T[]>> {
+    try {
+      const objects: T[] = [];
+      for await (const object of this) {
+        objects.push(object);
+      }
+      return { success: true, value: objects };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+}
+
+/**
+ * Parses JSON Lines text, such as a file or stdin, into objects.
+ *
+ * @param chunks - Text chunks of the input, split at any point
+ * @returns Async generator of objects, in input order
+ * @throws {JsonParseError} If a line is not a JSON object
+ */
+export async function* parseJsonLines<T extends Record<string, unknown>>(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<T> {
+  let pending = '';
+  let line = 1;
+
+  for await (const text of chunks) {
+    const lines = (pending + text).split('\n');
+    pending = lines.pop() ?? '';
+    for (const content of lines) {
+      const object = parseLine<T>(content, line++);
+      if (object) {
+        yield object;
+      }
+    }
+  }
+
+  const object = parseLine<T>(pending, line);
+  if (object) {
+    yield object;
+  }
+}
+
+/**
+ * Parses one line, returning undefined for a blank line
+ */
+function parseLine<T extends Record<string, unknown>>(
+  content: string,
+  line: number
+): T | undefined {
+  const trimmed = content.trim();
+  if (trimmed.length === 0) {
+    return undefined;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(trimmed);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new JsonParseError(`Invalid JSON: ${reason}`, line);
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new JsonParseError('Expected a JSON object', line);
+  }
+  return value as T;
+}
@@ -0,0 +1,131 @@
+import * as fs from 'node:fs';
+import * as zlib from 'node:zlib';
+import { StringDecoder } from 'node:string_decoder';
+import type { CompressionType } from '../types.js';
+
+const UTF8_BOM = '\uFEFF';
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Streams the text of a file as UTF-8 chunks, decompressing it when needed.
+ *
+ * @param file - Path of the file to read
+ * @param compression - Compression the file was written with, if any
+ * @returns Async generator of text chunks
+ */
+export function readTextChunks(
+  file: string,
+  compression?: CompressionType
+): AsyncGenerator<string> {
+  return decodeTextChunks(openStream(file, compression));
+}
+
+/**
+ * Decodes a byte stream, such as stdin, into UTF-8 text chunks.
+ *
+ * Multi-byte characters split across reads are decoded whole, and a leading
+ * UTF-8 byte order mark is removed.
+ *
+ * @param source - Stream of bytes or already decoded text
+ * @returns Async generator of text chunks
+ */
+export async function* decodeTextChunks(
+  source: AsyncIterable<Buffer | string>
+): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let isFirstChunk = true;
+
+  for await (const chunk of source) {
+    let text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    if (isFirstChunk && text.length > 0) {
+      text = stripBom(text);
+      isFirstChunk = false;
+    }
+    yield text;
+  }
+
+  const rest = decoder.end();
+  yield isFirstChunk ? stripBom(rest) : rest;
+}
+
+/**
+ * Synchronously reads the text of a file, decompressing it when needed.
+ *
+ * A leading UTF-8 byte order mark is removed.
+ *
+ * @param file - Path of the file to read
+ * @param compression - Compression the file was written with, if any
+ * @returns The file content
+ */
+export function readTextSync(file: string, compression?: CompressionType): string {
+  let content: Buffer = fs.readFileSync(file);
+  if (compression === 'gzip') {
+    content = zlib.gunzipSync(content);
+  } else if (compression === 'brotli') {
+    content = zlib.brotliDecompressSync(content);
+  }
+  return stripBom(content.toString('utf8'));
+}
+
+/**
+ * Synchronously reads the text of a file as UTF-8 chunks, decompressing it when needed.
+ *
+ * An uncompressed file is read one chunk at a time, so stopping early leaves
+ * the rest unread. A leading UTF-8 byte order mark is removed.
+ *
+ * @param file - Path of the file to read
+ * @param compression - Compression the file was written with, if any
+ * @returns Generator of text chunks
+ */
+export function* readTextChunksSync(
+  file: string,
+  compression?: CompressionType
+): Generator<string> {
+  if (compression) {
+    yield readTextSync(file, compression);
+    return;
+  }
+
+  const fd = fs.openSync(file, 'r');
+  try {
+    const decoder = new StringDecoder('utf8');
+    const buffer = Buffer.alloc(CHUNK_SIZE);
+    let isFirstChunk = true;
+    let bytesRead: number;
+
+    while ((bytesRead = fs.readSync(fd, buffer)) > 0) {
+      let text = decoder.write(buffer.subarray(0, bytesRead));
+      if (isFirstChunk && text.length > 0) {
+        text = stripBom(text);
+        isFirstChunk = false;
+      }
+      yield text;
+    }
+
+    const rest = decoder.end();
+    yield isFirstChunk ? stripBom(rest) : rest;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Opens a file stream, piping it through a decompressor when needed
+ */
+function openStream(file: string, compression?: CompressionType): AsyncIterable<Buffer> {
+  const fileStream = fs.createReadStream(file);
+  if (!compression) {
+    return fileStream;
+  }
+
+  const decompressor = compression === 'gzip' ? zlib.createGunzip() : zlib.createBrotliDecompress();
+  fileStream.on('error', (error) => decompressor.destroy(error));
+  return fileStream.pipe(decompressor);
+}
+
+/**
+ * Removes a leading UTF-8 byte order mark
+ */
+function stripBom(text: string): string {
+  return text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+}
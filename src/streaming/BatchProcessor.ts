@@ -1,3 +1,5 @@
+import { AbortedError } from '../errors.js';
+
 /**
  * Processes items in batches from an async generator.
  *
@@ -17,9 +19,18 @@ export class BatchProcessor<T> {
   /**
    * Processes an async generator in batches.
    *
-   * @param source - Async generator providing items
+   * Arrays and other synchronous iterables are accepted as well.
+   *
+   * When the signal is aborted, no more items are pulled from the source -
+   * even one still waiting for its next item - the source is closed with
+   * `return()`, and the returned promise rejects with an AbortedError. A batch
+   * already being processed is finished first.
+   *
+   * @param source - Async generator or iterable providing items
    * @param onBatch - Callback to process each batch
+   * @param signal - Optional signal to stop processing
    * @returns Total number of items processed
+   * @throws {AbortedError} If the signal is aborted
    *
    * @example
    * ```typescript
@@ -34,32 +45,57 @@ export class BatchProcessor<T> {
    * ```
    */
   async process(
-    source: AsyncGenerator<T> | AsyncIterable<T>,
-    onBatch: (batch: T[], batchNumber: number) => Promise<void>
+    source: AsyncGenerator<T> | AsyncIterable<T> | Iterable<T>,
+    onBatch: (batch: T[], batchNumber: number) => Promise<void>,
+    signal?: AbortSignal
   ): Promise<number> {
+    const iterator =
+      Symbol.asyncIterator in source
+        ? source[Symbol.asyncIterator]()
+        : (source[Symbol.iterator]() as Iterator<T> | AsyncIterator<T>);
     let batch: T[] = [];
     let totalProcessed = 0;
     let batchNumber = 0;
+    let pulling = false;
 
-    for await (const item of source) {
-      batch.push(item);
+    try {
+      for (;;) {
+        throwIfAborted(signal);
+        pulling = true;
+        const next = await nextItem(iterator, signal);
+        pulling = false;
+        if (next.done) {
+          break;
+        }
+        batch.push(next.value);
 
-      if (batch.length >= this.batchSize) {
+        if (batch.length >= this.batchSize) {
+          batchNumber++;
+          await onBatch(batch, batchNumber);
+          totalProcessed += batch.length;
+          batch = [];
+        }
+      }
+
+      // Process remaining items
+      if (batch.length > 0) {
         batchNumber++;
         await onBatch(batch, batchNumber);
         totalProcessed += batch.length;
-        batch = [];
       }
-    }
 
-    // Process remaining items
-    if (batch.length > 0) {
-      batchNumber++;
-      await onBatch(batch, batchNumber);
-      totalProcessed += batch.length;
+      return totalProcessed;
+    } catch (error) {
+      // Close the source like for await does when processing stops early. A
+      // source that is still producing an item cannot finish returning until
+      // it yields, so it is not waited for.
+      if (!pulling) {
+        await iterator.return?.();
+      } else if (error instanceof AbortedError) {
+        Promise.resolve(iterator.return?.()).catch(() => undefined);
+      }
+      throw error;
     }
-
-    return totalProcessed;
   }
 
   /**
@@ -99,3 +135,35 @@ export class BatchProcessor<T> {
     return items;
   }
 }
+
+/**
+ * Throws an AbortedError if the signal is aborted
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortedError(undefined, signal.reason);
+  }
+}
+
+/**
+ * Pulls the next item, rejecting with an AbortedError as soon as the signal is aborted
+ */
+async function nextItem<T>(
+  iterator: Iterator<T> | AsyncIterator<T>,
+  signal?: AbortSignal
+): Promise<IteratorResult<T>> {
+  if (!signal) {
+    return await iterator.next();
+  }
+
+  let onAbort = (): void => undefined;
+  const aborted = new Promise<never>((_resolve, reject) => {
+    onAbort = () => reject(new AbortedError(undefined, signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([iterator.next(), aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
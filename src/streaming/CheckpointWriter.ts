@@ -0,0 +1,181 @@
+import * as fsPromises from 'node:fs/promises';
+import type { Checkpoint, Result } from '../types.js';
+import { FileWriteError, ValidationError } from '../errors.js';
+import type { CountingFileWriter } from '../io/CountingFileWriter.js';
+
+/**
+ * Saves the progress of a streamed export to a checkpoint file after each batch.
+ *
+ * The checkpoint records the last written batch, the record count, the size of
+ * the output - read from the CountingFileWriter the output is written through -
+ * and a cursor derived from the last record. A crashed export resumes by
+ * rewinding the output to that size and restarting the source at the cursor.
+ * Each checkpoint replaces the previous one atomically, so a crash while saving
+ * leaves the last good checkpoint in place.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const fileWriter = new CountingFileWriter();
+ * const checkpoints = new CheckpointWriter<User>(
+ *   './users.csv.checkpoint.json',
+ *   './users.csv',
+ *   fileWriter,
+ *   (user) => user.id
+ * );
+ *
+ * const writer = new CsvWriter<User>(options, fileWriter);
+ * await new StreamingWriter(writer, { checkpoint: checkpoints }).stream(fetchUsers());
+ * ```
+ */
+export class CheckpointWriter<T extends Record<string, unknown>> {
+  private checkpoint: Checkpoint;
+
+  /**
+   * Creates a new checkpoint writer.
+   *
+   * @param file - Path of the checkpoint file
+   * @param output - Path of the output file
+   * @param fileWriter - File writer the output is written through, counting its bytes
+   * @param cursor - Derives the cursor from the last record of each batch
+   * @param resumeFrom - Checkpoint of the run being resumed; counts continue from it
+   */
+  constructor(
+    private readonly file: string,
+    private readonly output: string,
+    private readonly fileWriter: CountingFileWriter,
+    private readonly cursor?: (record: T) => unknown,
+    resumeFrom?: Checkpoint
+  ) {
+    this.checkpoint = resumeFrom ?? { file: output, batchNumber: 0, records: 0, bytes: 0 };
+  }
+
+  /**
+   * Reads a checkpoint file.
+   *
+   * @param file - Path of the checkpoint file
+   * @returns Result with the checkpoint, or undefined if the file does not exist
+   */
+  static async load<C = unknown>(file: string): Promise<Result<Checkpoint<C> | undefined>> {
+    let content: string;
+    try {
+      content = await fsPromises.readFile(file, 'utf-8');
+    } catch (error) {
+      if ((error as { code?: unknown }).code === 'ENOENT') {
+        return { success: true, value: undefined };
+      }
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to read checkpoint: ${file}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+
+    let checkpoint: Partial<Checkpoint<C>> | null;
+    try {
+      checkpoint = JSON.parse(content) as Partial<Checkpoint<C>> | null;
+    } catch {
+      checkpoint = null;
+    }
+
+    if (
+      typeof checkpoint?.file !== 'string' ||
+      !Number.isInteger(checkpoint.batchNumber) ||
+      !Number.isInteger(checkpoint.records) ||
+      !Number.isInteger(checkpoint.bytes)
+    ) {
+      return { success: false, error: new ValidationError(`Invalid checkpoint file: ${file}`) };
+    }
+    return { success: true, value: checkpoint as Checkpoint<C> };
+  }
+
+  /**
+   * Truncates the output to the size recorded in the checkpoint, discarding
+   * anything written after the last saved batch.
+   *
+   * @returns Result indicating success or failure
+   */
+  async rewind(): Promise<Result<void>> {
+    let size: number;
+    try {
+      size = (await fsPromises.stat(this.output)).size;
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Cannot resume, output file is missing: ${this.output}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+
+    if (size < this.checkpoint.bytes) {
+      return {
+        success: false,
+        error: new ValidationError(
+          `Cannot resume, output file is smaller than its checkpoint: ${this.output}`
+        ),
+      };
+    }
+    return await this.fileWriter.truncate(this.output, this.checkpoint.bytes);
+  }
+
+  /**
+   * Saves a checkpoint after a batch has been written to the output.
+   *
+   * @param batch - The batch that was written
+   * @returns Result with the saved checkpoint
+   */
+  async commit(batch: T[]): Promise<Result<Checkpoint>> {
+    const last = batch[batch.length - 1];
+    const checkpoint: Checkpoint = {
+      file: this.output,
+      batchNumber: this.checkpoint.batchNumber + 1,
+      records: this.checkpoint.records + batch.length,
+      bytes: this.fileWriter.getBytesWritten(this.output),
+    };
+    if (this.cursor && last !== undefined) {
+      checkpoint.cursor = this.cursor(last);
+    }
+
+    const tempPath = `${this.file}.tmp`;
+    try {
+      await fsPromises.writeFile(tempPath, JSON.stringify(checkpoint));
+      await fsPromises.rename(tempPath, this.file);
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to save checkpoint: ${this.file}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+
+    this.checkpoint = checkpoint;
+    return { success: true, value: checkpoint };
+  }
+
+  /**
+   * Deletes the checkpoint file once the export has completed.
+   *
+   * @returns Result indicating success or failure
+   */
+  async clear(): Promise<Result<void>> {
+    try {
+      await fsPromises.rm(this.file, { force: true });
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to delete checkpoint: ${this.file}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+  }
+}
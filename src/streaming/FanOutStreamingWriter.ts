@@ -0,0 +1,167 @@
+import type { OutportWriter, Result } from '../types.js';
+import type { ProgressHook } from '../builder/hooks.js';
+import { BatchProcessor } from './BatchProcessor.js';
+
+/**
+ * A writer that receives a copy of every record of a fan-out stream.
+ *
+ * @template T - The type of data objects being written
+ */
+export interface FanOutTarget<T extends Record<string, unknown>> {
+  /** Writer for the target */
+  writer: OutportWriter<T>;
+
+  /** Called with the number of records written to this target, after each batch */
+  onProgress?: ProgressHook;
+}
+
+/**
+ * Progress of a single target while streaming
+ */
+interface TargetState<T extends Record<string, unknown>> {
+  target: FanOutTarget<T>;
+  rows: number;
+  error?: Error;
+}
+
+/**
+ * Raised internally to stop reading the source once every target has failed
+ */
+class AllTargetsFailed extends Error {}
+
+/**
+ * Streams data from an async generator to several writers in a single pass.
+ *
+ * Every batch read from the source is written to all targets concurrently, so
+ * an expensive source is consumed only once and every target receives the
+ * same records. Failures are isolated: a target that fails is closed and left
+ * out of the remaining batches while the others carry on. Targets that support
+ * the open()/close() lifecycle are written through a single open handle.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const fanOut = new FanOutStreamingWriter<Order>([
+ *   { writer: new CsvWriter<Order>({ type: 'csv', mode: 'write', file: './orders.csv' }) },
+ *   { writer: new JsonlWriter<Order>({ type: 'jsonl', mode: 'write', file: './orders.jsonl' }) },
+ * ]);
+ *
+ * const result = await fanOut.stream(fetchOrders());
+ * if (result.success) {
+ *   result.value.forEach((target, index) => console.log(index, target.success));
+ * }
+ * ```
+ */
+export class FanOutStreamingWriter<T extends Record<string, unknown>> {
+  private readonly batchProcessor: BatchProcessor<T>;
+
+  /**
+   * Creates a new fan-out streaming writer.
+   *
+   * @param targets - Writers that each receive every record
+   * @param options - Streaming configuration options
+   */
+  constructor(
+    private readonly targets: Array<FanOutTarget<T>>,
+    private readonly options: { batchSize?: number; signal?: AbortSignal } = {}
+  ) {
+    this.batchProcessor = new BatchProcessor<T>(options.batchSize ?? 100);
+  }
+
+  /**
+   * Streams data from an async generator to every target.
+   *
+   * @param source - Async generator or iterable providing data, or an array
+   * @returns Result with the outcome of each target, in target order; fails
+   *   only if the source itself fails
+   */
+  async stream(
+    source: AsyncGenerator<T> | AsyncIterable<T> | T[]
+  ): Promise<Result<Array<Result<number>>>> {
+    const states: Array<TargetState<T>> = this.targets.map((target) => ({ target, rows: 0 }));
+    await Promise.all(states.map((state) => this.openTarget(state)));
+
+    let sourceError: Error | undefined;
+    try {
+      await this.batchProcessor.process(
+        source,
+        async (batch) => {
+          const active = states.filter((state) => !state.error);
+          if (active.length === 0) {
+            throw new AllTargetsFailed();
+          }
+          await Promise.all(active.map((state) => this.writeBatch(state, batch)));
+        },
+        this.options.signal
+      );
+    } catch (error) {
+      if (!(error instanceof AllTargetsFailed)) {
+        sourceError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    // Finalize every target that is still open
+    await Promise.all(
+      states.filter((state) => !state.error).map((state) => this.closeTarget(state))
+    );
+
+    if (sourceError) {
+      return { success: false, error: sourceError };
+    }
+
+    return {
+      success: true,
+      value: states.map(
+        (state): Result<number> =>
+          state.error
+            ? { success: false, error: state.error }
+            : { success: true, value: state.rows }
+      ),
+    };
+  }
+
+  /**
+   * Opens a target that supports the lifecycle, recording a failure
+   */
+  private async openTarget(state: TargetState<T>): Promise<void> {
+    if (state.target.writer.open) {
+      const result = await state.target.writer.open();
+      if (!result.success) {
+        state.error = result.error;
+      }
+    }
+  }
+
+  /**
+   * Writes a batch to one target. On failure the target is closed and marked failed.
+   */
+  private async writeBatch(state: TargetState<T>, batch: T[]): Promise<void> {
+    const { writer, onProgress } = state.target;
+    try {
+      const result = state.rows === 0 ? await writer.write(batch) : await writer.append(batch);
+      if (!result.success) {
+        throw result.error;
+      }
+      state.rows += batch.length;
+      if (onProgress) {
+        await onProgress(state.rows);
+      }
+    } catch (error) {
+      state.error = error instanceof Error ? error : new Error(String(error));
+      await writer.close?.();
+    }
+  }
+
+  /**
+   * Closes (finalizes) a target, recording a failure
+   */
+  private async closeTarget(state: TargetState<T>): Promise<void> {
+    if (state.target.writer.close) {
+      const result = await state.target.writer.close();
+      if (!result.success) {
+        state.error = result.error;
+      }
+    }
+  }
+}
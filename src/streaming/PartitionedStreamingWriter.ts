@@ -0,0 +1,205 @@
+import * as fsPromises from 'node:fs/promises';
+import * as nodePath from 'node:path';
+import type {
+  OutportWriter,
+  Result,
+  FileWriter,
+  PartitionKey,
+  PartitionSummary,
+} from '../types.js';
+import type { StreamingOptions } from './StreamingWriter.js';
+import type { PartWriterFactory } from './SplitStreamingWriter.js';
+import { BatchProcessor } from './BatchProcessor.js';
+import { ValidationError } from '../errors.js';
+import { NodeFileWriter } from '../io/FileWriter.js';
+
+const PARTITION_PLACEHOLDER = '{partition}';
+
+/**
+ * Partition whose writer has been created
+ */
+interface OpenPartition<T extends Record<string, unknown>> {
+  summary: PartitionSummary;
+  writer: OutportWriter<T>;
+}
+
+/**
+ * Streams data from an async generator into one file per partition.
+ *
+ * Each record is routed by a partition key into the file named by a path
+ * template such as `./out/{partition}/orders.csv`. A writer is created lazily
+ * for every partition the first time it receives a record, so each file has
+ * its own header state. All writers are kept open until the source ends and
+ * are then finalized together. Missing partition directories are created.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const partitioned = new PartitionedStreamingWriter<Order>(
+ *   (file, fileWriter) => new CsvWriter<Order>({ type: 'csv', mode: 'write', file }, fileWriter),
+ *   './out/{partition}/orders.csv',
+ *   (order) => order.region
+ * );
+ *
+ * const result = await partitioned.stream(fetchOrders());
+ * if (result.success) {
+ *   for (const { partition, rows } of result.value) {
+ *     console.log(`${partition}: ${rows} rows`);
+ *   }
+ * }
+ * ```
+ */
+export class PartitionedStreamingWriter<T extends Record<string, unknown>> {
+  private readonly batchProcessor: BatchProcessor<T>;
+
+  /**
+   * Creates a new partitioned streaming writer.
+   *
+   * @param createWriter - Creates the writer for each partition file
+   * @param pathTemplate - Output path containing a `{partition}` placeholder
+   * @param partitionKey - Returns the partition of a record
+   * @param options - Streaming configuration options
+   * @param fileWriter - Optional custom file writer for dependency injection (useful for testing)
+   *
+   * @throws {ValidationError} If the path template has no `{partition}` placeholder
+   */
+  constructor(
+    private readonly createWriter: PartWriterFactory<T>,
+    private readonly pathTemplate: string,
+    private readonly partitionKey: PartitionKey<T>,
+    private readonly options: Omit<
+      StreamingOptions,
+      'initializeWithFirstBatch' | 'onError' | 'checkpoint'
+    > = {},
+    private readonly fileWriter: FileWriter = new NodeFileWriter()
+  ) {
+    if (!pathTemplate.includes(PARTITION_PLACEHOLDER)) {
+      throw new ValidationError(
+        `Partitioned output path must contain ${PARTITION_PLACEHOLDER}: ${pathTemplate}`
+      );
+    }
+    this.batchProcessor = new BatchProcessor<T>(options.batchSize ?? 100);
+  }
+
+  /**
+   * Builds the file path of a partition from the path template.
+   *
+   * @param pathTemplate - Output path containing a `{partition}` placeholder
+   * @param partition - Partition value
+   * @returns The partition file path
+   * @throws {ValidationError} If the partition value is not a valid path segment
+   *
+   * @example
+   * ```typescript
+   * PartitionedStreamingWriter.partitionPath('./out/{partition}/orders.csv', 'emea');
+   * // './out/emea/orders.csv'
+   * ```
+   */
+  static partitionPath(pathTemplate: string, partition: string): string {
+    if (partition === '' || partition === '.' || partition === '..' || /[/\\\0]/.test(partition)) {
+      throw new ValidationError(`Invalid partition value for a file path: "${partition}"`);
+    }
+    return pathTemplate.split(PARTITION_PLACEHOLDER).join(partition);
+  }
+
+  /**
+   * Streams data from an async generator into one file per partition.
+   *
+   * @param source - Async generator or iterable providing data, or an array
+   * @returns Result with the row count and file of each partition, in order of first appearance
+   */
+  async stream(
+    source: AsyncGenerator<T> | AsyncIterable<T> | T[]
+  ): Promise<Result<PartitionSummary[]>> {
+    const partitions = new Map<string, OpenPartition<T>>();
+    let totalProcessed = 0;
+
+    let result: Result<PartitionSummary[]>;
+    try {
+      await this.batchProcessor.process(
+        source,
+        async (batch) => {
+          for (const [partition, records] of this.groupByPartition(batch)) {
+            let open = partitions.get(partition);
+            if (!open) {
+              open = await this.openPartition(partition);
+              partitions.set(partition, open);
+            }
+
+            const writeResult =
+              open.summary.rows === 0
+                ? await open.writer.write(records)
+                : await open.writer.append(records);
+            if (!writeResult.success) {
+              throw writeResult.error;
+            }
+            open.summary.rows += records.length;
+          }
+
+          totalProcessed += batch.length;
+          if (this.options.onProgress) {
+            await this.options.onProgress(totalProcessed);
+          }
+        },
+        this.options.signal
+      );
+
+      result = {
+        success: true,
+        value: [...partitions.values()].map((open) => open.summary),
+      };
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    // Finalize every partition, reporting the first failure
+    for (const open of partitions.values()) {
+      if (open.writer.close) {
+        const closeResult = await open.writer.close();
+        if (result.success && !closeResult.success) {
+          result = closeResult;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Groups a batch by partition, keeping the order of records within each partition
+   */
+  private groupByPartition(batch: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const record of batch) {
+      const partition = String(this.partitionKey(record));
+      const group = groups.get(partition);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(partition, [record]);
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Creates the directory and writer for a new partition and opens the writer
+   */
+  private async openPartition(partition: string): Promise<OpenPartition<T>> {
+    const file = PartitionedStreamingWriter.partitionPath(this.pathTemplate, partition);
+    await fsPromises.mkdir(nodePath.dirname(file), { recursive: true });
+
+    const writer = this.createWriter(file, this.fileWriter);
+    if (writer.open) {
+      const result = await writer.open();
+      if (!result.success) {
+        throw result.error;
+      }
+    }
+    return { summary: { partition, file, rows: 0 }, writer };
+  }
+}
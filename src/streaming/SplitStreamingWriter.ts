@@ -0,0 +1,286 @@
+import * as nodePath from 'node:path';
+import type { OutportWriter, Result, FileWriter, SplitConfig } from '../types.js';
+import type { StreamingOptions } from './StreamingWriter.js';
+import { BatchProcessor } from './BatchProcessor.js';
+import { ValidationError } from '../errors.js';
+import { NodeFileWriter } from '../io/FileWriter.js';
+import { CountingFileWriter } from '../io/CountingFileWriter.js';
+import { detectCompression, stripCompressionExtension } from '../io/CompressingFileWriter.js';
+
+/**
+ * Creates the writer for one part file of a split export.
+ *
+ * @template T - The type of data objects being written
+ * @param file - Path of the part file
+ * @param fileWriter - File writer the part must be written through
+ */
+export type PartWriterFactory<T extends Record<string, unknown>> = (
+  file: string,
+  fileWriter: FileWriter
+) => OutportWriter<T>;
+
+/**
+ * Part file written by a split stream
+ */
+export interface SplitPart {
+  file: string;
+  rows: number;
+  /** Columns of the part, if its writer reports them */
+  columns?: string[];
+  /** Cells neutralized by formula sanitization, if its writer reports them */
+  neutralizedCells?: number;
+}
+
+/**
+ * Part file that is currently being written
+ */
+interface OpenPart<T extends Record<string, unknown>> {
+  file: string;
+  writer: OutportWriter<T>;
+  rows: number;
+}
+
+/**
+ * Streams data from an async generator into a sequence of numbered files.
+ *
+ * The stream rolls over to a new part once the current part holds the
+ * configured number of rows or bytes: `users.csv` becomes `users-0001.csv`,
+ * `users-0002.csv` and so on. Every part is written by its own writer, so each
+ * CSV part has a header row and each JSON part is a complete document. With a
+ * byte limit, the part writer measures every row, header and footer before it
+ * is written, so the stream rolls over before a part would exceed the limit.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const splitWriter = new SplitStreamingWriter<User>(
+ *   (file, fileWriter) => new CsvWriter<User>({ type: 'csv', mode: 'write', file }, fileWriter),
+ *   './users.csv',
+ *   { rows: 100_000 },
+ *   { batchSize: 1000 }
+ * );
+ *
+ * const result = await splitWriter.stream(fetchUsers());
+ * ```
+ */
+export class SplitStreamingWriter<T extends Record<string, unknown>> {
+  private readonly batchProcessor: BatchProcessor<T>;
+  private readonly fileWriter: CountingFileWriter;
+  private parts: SplitPart[] = [];
+
+  /**
+   * Creates a new split streaming writer.
+   *
+   * @param createWriter - Creates the writer for each part file
+   * @param file - Output path the part file names are derived from
+   * @param split - Row and byte limits per part
+   * @param options - Streaming configuration options
+   * @param fileWriter - Optional custom file writer for dependency injection (useful for testing)
+   *
+   * @throws {ValidationError} If no limit is set, a limit is not a positive integer, or a
+   * bytes limit is set for a compressed file
+   */
+  constructor(
+    private readonly createWriter: PartWriterFactory<T>,
+    private readonly file: string,
+    private readonly split: SplitConfig,
+    private readonly options: Omit<
+      StreamingOptions,
+      'initializeWithFirstBatch' | 'onError' | 'checkpoint'
+    > = {},
+    fileWriter: FileWriter = new NodeFileWriter()
+  ) {
+    SplitStreamingWriter.validate(split, file);
+    this.batchProcessor = new BatchProcessor<T>(options.batchSize ?? 100);
+    this.fileWriter = new CountingFileWriter(fileWriter);
+  }
+
+  /**
+   * Validates the split limits
+   */
+  private static validate(split: SplitConfig, file: string): void {
+    if (split.rows === undefined && split.bytes === undefined) {
+      throw new ValidationError('splitEvery requires a rows or bytes limit');
+    }
+    for (const [name, limit] of Object.entries(split)) {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new ValidationError(`Split ${name} limit must be a positive integer`);
+      }
+    }
+    // Compressed bytes only reach the file when the compressor flushes, too late to roll over
+    if (split.bytes !== undefined && detectCompression(file)) {
+      throw new ValidationError('A split bytes limit cannot be used with compressed output');
+    }
+  }
+
+  /**
+   * Builds the path of a numbered part file, keeping the format and compression
+   * extensions at the end.
+   *
+   * @param file - Output path the part is derived from
+   * @param index - One-based part number
+   * @returns The part file path
+   *
+   * @example
+   * ```typescript
+   * SplitStreamingWriter.partPath('./out/users.csv.gz', 2); // './out/users-0002.csv.gz'
+   * ```
+   */
+  static partPath(file: string, index: number): string {
+    const basePath = stripCompressionExtension(file, detectCompression(file));
+    const extension = nodePath.extname(basePath);
+    const stem = basePath.slice(0, basePath.length - extension.length);
+    return `${stem}-${String(index).padStart(4, '0')}${file.slice(stem.length)}`;
+  }
+
+  /**
+   * Streams data from an async generator into numbered part files.
+   *
+   * @param source - Async generator or iterable providing data
+   * @returns Result with total number of records processed
+   */
+  async stream(source: AsyncGenerator<T> | AsyncIterable<T>): Promise<Result<number>> {
+    this.parts = [];
+    // Held in an object, since the current part changes inside the batch callback
+    const state: { part: OpenPart<T> | null; partCount: number } = { part: null, partCount: 0 };
+    let totalProcessed = 0;
+
+    try {
+      await this.batchProcessor.process(
+        source,
+        async (batch) => {
+          let offset = 0;
+          while (offset < batch.length) {
+            let part = state.part;
+            let count = part ? this.rowsThatFit(part, batch.slice(offset)) : 0;
+            if (!part || count === 0) {
+              if (part) {
+                state.part = null;
+                await this.closePart(part);
+              }
+              part = state.part = await this.openPart(++state.partCount);
+              count = this.rowsThatFit(part, batch.slice(offset));
+              if (count === 0) {
+                throw new ValidationError(
+                  `A record does not fit in a file of ${this.split.bytes} bytes`
+                );
+              }
+            }
+
+            const rows = batch.slice(offset, offset + count);
+            const result =
+              part.rows === 0 ? await part.writer.write(rows) : await part.writer.append(rows);
+            if (!result.success) {
+              throw result.error;
+            }
+
+            part.rows += count;
+            offset += count;
+            totalProcessed += count;
+          }
+
+          if (this.options.onProgress) {
+            await this.options.onProgress(totalProcessed);
+          }
+        },
+        this.options.signal
+      );
+
+      if (state.part) {
+        const part = state.part;
+        state.part = null;
+        await this.closePart(part);
+      }
+
+      return { success: true, value: totalProcessed };
+    } catch (error) {
+      // Release the handle of the unfinished part; the original error is reported
+      await state.part?.writer.close?.();
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  /**
+   * Gets the part files completed by the last call to stream(), in order.
+   *
+   * @returns The path, row count and columns of each part
+   */
+  getParts(): SplitPart[] {
+    return this.parts;
+  }
+
+  /**
+   * Creates and opens the writer for the next part file
+   */
+  private async openPart(index: number): Promise<OpenPart<T>> {
+    const file = SplitStreamingWriter.partPath(this.file, index);
+    const writer = this.createWriter(file, this.fileWriter);
+    if (this.split.bytes !== undefined && !writer.measure) {
+      throw new ValidationError('A split bytes limit requires a writer that can measure its rows');
+    }
+    if (writer.open) {
+      const result = await writer.open();
+      if (!result.success) {
+        throw result.error;
+      }
+    }
+    return { file, writer, rows: 0 };
+  }
+
+  /**
+   * Closes (finalizes) a part file
+   */
+  private async closePart(part: OpenPart<T>): Promise<void> {
+    if (part.writer.close) {
+      const result = await part.writer.close();
+      if (!result.success) {
+        throw result.error;
+      }
+    }
+    this.parts.push({
+      file: part.file,
+      rows: part.rows,
+      columns: part.writer.getColumns?.(),
+      neutralizedCells: part.writer.getNeutralizedCells?.(),
+    });
+  }
+
+  /**
+   * Returns how many of the remaining rows can go into the part without
+   * exceeding the limits. For the byte limit, the rows are measured by the part
+   * writer and must fit together with the footer written when the part closes.
+   *
+   * @throws {Error} If the part writer cannot format the rows
+   */
+  private rowsThatFit(part: OpenPart<T>, remaining: T[]): number {
+    let count = remaining.length;
+
+    if (this.split.rows !== undefined) {
+      count = Math.min(count, this.split.rows - part.rows);
+    }
+
+    if (this.split.bytes !== undefined && count > 0) {
+      const sizes = part.writer.measure!(remaining.slice(0, count));
+      if (!sizes.success) {
+        throw sizes.error;
+      }
+
+      let bytes = this.fileWriter.getBytesWritten(part.file) + sizes.value.footer;
+      let fit = 0;
+      for (const size of sizes.value.records) {
+        if (bytes + size > this.split.bytes) {
+          break;
+        }
+        bytes += size;
+        fit++;
+      }
+      count = fit;
+    }
+
+    return Math.max(0, count);
+  }
+}
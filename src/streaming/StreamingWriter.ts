@@ -1,11 +1,15 @@
-import type { OutportWriter, Result } from '../types.js';
+import type { OutportWriter, StreamResult, BatchFailure } from '../types.js';
 import { BatchProcessor } from './BatchProcessor.js';
-import type { ProgressHook } from '../builder/hooks.js';
+import { AbortedError } from '../errors.js';
+import type { CheckpointWriter } from './CheckpointWriter.js';
+import type { ProgressHook, ErrorHook, ErrorAction, BatchErrorContext } from '../builder/hooks.js';
 
 /**
  * Options for streaming write operations.
+ *
+ * @template T - The type of data objects being written
  */
-export interface StreamingOptions {
+export interface StreamingOptions<T extends Record<string, unknown> = Record<string, unknown>> {
   /**
    * Number of items to process in each batch.
    * @default 100
@@ -17,6 +21,33 @@ export interface StreamingOptions {
    */
   onProgress?: ProgressHook;
 
+  /**
+   * Error callback invoked when a batch fails to write.
+   * Its return value decides whether to continue, retry the batch or abort;
+   * without it, the first failed batch aborts the stream.
+   */
+  onError?: ErrorHook;
+
+  /**
+   * Most attempts at writing one batch, including the first. When onError
+   * still asks to retry after the last attempt, the stream aborts with the
+   * batch's error.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Signal that stops the stream. No more records are pulled from the source,
+   * the writer is still closed, and the result fails with an AbortedError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Saves a checkpoint after each batch is written, before progress is reported.
+   * A checkpoint that fails to save aborts the stream.
+   */
+  checkpoint?: CheckpointWriter<T>;
+
   /**
    * Whether to write the first batch using write() and subsequent batches using append().
    * Set to false to append all batches (useful when file already has headers).
@@ -44,7 +75,7 @@ export class StreamingWriter<T extends Record<string, unknown>> {
    */
   constructor(
     private readonly writer: OutportWriter<T>,
-    private readonly options: StreamingOptions = {}
+    private readonly options: StreamingOptions<T> = {}
   ) {
     this.batchProcessor = new BatchProcessor<T>(options.batchSize ?? 100);
   }
@@ -53,10 +84,20 @@ export class StreamingWriter<T extends Record<string, unknown>> {
    * Streams data from an async generator to the writer.
    *
    * The first batch is written using write() to initialize headers,
-   * and subsequent batches are appended.
+   * and subsequent batches are appended. If the writer supports the
+   * open()/close() lifecycle, the whole stream is written through a single
+   * open handle and the writer is closed (finalized) once the source ends.
+   *
+   * When a batch fails to write, the onError callback decides whether to skip
+   * it, retry it or abort. Skipped batches are listed in `failedBatches` of an
+   * otherwise successful result.
+   *
+   * When the signal option is aborted, the stream stops after the batch being
+   * written and fails with an AbortedError; the writer is closed all the same,
+   * so the records written so far form a complete file.
    *
    * @param source - Async generator or iterable providing data
-   * @returns Result with total number of records processed
+   * @returns Result with total number of records written, and any skipped batches
    *
    * @example
    * ```typescript
@@ -81,39 +122,92 @@ export class StreamingWriter<T extends Record<string, unknown>> {
    * }
    * ```
    */
-  async stream(source: AsyncGenerator<T> | AsyncIterable<T>): Promise<Result<number>> {
+  async stream(source: AsyncGenerator<T> | AsyncIterable<T>): Promise<StreamResult> {
+    if (this.writer.open) {
+      const openResult = await this.writer.open();
+      if (!openResult.success) {
+        return openResult;
+      }
+    }
+
+    const result = await this.writeBatches(source);
+
+    if (this.writer.close) {
+      // Always close to release the handle, but report the first failure
+      const closeResult = await this.writer.close();
+      if (result.success && !closeResult.success) {
+        return closeResult;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Writes every batch from the source to the writer.
+   */
+  private async writeBatches(source: AsyncGenerator<T> | AsyncIterable<T>): Promise<StreamResult> {
     try {
       let totalProcessed = 0;
       let isFirstBatch = this.options.initializeWithFirstBatch ?? true;
+      const failedBatches: BatchFailure[] = [];
+      const maxAttempts = this.options.maxAttempts ?? 3;
 
-      const processedCount = await this.batchProcessor.process(
+      await this.batchProcessor.process(
         source,
-        async (batch, _batchNumber) => {
-          let result: Result<void>;
-
-          if (isFirstBatch) {
-            // Write first batch to initialize file/headers
-            result = await this.writer.write(batch);
-            isFirstBatch = false;
-          } else {
-            // Append subsequent batches
-            result = await this.writer.append(batch);
-          }
+        async (batch, batchNumber) => {
+          for (let attempt = 1; ; attempt++) {
+            // The first batch to be written initializes the file/headers; later batches append
+            const result = isFirstBatch
+              ? await this.writer.write(batch)
+              : await this.writer.append(batch);
 
-          if (!result.success) {
-            throw result.error;
-          }
+            if (result.success) {
+              isFirstBatch = false;
+              totalProcessed += batch.length;
+
+              if (this.options.checkpoint) {
+                const saved = await this.options.checkpoint.commit(batch);
+                if (!saved.success) {
+                  throw saved.error;
+                }
+              }
 
-          totalProcessed += batch.length;
+              // Report progress
+              if (this.options.onProgress) {
+                await this.options.onProgress(totalProcessed);
+              }
+              return;
+            }
 
-          // Report progress
-          if (this.options.onProgress) {
-            await this.options.onProgress(totalProcessed);
+            const action = await this.decide(result.error, {
+              batchNumber,
+              records: batch.length,
+              attempt,
+            });
+            if (action === 'abort' || (action === 'retry' && attempt >= maxAttempts)) {
+              throw result.error;
+            }
+            if (action === 'continue') {
+              failedBatches.push({
+                batchNumber,
+                records: batch.length,
+                attempts: attempt,
+                error: result.error,
+              });
+              return;
+            }
+            if (this.options.signal?.aborted) {
+              throw new AbortedError(undefined, this.options.signal.reason);
+            }
           }
-        }
+        },
+        this.options.signal
       );
 
-      return { success: true, value: processedCount };
+      return failedBatches.length > 0
+        ? { success: true, value: totalProcessed, failedBatches }
+        : { success: true, value: totalProcessed };
     } catch (error) {
       return {
         success: false,
@@ -122,6 +216,21 @@ export class StreamingWriter<T extends Record<string, unknown>> {
     }
   }
 
+  /**
+   * Asks the onError callback what to do about a failed batch, aborting without one
+   */
+  private async decide(error: Error, context: BatchErrorContext): Promise<ErrorAction> {
+    if (!this.options.onError) {
+      return 'abort';
+    }
+
+    const decision = await this.options.onError(error, context);
+    if (decision === true) {
+      return 'continue';
+    }
+    return decision === 'continue' || decision === 'retry' ? decision : 'abort';
+  }
+
   /**
    * Streams data with a callback for each item before writing.
    *
@@ -134,7 +243,7 @@ export class StreamingWriter<T extends Record<string, unknown>> {
   async streamWithTransform(
     source: AsyncGenerator<T> | AsyncIterable<T>,
     transform: (item: T) => T | null | Promise<T | null>
-  ): Promise<Result<number>> {
+  ): Promise<StreamResult> {
     const transformedSource = this.transformGenerator(source, transform);
     return await this.stream(transformedSource);
   }
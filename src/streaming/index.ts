@@ -1,3 +1,9 @@
 export { StreamingWriter } from './StreamingWriter.js';
 export { BatchProcessor } from './BatchProcessor.js';
+export { SplitStreamingWriter } from './SplitStreamingWriter.js';
+export { PartitionedStreamingWriter } from './PartitionedStreamingWriter.js';
+export { FanOutStreamingWriter } from './FanOutStreamingWriter.js';
+export { CheckpointWriter } from './CheckpointWriter.js';
 export type { StreamingOptions } from './StreamingWriter.js';
+export type { PartWriterFactory, SplitPart } from './SplitStreamingWriter.js';
+export type { FanOutTarget } from './FanOutStreamingWriter.js';
@@ -19,6 +19,93 @@
  */
 export type Result<T, E = Error> = { success: true; value: T } | { success: false; error: E };
 
+/**
+ * Retry policy for transient file-system errors.
+ *
+ * @example
+ * ```typescript
+ * const policy: RetryPolicy = { attempts: 5, backoff: 'exponential', retryOn: ['EBUSY'] };
+ * ```
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts per operation, including the first.
+   *
+   * @default 3
+   */
+  attempts?: number;
+
+  /**
+   * `'fixed'` waits `delayMs` before every retry; `'exponential'` doubles the delay each time.
+   *
+   * @default 'exponential'
+   */
+  backoff?: 'fixed' | 'exponential';
+
+  /**
+   * Delay before the first retry, in milliseconds.
+   *
+   * @default 100
+   */
+  delayMs?: number;
+
+  /**
+   * Upper bound of the delay between attempts, in milliseconds.
+   *
+   * @default 5000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * errno codes of the `originalError` of a FileWriteError that are worth retrying.
+   *
+   * @default ['EBUSY', 'EAGAIN', 'EMFILE', 'ENFILE', 'ETIMEDOUT']
+   */
+  retryOn?: string[];
+}
+
+/**
+ * What happens to the output file when an export is aborted.
+ *
+ * - `keep` - The writer is finalized, leaving a valid file with the records written so far
+ * - `discard` - Output is staged like an atomic write and deleted, leaving the target untouched
+ */
+export type AbortPolicy = 'keep' | 'discard';
+
+/**
+ * A batch that was skipped after failing to write.
+ */
+export interface BatchFailure {
+  /** 1-based number of the batch in the stream */
+  batchNumber: number;
+
+  /** Number of records in the batch, none of which were written */
+  records: number;
+
+  /** Number of attempts made to write the batch */
+  attempts: number;
+
+  /** The error of the last attempt */
+  error: Error;
+}
+
+/**
+ * Result of a streamed export, with the number of records written.
+ *
+ * When the error hook chose to continue past failed batches, the export still
+ * succeeds and `failedBatches` lists the batches that were skipped - a partial
+ * success. It is absent when every batch was written.
+ *
+ * @example
+ * ```typescript
+ * const result = await outport<User>().to('./users.csv').fromAsyncGenerator(fetchUsers());
+ * if (result.success && result.failedBatches) {
+ *   console.warn(`Skipped batches ${result.failedBatches.map((f) => f.batchNumber).join(', ')}`);
+ * }
+ * ```
+ */
+export type StreamResult = Result<number> & { failedBatches?: BatchFailure[] };
+
 // Writer interface with generics and async support
 /**
  * Generic writer interface for all data exporters.
@@ -84,15 +171,99 @@ export interface OutportWriter<T extends Record<string, unknown>> {
    * @returns Promise of Result indicating success or failure
    */
   append(data: T | T[]): Promise<Result<void>>;
+
+  /**
+   * Opens a persistent handle to the file for subsequent writes (optional lifecycle).
+   *
+   * While open, write() and append() go through a single handle instead of
+   * reopening the file for every call, and any footer the format needs is
+   * deferred until close(). Synchronous methods are unavailable while open.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  open?(): Promise<Result<void>>;
+
+  /**
+   * Finalizes the file and releases the handle opened by open().
+   *
+   * Emits any footer the format needs (such as the closing bracket of a JSON
+   * array). Does nothing if the writer is not open.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  close?(): Promise<Result<void>>;
+
+  /**
+   * Gets the columns of the rows written so far (optional).
+   *
+   * For JSON output without a column schema, these are the keys of the first record.
+   *
+   * @returns The column headers, or undefined if no rows have been written yet
+   */
+  getColumns?(): string[] | undefined;
+
+  /**
+   * Gets the number of cells neutralized by formula sanitization so far (optional).
+   *
+   * @returns The number of escaped or stripped cells
+   */
+  getNeutralizedCells?(): number;
+
+  /**
+   * Measures the bytes that writing records to the open file would add (optional).
+   *
+   * Sizes are exact UTF-8 byte counts of the formatted output: the first record
+   * includes any header or opening bytes that precede it, and each record
+   * includes its separator. Nothing is written and the writer is unchanged.
+   *
+   * @param data - Records in the order they would be written
+   * @returns Result with the size of each record and of the footer close() writes
+   */
+  measure?(data: T[]): Result<RecordSizes>;
+}
+
+/**
+ * Bytes that writing records would add to a file, as measured by a writer
+ */
+export interface RecordSizes {
+  /** Bytes each record adds, in order */
+  records: number[];
+
+  /** Bytes close() writes after the records */
+  footer: number;
+}
+
+/**
+ * An open file that content is written to sequentially.
+ *
+ * Returned by FileWriter.open() and used by writers while their lifecycle is open.
+ */
+export interface FileSink {
+  /**
+   * Writes content at the current end of the file.
+   *
+   * @param content - String or binary content to write
+   * @returns Promise of Result indicating success or failure
+   */
+  write(content: string | Uint8Array): Promise<Result<void>>;
+
+  /**
+   * Flushes pending content and closes the file.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  close(): Promise<Result<void>>;
 }
 
 /**
  * Supported writer types for data export.
  *
  * - `csv` - Comma-separated values format
- * - `json` - JavaScript Object Notation format (coming soon)
+ * - `json` - JavaScript Object Notation format
+ * - `jsonl` - JSON Lines (NDJSON) format, one JSON object per line
+ * - `xlsx` - Excel workbook (Office Open XML) with typed cells
  */
-export type WriterType = 'csv' | 'json';
+export type WriterType = 'csv' | 'json' | 'jsonl' | 'xlsx';
 
 /**
  * Write mode determining how the writer handles existing files.
@@ -111,6 +282,86 @@ export type WriterType = 'csv' | 'json';
  */
 export type WriterMode = 'write' | 'append';
 
+/**
+ * Supported compression algorithms for output files.
+ *
+ * - `gzip` - Gzip compression (`.gz`), readable by virtually every tool
+ * - `brotli` - Brotli compression (`.br`), smaller output at a higher CPU cost
+ */
+export type CompressionType = 'gzip' | 'brotli';
+
+/**
+ * A column that reads a property of the record.
+ *
+ * `format` receives the property value typed against T. The header defaults to the key.
+ *
+ * @template T - The type of data objects being written
+ */
+export type KeyColumn<T> = {
+  [K in keyof T & string]: {
+    /** Property of the record to read */
+    key: K;
+
+    /** Column header (default: the key) */
+    header?: string;
+
+    /** Converts a present value before it is written */
+    format?: (value: T[K], record: T) => unknown;
+
+    /** Written when the value is null or undefined */
+    defaultValue?: unknown;
+  };
+}[keyof T & string];
+
+/**
+ * A column whose value is computed from the whole record.
+ *
+ * @template T - The type of data objects being written
+ */
+export interface ComputedColumn<T> {
+  key?: undefined;
+
+  /** Column header */
+  header: string;
+
+  /** Computes the value of the column */
+  value: (record: T) => unknown;
+
+  /** Converts a present value before it is written */
+  format?: (value: unknown, record: T) => unknown;
+
+  /** Written when the computed value is null or undefined */
+  defaultValue?: unknown;
+}
+
+/**
+ * Definition of one output column.
+ *
+ * @template T - The type of data objects being written
+ */
+export type ColumnDefinition<T> = KeyColumn<T> | ComputedColumn<T>;
+
+/**
+ * Ordered column definitions describing the output of every writer.
+ *
+ * Each column names its header next to the property it reads or the value it
+ * computes, so headers and values cannot drift apart. Keys and the values
+ * passed to `format` are checked by TypeScript against T.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const schema: ColumnSchema<User> = [
+ *   { key: 'id', header: 'ID' },
+ *   { key: 'createdAt', header: 'Created', format: (date) => date.toISOString() },
+ *   { header: 'Full Name', value: (user) => `${user.first} ${user.last}` },
+ *   { key: 'team', defaultValue: 'unassigned' },
+ * ];
+ * ```
+ */
+export type ColumnSchema<T> = Array<ColumnDefinition<T>>;
+
 /**
  * CSV-specific configuration options.
  *
@@ -148,6 +399,58 @@ export interface CsvConfig<T> {
    */
   quote?: string;
 
+  /**
+   * Which cells are wrapped in quote characters (default: 'minimal').
+   *
+   * - 'minimal' - Only cells containing a delimiter, line break, quote or escape character
+   * - 'all' - Every cell, including empty ones (RFC 4180 style for strict importers)
+   * - 'nonNumeric' - Every cell except numbers
+   * - 'none' - No cell; special characters are prefixed with the `escape` character instead
+   */
+  quoteMode?: CsvQuoteMode;
+
+  /**
+   * Character that escapes quotes inside quoted cells (default: the `quote` character).
+   *
+   * With the default, quotes are doubled (`""`). A distinct character such as
+   * `'\\'` is written before each quote and escape character instead, and is
+   * required by the 'none' quote mode when cells contain special characters.
+   */
+  escape?: string;
+
+  /**
+   * Line ending written after the header and every row (default: '\n').
+   *
+   * Use '\r\n' for RFC 4180 files and importers that require CRLF.
+   */
+  lineEnding?: '\n' | '\r\n';
+
+  /**
+   * BCP 47 locale that numbers and dates are formatted in, such as 'de-DE'.
+   *
+   * Numbers and bigints are written with `Intl.NumberFormat` and dates with
+   * `Intl.DateTimeFormat`, replacing the serialization of dates. Off by default,
+   * so numbers are written as they are and dates as ISO 8601.
+   *
+   * @example
+   * ```typescript
+   * locale: 'de-DE', delimiter: ';' // 1234.56 is written as 1.234,56
+   * ```
+   */
+  locale?: string;
+
+  /**
+   * Number format options used with `locale` (default: up to 20 fraction digits).
+   */
+  numberFormat?: Intl.NumberFormatOptions;
+
+  /**
+   * Date format options used with `locale` (default: short date and medium time in UTC).
+   *
+   * Dates are written in UTC unless `timeZone` is set.
+   */
+  dateFormat?: Intl.DateTimeFormatOptions;
+
   /**
    * Map object keys to custom column names.
    *
@@ -211,8 +514,69 @@ export interface CsvConfig<T> {
    * ```
    */
   flattenNestedObjects?: boolean;
+
+  /**
+   * Typed column definitions, replacing `includeKeys`, `headers` and `columnMapping`.
+   *
+   * Cannot be combined with those options or with `flattenNestedObjects`.
+   *
+   * @example
+   * ```typescript
+   * schema: [
+   *   { key: 'id', header: 'ID' },
+   *   { header: 'Full Name', value: (user) => `${user.first} ${user.last}` }
+   * ]
+   * ```
+   */
+  schema?: ColumnSchema<T>;
+
+  /**
+   * How the columns are determined when records have different keys.
+   *
+   * Cannot be `union` or `strict` together with `schema`, `headers` or `includeKeys`.
+   *
+   * @default 'first'
+   */
+  headerStrategy?: HeaderStrategy;
+
+  /**
+   * Neutralize cell values that spreadsheet applications would run as formulas.
+   *
+   * Applies to data cells that start with `=`, `+`, `-`, `@`, a tab or a
+   * carriage return. Numbers, including negative numbers, are left intact.
+   * Off by default.
+   *
+   * @example
+   * ```typescript
+   * sanitizeFormulas: 'escape' // '=SUM(A1:A9)' is written as "'=SUM(A1:A9)"
+   * ```
+   */
+  sanitizeFormulas?: FormulaSanitization;
 }
 
+/**
+ * How CSV columns are determined from the records.
+ *
+ * - `first` - Columns are the keys of the first record; keys of later records are dropped
+ * - `union` - Columns are every key of every record, in the order they are first seen
+ * - `strict` - Columns are the keys of the first record; a record with other keys fails the write
+ */
+export type HeaderStrategy = 'first' | 'union' | 'strict';
+
+/**
+ * Which CSV cells are wrapped in quote characters.
+ */
+export type CsvQuoteMode = 'minimal' | 'all' | 'nonNumeric' | 'none';
+
+/**
+ * How CSV cells that could run as spreadsheet formulas are neutralized.
+ *
+ * - `escape` - A leading apostrophe is added, so the value is shown as text
+ * - `strip` - The leading formula characters are removed
+ * - `reject` - The write fails with a CsvFormattingError
+ */
+export type FormulaSanitization = 'escape' | 'strip' | 'reject';
+
 /**
  * JSON-specific configuration options.
  *
@@ -227,7 +591,7 @@ export interface CsvConfig<T> {
  * };
  * ```
  */
-export interface JsonConfig {
+export interface JsonConfig<T = unknown> {
   /**
    * Enable pretty-printing (formatted with indentation and newlines).
    *
@@ -256,6 +620,426 @@ export interface JsonConfig {
    * @default false
    */
   includeUtf8Bom?: boolean;
+
+  /**
+   * Typed column definitions. Each record is written as an object keyed by
+   * the column headers, in schema order.
+   */
+  schema?: ColumnSchema<T>;
+}
+
+/**
+ * JSON Lines-specific configuration options.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const config: JsonlConfig<User> = {
+ *   schema: [{ key: 'id' }, { key: 'email', header: 'Email' }]
+ * };
+ * ```
+ */
+export interface JsonlConfig<T = unknown> {
+  /**
+   * Typed column definitions. Each record is written as an object keyed by
+   * the column headers, in schema order.
+   */
+  schema?: ColumnSchema<T>;
+}
+
+/**
+ * XLSX-specific configuration options.
+ *
+ * Columns are selected and named the same way as for CSV output. Numbers,
+ * booleans and dates are written as typed cells, and the header row is bold.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const config: XlsxConfig<User> = {
+ *   sheetName: 'Users',
+ *   includeKeys: ['id', 'name', 'createdAt'],
+ *   columnMapping: { createdAt: 'Created' }
+ * };
+ * ```
+ */
+export interface XlsxConfig<T>
+  extends Pick<
+    CsvConfig<T>,
+    'headers' | 'columnMapping' | 'includeKeys' | 'flattenNestedObjects' | 'schema'
+  > {
+  /**
+   * Name of the worksheet (default: 'Sheet1').
+   *
+   * Must be 1-31 characters and cannot contain any of `\ / ? * [ ] :`.
+   */
+  sheetName?: string;
+
+  /**
+   * Freeze the header row so it stays visible while scrolling.
+   *
+   * @default true
+   */
+  freezeHeader?: boolean;
+}
+
+/**
+ * A named sheet of a multi-sheet workbook and the rows to write into it.
+ *
+ * Each sheet has its own row type and column configuration.
+ *
+ * @template T - The type of data objects in the sheet
+ *
+ * @example
+ * ```typescript
+ * const sheet: XlsxSheetDefinition<Order> = {
+ *   name: 'Orders',
+ *   data: fetchOrders(),
+ *   config: { includeKeys: ['id', 'total'] }
+ * };
+ * ```
+ */
+export interface XlsxSheetDefinition<T> {
+  /** Sheet name, 1-31 characters and unique within the workbook */
+  name: string;
+
+  /** Rows of the sheet, as an array or an async iterable that is streamed in batches */
+  data: T[] | AsyncIterable<T>;
+
+  /** Column and header configuration for the sheet */
+  config?: Omit<XlsxConfig<T>, 'sheetName'>;
+}
+
+/**
+ * Limits at which a streamed export rolls over to a new numbered file.
+ *
+ * At least one limit must be set. When both are set, a part ends at whichever
+ * limit is reached first.
+ *
+ * @example
+ * ```typescript
+ * // users-0001.csv, users-0002.csv, ... each at most 100,000 rows and about 50 MB
+ * const split: SplitConfig = { rows: 100_000, bytes: 50 * 1024 * 1024 };
+ * ```
+ */
+export interface SplitConfig {
+  /** Maximum number of records per file */
+  rows?: number;
+
+  /**
+   * Maximum size of each file in bytes.
+   *
+   * Every formatted row, header and footer is measured before it is written,
+   * so no file exceeds the limit. A record that does not fit in a file of its
+   * own fails the export. Not available for compressed or XLSX output.
+   */
+  bytes?: number;
+}
+
+/**
+ * Progress of a streamed export, saved after each batch so a crashed export can resume.
+ *
+ * Stored as JSON, so the cursor must be JSON-serializable.
+ *
+ * @template C - The type of the cursor
+ */
+export interface Checkpoint<C = unknown> {
+  /** Output file the checkpoint belongs to */
+  file: string;
+
+  /** Number of the last batch fully written to the output */
+  batchNumber: number;
+
+  /** Number of records written up to and including that batch */
+  records: number;
+
+  /** Size of the output in bytes after that batch - the offset to resume from */
+  bytes: number;
+
+  /** Position in the source after that batch, from the cursor function */
+  cursor?: C;
+}
+
+/**
+ * Checkpointing configuration for a streamed export.
+ *
+ * @template T - The type of data objects being written
+ * @template C - The type of the cursor
+ *
+ * @example
+ * ```typescript
+ * const config: CheckpointConfig<User, number> = { cursor: (user) => user.id };
+ * ```
+ */
+export interface CheckpointConfig<T, C = unknown> {
+  /**
+   * Path of the checkpoint file.
+   *
+   * @default '<output>.checkpoint.json'
+   */
+  file?: string;
+
+  /** Derives the cursor from the last record of each written batch, e.g. its id or page token */
+  cursor?: (record: T) => C;
+}
+
+/**
+ * A file listed in an export manifest.
+ */
+export interface ManifestFile {
+  /** Path of the file */
+  file: string;
+
+  /** Number of records in the file */
+  rows: number;
+
+  /** Size of the file in bytes */
+  bytes: number;
+
+  /** SHA-256 digest of the file contents, hex-encoded */
+  sha256: string;
+}
+
+/**
+ * Writer configuration recorded in an export manifest.
+ */
+export interface ManifestWriterConfig {
+  type: WriterType;
+  mode: WriterMode;
+  compression?: CompressionType;
+  delimiter?: string;
+  quote?: string;
+  includeUtf8Bom?: boolean;
+  prettyPrint?: boolean;
+  indent?: number;
+  sheetName?: string;
+  sanitizeFormulas?: FormulaSanitization;
+  quoteMode?: CsvQuoteMode;
+  escape?: string;
+  lineEnding?: '\n' | '\r\n';
+  locale?: string;
+}
+
+/**
+ * Sidecar describing a completed export, so downstream loaders can verify the
+ * output is complete and intact before ingesting it.
+ *
+ * A split export lists its part files in `parts`; the totals cover all parts,
+ * and the output path itself holds no file, so there is no top-level digest.
+ *
+ * @example
+ * ```typescript
+ * const manifest = JSON.parse(await readFile('./orders.csv.manifest.json', 'utf-8')) as ExportManifest;
+ * ```
+ */
+export interface ExportManifest {
+  /** Output path of the export */
+  file: string;
+
+  /** Number of records written */
+  rows: number;
+
+  /** Size of the output in bytes, summed over all parts when split */
+  bytes: number;
+
+  /** SHA-256 digest of the output, hex-encoded; absent when split */
+  sha256?: string;
+
+  /** Column headers of the output, if known */
+  columns?: string[];
+
+  /** Number of cells neutralized by formula sanitization, when it is enabled */
+  neutralizedCells?: number;
+
+  /** Writer configuration the output was written with */
+  config: ManifestWriterConfig;
+
+  /** ISO 8601 timestamp of the start of the export */
+  startedAt: string;
+
+  /** ISO 8601 timestamp of the end of the export */
+  completedAt: string;
+
+  /** Part files, in order, when the export was split */
+  parts?: ManifestFile[];
+}
+
+/**
+ * Returns the partition a record belongs to.
+ *
+ * The value replaces `{partition}` in the output path template, so it must be
+ * a non-empty path segment without `/` or `\`.
+ *
+ * @template T - The type of data objects being written
+ */
+export type PartitionKey<T> = (record: T) => string | number;
+
+/**
+ * Rows written to one partition of a partitioned export.
+ */
+export interface PartitionSummary {
+  /** Partition value returned by the partition key */
+  partition: string;
+
+  /** File the partition was written to */
+  file: string;
+
+  /** Number of records written to the partition */
+  rows: number;
+}
+
+/**
+ * Outcome of one destination of a fan-out export.
+ */
+export interface FanOutTargetResult {
+  /** File the destination writes to */
+  file: string;
+
+  /** Number of records written, or the error that stopped this destination */
+  result: Result<number>;
+}
+
+/**
+ * Outcome of validating a record: `true` or `undefined` accepts it, `false`
+ * rejects it, and a string rejects it with that reason.
+ */
+export type ValidationOutcome = boolean | string | undefined;
+
+/**
+ * Validates a whole record.
+ *
+ * @template T - The type of data objects being written
+ */
+export type RecordValidator<T> = (
+  record: T,
+  index: number
+) => ValidationOutcome | Promise<ValidationOutcome>;
+
+/**
+ * Validation rules for individual fields, checked against the field types of T.
+ *
+ * A record is rejected if any rule fails; the reason names every failing field.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const rules: FieldRules<Order> = {
+ *   id: (id) => id > 0,
+ *   email: (email) => email.includes('@') || 'must be an email address',
+ * };
+ * ```
+ */
+export type FieldRules<T> = {
+  [K in keyof T]?: (value: T[K], record: T) => ValidationOutcome;
+};
+
+/**
+ * A record that failed validation, as written to the reject sink.
+ *
+ * @template T - The type of data objects being written
+ */
+export interface RejectedRecord<T> {
+  /** 0-based position of the record in the source */
+  index: number;
+
+  /** Why the record was rejected */
+  reason: string;
+
+  /** The rejected record */
+  record: T;
+}
+
+/**
+ * Receives rejected records instead of a reject file.
+ *
+ * @template T - The type of data objects being written
+ */
+export type RejectHandler<T> = (rejection: RejectedRecord<T>) => void | Promise<void>;
+
+/**
+ * Records accepted and rejected by a validated export.
+ */
+export interface ValidationSummary {
+  /** Number of records that passed validation and were written */
+  accepted: number;
+
+  /** Number of records that failed validation or could not be formatted */
+  rejected: number;
+
+  /** Reject file, if records were rejected and rejections did not go to a handler */
+  rejectFile?: string;
+}
+
+/**
+ * Type a value serializer is registered for: a class, matched with
+ * `instanceof`, or `'bigint'` or `'symbol'`, matched with `typeof`.
+ */
+export type SerializableType = 'bigint' | 'symbol' | (abstract new (...args: never[]) => unknown);
+
+/**
+ * The values a serializer registered for a type receives.
+ */
+export type SerializedValue<K extends SerializableType> = K extends 'bigint'
+  ? bigint
+  : K extends 'symbol'
+    ? symbol
+    : K extends abstract new (...args: never[]) => infer V
+      ? V
+      : never;
+
+/**
+ * Converts values of one type before they are written.
+ *
+ * The result replaces the value: CSV writes strings, numbers and booleans as
+ * they are and other results as JSON, while JSON output embeds the result.
+ */
+export interface TypeSerializer {
+  /** Type the serializer applies to */
+  type: SerializableType;
+
+  /** Converts a value of the type */
+  serialize: (value: never) => unknown;
+}
+
+/**
+ * How Date values are written.
+ *
+ * Without options, dates are written as UTC ISO 8601 strings.
+ *
+ * @example
+ * ```typescript
+ * { timeZone: 'America/New_York' } // '2024-01-15T05:30:00.000-05:00'
+ * { format: 'yyyy-MM-dd HH:mm' }    // '2024-01-15 10:30'
+ * ```
+ */
+export interface DateSerialization {
+  /** IANA time zone dates are written in, with its UTC offset (default: UTC) */
+  timeZone?: string;
+
+  /**
+   * Pattern replacing ISO 8601 output, built from the tokens `yyyy`, `MM`,
+   * `dd`, `HH`, `mm`, `ss`, `SSS` and `XXX` (UTC offset such as `+05:30`).
+   */
+  format?: string;
+}
+
+/**
+ * Type-aware serialization of values that are not strings, numbers or booleans.
+ *
+ * Applies to CSV cells and JSON and JSON Lines values, including values nested
+ * in objects and arrays. Built-in serializers write dates as ISO 8601 strings,
+ * bigints as strings, Buffers and other Uint8Arrays as base64, Maps as objects
+ * and Sets as arrays; registered serializers take precedence over them.
+ */
+export interface SerializationConfig {
+  /** How Date values are written */
+  dates?: DateSerialization;
+
+  /** Serializers for other types, checked in order before the built-ins */
+  serializers?: TypeSerializer[];
 }
 
 /**
@@ -267,6 +1051,19 @@ interface WriterOptionsBase {
 
   /** Destination file path (absolute or relative) */
   file: string;
+
+  /**
+   * Compress the output file with gzip or brotli.
+   *
+   * The file path may carry the matching extension (e.g. `users.csv.gz`).
+   */
+  compression?: CompressionType;
+
+  /**
+   * Type-aware serialization of dates, bigints, binary data, Maps, Sets and
+   * registered types. Applies to CSV, JSON and JSON Lines output.
+   */
+  serialization?: SerializationConfig;
 }
 
 /**
@@ -313,7 +1110,19 @@ export type WriterOptions<T = unknown> =
       /** The type of writer to use */
       type: 'json';
       /** JSON-specific configuration options */
-      config?: JsonConfig;
+      config?: JsonConfig<T>;
+    })
+  | (WriterOptionsBase & {
+      /** The type of writer to use */
+      type: 'jsonl';
+      /** JSON Lines-specific configuration options */
+      config?: JsonlConfig<T>;
+    })
+  | (WriterOptionsBase & {
+      /** The type of writer to use */
+      type: 'xlsx';
+      /** XLSX-specific configuration options */
+      config?: XlsxConfig<T>;
     });
 
 /**
@@ -323,6 +1132,145 @@ export type WriterOptions<T = unknown> =
  */
 export type WriterConfig<T = unknown> = WriterOptions<T>;
 
+/**
+ * Generic reader interface for all data importers.
+ *
+ * Readers are async iterables that stream records from a file, so they can be
+ * passed straight to `fromAsyncGenerator()`. read() and readSync() load every
+ * record at once and use the Result type instead of throwing.
+ *
+ * @template T - The type of data objects being read. Must extend Record<string, unknown>
+ *
+ * @example
+ * ```typescript
+ * const reader: OutportReader<User> = new CsvReader<User>({ file: './users.csv' });
+ *
+ * for await (const user of reader) {
+ *   console.log(user.name);
+ * }
+ * ```
+ */
+export interface OutportReader<T extends Record<string, unknown>> extends AsyncIterable<T> {
+  /**
+   * Synchronously read every record of the file.
+   *
+   * @returns Result containing the records, or the read or parse error
+   */
+  readSync(): Result<T[]>;
+
+  /**
+   * Asynchronously read every record of the file.
+   *
+   * @returns Promise of Result containing the records, or the read or parse error
+   */
+  read(): Promise<Result<T[]>>;
+}
+
+/**
+ * Supported reader types for data import.
+ *
+ * - `csv` - Comma-separated values format
+ * - `json` - A JSON array of objects
+ * - `jsonl` - JSON Lines (NDJSON) format, one JSON object per line
+ */
+export type ReaderType = 'csv' | 'json' | 'jsonl';
+
+/**
+ * Options for reading a JSON or JSON Lines file.
+ *
+ * @example
+ * ```typescript
+ * const options: JsonReaderOptions = { file: './events.jsonl.gz' };
+ * ```
+ */
+export interface JsonReaderOptions {
+  /** Source file path (absolute or relative) */
+  file: string;
+
+  /**
+   * Decompress the file with gzip or brotli.
+   *
+   * Detected from a `.gz` or `.br` extension when not set.
+   */
+  compression?: CompressionType;
+}
+
+/**
+ * Options for reading a CSV file with CsvReader.
+ *
+ * The same CsvConfig used to write a file reads it back: the delimiter and
+ * quote character are honored, a UTF-8 BOM is skipped, and `columnMapping`
+ * is applied in reverse to turn header names back into object keys.
+ *
+ * @template T - The type of data objects being read
+ *
+ * @example
+ * ```typescript
+ * const options: CsvReaderOptions<User> = {
+ *   file: './users.csv',
+ *   config: { columnMapping: { id: 'User ID' } },
+ *   inferTypes: true
+ * };
+ * ```
+ */
+export interface CsvReaderOptions<T> {
+  /** Source file path (absolute or relative) */
+  file: string;
+
+  /**
+   * Decompress the file with gzip or brotli.
+   *
+   * Detected from a `.gz` or `.br` extension when not set.
+   */
+  compression?: CompressionType;
+
+  /** CSV configuration the file was written with */
+  config?: CsvConfig<T>;
+
+  /**
+   * Convert numeric and `true`/`false` values to numbers and booleans.
+   *
+   * When false, every value is read as a string.
+   *
+   * @default false
+   */
+  inferTypes?: boolean;
+}
+
+/**
+ * Complete reader options including type-specific configuration.
+ *
+ * @template T - The type of data objects being read
+ *
+ * @example
+ * ```typescript
+ * const options: ReaderOptions<User> = {
+ *   type: 'csv',
+ *   file: './vendor/users.csv',
+ *   config: { delimiter: ';' }
+ * };
+ * ```
+ */
+export type ReaderOptions<T = unknown> =
+  | (CsvReaderOptions<T> & {
+      /** The type of reader to use */
+      type: 'csv';
+    })
+  | (JsonReaderOptions & {
+      /** The type of reader to use */
+      type: 'json' | 'jsonl';
+    });
+
+/**
+ * Target type of a field coerced during conversion.
+ *
+ * - `string` - Any value as a string
+ * - `number` - A numeric value; empty values become null
+ * - `boolean` - `true`/`false` or `1`/`0`; empty values become null
+ * - `date` - A value Date can parse; empty values become null
+ */
+export type CoercionType = 'string' | 'number' | 'boolean' | 'date';
+
 /**
  * File writer abstraction for testability and dependency injection.
  *
@@ -349,37 +1297,72 @@ export interface FileWriter {
    * Synchronously write content to a file, overwriting if it exists.
    *
    * @param path - Absolute or relative file path
-   * @param content - String content to write
+   * @param content - String or binary content to write
    * @returns Result indicating success or failure
    */
-  writeSync(path: string, content: string): Result<void>;
+  writeSync(path: string, content: string | Uint8Array): Result<void>;
 
   /**
    * Asynchronously write content to a file, overwriting if it exists.
    *
    * @param path - Absolute or relative file path
-   * @param content - String content to write
+   * @param content - String or binary content to write
    * @returns Promise of Result indicating success or failure
    */
-  write(path: string, content: string): Promise<Result<void>>;
+  write(path: string, content: string | Uint8Array): Promise<Result<void>>;
 
   /**
    * Synchronously append content to a file, creating it if it doesn't exist.
    *
    * @param path - Absolute or relative file path
-   * @param content - String content to append
+   * @param content - String or binary content to append
    * @returns Result indicating success or failure
    */
-  appendSync(path: string, content: string): Result<void>;
+  appendSync(path: string, content: string | Uint8Array): Result<void>;
 
   /**
    * Asynchronously append content to a file, creating it if it doesn't exist.
    *
    * @param path - Absolute or relative file path
-   * @param content - String content to append
+   * @param content - String or binary content to append
    * @returns Promise of Result indicating success or failure
    */
-  append(path: string, content: string): Promise<Result<void>>;
+  append(path: string, content: string | Uint8Array): Promise<Result<void>>;
+
+  /**
+   * Synchronously truncate a file to the given length in bytes (optional).
+   *
+   * Used by writers that rewrite the tail of a file in place, such as
+   * reopening a JSON array by dropping its closing bracket. Without it, such
+   * writes fail with a FileWriteError.
+   *
+   * @param path - Absolute or relative file path
+   * @param length - Length in bytes to keep from the start of the file
+   * @returns Result indicating success or failure
+   */
+  truncateSync?(path: string, length: number): Result<void>;
+
+  /**
+   * Asynchronously truncate a file to the given length in bytes (optional).
+   *
+   * Without it, writes that rewrite the tail of a file fail with a FileWriteError.
+   *
+   * @param path - Absolute or relative file path
+   * @param length - Length in bytes to keep from the start of the file
+   * @returns Promise of Result indicating success or failure
+   */
+  truncate?(path: string, length: number): Promise<Result<void>>;
+
+  /**
+   * Open a file for sequential writing through a single persistent handle (optional).
+   *
+   * Without it, writers fall back to write() and append() for every chunk.
+   *
+   * @param path - Absolute or relative file path
+   * @param mode - 'write' to truncate the file, 'append' to write after existing content
+   * @returns Promise of Result with the open file
+   */
+  open?(path: string, mode: WriterMode): Promise<Result<FileSink>>;
 
   /**
    * Synchronously check if a file exists.
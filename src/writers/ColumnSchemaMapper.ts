@@ -0,0 +1,93 @@
+import type { ColumnSchema, ColumnDefinition, ComputedColumn } from '../types.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Applies a column schema to records - resolving headers and computing column values.
+ *
+ * Shared by every writer, so a schema produces the same columns in CSV, XLSX,
+ * JSON and JSON Lines output.
+ *
+ * @template T - The type of data objects being written
+ *
+ * @example
+ * ```typescript
+ * const mapper = new ColumnSchemaMapper<User>([
+ *   { key: 'id', header: 'ID' },
+ *   { header: 'Full Name', value: (user) => `${user.first} ${user.last}` },
+ * ]);
+ *
+ * mapper.getHeaders(); // ['ID', 'Full Name']
+ * mapper.toValues({ id: 1, first: 'Ada', last: 'Lovelace' }); // [1, 'Ada Lovelace']
+ * ```
+ */
+export class ColumnSchemaMapper<T extends Record<string, unknown>> {
+  private readonly headers: string[];
+
+  /**
+   * Creates a new column schema mapper.
+   *
+   * @param schema - Ordered column definitions
+   * @throws {ValidationError} If the schema is empty, a column has neither a key nor a value, or headers repeat
+   */
+  constructor(private readonly schema: ColumnSchema<T>) {
+    if (schema.length === 0) {
+      throw new ValidationError('Schema must define at least one column');
+    }
+
+    this.headers = schema.map((column, index) => {
+      const header = column.header ?? column.key;
+      if (header === undefined || header.length === 0) {
+        throw new ValidationError(`Schema column ${index + 1} must have a key or a header`);
+      }
+      if (column.key === undefined && typeof (column as ComputedColumn<T>).value !== 'function') {
+        throw new ValidationError(`Schema column "${header}" must have a key or a value function`);
+      }
+      return header;
+    });
+
+    const duplicate = this.headers.find((header, index) => this.headers.indexOf(header) !== index);
+    if (duplicate !== undefined) {
+      throw new ValidationError(`Duplicate schema column header: "${duplicate}"`);
+    }
+  }
+
+  /**
+   * Gets the column headers in schema order
+   */
+  getHeaders(): string[] {
+    return this.headers;
+  }
+
+  /**
+   * Converts a record to the values of its columns, in schema order
+   */
+  toValues(record: T): unknown[] {
+    return this.schema.map((column) => this.resolve(column, record));
+  }
+
+  /**
+   * Converts a record to an object keyed by the column headers, in schema order
+   */
+  toObject(record: T): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    this.schema.forEach((column, index) => {
+      object[this.headers[index]!] = this.resolve(column, record);
+    });
+    return object;
+  }
+
+  /**
+   * Computes the value of one column: reads or computes it, then applies the
+   * default for a missing value or the formatter for a present one
+   */
+  private resolve(column: ColumnDefinition<T>, record: T): unknown {
+    const value =
+      column.key !== undefined ? record[column.key] : (column as ComputedColumn<T>).value(record);
+    if (value == null) {
+      return column.defaultValue ?? value;
+    }
+
+    const format = column.format as ((value: unknown, record: T) => unknown) | undefined;
+    return format ? format(value, record) : value;
+  }
+}
@@ -0,0 +1,209 @@
+import type { DateSerialization, SerializationConfig, TypeSerializer } from '../types.js';
+import { ValidationError } from '../errors.js';
+
+/**
+ * Date and time fields of a date in the configured time zone
+ */
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  offsetMinutes: number;
+}
+
+/**
+ * Tokens of a date format pattern
+ */
+const DATE_TOKENS = /yyyy|MM|dd|HH|mm|ss|SSS|XXX/g;
+
+/**
+ * Converts values that are not strings, numbers or booleans before they are written.
+ *
+ * Shared by the CSV and JSON formatters, so a value is written the same way in
+ * every text format. Registered serializers are checked in order, then the
+ * built-ins for Date, bigint, Uint8Array (including Buffer), Map and Set.
+ * stringify() also applies them to values nested in objects and arrays.
+ *
+ * @example
+ * ```typescript
+ * const serializer = new ValueSerializer({
+ *   dates: { timeZone: 'Europe/Paris' },
+ *   serializers: [{ type: Decimal, serialize: (value: Decimal) => value.toFixed(2) }],
+ * });
+ *
+ * serializer.serialize(new Date('2024-01-15T10:30:00Z')); // '2024-01-15T11:30:00.000+01:00'
+ * serializer.stringify({ total: 10n }); // '{"total":"10"}'
+ * ```
+ */
+export class ValueSerializer {
+  private readonly serializers: TypeSerializer[];
+  private readonly dates: DateSerialization;
+  private readonly dateFormat?: Intl.DateTimeFormat;
+
+  /**
+   * Creates a new value serializer.
+   *
+   * @param config - Date options and registered serializers
+   * @throws {ValidationError} If the time zone is not a valid IANA time zone
+   */
+  constructor(config: SerializationConfig = {}) {
+    this.dates = config.dates ?? {};
+
+    if (this.dates.timeZone !== undefined) {
+      try {
+        this.dateFormat = new Intl.DateTimeFormat('en-US', {
+          timeZone: this.dates.timeZone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+        });
+      } catch {
+        throw new ValidationError(`Invalid time zone: ${this.dates.timeZone}`);
+      }
+    }
+
+    this.serializers = [
+      ...(config.serializers ?? []),
+      { type: Date, serialize: (date: Date) => this.serializeDate(date) },
+      { type: 'bigint', serialize: (value: bigint) => value.toString() },
+      {
+        type: Uint8Array,
+        serialize: (value: Uint8Array) =>
+          Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64'),
+      },
+      { type: Map, serialize: (map: Map<PropertyKey, unknown>) => Object.fromEntries(map) },
+      { type: Set, serialize: (set: Set<unknown>) => [...set] },
+    ];
+  }
+
+  /**
+   * Converts a value with the first serializer registered for its type.
+   *
+   * @param value - The value to convert
+   * @returns The converted value, or the value itself if no serializer applies
+   */
+  serialize(value: unknown): unknown {
+    return this.convert(value, value);
+  }
+
+  /**
+   * Serializes a value as JSON, converting nested values as well.
+   *
+   * @param value - The value to serialize
+   * @param indent - Number of spaces to indent with, if any
+   * @returns The JSON text, or undefined for values JSON cannot represent
+   * @throws {TypeError} If the value has circular references
+   */
+  stringify(value: unknown, indent?: number): string | undefined {
+    const convert = (raw: unknown, current: unknown): unknown => this.convert(raw, current);
+    return JSON.stringify(
+      value,
+      function (this: Record<string, unknown>, key: string, current: unknown) {
+        // The holder still has the value as it was before toJSON() ran
+        return convert(this[key], current);
+      },
+      indent
+    );
+  }
+
+  /**
+   * Converts a value with the first serializer registered for its type, or returns the fallback
+   */
+  private convert(value: unknown, fallback: unknown): unknown {
+    const serializer = this.find(value);
+    return serializer ? (serializer.serialize as (value: unknown) => unknown)(value) : fallback;
+  }
+
+  /**
+   * Finds the first serializer registered for the type of a value
+   */
+  private find(value: unknown): TypeSerializer | undefined {
+    return this.serializers.find(({ type }) =>
+      typeof type === 'string' ? typeof value === type : value instanceof type
+    );
+  }
+
+  /**
+   * Writes a date as ISO 8601 or with the configured pattern
+   */
+  private serializeDate(date: Date): string | null {
+    if (Number.isNaN(date.getTime())) {
+      return null;
+    }
+    if (this.dates.format === undefined && this.dateFormat === undefined) {
+      return date.toISOString();
+    }
+
+    const parts = this.toParts(date);
+    const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+    const offset = (): string => {
+      const sign = parts.offsetMinutes < 0 ? '-' : '+';
+      const minutes = Math.abs(parts.offsetMinutes);
+      return `${sign}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+    };
+    const tokens: Record<string, () => string> = {
+      yyyy: () => pad(parts.year, 4),
+      MM: () => pad(parts.month),
+      dd: () => pad(parts.day),
+      HH: () => pad(parts.hour),
+      mm: () => pad(parts.minute),
+      ss: () => pad(parts.second),
+      SSS: () => pad(parts.millisecond, 3),
+      XXX: offset,
+    };
+
+    const format = this.dates.format ?? 'yyyy-MM-ddTHH:mm:ss.SSSXXX';
+    return format.replace(DATE_TOKENS, (token) => tokens[token]?.() ?? token);
+  }
+
+  /**
+   * Splits a date into its fields in the configured time zone, or UTC
+   */
+  private toParts(date: Date): DateParts {
+    const millisecond = date.getUTCMilliseconds();
+    if (!this.dateFormat) {
+      return {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: date.getUTCHours(),
+        minute: date.getUTCMinutes(),
+        second: date.getUTCSeconds(),
+        millisecond,
+        offsetMinutes: 0,
+      };
+    }
+
+    const fields = new Map(
+      this.dateFormat.formatToParts(date).map(({ type, value }) => [type, Number(value)])
+    );
+    const field = (type: Intl.DateTimeFormatPartTypes): number => fields.get(type) ?? 0;
+    const parts = {
+      year: field('year'),
+      month: field('month'),
+      day: field('day'),
+      hour: field('hour'),
+      minute: field('minute'),
+      second: field('second'),
+      millisecond,
+    };
+    const local = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      millisecond
+    );
+    return { ...parts, offsetMinutes: Math.round((local - date.getTime()) / 60000) };
+  }
+}
@@ -1,6 +1,8 @@
 import type { OutportWriter, WriterConfig, FileWriter } from '../types.js';
 import { CsvWriter } from './csv/CsvWriter.js';
 import { JsonWriter } from './json/JsonWriter.js';
+import { JsonlWriter } from './jsonl/JsonlWriter.js';
+import { XlsxWriter } from './xlsx/XlsxWriter.js';
 import { ValidationError } from '../errors.js';
 
 /**
@@ -48,6 +50,10 @@ export class WriterFactory {
         return new CsvWriter<T>(config, fileWriter);
       case 'json':
         return new JsonWriter<T>(config, fileWriter);
+      case 'jsonl':
+        return new JsonlWriter<T>(config, fileWriter);
+      case 'xlsx':
+        return new XlsxWriter<T>(config, fileWriter);
       default: {
         // Exhaustive check - this should never be reached
         const _exhaustive: never = config;
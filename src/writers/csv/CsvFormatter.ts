@@ -1,49 +1,275 @@
+import type {
+  CsvConfig,
+  CsvQuoteMode,
+  FormulaSanitization,
+  SerializationConfig,
+} from '../../types.js';
+import { CsvFormattingError, ValidationError } from '../../errors.js';
+import { ValueSerializer } from '../ValueSerializer.js';
+
+/**
+ * Leading characters that make spreadsheet applications evaluate a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]+/;
+
+/**
+ * Numeric literals such as '-42' or '+1.5e3', which are safe despite their leading sign
+ */
+const NUMERIC = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
 /**
  * Handles CSV formatting logic - converting values to properly escaped CSV format
+ *
+ * Values other than strings, numbers and booleans are converted by the shared
+ * ValueSerializer. With a locale, numbers and dates are formatted with Intl
+ * instead and are never treated as formulas. The quote mode decides which
+ * cells are quoted. Quotes inside a quoted cell are doubled, or prefixed with
+ * the escape character when it differs from the quote. With formula
+ * sanitization, data cells that could run as spreadsheet formulas are
+ * neutralized before escaping. Header cells are not sanitized.
  */
 export class CsvFormatter {
+  private neutralizedCells = 0;
+  private readonly quoteMode: CsvQuoteMode;
+  private readonly escape: string;
+  private readonly lineEnding: string;
+  private readonly sanitization?: FormulaSanitization;
+  private readonly serializer: ValueSerializer;
+  private readonly numberFormat?: Intl.NumberFormat;
+  private readonly dateFormat?: Intl.DateTimeFormat;
+
   constructor(
     private readonly delimiter: string = ',',
-    private readonly quote: string = '"'
-  ) {}
+    private readonly quote: string = '"',
+    options: Pick<
+      CsvConfig<unknown>,
+      | 'quoteMode'
+      | 'escape'
+      | 'lineEnding'
+      | 'sanitizeFormulas'
+      | 'locale'
+      | 'numberFormat'
+      | 'dateFormat'
+    > & {
+      serialization?: SerializationConfig;
+    } = {}
+  ) {
+    this.quoteMode = options.quoteMode ?? 'minimal';
+    this.escape = options.escape ?? quote;
+    this.lineEnding = options.lineEnding ?? '\n';
+    this.sanitization = options.sanitizeFormulas;
+    this.serializer = new ValueSerializer(options.serialization);
+
+    if (options.locale !== undefined) {
+      try {
+        this.numberFormat = new Intl.NumberFormat(options.locale, {
+          maximumFractionDigits: 20,
+          ...options.numberFormat,
+        });
+        this.dateFormat = new Intl.DateTimeFormat(options.locale, {
+          timeZone: 'UTC',
+          ...(options.dateFormat ?? { dateStyle: 'short', timeStyle: 'medium' }),
+        });
+      } catch (error) {
+        throw new ValidationError(
+          `Invalid locale or format options for ${options.locale}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
 
   /**
    * Formats a row as CSV
    */
   formatRow(values: unknown[]): string {
-    return values.map((value) => this.formatValue(value)).join(this.delimiter);
+    return this.joinCells(this.formatCells(values));
+  }
+
+  /**
+   * Formats a header row as CSV, without formula sanitization
+   */
+  formatHeader(headers: string[]): string {
+    return this.joinCells(headers.map((header) => this.formatValue(header, false)));
+  }
+
+  /**
+   * Formats each value as an escaped CSV cell
+   *
+   * @throws {CsvFormattingError} If a value could run as a formula and sanitization is 'reject'
+   */
+  formatCells(values: unknown[]): string[] {
+    return values.map((value) => this.formatValue(value, true));
+  }
+
+  /**
+   * Joins formatted cells into a row
+   */
+  joinCells(cells: string[]): string {
+    return cells.join(this.delimiter);
+  }
+
+  /**
+   * Joins rows into file content, ending every row with the line ending
+   */
+  joinLines(lines: string[]): string {
+    return lines.map((line) => line + this.lineEnding).join('');
+  }
+
+  /**
+   * Measures the UTF-8 bytes of a formatted row and its line ending, without
+   * counting neutralized cells
+   *
+   * @throws {CsvFormattingError} If a value could run as a formula and sanitization is 'reject'
+   */
+  measureRow(values: unknown[]): number {
+    const neutralizedCells = this.neutralizedCells;
+    try {
+      return Buffer.byteLength(this.formatRow(values) + this.lineEnding, 'utf-8');
+    } finally {
+      this.neutralizedCells = neutralizedCells;
+    }
+  }
+
+  /**
+   * Gets the decimal separator of the locale, if one is set
+   */
+  getDecimalSeparator(): string | undefined {
+    return this.numberFormat?.formatToParts(1.5).find(({ type }) => type === 'decimal')?.value;
+  }
+
+  /**
+   * Gets the number of cells neutralized by formula sanitization
+   */
+  getNeutralizedCells(): number {
+    return this.neutralizedCells;
   }
 
   /**
    * Formats a single value with proper CSV escaping
    */
-  private formatValue(value: unknown): string {
-    if (value == null) {
-      return '';
+  private formatValue(value: unknown, sanitize: boolean): string {
+    // Localized numbers and dates, then dates, bigints, binary data and registered types
+    const localized = this.localize(value);
+    const cell =
+      localized ??
+      (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? value
+        : this.serializer.serialize(value));
+
+    if (cell == null) {
+      return this.quoteMode === 'all' || this.quoteMode === 'nonNumeric'
+        ? this.quote + this.quote
+        : '';
     }
 
     // Convert to string representation
     let stringValue: string;
-    if (typeof value === 'string') {
-      stringValue = value;
-    } else if (typeof value === 'number' || typeof value === 'boolean') {
-      stringValue = String(value);
+    if (typeof cell === 'string') {
+      stringValue = cell;
+    } else if (typeof cell === 'number' || typeof cell === 'boolean') {
+      stringValue = String(cell);
     } else {
       // For objects, arrays, and other types, use JSON serialization
-      stringValue = JSON.stringify(value);
+      stringValue = this.serializer.stringify(cell) ?? '';
+    }
+
+    if (sanitize && this.sanitization && localized === undefined) {
+      stringValue = this.sanitize(stringValue, this.sanitization);
+    }
+
+    const special = this.findSpecialCharacter(stringValue);
+    switch (this.quoteMode) {
+      case 'all':
+        return this.quoteValue(stringValue);
+      case 'nonNumeric':
+        return (typeof cell === 'number' || this.isLocalizedNumber(value, localized)) &&
+          special === undefined
+          ? stringValue
+          : this.quoteValue(stringValue);
+      case 'none':
+        return special === undefined ? stringValue : this.escapeValue(stringValue, special);
+      default:
+        // Quote only values that contain a delimiter, line break, quote or escape character
+        return special === undefined ? stringValue : this.quoteValue(stringValue);
+    }
+  }
+
+  /**
+   * Formats a number, bigint or valid date with the locale, if one is set
+   */
+  private localize(value: unknown): string | undefined {
+    if (this.numberFormat && (typeof value === 'number' || typeof value === 'bigint')) {
+      return this.numberFormat.format(value);
+    }
+    if (this.dateFormat && value instanceof Date && !Number.isNaN(value.getTime())) {
+      return this.dateFormat.format(value);
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks whether a value was formatted as a localized number
+   */
+  private isLocalizedNumber(value: unknown, localized: string | undefined): boolean {
+    return localized !== undefined && !(value instanceof Date);
+  }
+
+  /**
+   * Finds the first character that cannot appear in an unquoted cell
+   */
+  private findSpecialCharacter(value: string): string | undefined {
+    return [this.delimiter, '\n', '\r', this.quote, this.escape].find((char) =>
+      value.includes(char)
+    );
+  }
+
+  /**
+   * Wraps a value in quotes, escaping the quote and escape characters inside it
+   */
+  private quoteValue(value: string): string {
+    let escaped = value;
+    if (this.escape !== this.quote) {
+      escaped = escaped.split(this.escape).join(this.escape + this.escape);
+    }
+    escaped = escaped.split(this.quote).join(this.escape + this.quote);
+    return `${this.quote}${escaped}${this.quote}`;
+  }
+
+  /**
+   * Prefixes each special character of an unquoted value with the escape character
+   *
+   * @throws {CsvFormattingError} If there is no escape character distinct from the quote
+   */
+  private escapeValue(value: string, special: string): string {
+    if (this.escape === this.quote) {
+      throw new CsvFormattingError(
+        `Cell value contains ${JSON.stringify(special)} and cannot be written unquoted without an escape character`
+      );
+    }
+
+    const specials = new Set([this.escape, this.delimiter, this.quote, '\n', '\r']);
+    let escaped = '';
+    for (const char of value) {
+      escaped += specials.has(char) ? this.escape + char : char;
+    }
+    return escaped;
+  }
+
+  /**
+   * Neutralizes a value that could run as a formula
+   */
+  private sanitize(value: string, sanitization: FormulaSanitization): string {
+    if (!FORMULA_PREFIX.test(value) || NUMERIC.test(value)) {
+      return value;
     }
 
-    // If contains delimiter, newline, or quotes, wrap in quotes and escape existing quotes
-    if (
-      stringValue.includes(this.delimiter) ||
-      stringValue.includes('\n') ||
-      stringValue.includes('\r') ||
-      stringValue.includes(this.quote)
-    ) {
-      const escaped = stringValue.replace(new RegExp(this.quote, 'g'), this.quote + this.quote);
-      return `${this.quote}${escaped}${this.quote}`;
+    if (sanitization === 'reject') {
+      throw new CsvFormattingError(
+        `Cell value starts with a formula character: ${JSON.stringify(value.slice(0, 20))}`
+      );
     }
 
-    return stringValue;
+    this.neutralizedCells++;
+    return sanitization === 'escape' ? `'${value}` : value.replace(FORMULA_PREFIX, '');
   }
 }
@@ -1,31 +1,71 @@
-import type { CsvConfig, Result } from '../../types.js';
-import { HeaderInitializationError } from '../../errors.js';
+import type { CsvConfig, HeaderStrategy, Result } from '../../types.js';
+import { HeaderInitializationError, ValidationError } from '../../errors.js';
+import { ColumnSchemaMapper } from '../ColumnSchemaMapper.js';
 import { flattenObject } from './flattenObject.js';
 
 /**
- * Manages CSV header initialization and key determination
+ * Manages CSV header initialization and key determination.
+ *
+ * When the config has a column schema, headers and values come from the schema instead.
+ * The header strategy decides what happens to keys that only appear in later records.
  */
 export class CsvHeaderManager<T extends Record<string, unknown>> {
   private headers: string[] | null = null;
   private keys: (keyof T)[] | null = null;
+  private readonly schemaMapper: ColumnSchemaMapper<T> | null = null;
+  private readonly strategy: HeaderStrategy;
 
-  constructor(private readonly config?: CsvConfig<T>) {}
+  /**
+   * @throws {ValidationError} If a schema is invalid or combined with other column options
+   */
+  constructor(private readonly config?: CsvConfig<T>) {
+    this.strategy = config?.headerStrategy ?? 'first';
+    if (config?.schema) {
+      if (
+        config.headers ||
+        config.includeKeys ||
+        config.columnMapping ||
+        config.flattenNestedObjects
+      ) {
+        throw new ValidationError(
+          'schema cannot be combined with headers, includeKeys, columnMapping or flattenNestedObjects'
+        );
+      }
+      this.schemaMapper = new ColumnSchemaMapper<T>(config.schema);
+    }
+
+    if (this.strategy !== 'first' && (config?.schema || config?.headers || config?.includeKeys)) {
+      throw new ValidationError(
+        `The ${this.strategy} header strategy cannot be combined with schema, headers or includeKeys`
+      );
+    }
+  }
 
   /**
-   * Initializes headers from config or first data object
+   * Initializes headers from config or the first data object.
+   *
+   * With the `union` strategy, the keys of every object in the batch are used.
    */
-  initialize(firstDataObject: T): Result<void> {
+  initialize(data: T | T[]): Result<void> {
     if (this.headers !== null && this.keys !== null) {
       return { success: true, value: undefined };
     }
 
+    if (this.schemaMapper) {
+      this.headers = this.schemaMapper.getHeaders();
+      this.keys = [];
+      return { success: true, value: undefined };
+    }
+
+    const records: T[] = Array.isArray(data) ? data : [data];
+
     // Flatten object if configured
-    const dataObject = this.config?.flattenNestedObjects
-      ? (flattenObject(firstDataObject) as T)
-      : firstDataObject;
+    const dataObject = this.flatten(records[0] ?? ({} as T));
 
     // Determine which keys to use
-    if (this.config?.includeKeys) {
+    if (this.strategy === 'union') {
+      this.keys = this.collectKeys(records) as (keyof T)[];
+    } else if (this.config?.includeKeys) {
       this.keys = this.config.includeKeys;
     } else if (this.config?.headers && this.config.headers.length > 0) {
       // If explicit headers provided, infer keys from first object
@@ -44,16 +84,70 @@ export class CsvHeaderManager<T extends Record<string, unknown>> {
     // Determine header names
     if (this.config?.headers) {
       this.headers = this.config.headers;
-    } else if (this.config?.columnMapping) {
-      const mapping = this.config.columnMapping;
-      this.headers = this.keys.map((key) => mapping[key] ?? String(key));
     } else {
-      this.headers = this.keys.map(String);
+      this.headers = this.keys.map((key) => this.toHeader(key));
     }
 
     return { success: true, value: undefined };
   }
 
+  /**
+   * Initializes the columns from a header row that is already written.
+   *
+   * Header names are mapped back to keys through the column mapping.
+   */
+  initializeFromHeader(headers: string[]): void {
+    const keysByHeader = new Map<string, string>();
+    for (const [key, header] of Object.entries(this.config?.columnMapping ?? {})) {
+      if (typeof header === 'string') {
+        keysByHeader.set(header, key);
+      }
+    }
+
+    this.headers = headers;
+    this.keys = headers.map((header) => (keysByHeader.get(header) ?? header) as keyof T);
+  }
+
+  /**
+   * Checks if the columns can be taken from a written header row.
+   *
+   * Not the case when a schema, headers or includeKeys define them.
+   */
+  canInitializeFromHeader(): boolean {
+    return !this.schemaMapper && !this.config?.headers && !this.config?.includeKeys;
+  }
+
+  /**
+   * Finds the keys of a batch that are not columns yet.
+   *
+   * Always empty with the `first` strategy, which drops such keys.
+   *
+   * @returns The unexpected keys, in the order they are first seen
+   */
+  findUnexpectedKeys(data: T[]): string[] {
+    if (this.strategy === 'first' || this.schemaMapper) {
+      return [];
+    }
+    const known = new Set(this.getKeys().map(String));
+    return this.collectKeys(data).filter((key) => !known.has(key));
+  }
+
+  /**
+   * Adds columns for new keys after the existing ones
+   */
+  addKeys(keys: string[]): void {
+    const added = keys as (keyof T)[];
+    this.keys = [...this.getKeys(), ...added];
+    this.headers = [...this.getHeaders(), ...added.map((key) => this.toHeader(key))];
+  }
+
+  /**
+   * Gets the header strategy
+   */
+  getStrategy(): HeaderStrategy {
+    return this.strategy;
+  }
+
   /**
    * Gets the header row values
    */
@@ -78,12 +172,42 @@ export class CsvHeaderManager<T extends Record<string, unknown>> {
    * Converts a data object to array of values in correct order
    */
   objectToValues(data: T): unknown[] {
-    // Flatten object if configured
-    const dataObject = this.config?.flattenNestedObjects ? (flattenObject(data) as T) : data;
+    if (this.schemaMapper) {
+      return this.schemaMapper.toValues(data);
+    }
+
+    const dataObject = this.flatten(data);
 
     return this.getKeys().map((key) => dataObject[key]);
   }
 
+  /**
+   * Flattens a data object if configured
+   */
+  private flatten(data: T): T {
+    return this.config?.flattenNestedObjects ? (flattenObject(data) as T) : data;
+  }
+
+  /**
+   * Collects the keys of every object, in the order they are first seen
+   */
+  private collectKeys(data: T[]): string[] {
+    const keys = new Set<string>();
+    for (const item of data) {
+      for (const key of Object.keys(this.flatten(item))) {
+        keys.add(key);
+      }
+    }
+    return [...keys];
+  }
+
+  /**
+   * Gets the header of a key, applying the column mapping
+   */
+  private toHeader(key: keyof T): string {
+    return this.config?.columnMapping?.[key] ?? String(key);
+  }
+
   /**
    * Checks if headers have been initialized
    */
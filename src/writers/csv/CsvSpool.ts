@@ -0,0 +1,76 @@
+import * as fs from 'node:fs';
+import * as fsPromises from 'node:fs/promises';
+import * as nodePath from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { createInterface } from 'node:readline';
+import type { Result } from '../../types.js';
+import { FileWriteError } from '../../errors.js';
+
+/**
+ * Holds formatted CSV rows in a temporary file until the columns are final.
+ *
+ * Each row is spooled as a JSON object of formatted cells keyed by column, so
+ * rows spooled before a column was added are replayed with an empty cell for it.
+ * The spool is a hidden file next to the output, on the same disk, since it
+ * grows to about twice the size of the output.
+ */
+export class CsvSpool {
+  private readonly path: string;
+
+  /**
+   * Creates a spool for the rows of an output file.
+   *
+   * @param file - Path of the output file the spool is placed next to
+   */
+  constructor(file: string) {
+    const suffix = `${process.pid}.${randomBytes(4).toString('hex')}`;
+    this.path = nodePath.join(
+      nodePath.dirname(file),
+      `.${nodePath.basename(file)}.${suffix}.spool`
+    );
+  }
+
+  /**
+   * Appends rows to the spool file
+   */
+  async write(rows: Record<string, string>[]): Promise<Result<void>> {
+    try {
+      const content = rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+      await fsPromises.appendFile(this.path, content, 'utf-8');
+      return { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          `Failed to write CSV spool: ${this.path}`,
+          error instanceof Error ? error : undefined
+        ),
+      };
+    }
+  }
+
+  /**
+   * Reads the spooled rows back in the order they were written
+   *
+   * @throws {Error} If the spool file cannot be read
+   */
+  async *read(): AsyncGenerator<Record<string, string>> {
+    if (!fs.existsSync(this.path)) {
+      return;
+    }
+    const lines = createInterface({
+      input: fs.createReadStream(this.path, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      yield JSON.parse(line) as Record<string, string>;
+    }
+  }
+
+  /**
+   * Deletes the spool file
+   */
+  async remove(): Promise<void> {
+    await fsPromises.rm(this.path, { force: true });
+  }
+}
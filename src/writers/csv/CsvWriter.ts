@@ -1,8 +1,44 @@
-import type { OutportWriter, WriterOptions, Result, FileWriter } from '../../types.js';
-import { ValidationError, CsvFormattingError } from '../../errors.js';
-import { NodeFileWriter } from '../../io/FileWriter.js';
+import type {
+  OutportWriter,
+  WriterOptions,
+  Result,
+  FileWriter,
+  FileSink,
+  CsvQuoteMode,
+  RecordSizes,
+} from '../../types.js';
+import {
+  ValidationError,
+  CsvFormattingError,
+  FileWriteError,
+  UnexpectedColumnsError,
+  CsvParseError,
+} from '../../errors.js';
+import { NodeFileWriter, openFile } from '../../io/FileWriter.js';
+import {
+  CompressingFileWriter,
+  stripCompressionExtension,
+} from '../../io/CompressingFileWriter.js';
 import { CsvFormatter } from './CsvFormatter.js';
 import { CsvHeaderManager } from './CsvHeaderManager.js';
+import { CsvSpool } from './CsvSpool.js';
+import { readCsvHeader } from './readCsvHeader.js';
+
+/**
+ * Supported values of the quoteMode option
+ */
+const QUOTE_MODES: CsvQuoteMode[] = ['minimal', 'all', 'nonNumeric', 'none'];
+
+/**
+ * Number of spooled rows written to the file at a time when the spool is flushed
+ */
+const SPOOL_FLUSH_ROWS = 1000;
+
+/**
+ * Locale and delimiter pairs already warned about, so split, partitioned and
+ * fan-out exports that create a writer per file warn only once
+ */
+const warnedLocales = new Set<string>();
 
 /**
  * CSV Writer for exporting data to CSV files.
@@ -13,6 +49,10 @@ import { CsvHeaderManager } from './CsvHeaderManager.js';
  * The writer handles header initialization, value formatting, and file I/O,
  * delegating to specialized helper classes for each concern.
  *
+ * With the `union` header strategy, an open writer spools rows to a hidden
+ * file next to the output and writes the header and rows on close(), once
+ * every key is known.
+ *
  * @template T - The type of data objects being written. Must extend Record<string, unknown>
  *
  * @example
@@ -51,6 +91,9 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
   private readonly headerManager: CsvHeaderManager<T>;
   private readonly fileWriter: FileWriter;
   private readonly includeUtf8Bom: boolean;
+  private sink: FileSink | null = null;
+  private sinkNeedsHeaders: boolean = false;
+  private spool: CsvSpool | null = null;
 
   /**
    * Creates a new CSV writer instance.
@@ -74,12 +117,32 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
     fileWriter: FileWriter = new NodeFileWriter()
   ) {
     this.validate(options);
-    this.fileWriter = fileWriter;
+    this.fileWriter = options.compression
+      ? new CompressingFileWriter(options.compression, fileWriter)
+      : fileWriter;
 
     // Initialize formatter with config
     const delimiter = options.config?.delimiter ?? ',';
     const quote = options.config?.quote ?? '"';
-    this.formatter = new CsvFormatter(delimiter, quote);
+    this.formatter = new CsvFormatter(delimiter, quote, {
+      quoteMode: options.config?.quoteMode,
+      escape: options.config?.escape,
+      lineEnding: options.config?.lineEnding,
+      sanitizeFormulas: options.config?.sanitizeFormulas,
+      locale: options.config?.locale,
+      numberFormat: options.config?.numberFormat,
+      dateFormat: options.config?.dateFormat,
+      serialization: options.serialization,
+    });
+
+    const localeKey = `${options.config?.locale}|${delimiter}`;
+    if (this.formatter.getDecimalSeparator() === delimiter && !warnedLocales.has(localeKey)) {
+      warnedLocales.add(localeKey);
+      process.emitWarning(
+        `The decimal separator of locale ${options.config?.locale} is the CSV delimiter ${JSON.stringify(delimiter)}, so numbers with decimals will be quoted; use a different delimiter such as ';'`,
+        'CsvLocaleWarning'
+      );
+    }
 
     // Initialize header manager
     this.headerManager = new CsvHeaderManager<T>(options.config);
@@ -99,7 +162,7 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
       throw new ValidationError('File path must be provided for CsvWriter');
     }
 
-    if (!options.file.endsWith('.csv')) {
+    if (!stripCompressionExtension(options.file, options.compression).endsWith('.csv')) {
       throw new ValidationError('File extension must be .csv for CsvWriter');
     }
 
@@ -112,14 +175,29 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
     if (quote.length !== 1) {
       throw new ValidationError('Quote character must be a single character');
     }
+
+    const escape = options.config?.escape;
+    if (escape !== undefined && escape.length !== 1) {
+      throw new ValidationError('Escape character must be a single character');
+    }
+
+    const quoteMode = options.config?.quoteMode;
+    if (quoteMode !== undefined && !QUOTE_MODES.includes(quoteMode)) {
+      throw new ValidationError(`Quote mode must be one of: ${QUOTE_MODES.join(', ')}`);
+    }
+
+    const lineEnding = options.config?.lineEnding;
+    if (lineEnding !== undefined && lineEnding !== '\n' && lineEnding !== '\r\n') {
+      throw new ValidationError('Line ending must be \\n or \\r\\n');
+    }
   }
 
   /**
    * Writes headers to file (sync)
    */
   private writeHeadersSync(): Result<void> {
-    const headerLine = this.formatter.formatRow(this.headerManager.getHeaders());
-    const content = this.includeUtf8Bom ? '\uFEFF' + headerLine + '\n' : headerLine + '\n';
+    const headerLine = this.formatter.formatHeader(this.headerManager.getHeaders());
+    const content = (this.includeUtf8Bom ? '\uFEFF' : '') + this.formatter.joinLines([headerLine]);
 
     if (this.options.mode === 'write') {
       return this.fileWriter.writeSync(this.options.file, content);
@@ -136,8 +214,17 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
    * Writes headers to file (async)
    */
   private async writeHeaders(): Promise<Result<void>> {
-    const headerLine = this.formatter.formatRow(this.headerManager.getHeaders());
-    const content = this.includeUtf8Bom ? '\uFEFF' + headerLine + '\n' : headerLine + '\n';
+    const headerLine = this.formatter.formatHeader(this.headerManager.getHeaders());
+    const content = (this.includeUtf8Bom ? '\uFEFF' : '') + this.formatter.joinLines([headerLine]);
+
+    if (this.sink) {
+      // While open, headers are written at most once, right after open()
+      if (!this.sinkNeedsHeaders) {
+        return { success: true, value: undefined };
+      }
+      this.sinkNeedsHeaders = false;
+      return await this.sink.write(content);
+    }
 
     if (this.options.mode === 'write') {
       return await this.fileWriter.write(this.options.file, content);
@@ -156,17 +243,16 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
    */
   private writeRowsSync(data: T[], isFirstWrite: boolean): Result<void> {
     try {
-      const lines = data
-        .map((obj) => this.headerManager.objectToValues(obj))
-        .map((values) => this.formatter.formatRow(values))
-        .join('\n');
+      const lines = this.formatter.joinLines(
+        data.map((obj) => this.formatter.formatRow(this.headerManager.objectToValues(obj)))
+      );
 
       if (isFirstWrite && this.options.mode === 'write') {
         // In write mode on first write, we need to append to headers (not overwrite)
-        return this.fileWriter.appendSync(this.options.file, lines + '\n');
+        return this.fileWriter.appendSync(this.options.file, lines);
       }
 
-      return this.fileWriter.appendSync(this.options.file, lines + '\n');
+      return this.fileWriter.appendSync(this.options.file, lines);
     } catch (error) {
       return {
         success: false,
@@ -180,17 +266,106 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
    */
   private async writeRows(data: T[], isFirstWrite: boolean): Promise<Result<void>> {
     try {
-      const lines = data
-        .map((obj) => this.headerManager.objectToValues(obj))
-        .map((values) => this.formatter.formatRow(values))
-        .join('\n');
+      const lines = this.formatter.joinLines(
+        data.map((obj) => this.formatter.formatRow(this.headerManager.objectToValues(obj)))
+      );
+
+      if (this.sink) {
+        return await this.sink.write(lines);
+      }
 
       if (isFirstWrite && this.options.mode === 'write') {
         // In write mode on first write, we need to append to headers (not overwrite)
-        return await this.fileWriter.append(this.options.file, lines + '\n');
+        return await this.fileWriter.append(this.options.file, lines);
+      }
+
+      return await this.fileWriter.append(this.options.file, lines);
+    } catch (error) {
+      return {
+        success: false,
+        error: new CsvFormattingError(error instanceof Error ? error.message : String(error)),
+      };
+    }
+  }
+
+  /**
+   * Takes the columns from the header row of the file being appended to.
+   *
+   * Rows are then written under the existing header, whatever the key order
+   * of the records. Files that are not on the local disk, such as those of
+   * some custom FileWriters, are left to the first records as before.
+   */
+  private readExistingHeader(): Result<void> {
+    if (
+      this.options.mode !== 'append' ||
+      this.headerManager.isInitialized() ||
+      !this.headerManager.canInitializeFromHeader() ||
+      !this.fileWriter.existsSync(this.options.file)
+    ) {
+      return { success: true, value: undefined };
+    }
+
+    try {
+      const header = readCsvHeader(
+        this.options.file,
+        this.options.compression,
+        this.options.config?.delimiter ?? ',',
+        this.options.config?.quote ?? '"',
+        this.options.config?.escape
+      );
+      if (header) {
+        this.headerManager.initializeFromHeader(header);
       }
+      return { success: true, value: undefined };
+    } catch (error) {
+      if ((error as { code?: unknown }).code === 'ENOENT') {
+        return { success: true, value: undefined };
+      }
+      return {
+        success: false,
+        error:
+          error instanceof CsvParseError
+            ? error
+            : new FileWriteError(
+                `Failed to read the CSV header of ${this.options.file}`,
+                error instanceof Error ? error : undefined
+              ),
+      };
+    }
+  }
+
+  /**
+   * Applies the header strategy to keys that are not columns yet
+   */
+  private checkColumns(data: T[], canExtend: boolean): Result<void> {
+    const unexpected = this.headerManager.findUnexpectedKeys(data);
+    if (unexpected.length === 0) {
+      return { success: true, value: undefined };
+    }
 
-      return await this.fileWriter.append(this.options.file, lines + '\n');
+    if (this.headerManager.getStrategy() === 'union' && canExtend) {
+      this.headerManager.addKeys(unexpected);
+      return { success: true, value: undefined };
+    }
+
+    const message =
+      this.headerManager.getStrategy() === 'strict'
+        ? 'Records have keys that are not in the CSV header'
+        : 'Cannot add columns to a CSV header that has already been written';
+    return { success: false, error: new UnexpectedColumnsError(message, unexpected) };
+  }
+
+  /**
+   * Formats rows into the spool, keyed by column
+   */
+  private async spoolRows(spool: CsvSpool, data: T[]): Promise<Result<void>> {
+    try {
+      const keys = this.headerManager.getKeys().map(String);
+      const rows = data.map((obj) => {
+        const cells = this.formatter.formatCells(this.headerManager.objectToValues(obj));
+        return Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? '']));
+      });
+      return await spool.write(rows);
     } catch (error) {
       return {
         success: false,
@@ -199,6 +374,61 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
     }
   }
 
+  /**
+   * Writes the header and the spooled rows to the open handle, then deletes the spool
+   */
+  private async flushSpool(sink: FileSink, spool: CsvSpool): Promise<Result<void>> {
+    try {
+      if (!this.headerManager.isInitialized()) {
+        return { success: true, value: undefined };
+      }
+
+      const headerResult = await this.writeHeaders();
+      if (!headerResult.success) {
+        return headerResult;
+      }
+
+      const keys = this.headerManager.getKeys().map(String);
+      let lines: string[] = [];
+      for await (const cells of spool.read()) {
+        lines.push(this.formatter.joinCells(keys.map((key) => cells[key] ?? '')));
+        if (lines.length >= SPOOL_FLUSH_ROWS) {
+          const result = await sink.write(this.formatter.joinLines(lines));
+          if (!result.success) {
+            return result;
+          }
+          lines = [];
+        }
+      }
+      return lines.length > 0
+        ? await sink.write(this.formatter.joinLines(lines))
+        : { success: true, value: undefined };
+    } catch (error) {
+      return {
+        success: false,
+        error: new FileWriteError(
+          'Failed to read CSV spool',
+          error instanceof Error ? error : undefined
+        ),
+      };
+    } finally {
+      await spool.remove();
+    }
+  }
+
+  /**
+   * Returns an error if the writer is open, since the open handle is async-only
+   */
+  private checkNotOpen(): Result<void> {
+    if (this.sink) {
+      return {
+        success: false,
+        error: new ValidationError('Synchronous methods cannot be used while the writer is open'),
+      };
+    }
+    return { success: true, value: undefined };
+  }
+
   // ==================== PUBLIC API ====================
 
   /**
@@ -228,6 +458,11 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
    * ```
    */
   writeSync(data: T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+
     if (data.length === 0) {
       return {
         success: false,
@@ -235,17 +470,29 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
       };
     }
 
+    // In append mode, the columns of an existing file come from its header row
+    const headerResult = this.readExistingHeader();
+    if (!headerResult.success) {
+      return headerResult;
+    }
+
     let headersJustInitialized = false;
 
     // Initialize headers if needed
     if (!this.headerManager.isInitialized()) {
-      const initResult = this.headerManager.initialize(data[0]!);
+      const initResult = this.headerManager.initialize(data);
       if (!initResult.success) {
         return initResult;
       }
       headersJustInitialized = true;
     }
 
+    // In write mode the headers are rewritten, so they can still grow
+    const columnsResult = this.checkColumns(data, this.options.mode === 'write');
+    if (!columnsResult.success) {
+      return columnsResult;
+    }
+
     // In write mode, always write headers (overwriting existing content)
     // In append mode, only write headers if file doesn't exist
     if (this.options.mode === 'write' || headersJustInitialized) {
@@ -290,17 +537,36 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
       };
     }
 
+    // In append mode, the columns of an existing file come from its header row
+    const headerResult = this.readExistingHeader();
+    if (!headerResult.success) {
+      return headerResult;
+    }
+
     let headersJustInitialized = false;
 
     // Initialize headers if needed
     if (!this.headerManager.isInitialized()) {
-      const initResult = this.headerManager.initialize(data[0]!);
+      const initResult = this.headerManager.initialize(data);
       if (!initResult.success) {
         return initResult;
       }
       headersJustInitialized = true;
     }
 
+    // Headers can still grow while spooling, or in write mode where they are rewritten
+    const columnsResult = this.checkColumns(
+      data,
+      this.spool !== null || (!this.sink && this.options.mode === 'write')
+    );
+    if (!columnsResult.success) {
+      return columnsResult;
+    }
+
+    if (this.spool) {
+      return await this.spoolRows(this.spool, data);
+    }
+
     // In write mode, always write headers (overwriting existing content)
     // In append mode, only write headers if file doesn't exist
     if (this.options.mode === 'write' || headersJustInitialized) {
@@ -338,15 +604,26 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
    * ```
    */
   appendSync(data: T | T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+
     const dataArray = Array.isArray(data) ? data : [data];
 
     if (dataArray.length === 0) {
       return { success: true, value: undefined };
     }
 
+    // In append mode, the columns of an existing file come from its header row
+    const headerResult = this.readExistingHeader();
+    if (!headerResult.success) {
+      return headerResult;
+    }
+
     // Initialize headers if needed
     if (!this.headerManager.isInitialized()) {
-      const initResult = this.headerManager.initialize(dataArray[0]!);
+      const initResult = this.headerManager.initialize(dataArray);
       if (!initResult.success) {
         return initResult;
       }
@@ -357,6 +634,11 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
       }
     }
 
+    const columnsResult = this.checkColumns(dataArray, false);
+    if (!columnsResult.success) {
+      return columnsResult;
+    }
+
     return this.writeRowsSync(dataArray, false);
   }
 
@@ -386,19 +668,204 @@ export class CsvWriter<T extends Record<string, unknown>> implements OutportWrit
       return { success: true, value: undefined };
     }
 
+    // In append mode, the columns of an existing file come from its header row
+    const headerResult = this.readExistingHeader();
+    if (!headerResult.success) {
+      return headerResult;
+    }
+
     // Initialize headers if needed
     if (!this.headerManager.isInitialized()) {
-      const initResult = this.headerManager.initialize(dataArray[0]!);
+      const initResult = this.headerManager.initialize(dataArray);
       if (!initResult.success) {
         return initResult;
       }
 
-      const writeResult = await this.writeHeaders();
-      if (!writeResult.success) {
-        return writeResult;
+      if (!this.spool) {
+        const writeResult = await this.writeHeaders();
+        if (!writeResult.success) {
+          return writeResult;
+        }
       }
     }
 
+    const columnsResult = this.checkColumns(dataArray, this.spool !== null);
+    if (!columnsResult.success) {
+      return columnsResult;
+    }
+
+    if (this.spool) {
+      return await this.spoolRows(this.spool, dataArray);
+    }
+
     return await this.writeRows(dataArray, false);
   }
+
+  /**
+   * Gets the columns of the rows written so far.
+   *
+   * @returns The column headers, or undefined if no rows have been written yet
+   */
+  getColumns(): string[] | undefined {
+    return this.headerManager.isInitialized() ? this.headerManager.getHeaders() : undefined;
+  }
+
+  /**
+   * Gets the number of cells neutralized by formula sanitization so far.
+   *
+   * @returns The number of escaped or stripped cells
+   */
+  getNeutralizedCells(): number {
+    return this.formatter.getNeutralizedCells();
+  }
+
+  /**
+   * Measures the bytes that writing records to the open file would add.
+   *
+   * The first record includes the header when it has not been written yet.
+   * Fails like a write would for keys that the `strict` header strategy
+   * rejects. Not available while rows are spooled for the `union` header strategy.
+   *
+   * @param data - Records in the order they would be written
+   * @returns Result with the size of each row and a footer of 0 bytes
+   */
+  measure(data: T[]): Result<RecordSizes> {
+    if (this.spool) {
+      return {
+        success: false,
+        error: new ValidationError(
+          'CSV rows cannot be measured while they are spooled for the union header strategy'
+        ),
+      };
+    }
+
+    // In append mode, the columns of an existing file come from its header row
+    const headerResult = this.readExistingHeader();
+    if (!headerResult.success) {
+      return headerResult;
+    }
+
+    try {
+      let headerManager = this.headerManager;
+      if (!headerManager.isInitialized()) {
+        // Determine the header the first write would use, without committing to it
+        headerManager = new CsvHeaderManager<T>(this.options.config);
+        const initResult = headerManager.initialize(data);
+        if (!initResult.success) {
+          return initResult;
+        }
+      }
+
+      // Records that the strict strategy would fail to write cannot be measured either
+      const unexpected =
+        headerManager.getStrategy() === 'strict' ? headerManager.findUnexpectedKeys(data) : [];
+      if (unexpected.length > 0) {
+        return {
+          success: false,
+          error: new UnexpectedColumnsError(
+            'Records have keys that are not in the CSV header',
+            unexpected
+          ),
+        };
+      }
+
+      const needsHeaders = this.sink ? this.sinkNeedsHeaders : !this.headerManager.isInitialized();
+      const headerBytes = needsHeaders
+        ? Buffer.byteLength(
+            (this.includeUtf8Bom ? '\uFEFF' : '') +
+              this.formatter.joinLines([this.formatter.formatHeader(headerManager.getHeaders())]),
+            'utf-8'
+          )
+        : 0;
+
+      const records = data.map((obj) =>
+        this.formatter.measureRow(headerManager.objectToValues(obj))
+      );
+      if (records.length > 0) {
+        records[0]! += headerBytes;
+      }
+      return { success: true, value: { records, footer: 0 } };
+    } catch (error) {
+      return {
+        success: false,
+        error: new CsvFormattingError(error instanceof Error ? error.message : String(error)),
+      };
+    }
+  }
+
+  /**
+   * Opens a persistent handle to the file for subsequent async writes.
+   *
+   * In 'write' mode the file is truncated now, and every write() or append()
+   * call adds rows after the previous ones; headers are written once. In
+   * 'append' mode headers are only written if the file did not exist. With the
+   * `union` header strategy, rows are spooled until close() while the headers
+   * still have to be written.
+   *
+   * @returns Promise of Result indicating success or failure
+   *
+   * @example
+   * ```typescript
+   * await writer.open();
+   * for await (const batch of batches) {
+   *   await writer.append(batch);
+   * }
+   * await writer.close();
+   * ```
+   */
+  async open(): Promise<Result<void>> {
+    if (this.sink) {
+      return { success: true, value: undefined };
+    }
+
+    const needsHeaders =
+      this.options.mode === 'write' || !(await this.fileWriter.exists(this.options.file));
+
+    const result = await openFile(this.fileWriter, this.options.file, this.options.mode);
+    if (!result.success) {
+      return result;
+    }
+
+    this.sink = result.value;
+    this.sinkNeedsHeaders = needsHeaders;
+    if (needsHeaders && this.headerManager.getStrategy() === 'union') {
+      this.spool = new CsvSpool(this.options.file);
+    }
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Closes the handle opened by open().
+   *
+   * Spooled rows are written first, under the header of every key seen.
+   * Does nothing if the writer is not open.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  async close(): Promise<Result<void>> {
+    if (!this.sink) {
+      return { success: true, value: undefined };
+    }
+
+    const sink = this.sink;
+    const spool = this.spool;
+    this.spool = null;
+    const flushResult = spool ? await this.flushSpool(sink, spool) : null;
+
+    this.sink = null;
+    const closeResult = await sink.close();
+    return flushResult && !flushResult.success ? flushResult : closeResult;
+  }
+
+  /**
+   * Closes the writer when used with `await using`.
+   *
+   * @throws {Error} If closing the file fails
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    const result = await this.close();
+    if (!result.success) {
+      throw result.error;
+    }
+  }
 }
@@ -0,0 +1,37 @@
+import type { CompressionType } from '../../types.js';
+import { CsvParser } from '../../readers/csv/CsvParser.js';
+import { readTextChunksSync } from '../../readers/textSource.js';
+
+/**
+ * Reads the header row of an existing CSV file.
+ *
+ * Reading stops after the first row, so appending to a large file does not
+ * read all of it.
+ *
+ * @param file - Path of the file to read
+ * @param compression - Compression the file was written with, if any
+ * @param delimiter - Field delimiter of the file
+ * @param quote - Quote character of the file
+ * @param escape - Escape character of the file, the quote character by default
+ * @returns The header names, or undefined if the file has no rows
+ * @throws {CsvParseError} If the header row is malformed
+ */
+export function readCsvHeader(
+  file: string,
+  compression: CompressionType | undefined,
+  delimiter: string,
+  quote: string,
+  escape?: string
+): string[] | undefined {
+  const parser = new CsvParser(delimiter, quote, escape);
+  for (const chunk of readTextChunksSync(file, compression)) {
+    // Parse line by line, so malformed rows after the header are never reached
+    for (const line of chunk.split(/(?<=\n)/)) {
+      const [record] = parser.push(line);
+      if (record) {
+        return record.fields;
+      }
+    }
+  }
+  return parser.end()[0]?.fields;
+}
@@ -1,10 +1,14 @@
+import type { SerializationConfig } from '../../types.js';
 import { JsonFormattingError } from '../../errors.js';
+import { ValueSerializer } from '../ValueSerializer.js';
 
 /**
  * Handles JSON formatting logic - converting data to properly formatted JSON strings.
  *
  * Provides control over formatting options like pretty-printing and indentation,
  * following the Single Responsibility Principle by focusing solely on formatting.
+ * Dates, bigints, binary data, Maps, Sets and registered types are converted by
+ * the shared ValueSerializer.
  *
  * @example
  * ```typescript
@@ -15,16 +19,23 @@ import { JsonFormattingError } from '../../errors.js';
 export class JsonFormatter {
   private readonly prettyPrint: boolean;
   private readonly indent: number;
+  private readonly serializer: ValueSerializer;
 
   /**
    * Creates a new JSON formatter instance.
    *
    * @param prettyPrint - Whether to format JSON with indentation and newlines (default: true)
    * @param indent - Number of spaces for indentation when prettyPrint is true (default: 2)
+   * @param serialization - Type-aware serialization of dates, bigints and registered types
    */
-  constructor(prettyPrint: boolean = true, indent: number = 2) {
+  constructor(
+    prettyPrint: boolean = true,
+    indent: number = 2,
+    serialization?: SerializationConfig
+  ) {
     this.prettyPrint = prettyPrint;
     this.indent = indent;
+    this.serializer = new ValueSerializer(serialization);
   }
 
   /**
@@ -42,15 +53,11 @@ export class JsonFormatter {
     try {
       if (isArrayContext) {
         // Format as complete JSON array
-        return this.prettyPrint ? JSON.stringify(data, null, this.indent) : JSON.stringify(data);
+        return this.stringify(data) ?? 'null';
       } else {
         // Format individual items for appending
         // Each item on its own line, no outer array brackets
-        return data
-          .map((item) =>
-            this.prettyPrint ? JSON.stringify(item, null, this.indent) : JSON.stringify(item)
-          )
-          .join('\n');
+        return data.map((item) => this.stringify(item) ?? 'null').join('\n');
       }
     } catch (error) {
       throw new JsonFormattingError(
@@ -59,6 +66,54 @@ export class JsonFormatter {
     }
   }
 
+  /**
+   * Formats items as the elements of a JSON array, without the surrounding brackets.
+   *
+   * Elements are joined with the element separator and, when pretty-printing, indented
+   * one level. Wrapping the result in `arrayOpen()` and `arrayClose()` produces the same
+   * output as `format(data, true)`, which lets writers emit an array incrementally.
+   *
+   * @param data - Items to format as array elements
+   * @returns Formatted array elements
+   * @throws {JsonFormattingError} If data cannot be serialized to JSON
+   */
+  formatElements<T>(data: T[]): string {
+    try {
+      const padding = this.isIndented() ? ' '.repeat(this.indent) : '';
+      return data
+        .map((item) => {
+          const json = this.stringify(item) ?? 'null';
+          return padding ? padding + json.replace(/\n/g, '\n' + padding) : json;
+        })
+        .join(this.elementSeparator());
+    } catch (error) {
+      throw new JsonFormattingError(
+        `Failed to format data as JSON: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Returns the text that opens a JSON array before its first element.
+   */
+  arrayOpen(): string {
+    return this.isIndented() ? '[\n' : '[';
+  }
+
+  /**
+   * Returns the text that closes a JSON array after its last element.
+   */
+  arrayClose(): string {
+    return this.isIndented() ? '\n]' : ']';
+  }
+
+  /**
+   * Returns the text placed between two elements of a JSON array.
+   */
+  elementSeparator(): string {
+    return this.isIndented() ? ',\n' : ',';
+  }
+
   /**
    * Formats a single data item as JSON.
    *
@@ -68,11 +123,26 @@ export class JsonFormatter {
    */
   formatItem<T>(data: T): string {
     try {
-      return this.prettyPrint ? JSON.stringify(data, null, this.indent) : JSON.stringify(data);
+      return this.stringify(data) ?? 'null';
     } catch (error) {
       throw new JsonFormattingError(
         `Failed to format data as JSON: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
+
+  /**
+   * Whether output is spread over multiple lines.
+   * JSON.stringify ignores an indent of 0, so that case is compact as well.
+   */
+  private isIndented(): boolean {
+    return this.prettyPrint && this.indent > 0;
+  }
+
+  /**
+   * Serializes a value using the configured formatting.
+   */
+  private stringify(value: unknown): string | undefined {
+    return this.serializer.stringify(value, this.prettyPrint ? this.indent : undefined);
+  }
 }
@@ -1,9 +1,20 @@
-import type { OutportWriter, WriterOptions, Result, FileWriter } from '../../types.js';
+import type {
+  OutportWriter,
+  WriterOptions,
+  Result,
+  FileWriter,
+  FileSink,
+  RecordSizes,
+} from '../../types.js';
 import { ValidationError, JsonFormattingError } from '../../errors.js';
-import { NodeFileWriter } from '../../io/FileWriter.js';
+import { NodeFileWriter, openFile, truncateFile, truncateFileSync } from '../../io/FileWriter.js';
+import { ColumnSchemaMapper } from '../ColumnSchemaMapper.js';
+import {
+  CompressingFileWriter,
+  stripCompressionExtension,
+} from '../../io/CompressingFileWriter.js';
 import { JsonFormatter } from './JsonFormatter.js';
-import * as fs from 'node:fs';
-import * as fsPromises from 'node:fs/promises';
+import { locateArrayTail, locateArrayTailSync } from './locateArrayTail.js';
 
 /**
  * JSON Writer for exporting data to JSON files.
@@ -14,6 +25,10 @@ import * as fsPromises from 'node:fs/promises';
  * The writer handles JSON formatting and file I/O, following SOLID principles
  * by delegating formatting concerns to the JsonFormatter class.
  *
+ * Records are not kept in memory. The file always holds a complete JSON array,
+ * and appends reopen it by seeking to the closing bracket, so each call only
+ * writes the new items regardless of how large the file has grown.
+ *
  * @template T - The type of data objects being written. Must extend Record<string, unknown>
  *
  * @example
@@ -51,8 +66,12 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
   private readonly formatter: JsonFormatter;
   private readonly fileWriter: FileWriter;
   private readonly includeUtf8Bom: boolean;
-  private dataArray: T[] = [];
-  private isInitialized: boolean = false;
+  private readonly schemaMapper?: ColumnSchemaMapper<T>;
+  private firstKeys?: string[];
+  private tailOffset: number | null = null;
+  private isEmpty: boolean = true;
+  private sink: FileSink | null = null;
+  private sinkHasArray: boolean = false;
 
   /**
    * Creates a new JSON writer instance.
@@ -76,14 +95,20 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
     fileWriter: FileWriter = new NodeFileWriter()
   ) {
     this.validate(options);
-    this.fileWriter = fileWriter;
+    this.fileWriter = options.compression
+      ? new CompressingFileWriter(options.compression, fileWriter)
+      : fileWriter;
 
     // Initialize formatter with config
     const prettyPrint = options.config?.prettyPrint ?? true;
     const indent = options.config?.indent ?? 2;
-    this.formatter = new JsonFormatter(prettyPrint, indent);
+    this.formatter = new JsonFormatter(prettyPrint, indent, options.serialization);
 
     this.includeUtf8Bom = options.config?.includeUtf8Bom ?? false;
+
+    if (options.config?.schema) {
+      this.schemaMapper = new ColumnSchemaMapper<T>(options.config.schema);
+    }
   }
 
   /**
@@ -98,10 +123,15 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
       throw new ValidationError('File path must be provided for JsonWriter');
     }
 
-    if (!options.file.endsWith('.json')) {
+    if (!stripCompressionExtension(options.file, options.compression).endsWith('.json')) {
       throw new ValidationError('File extension must be .json for JsonWriter');
     }
 
+    // Reopening an existing array needs to seek within the file, which compression prevents
+    if (options.compression && options.mode === 'append') {
+      throw new ValidationError('Append mode is not supported for compressed JSON files');
+    }
+
     const indent = options.config?.indent ?? 2;
     if (indent < 0 || indent > 10) {
       throw new ValidationError('Indent must be between 0 and 10');
@@ -109,96 +139,245 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
   }
 
   /**
-   * Loads existing data from file if it exists and is in append mode
+   * Formats data as array elements, applying the column schema if configured
+   */
+  private formatElements(data: T[]): string {
+    const mapper = this.schemaMapper;
+    if (data[0]) {
+      this.firstKeys ??= Object.keys(data[0]);
+    }
+    return this.formatter.formatElements(
+      mapper ? data.map((record) => mapper.toObject(record)) : data
+    );
+  }
+
+  /**
+   * Formats data as a complete JSON array (with BOM if configured)
+   */
+  private formatArray(data: T[]): string {
+    const json =
+      this.formatter.arrayOpen() + this.formatElements(data) + this.formatter.arrayClose();
+    return this.includeUtf8Bom ? '\uFEFF' + json : json;
+  }
+
+  /**
+   * Formats data to be spliced in at the array tail, including the closing bracket
+   */
+  private formatContinuation(data: T[]): string {
+    return this.continuationPrefix() + this.formatElements(data) + this.formatter.arrayClose();
+  }
+
+  /**
+   * Returns the text that precedes new elements added to an existing array
+   */
+  private continuationPrefix(): string {
+    // An empty array continues straight after its opening bracket
+    return this.isEmpty ? this.formatter.arrayOpen().slice(1) : this.formatter.elementSeparator();
+  }
+
+  /**
+   * Records where the closing bracket starts after writing content that ends the file
+   */
+  private markTail(endOffset: number): void {
+    this.tailOffset = endOffset - Buffer.byteLength(this.formatter.arrayClose(), 'utf-8');
+    this.isEmpty = false;
+  }
+
+  /**
+   * Wraps unexpected errors as JsonFormattingError
    */
-  private loadExistingDataSync(): Result<void> {
-    if (this.options.mode === 'append' && this.fileWriter.existsSync(this.options.file)) {
-      try {
-        const content: string = fs.readFileSync(this.options.file, 'utf-8');
-        // Remove BOM if present
-        const cleanContent: string = content.replace(/^\uFEFF/, '');
-        if (cleanContent.trim()) {
-          const parsed: unknown = JSON.parse(cleanContent);
-          this.dataArray = Array.isArray(parsed) ? (parsed as T[]) : [parsed as T];
-        }
-        return { success: true, value: undefined };
-      } catch (error) {
-        return {
-          success: false,
-          error: new JsonFormattingError(
-            `Failed to parse existing JSON file: ${error instanceof Error ? error.message : String(error)}`
-          ),
-        };
+  private toFailure<V = void>(error: unknown): Result<V> {
+    return {
+      success: false,
+      error:
+        error instanceof JsonFormattingError
+          ? error
+          : new JsonFormattingError(error instanceof Error ? error.message : String(error)),
+    };
+  }
+
+  /**
+   * Overwrites the file with a new array containing only the given data (sync)
+   */
+  private writeArraySync(data: T[]): Result<void> {
+    try {
+      const content = this.formatArray(data);
+      const result = this.fileWriter.writeSync(this.options.file, content);
+      if (result.success) {
+        this.markTail(Buffer.byteLength(content, 'utf-8'));
       }
+      return result;
+    } catch (error) {
+      return this.toFailure(error);
     }
-    return { success: true, value: undefined };
   }
 
   /**
-   * Loads existing data from file if it exists and is in append mode
+   * Overwrites the file with a new array containing only the given data (async)
    */
-  private async loadExistingData(): Promise<Result<void>> {
-    if (this.options.mode === 'append') {
-      const exists = await this.fileWriter.exists(this.options.file);
-      if (exists) {
-        try {
-          const content: string = await fsPromises.readFile(this.options.file, 'utf-8');
-          // Remove BOM if present
-          const cleanContent: string = content.replace(/^\uFEFF/, '');
-          if (cleanContent.trim()) {
-            const parsed: unknown = JSON.parse(cleanContent);
-            this.dataArray = Array.isArray(parsed) ? (parsed as T[]) : [parsed as T];
-          }
-          return { success: true, value: undefined };
-        } catch (error) {
-          return {
-            success: false,
-            error: new JsonFormattingError(
-              `Failed to parse existing JSON file: ${error instanceof Error ? error.message : String(error)}`
-            ),
-          };
-        }
+  private async writeArray(data: T[]): Promise<Result<void>> {
+    try {
+      const content = this.formatArray(data);
+      const result = await this.fileWriter.write(this.options.file, content);
+      if (result.success) {
+        this.markTail(Buffer.byteLength(content, 'utf-8'));
       }
+      return result;
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Locates the array tail of the file written so far, or of an existing file
+   * in append mode (sync). Returns false when a new array must be started.
+   */
+  private resolveTailSync(): Result<boolean> {
+    if (this.tailOffset !== null) {
+      return { success: true, value: true };
+    }
+
+    if (this.options.mode !== 'append' || !this.fileWriter.existsSync(this.options.file)) {
+      return { success: true, value: false };
+    }
+
+    const located = locateArrayTailSync(this.options.file);
+    if (!located.success) {
+      return located;
+    }
+    if (located.value === null) {
+      return { success: true, value: false };
+    }
+
+    this.tailOffset = located.value.offset;
+    this.isEmpty = located.value.isEmpty;
+    return { success: true, value: true };
+  }
+
+  /**
+   * Locates the array tail of the file written so far, or of an existing file
+   * in append mode (async). Returns false when a new array must be started.
+   */
+  private async resolveTail(): Promise<Result<boolean>> {
+    if (this.tailOffset !== null) {
+      return { success: true, value: true };
+    }
+
+    if (this.options.mode !== 'append' || !(await this.fileWriter.exists(this.options.file))) {
+      return { success: true, value: false };
+    }
+
+    const located = await locateArrayTail(this.options.file);
+    if (!located.success) {
+      return located;
+    }
+    if (located.value === null) {
+      return { success: true, value: false };
+    }
+
+    this.tailOffset = located.value.offset;
+    this.isEmpty = located.value.isEmpty;
+    return { success: true, value: true };
+  }
+
+  /**
+   * Adds data to the end of the array by replacing its closing bracket (sync)
+   */
+  private appendElementsSync(data: T[]): Result<void> {
+    const tail = this.resolveTailSync();
+    if (!tail.success) {
+      return tail;
+    }
+    if (!tail.value) {
+      return this.writeArraySync(data);
+    }
+
+    try {
+      const tailOffset = this.tailOffset!;
+      const content = this.formatContinuation(data);
+
+      const truncateResult = truncateFileSync(this.fileWriter, this.options.file, tailOffset);
+      if (!truncateResult.success) {
+        return truncateResult;
+      }
+
+      const result = this.fileWriter.appendSync(this.options.file, content);
+      if (result.success) {
+        this.markTail(tailOffset + Buffer.byteLength(content, 'utf-8'));
+      }
+      return result;
+    } catch (error) {
+      return this.toFailure(error);
     }
-    return { success: true, value: undefined };
   }
 
   /**
-   * Writes the complete data array to file (sync)
+   * Adds data to the end of the array by replacing its closing bracket (async)
    */
-  private writeDataSync(): Result<void> {
+  private async appendElements(data: T[]): Promise<Result<void>> {
+    const tail = await this.resolveTail();
+    if (!tail.success) {
+      return tail;
+    }
+    if (!tail.value) {
+      return await this.writeArray(data);
+    }
+
     try {
-      const json = this.formatter.format(this.dataArray, true);
-      const content = this.includeUtf8Bom ? '\uFEFF' + json : json;
-      return this.fileWriter.writeSync(this.options.file, content);
+      const tailOffset = this.tailOffset!;
+      const content = this.formatContinuation(data);
+
+      const truncateResult = await truncateFile(this.fileWriter, this.options.file, tailOffset);
+      if (!truncateResult.success) {
+        return truncateResult;
+      }
+
+      const result = await this.fileWriter.append(this.options.file, content);
+      if (result.success) {
+        this.markTail(tailOffset + Buffer.byteLength(content, 'utf-8'));
+      }
+      return result;
     } catch (error) {
-      return {
-        success: false,
-        error:
-          error instanceof JsonFormattingError
-            ? error
-            : new JsonFormattingError(error instanceof Error ? error.message : String(error)),
-      };
+      return this.toFailure(error);
     }
   }
 
   /**
-   * Writes the complete data array to file (async)
+   * Writes data to the open handle, leaving the array open until close()
    */
-  private async writeData(): Promise<Result<void>> {
+  private async writeElementsToSink(sink: FileSink, data: T[]): Promise<Result<void>> {
     try {
-      const json = this.formatter.format(this.dataArray, true);
-      const content = this.includeUtf8Bom ? '\uFEFF' + json : json;
-      return await this.fileWriter.write(this.options.file, content);
+      const elements = this.formatElements(data);
+      let content: string;
+      if (this.sinkHasArray) {
+        content = this.continuationPrefix() + elements;
+      } else {
+        const open = this.formatter.arrayOpen() + elements;
+        content = this.includeUtf8Bom ? '\uFEFF' + open : open;
+      }
+
+      const result = await sink.write(content);
+      if (result.success) {
+        this.sinkHasArray = true;
+        this.isEmpty = false;
+      }
+      return result;
     } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Returns an error if the writer is open, since the open handle is async-only
+   */
+  private checkNotOpen(): Result<void> {
+    if (this.sink) {
       return {
         success: false,
-        error:
-          error instanceof JsonFormattingError
-            ? error
-            : new JsonFormattingError(error instanceof Error ? error.message : String(error)),
+        error: new ValidationError('Synchronous methods cannot be used while the writer is open'),
       };
     }
+    return { success: true, value: undefined };
   }
 
   // ==================== PUBLIC API ====================
@@ -227,6 +406,11 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
    * ```
    */
   writeSync(data: T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+
     if (data.length === 0) {
       return {
         success: false,
@@ -235,22 +419,12 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
     }
 
     if (this.options.mode === 'write') {
-      // In write mode, replace all data
-      this.dataArray = [...data];
-      this.isInitialized = true;
-      return this.writeDataSync();
-    } else {
-      // In append mode, load existing data first if not initialized
-      if (!this.isInitialized) {
-        const loadResult = this.loadExistingDataSync();
-        if (!loadResult.success) {
-          return loadResult;
-        }
-        this.isInitialized = true;
-      }
-      this.dataArray.push(...data);
-      return this.writeDataSync();
+      // In write mode, replace the file with a new array
+      return this.writeArraySync(data);
     }
+
+    // In append mode, add to the array already in the file
+    return this.appendElementsSync(data);
   }
 
   /**
@@ -282,30 +456,25 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
       };
     }
 
+    if (this.sink) {
+      return await this.writeElementsToSink(this.sink, data);
+    }
+
     if (this.options.mode === 'write') {
-      // In write mode, replace all data
-      this.dataArray = [...data];
-      this.isInitialized = true;
-      return await this.writeData();
-    } else {
-      // In append mode, load existing data first if not initialized
-      if (!this.isInitialized) {
-        const loadResult = await this.loadExistingData();
-        if (!loadResult.success) {
-          return loadResult;
-        }
-        this.isInitialized = true;
-      }
-      this.dataArray.push(...data);
-      return await this.writeData();
+      // In write mode, replace the file with a new array
+      return await this.writeArray(data);
     }
+
+    // In append mode, add to the array already in the file
+    return await this.appendElements(data);
   }
 
   /**
    * Synchronously appends one or more rows to the file.
    *
-   * Loads the existing JSON array from the file, adds new items, and writes
-   * the complete array back. If the file doesn't exist, creates a new array.
+   * Replaces the closing bracket of the JSON array in the file with the new
+   * items, so only the new items are written. If the file doesn't exist,
+   * creates a new array.
    *
    * @param data - Single data object or array of objects to append
    * @returns Result indicating success or failure
@@ -326,30 +495,26 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
    * ```
    */
   appendSync(data: T | T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+
     const dataArray = Array.isArray(data) ? data : [data];
 
     if (dataArray.length === 0) {
       return { success: true, value: undefined };
     }
 
-    // Load existing data if not initialized
-    if (!this.isInitialized) {
-      const loadResult = this.loadExistingDataSync();
-      if (!loadResult.success) {
-        return loadResult;
-      }
-      this.isInitialized = true;
-    }
-
-    this.dataArray.push(...dataArray);
-    return this.writeDataSync();
+    return this.appendElementsSync(dataArray);
   }
 
   /**
    * Asynchronously appends one or more rows to the file.
    *
-   * Loads the existing JSON array from the file, adds new items, and writes
-   * the complete array back. If the file doesn't exist, creates a new array.
+   * Replaces the closing bracket of the JSON array in the file with the new
+   * items, so only the new items are written. If the file doesn't exist,
+   * creates a new array.
    *
    * Useful for streaming large datasets or processing async generators.
    *
@@ -371,16 +536,149 @@ export class JsonWriter<T extends Record<string, unknown>> implements OutportWri
       return { success: true, value: undefined };
     }
 
-    // Load existing data if not initialized
-    if (!this.isInitialized) {
-      const loadResult = await this.loadExistingData();
-      if (!loadResult.success) {
-        return loadResult;
+    if (this.sink) {
+      return await this.writeElementsToSink(this.sink, dataArray);
+    }
+
+    return await this.appendElements(dataArray);
+  }
+
+  /**
+   * Gets the columns of the rows written so far.
+   *
+   * @returns The column headers, or undefined if no rows have been written yet
+   */
+  getColumns(): string[] | undefined {
+    return this.schemaMapper?.getHeaders() ?? this.firstKeys;
+  }
+
+  /**
+   * Measures the bytes that writing records to the open file would add.
+   *
+   * The first record includes the opening bracket (and BOM) when the array
+   * has not been started yet, and every other record its separator.
+   *
+   * @param data - Records in the order they would be written
+   * @returns Result with the size of each element and of the closing bracket
+   */
+  measure(data: T[]): Result<RecordSizes> {
+    try {
+      const mapper = this.schemaMapper;
+      const opening = this.sinkHasArray
+        ? this.continuationPrefix()
+        : (this.includeUtf8Bom ? '\uFEFF' : '') + this.formatter.arrayOpen();
+      const records = data.map((record, index) =>
+        Buffer.byteLength(
+          (index === 0 ? opening : this.formatter.elementSeparator()) +
+            this.formatter.formatElements([mapper ? mapper.toObject(record) : record]),
+          'utf-8'
+        )
+      );
+      return {
+        success: true,
+        value: { records, footer: Buffer.byteLength(this.formatter.arrayClose(), 'utf-8') },
+      };
+    } catch (error) {
+      return this.toFailure(error);
+    }
+  }
+
+  /**
+   * Opens a persistent handle to the file for subsequent async writes.
+   *
+   * While open, the JSON array is left open: each write() or append() call only
+   * adds elements, and the closing bracket is written by close(). In 'write'
+   * mode the file is truncated now; in 'append' mode an existing array is
+   * reopened at its closing bracket.
+   *
+   * @returns Promise of Result indicating success or failure
+   *
+   * @example
+   * ```typescript
+   * await writer.open();
+   * for await (const batch of batches) {
+   *   await writer.append(batch);
+   * }
+   * await writer.close(); // writes the closing bracket
+   * ```
+   */
+  async open(): Promise<Result<void>> {
+    if (this.sink) {
+      return { success: true, value: undefined };
+    }
+
+    let reopen = false;
+    if (this.options.mode === 'append') {
+      const tail = await this.resolveTail();
+      if (!tail.success) {
+        return tail;
+      }
+      reopen = tail.value;
+    }
+
+    if (reopen) {
+      const truncateResult = await truncateFile(
+        this.fileWriter,
+        this.options.file,
+        this.tailOffset!
+      );
+      if (!truncateResult.success) {
+        return truncateResult;
       }
-      this.isInitialized = true;
+    } else {
+      this.isEmpty = true;
+    }
+
+    const result = await openFile(this.fileWriter, this.options.file, reopen ? 'append' : 'write');
+    if (!result.success) {
+      return result;
     }
 
-    this.dataArray.push(...dataArray);
-    return await this.writeData();
+    this.sink = result.value;
+    this.sinkHasArray = reopen;
+    this.tailOffset = null;
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Closes the JSON array and releases the handle opened by open().
+   *
+   * If nothing was written while open, an empty array is written so the file
+   * is always valid JSON. Does nothing if the writer is not open.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  async close(): Promise<Result<void>> {
+    if (!this.sink) {
+      return { success: true, value: undefined };
+    }
+
+    const sink = this.sink;
+    let footer: string;
+    if (!this.sinkHasArray) {
+      footer = this.includeUtf8Bom ? '\uFEFF[]' : '[]';
+    } else {
+      footer = this.isEmpty ? ']' : this.formatter.arrayClose();
+    }
+
+    this.sink = null;
+    this.sinkHasArray = false;
+    this.isEmpty = true;
+
+    const footerResult = await sink.write(footer);
+    const closeResult = await sink.close();
+    return footerResult.success ? closeResult : footerResult;
+  }
+
+  /**
+   * Closes the writer when used with `await using`.
+   *
+   * @throws {Error} If finalizing or closing the file fails
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    const result = await this.close();
+    if (!result.success) {
+      throw result.error;
+    }
   }
 }
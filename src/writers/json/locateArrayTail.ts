@@ -0,0 +1,193 @@
+import * as fs from 'node:fs';
+import * as fsPromises from 'node:fs/promises';
+import type { Result } from '../../types.js';
+import { JsonFormattingError } from '../../errors.js';
+
+/**
+ * Position of the closing bracket of a JSON array stored in a file.
+ */
+export interface ArrayTail {
+  /** Byte offset just past the last element (or the opening bracket when empty) */
+  offset: number;
+
+  /** Whether the array has no elements */
+  isEmpty: boolean;
+}
+
+const CHUNK_SIZE = 4096;
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+const CLOSE_BRACKET = 0x5d;
+const OPEN_BRACKET = 0x5b;
+
+/**
+ * Returns true for the JSON insignificant whitespace bytes.
+ */
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d;
+}
+
+/**
+ * Scans a chunk backwards for the last non-whitespace byte.
+ *
+ * @returns Absolute offset of the byte, or -1 if the chunk is all whitespace
+ */
+function lastSignificant(chunk: Buffer, length: number, chunkStart: number): number {
+  for (let i = length - 1; i >= 0; i--) {
+    if (!isWhitespace(chunk[i]!)) {
+      return chunkStart + i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Turns the offsets of the last two significant bytes into an ArrayTail.
+ */
+function toArrayTail(
+  closeOffset: number,
+  closeByte: number,
+  prevOffset: number,
+  prevByte: number | undefined
+): Result<ArrayTail | null> {
+  if (closeOffset === -1) {
+    return { success: true, value: null };
+  }
+
+  if (closeByte !== CLOSE_BRACKET || prevOffset === -1) {
+    return {
+      success: false,
+      error: new JsonFormattingError(
+        'Failed to parse existing JSON file: expected the file to contain a JSON array'
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    value: { offset: prevOffset + 1, isEmpty: prevByte === OPEN_BRACKET },
+  };
+}
+
+/**
+ * Synchronously locates the closing bracket of the JSON array in a file.
+ *
+ * Only the end of the file is read, so the cost does not grow with the size of
+ * the array. The rest of the file is trusted to be a well-formed JSON array.
+ *
+ * @param path - Path of the existing JSON file
+ * @returns The array tail, or null when the file has no content
+ */
+export function locateArrayTailSync(path: string): Result<ArrayTail | null> {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(path, 'r');
+    const size = fs.fstatSync(fd).size;
+    const chunk = Buffer.alloc(CHUNK_SIZE);
+
+    const headLength = fs.readSync(fd, chunk, 0, Math.min(size, UTF8_BOM.length), 0);
+    const start = hasBom(chunk, headLength) ? UTF8_BOM.length : 0;
+
+    const scan = (end: number): number => {
+      while (end > start) {
+        const chunkStart = Math.max(start, end - CHUNK_SIZE);
+        const length = fs.readSync(fd!, chunk, 0, end - chunkStart, chunkStart);
+        const found = lastSignificant(chunk, length, chunkStart);
+        if (found !== -1) {
+          return found;
+        }
+        end = chunkStart;
+      }
+      return -1;
+    };
+
+    const readByte = (offset: number): number => {
+      fs.readSync(fd!, chunk, 0, 1, offset);
+      return chunk[0]!;
+    };
+
+    const closeOffset = scan(size);
+    if (closeOffset === -1) {
+      return toArrayTail(-1, 0, -1, undefined);
+    }
+    const closeByte = readByte(closeOffset);
+    const prevOffset = scan(closeOffset);
+    const prevByte = prevOffset === -1 ? undefined : readByte(prevOffset);
+    return toArrayTail(closeOffset, closeByte, prevOffset, prevByte);
+  } catch (error) {
+    return {
+      success: false,
+      error: new JsonFormattingError(
+        `Failed to parse existing JSON file: ${error instanceof Error ? error.message : String(error)}`
+      ),
+    };
+  } finally {
+    if (fd !== undefined) {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+/**
+ * Asynchronously locates the closing bracket of the JSON array in a file.
+ *
+ * Only the end of the file is read, so the cost does not grow with the size of
+ * the array. The rest of the file is trusted to be a well-formed JSON array.
+ *
+ * @param path - Path of the existing JSON file
+ * @returns Promise of the array tail, or null when the file has no content
+ */
+export async function locateArrayTail(path: string): Promise<Result<ArrayTail | null>> {
+  let handle: fsPromises.FileHandle | undefined;
+  try {
+    handle = await fsPromises.open(path, 'r');
+    const fileHandle = handle;
+    const size = (await fileHandle.stat()).size;
+    const chunk = Buffer.alloc(CHUNK_SIZE);
+
+    const head = await fileHandle.read(chunk, 0, Math.min(size, UTF8_BOM.length), 0);
+    const start = hasBom(chunk, head.bytesRead) ? UTF8_BOM.length : 0;
+
+    const scan = async (end: number): Promise<number> => {
+      while (end > start) {
+        const chunkStart = Math.max(start, end - CHUNK_SIZE);
+        const { bytesRead } = await fileHandle.read(chunk, 0, end - chunkStart, chunkStart);
+        const found = lastSignificant(chunk, bytesRead, chunkStart);
+        if (found !== -1) {
+          return found;
+        }
+        end = chunkStart;
+      }
+      return -1;
+    };
+
+    const readByte = async (offset: number): Promise<number> => {
+      await fileHandle.read(chunk, 0, 1, offset);
+      return chunk[0]!;
+    };
+
+    const closeOffset = await scan(size);
+    if (closeOffset === -1) {
+      return toArrayTail(-1, 0, -1, undefined);
+    }
+    const closeByte = await readByte(closeOffset);
+    const prevOffset = await scan(closeOffset);
+    const prevByte = prevOffset === -1 ? undefined : await readByte(prevOffset);
+    return toArrayTail(closeOffset, closeByte, prevOffset, prevByte);
+  } catch (error) {
+    return {
+      success: false,
+      error: new JsonFormattingError(
+        `Failed to parse existing JSON file: ${error instanceof Error ? error.message : String(error)}`
+      ),
+    };
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Checks whether a buffer starts with the UTF-8 byte order mark.
+ */
+function hasBom(buffer: Buffer, length: number): boolean {
+  return length >= UTF8_BOM.length && UTF8_BOM.every((byte, i) => buffer[i] === byte);
+}
@@ -0,0 +1,335 @@
+import type {
+  OutportWriter,
+  WriterOptions,
+  Result,
+  FileWriter,
+  FileSink,
+  RecordSizes,
+} from '../../types.js';
+import { ValidationError, JsonFormattingError } from '../../errors.js';
+import { NodeFileWriter, openFile } from '../../io/FileWriter.js';
+import { ColumnSchemaMapper } from '../ColumnSchemaMapper.js';
+import {
+  CompressingFileWriter,
+  stripCompressionExtension,
+} from '../../io/CompressingFileWriter.js';
+import { JsonFormatter } from '../json/JsonFormatter.js';
+
+/**
+ * JSON Lines (NDJSON) Writer for exporting data to `.jsonl` or `.ndjson` files.
+ *
+ * Each record is written as compact JSON on its own line, terminated by a newline.
+ * Because every line stands on its own, appending is a plain file append and the
+ * output can be consumed line by line by log pipelines and bulk loaders.
+ *
+ * @template T - The type of data objects being written. Must extend Record<string, unknown>
+ *
+ * @example
+ * ```typescript
+ * const writer = new JsonlWriter<User>({
+ *   type: 'jsonl',
+ *   mode: 'write',
+ *   file: './users.jsonl'
+ * });
+ *
+ * await writer.write([
+ *   { id: 1, name: 'Alice' },
+ *   { id: 2, name: 'Bob' }
+ * ]);
+ * // {"id":1,"name":"Alice"}
+ * // {"id":2,"name":"Bob"}
+ *
+ * await writer.append({ id: 3, name: 'Charlie' });
+ * ```
+ */
+export class JsonlWriter<T extends Record<string, unknown>> implements OutportWriter<T> {
+  private readonly formatter: JsonFormatter;
+  private readonly fileWriter: FileWriter;
+  private readonly schemaMapper?: ColumnSchemaMapper<T>;
+  private firstKeys?: string[];
+  private sink: FileSink | null = null;
+
+  /**
+   * Creates a new JSON Lines writer instance.
+   *
+   * @param options - Configuration options for the JSON Lines writer
+   * @param fileWriter - Optional custom file writer for dependency injection (useful for testing)
+   *
+   * @throws {ValidationError} If configuration is invalid (e.g., non-jsonl type, empty file path)
+   */
+  constructor(
+    private readonly options: WriterOptions<T> & { type: 'jsonl' },
+    fileWriter: FileWriter = new NodeFileWriter()
+  ) {
+    this.validate(options);
+    this.fileWriter = options.compression
+      ? new CompressingFileWriter(options.compression, fileWriter)
+      : fileWriter;
+    this.formatter = new JsonFormatter(false, 2, options.serialization);
+
+    if (options.config?.schema) {
+      this.schemaMapper = new ColumnSchemaMapper<T>(options.config.schema);
+    }
+  }
+
+  /**
+   * Validates writer options
+   */
+  private validate(options: WriterOptions<T>): void {
+    if (options.type !== 'jsonl') {
+      throw new ValidationError('Invalid writer type for JsonlWriter');
+    }
+
+    if (options.file == null || options.file.length === 0) {
+      throw new ValidationError('File path must be provided for JsonlWriter');
+    }
+
+    const file = stripCompressionExtension(options.file, options.compression);
+    if (!file.endsWith('.jsonl') && !file.endsWith('.ndjson')) {
+      throw new ValidationError('File extension must be .jsonl or .ndjson for JsonlWriter');
+    }
+  }
+
+  /**
+   * Formats data as newline-terminated JSON lines, applying the column schema if configured
+   */
+  private formatLines(data: T[]): Result<string> {
+    try {
+      const mapper = this.schemaMapper;
+      if (data[0]) {
+        this.firstKeys ??= Object.keys(data[0]);
+      }
+      const records = mapper ? data.map((record) => mapper.toObject(record)) : data;
+      return { success: true, value: this.formatter.format(records, false) + '\n' };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof JsonFormattingError
+            ? error
+            : new JsonFormattingError(error instanceof Error ? error.message : String(error)),
+      };
+    }
+  }
+
+  /**
+   * Returns an error if the writer is open, since the open handle is async-only
+   */
+  private checkNotOpen(): Result<void> {
+    if (this.sink) {
+      return {
+        success: false,
+        error: new ValidationError('Synchronous methods cannot be used while the writer is open'),
+      };
+    }
+    return { success: true, value: undefined };
+  }
+
+  // ==================== PUBLIC API ====================
+
+  /**
+   * Synchronously writes multiple records to the file, one per line.
+   *
+   * In 'write' mode, this overwrites the file. In 'append' mode, this adds
+   * the lines to the end of the file.
+   *
+   * @param data - Array of data objects to write
+   * @returns Result indicating success or failure
+   */
+  writeSync(data: T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+
+    if (data.length === 0) {
+      return {
+        success: false,
+        error: new ValidationError('Cannot write empty data array'),
+      };
+    }
+
+    const lines = this.formatLines(data);
+    if (!lines.success) {
+      return lines;
+    }
+
+    return this.options.mode === 'write'
+      ? this.fileWriter.writeSync(this.options.file, lines.value)
+      : this.fileWriter.appendSync(this.options.file, lines.value);
+  }
+
+  /**
+   * Asynchronously writes multiple records to the file, one per line.
+   *
+   * In 'write' mode, this overwrites the file. In 'append' mode, this adds
+   * the lines to the end of the file.
+   *
+   * @param data - Array of data objects to write
+   * @returns Promise of Result indicating success or failure
+   */
+  async write(data: T[]): Promise<Result<void>> {
+    if (data.length === 0) {
+      return {
+        success: false,
+        error: new ValidationError('Cannot write empty data array'),
+      };
+    }
+
+    const lines = this.formatLines(data);
+    if (!lines.success) {
+      return lines;
+    }
+
+    if (this.sink) {
+      return await this.sink.write(lines.value);
+    }
+
+    return this.options.mode === 'write'
+      ? await this.fileWriter.write(this.options.file, lines.value)
+      : await this.fileWriter.append(this.options.file, lines.value);
+  }
+
+  /**
+   * Synchronously appends one or more records to the end of the file.
+   *
+   * Creates the file if it doesn't exist. Appending an empty array is a no-op.
+   *
+   * @param data - Single data object or array of objects to append
+   * @returns Result indicating success or failure
+   */
+  appendSync(data: T | T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+
+    const dataArray = Array.isArray(data) ? data : [data];
+
+    if (dataArray.length === 0) {
+      return { success: true, value: undefined };
+    }
+
+    const lines = this.formatLines(dataArray);
+    if (!lines.success) {
+      return lines;
+    }
+
+    return this.fileWriter.appendSync(this.options.file, lines.value);
+  }
+
+  /**
+   * Asynchronously appends one or more records to the end of the file.
+   *
+   * Creates the file if it doesn't exist. Appending an empty array is a no-op.
+   *
+   * @param data - Single data object or array of objects to append
+   * @returns Promise of Result indicating success or failure
+   */
+  async append(data: T | T[]): Promise<Result<void>> {
+    const dataArray = Array.isArray(data) ? data : [data];
+
+    if (dataArray.length === 0) {
+      return { success: true, value: undefined };
+    }
+
+    const lines = this.formatLines(dataArray);
+    if (!lines.success) {
+      return lines;
+    }
+
+    if (this.sink) {
+      return await this.sink.write(lines.value);
+    }
+
+    return await this.fileWriter.append(this.options.file, lines.value);
+  }
+
+  /**
+   * Gets the columns of the rows written so far.
+   *
+   * @returns The column headers, or undefined if no rows have been written yet
+   */
+  getColumns(): string[] | undefined {
+    return this.schemaMapper?.getHeaders() ?? this.firstKeys;
+  }
+
+  /**
+   * Measures the bytes that writing records would add, one line each.
+   *
+   * @param data - Records in the order they would be written
+   * @returns Result with the size of each line and a footer of 0 bytes
+   */
+  measure(data: T[]): Result<RecordSizes> {
+    try {
+      const mapper = this.schemaMapper;
+      const records = data.map(
+        (record) =>
+          Buffer.byteLength(
+            this.formatter.format([mapper ? mapper.toObject(record) : record], false),
+            'utf-8'
+          ) + 1
+      );
+      return { success: true, value: { records, footer: 0 } };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof JsonFormattingError
+            ? error
+            : new JsonFormattingError(error instanceof Error ? error.message : String(error)),
+      };
+    }
+  }
+
+  /**
+   * Opens a persistent handle to the file for subsequent async writes.
+   *
+   * In 'write' mode the file is truncated now, and every write() or append()
+   * call adds lines after the previous ones.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  async open(): Promise<Result<void>> {
+    if (this.sink) {
+      return { success: true, value: undefined };
+    }
+
+    const result = await openFile(this.fileWriter, this.options.file, this.options.mode);
+    if (!result.success) {
+      return result;
+    }
+
+    this.sink = result.value;
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Closes the handle opened by open().
+   *
+   * Does nothing if the writer is not open.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  async close(): Promise<Result<void>> {
+    if (!this.sink) {
+      return { success: true, value: undefined };
+    }
+
+    const sink = this.sink;
+    this.sink = null;
+    return await sink.close();
+  }
+
+  /**
+   * Closes the writer when used with `await using`.
+   *
+   * @throws {Error} If closing the file fails
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    const result = await this.close();
+    if (!result.success) {
+      throw result.error;
+    }
+  }
+}
@@ -0,0 +1,266 @@
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 86_400_000;
+
+// Indexes into cellXfs in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATETIME = 3;
+
+// Characters that are not allowed anywhere in an XML 1.0 document
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Most characters Excel keeps in a cell
+ */
+export const MAX_CELL_LENGTH = 32_767;
+
+/**
+ * Handles XLSX formatting logic - converting values to typed SpreadsheetML cells
+ * and producing the XML parts of a workbook package.
+ *
+ * Numbers, booleans and dates become typed cells. Strings are written as inline
+ * strings, so values such as zip codes keep their leading zeros. Text longer
+ * than Excel's 32,767 characters per cell throws rather than being truncated.
+ */
+export class XlsxFormatter {
+  /**
+   * Formats the header row, styled bold
+   */
+  formatHeaderRow(headers: string[], rowNumber: number): string {
+    const cells = headers.map(
+      (header, index) =>
+        `<c r="${cellReference(index, rowNumber)}" s="${STYLE_HEADER}" t="inlineStr">` +
+        `<is><t xml:space="preserve">${escapeXml(header)}</t></is></c>`
+    );
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+  }
+
+  /**
+   * Formats a data row as typed cells. Null and undefined values leave the cell empty.
+   */
+  formatRow(values: unknown[], rowNumber: number): string {
+    const cells = values.map((value, index) =>
+      this.formatCell(value, cellReference(index, rowNumber))
+    );
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+  }
+
+  /**
+   * Formats the start of a worksheet part, up to and including `<sheetData>`
+   */
+  sheetOpen(freezeHeader: boolean): string {
+    const pane = freezeHeader
+      ? '<sheetViews><sheetView workbookViewId="0">' +
+        '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+        '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' +
+        '</sheetView></sheetViews>'
+      : '';
+    return (
+      XML_DECLARATION +
+      `<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">${pane}<sheetData>`
+    );
+  }
+
+  /**
+   * Formats the end of a worksheet part
+   */
+  sheetClose(): string {
+    return '</sheetData></worksheet>';
+  }
+
+  /**
+   * Formats [Content_Types].xml for a workbook with the given number of sheets
+   */
+  contentTypes(sheetCount: number): string {
+    const sheets = range(sheetCount)
+      .map(
+        (index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ` +
+          'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      )
+      .join('');
+    return (
+      XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets +
+      '</Types>'
+    );
+  }
+
+  /**
+   * Formats the package relationships (_rels/.rels)
+   */
+  packageRelationships(): string {
+    return (
+      XML_DECLARATION +
+      `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      '<Relationship Id="rId1" ' +
+      'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" ' +
+      'Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    );
+  }
+
+  /**
+   * Formats xl/workbook.xml listing the sheets in order
+   */
+  workbook(sheetNames: string[]): string {
+    const sheets = sheetNames
+      .map(
+        (name, index) =>
+          `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      )
+      .join('');
+    return (
+      XML_DECLARATION +
+      `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+      `<sheets>${sheets}</sheets>` +
+      '</workbook>'
+    );
+  }
+
+  /**
+   * Formats xl/_rels/workbook.xml.rels linking the sheets and styles
+   */
+  workbookRelationships(sheetCount: number): string {
+    const sheets = range(sheetCount)
+      .map(
+        (index) =>
+          `<Relationship Id="rId${index + 1}" ` +
+          'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" ' +
+          `Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join('');
+    return (
+      XML_DECLARATION +
+      `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      sheets +
+      `<Relationship Id="rId${sheetCount + 1}" ` +
+      'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" ' +
+      'Target="styles.xml"/>' +
+      '</Relationships>'
+    );
+  }
+
+  /**
+   * Formats xl/styles.xml with the default, bold header, date and date-time styles
+   */
+  styles(): string {
+    return (
+      XML_DECLARATION +
+      `<styleSheet xmlns="${SPREADSHEET_NS}">` +
+      '<numFmts count="2">' +
+      '<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+      '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/>' +
+      '</numFmts>' +
+      '<fonts count="2">' +
+      '<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+      '<font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+      '</fonts>' +
+      '<fills count="2">' +
+      '<fill><patternFill patternType="none"/></fill>' +
+      '<fill><patternFill patternType="gray125"/></fill>' +
+      '</fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="4">' +
+      '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+      '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '</cellXfs>' +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>'
+    );
+  }
+
+  /**
+   * Formats a single value as a typed cell
+   */
+  private formatCell(value: unknown, reference: string): string {
+    if (value == null) {
+      return '';
+    }
+
+    if (typeof value === 'number') {
+      return Number.isFinite(value)
+        ? `<c r="${reference}"><v>${value}</v></c>`
+        : inlineStringCell(reference, String(value));
+    }
+
+    if (typeof value === 'boolean') {
+      return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    if (value instanceof Date) {
+      const time = value.getTime();
+      if (Number.isNaN(time)) {
+        return '';
+      }
+      const serial = time / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+      const style = time % MS_PER_DAY === 0 ? STYLE_DATE : STYLE_DATETIME;
+      return `<c r="${reference}" s="${style}"><v>${serial}</v></c>`;
+    }
+
+    if (typeof value === 'string') {
+      return inlineStringCell(reference, value);
+    }
+
+    if (typeof value === 'bigint') {
+      // Kept as text, since Excel numbers lose precision beyond 15 digits
+      return inlineStringCell(reference, value.toString());
+    }
+
+    // For objects, arrays, and other types, use JSON serialization
+    return inlineStringCell(reference, JSON.stringify(value));
+  }
+}
+
+/**
+ * Converts a zero-based column index and one-based row number to an A1 reference
+ */
+function cellReference(columnIndex: number, rowNumber: number): string {
+  let column = '';
+  let index = columnIndex + 1;
+  while (index > 0) {
+    const remainder = (index - 1) % 26;
+    column = String.fromCharCode(65 + remainder) + column;
+    index = Math.floor((index - 1) / 26);
+  }
+  return `${column}${rowNumber}`;
+}
+
+function inlineStringCell(reference: string, text: string): string {
+  if (text.length > MAX_CELL_LENGTH) {
+    throw new Error(
+      `Cell ${reference} has ${text.length} characters, more than Excel's limit of 32,767`
+    );
+  }
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => index);
+}
@@ -0,0 +1,104 @@
+import type { Result, XlsxConfig } from '../../types.js';
+import { XlsxFormattingError } from '../../errors.js';
+import { CsvHeaderManager } from '../csv/CsvHeaderManager.js';
+import type { XlsxFormatter } from './XlsxFormatter.js';
+
+/**
+ * Most rows Excel opens in a sheet, including the header row
+ */
+export const MAX_ROWS = 1_048_576;
+
+/**
+ * Formats the rows of a single worksheet.
+ *
+ * Tracks the columns and the next row number of the sheet, so rows can be
+ * formatted over several batches. The header row is emitted with the first
+ * batch. Columns are selected and named through CsvHeaderManager. A batch
+ * that would take the sheet past Excel's 1,048,576 rows fails as a whole.
+ *
+ * @template T - The type of data objects in the sheet
+ */
+export class XlsxSheet<T extends Record<string, unknown>> {
+  private readonly headerManager: CsvHeaderManager<T>;
+  private nextRow: number = 1;
+
+  /**
+   * Name of the sheet
+   */
+  readonly name: string;
+
+  /**
+   * Whether the header row is frozen
+   */
+  readonly freezeHeader: boolean;
+
+  /**
+   * Creates a new sheet.
+   *
+   * @param config - Sheet configuration
+   * @param formatter - Formatter producing the row XML
+   */
+  constructor(
+    config: XlsxConfig<T> | undefined,
+    private readonly formatter: XlsxFormatter
+  ) {
+    this.headerManager = new CsvHeaderManager<T>(config);
+    this.name = config?.sheetName ?? 'Sheet1';
+    this.freezeHeader = config?.freezeHeader ?? true;
+  }
+
+  /**
+   * Gets the column headers, or undefined before the first row is formatted
+   */
+  getColumns(): string[] | undefined {
+    return this.headerManager.isInitialized() ? this.headerManager.getHeaders() : undefined;
+  }
+
+  /**
+   * Restarts the sheet at the first row, so the next batch starts with the header
+   */
+  restart(): void {
+    this.nextRow = 1;
+  }
+
+  /**
+   * Formats data as worksheet rows, preceded by the header row at the top of the sheet
+   *
+   * @param data - Data objects to format
+   * @returns Result with the row XML
+   */
+  formatRows(data: T[]): Result<string[]> {
+    if (!this.headerManager.isInitialized()) {
+      const initResult = this.headerManager.initialize(data[0]!);
+      if (!initResult.success) {
+        return initResult;
+      }
+    }
+
+    const rowCount = data.length + (this.nextRow === 1 ? 1 : 0);
+    if (this.nextRow - 1 + rowCount > MAX_ROWS) {
+      return {
+        success: false,
+        error: new XlsxFormattingError(
+          `Sheet "${this.name}" cannot hold more than Excel's limit of 1,048,576 rows`
+        ),
+      };
+    }
+
+    try {
+      const rows: string[] = [];
+      if (this.nextRow === 1) {
+        rows.push(this.formatter.formatHeaderRow(this.headerManager.getHeaders(), this.nextRow++));
+      }
+      for (const obj of data) {
+        rows.push(this.formatter.formatRow(this.headerManager.objectToValues(obj), this.nextRow++));
+      }
+      return { success: true, value: rows };
+    } catch (error) {
+      return {
+        success: false,
+        error: new XlsxFormattingError(error instanceof Error ? error.message : String(error)),
+      };
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { ValidationError } from '../../errors.js';
+import { XlsxFormatter } from './XlsxFormatter.js';
+import { ZipArchive } from './ZipArchive.js';
+
+const MAX_SHEET_NAME_LENGTH = 31;
+const INVALID_SHEET_NAME_CHARS = /[\\/?*[\]:]/;
+
+/**
+ * Assembles an XLSX package as a sequence of byte chunks.
+ *
+ * The workbook parts are emitted by start(), then each sheet is streamed in
+ * order with startSheet(), writeRows() and endSheet(), and finish() writes
+ * the ZIP central directory. Every call returns the bytes to write next, so a
+ * workbook can be written to a file handle as rows arrive or concatenated in
+ * memory.
+ *
+ * @example
+ * ```typescript
+ * const workbook = new XlsxWorkbook(['Users']);
+ * const chunks = [
+ *   workbook.start(),
+ *   workbook.startSheet(true),
+ *   workbook.writeRows(rowsXml),
+ *   workbook.endSheet(),
+ *   workbook.finish(),
+ * ];
+ * ```
+ */
+export class XlsxWorkbook {
+  private readonly zip = new ZipArchive();
+  private sheetsStarted: number = 0;
+
+  /**
+   * Creates a new workbook.
+   *
+   * @param sheetNames - Names of the sheets, in the order they will be written
+   * @param formatter - Formatter producing the XML parts
+   *
+   * @throws {ValidationError} If a sheet name is invalid or repeated
+   */
+  constructor(
+    private readonly sheetNames: string[],
+    private readonly formatter: XlsxFormatter = new XlsxFormatter()
+  ) {
+    XlsxWorkbook.validateSheetNames(sheetNames);
+  }
+
+  /**
+   * Validates sheet names against Excel's rules.
+   *
+   * @param sheetNames - Sheet names to check
+   * @throws {ValidationError} If a name is empty, too long, has invalid characters or is repeated
+   */
+  static validateSheetNames(sheetNames: string[]): void {
+    if (sheetNames.length === 0) {
+      throw new ValidationError('A workbook must contain at least one sheet');
+    }
+
+    const seen = new Set<string>();
+    for (const name of sheetNames) {
+      if (name.length === 0 || name.length > MAX_SHEET_NAME_LENGTH) {
+        throw new ValidationError(
+          `Sheet name must be between 1 and ${MAX_SHEET_NAME_LENGTH} characters: "${name}"`
+        );
+      }
+      if (INVALID_SHEET_NAME_CHARS.test(name)) {
+        throw new ValidationError(
+          `Sheet name cannot contain \\ / ? * [ ] or : characters: "${name}"`
+        );
+      }
+      // Excel compares sheet names case-insensitively
+      const key = name.toLowerCase();
+      if (seen.has(key)) {
+        throw new ValidationError(`Duplicate sheet name: "${name}"`);
+      }
+      seen.add(key);
+    }
+  }
+
+  /**
+   * Emits the package parts that precede the sheets
+   */
+  start(): Buffer {
+    return Buffer.concat([
+      this.zip.addEntry('[Content_Types].xml', this.formatter.contentTypes(this.sheetNames.length)),
+      this.zip.addEntry('_rels/.rels', this.formatter.packageRelationships()),
+      this.zip.addEntry('xl/workbook.xml', this.formatter.workbook(this.sheetNames)),
+      this.zip.addEntry(
+        'xl/_rels/workbook.xml.rels',
+        this.formatter.workbookRelationships(this.sheetNames.length)
+      ),
+      this.zip.addEntry('xl/styles.xml', this.formatter.styles()),
+    ]);
+  }
+
+  /**
+   * Starts the next sheet
+   *
+   * @param freezeHeader - Whether to freeze the first row
+   */
+  startSheet(freezeHeader: boolean): Buffer {
+    if (this.sheetsStarted >= this.sheetNames.length) {
+      throw new Error('All sheets of the workbook have already been written');
+    }
+    this.sheetsStarted++;
+    return Buffer.concat([
+      this.zip.startEntry(`xl/worksheets/sheet${this.sheetsStarted}.xml`),
+      this.zip.writeEntry(this.formatter.sheetOpen(freezeHeader)),
+    ]);
+  }
+
+  /**
+   * Adds formatted rows to the current sheet
+   */
+  writeRows(rows: string[]): Buffer {
+    return this.zip.writeEntry(rows.join(''));
+  }
+
+  /**
+   * Ends the current sheet
+   */
+  endSheet(): Buffer {
+    return Buffer.concat([this.zip.writeEntry(this.formatter.sheetClose()), this.zip.endEntry()]);
+  }
+
+  /**
+   * Completes the workbook. Sheets that were never started are written empty.
+   */
+  finish(): Buffer {
+    const emptySheets: Buffer[] = [];
+    while (this.sheetsStarted < this.sheetNames.length) {
+      emptySheets.push(this.startSheet(false), this.endSheet());
+    }
+    return Buffer.concat([...emptySheets, this.zip.finish()]);
+  }
+}
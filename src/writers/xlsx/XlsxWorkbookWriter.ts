@@ -0,0 +1,252 @@
+import type { Result, FileWriter, FileSink, XlsxSheetDefinition } from '../../types.js';
+import type { ProgressHook } from '../../builder/hooks.js';
+import { ValidationError, AbortedError } from '../../errors.js';
+import { NodeFileWriter, openFile } from '../../io/FileWriter.js';
+import { BatchProcessor } from '../../streaming/BatchProcessor.js';
+import { XlsxFormatter } from './XlsxFormatter.js';
+import { XlsxSheet } from './XlsxSheet.js';
+import { XlsxWorkbook } from './XlsxWorkbook.js';
+
+/**
+ * Options for writing a multi-sheet workbook.
+ */
+export interface XlsxWorkbookOptions {
+  /** Destination file path, ending in .xlsx */
+  file: string;
+
+  /** Sheets in the order they appear in the workbook */
+  sheets: Array<XlsxSheetDefinition<Record<string, unknown>>>;
+
+  /**
+   * Number of rows formatted and written at a time
+   * @default 100
+   */
+  batchSize?: number;
+
+  /** Called with the total number of rows written so far, after each batch */
+  onProgress?: ProgressHook;
+
+  /** Stops the export between batches; the workbook is left incomplete */
+  signal?: AbortSignal;
+}
+
+/**
+ * Writes several datasets into named sheets of one XLSX workbook.
+ *
+ * Every sheet has its own row type and column configuration, and is formatted
+ * exactly like the single sheet of XlsxWriter. write() streams the sheets one
+ * after another, so sheet data may be an async iterable and is never held in
+ * memory as a whole. writeSync() builds the workbook in memory and only
+ * accepts arrays.
+ *
+ * @example
+ * ```typescript
+ * const writer = new XlsxWorkbookWriter({
+ *   file: './report.xlsx',
+ *   sheets: [
+ *     { name: 'Users', data: users },
+ *     { name: 'Orders', data: fetchOrders(), config: { includeKeys: ['id', 'total'] } },
+ *   ],
+ * });
+ *
+ * const result = await writer.write();
+ * if (result.success) {
+ *   console.log(`Wrote ${result.value} rows`);
+ * }
+ * ```
+ */
+export class XlsxWorkbookWriter {
+  private readonly formatter: XlsxFormatter = new XlsxFormatter();
+  private readonly batchSize: number;
+
+  /**
+   * Creates a new workbook writer instance.
+   *
+   * @param options - Destination file, sheets and streaming options
+   * @param fileWriter - Optional custom file writer for dependency injection (useful for testing)
+   *
+   * @throws {ValidationError} If the file is not .xlsx or a sheet name is invalid or repeated
+   */
+  constructor(
+    private readonly options: XlsxWorkbookOptions,
+    private readonly fileWriter: FileWriter = new NodeFileWriter()
+  ) {
+    this.validate(options);
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  /**
+   * Validates writer options
+   */
+  private validate(options: XlsxWorkbookOptions): void {
+    if (options.file == null || options.file.length === 0) {
+      throw new ValidationError('File path must be provided for XlsxWorkbookWriter');
+    }
+
+    if (!options.file.endsWith('.xlsx')) {
+      throw new ValidationError('File extension must be .xlsx for XlsxWorkbookWriter');
+    }
+
+    if (options.batchSize !== undefined && options.batchSize < 1) {
+      throw new ValidationError('Batch size must be at least 1');
+    }
+
+    XlsxWorkbook.validateSheetNames(options.sheets.map((sheet) => sheet.name));
+  }
+
+  /**
+   * Creates the row formatter for a sheet definition
+   */
+  private createSheet(
+    definition: XlsxSheetDefinition<Record<string, unknown>>
+  ): XlsxSheet<Record<string, unknown>> {
+    return new XlsxSheet({ ...definition.config, sheetName: definition.name }, this.formatter);
+  }
+
+  /**
+   * Formats a batch of rows and writes it to the open sheet
+   */
+  private async writeBatch(
+    sink: FileSink,
+    workbook: XlsxWorkbook,
+    sheet: XlsxSheet<Record<string, unknown>>,
+    batch: Array<Record<string, unknown>>
+  ): Promise<void> {
+    const rows = sheet.formatRows(batch);
+    if (!rows.success) {
+      throw rows.error;
+    }
+    const result = await sink.write(workbook.writeRows(rows.value));
+    if (!result.success) {
+      throw result.error;
+    }
+  }
+
+  /**
+   * Streams every sheet into the open file
+   */
+  private async writeSheets(sink: FileSink): Promise<number> {
+    const workbook = new XlsxWorkbook(
+      this.options.sheets.map((sheet) => sheet.name),
+      this.formatter
+    );
+    let totalWritten = 0;
+
+    const write = async (chunk: Buffer): Promise<void> => {
+      const result = await sink.write(chunk);
+      if (!result.success) {
+        throw result.error;
+      }
+    };
+
+    const onBatch = async (
+      sheet: XlsxSheet<Record<string, unknown>>,
+      batch: Array<Record<string, unknown>>
+    ): Promise<void> => {
+      await this.writeBatch(sink, workbook, sheet, batch);
+      totalWritten += batch.length;
+      if (this.options.onProgress) {
+        await this.options.onProgress(totalWritten);
+      }
+    };
+
+    const signal = this.options.signal;
+    await write(workbook.start());
+    for (const definition of this.options.sheets) {
+      const sheet = this.createSheet(definition);
+      await write(workbook.startSheet(sheet.freezeHeader));
+
+      if (Array.isArray(definition.data)) {
+        for (let start = 0; start < definition.data.length; start += this.batchSize) {
+          if (signal?.aborted) {
+            throw new AbortedError(undefined, signal.reason);
+          }
+          await onBatch(sheet, definition.data.slice(start, start + this.batchSize));
+        }
+      } else {
+        await new BatchProcessor<Record<string, unknown>>(this.batchSize).process(
+          definition.data,
+          (batch) => onBatch(sheet, batch),
+          signal
+        );
+      }
+
+      await write(workbook.endSheet());
+    }
+    await write(workbook.finish());
+
+    return totalWritten;
+  }
+
+  // ==================== PUBLIC API ====================
+
+  /**
+   * Synchronously writes the workbook, building it in memory.
+   *
+   * Every sheet's data must be an array.
+   *
+   * @returns Result with the total number of rows written across all sheets
+   */
+  writeSync(): Result<number> {
+    const chunks: Buffer[] = [];
+    const workbook = new XlsxWorkbook(
+      this.options.sheets.map((sheet) => sheet.name),
+      this.formatter
+    );
+    let totalWritten = 0;
+
+    chunks.push(workbook.start());
+    for (const definition of this.options.sheets) {
+      if (!Array.isArray(definition.data)) {
+        return {
+          success: false,
+          error: new ValidationError(
+            `Sheet "${definition.name}" has async data; use write() to stream it`
+          ),
+        };
+      }
+
+      const sheet = this.createSheet(definition);
+      chunks.push(workbook.startSheet(sheet.freezeHeader));
+      if (definition.data.length > 0) {
+        const rows = sheet.formatRows(definition.data);
+        if (!rows.success) {
+          return rows;
+        }
+        chunks.push(workbook.writeRows(rows.value));
+        totalWritten += definition.data.length;
+      }
+      chunks.push(workbook.endSheet());
+    }
+    chunks.push(workbook.finish());
+
+    const result = this.fileWriter.writeSync(this.options.file, Buffer.concat(chunks));
+    return result.success ? { success: true, value: totalWritten } : result;
+  }
+
+  /**
+   * Asynchronously writes the workbook, streaming each sheet in batches.
+   *
+   * @returns Promise of Result with the total number of rows written across all sheets
+   */
+  async write(): Promise<Result<number>> {
+    const opened = await openFile(this.fileWriter, this.options.file, 'write');
+    if (!opened.success) {
+      return opened;
+    }
+
+    let result: Result<number>;
+    try {
+      result = { success: true, value: await this.writeSheets(opened.value) };
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    // Always close to release the handle, but report the first failure
+    const closeResult = await opened.value.close();
+    return result.success && !closeResult.success ? closeResult : result;
+  }
+}
@@ -0,0 +1,339 @@
+import type { OutportWriter, WriterOptions, Result, FileWriter, FileSink } from '../../types.js';
+import { ValidationError, XlsxFormattingError } from '../../errors.js';
+import { NodeFileWriter, openFile } from '../../io/FileWriter.js';
+import { XlsxFormatter } from './XlsxFormatter.js';
+import { XlsxSheet } from './XlsxSheet.js';
+import { XlsxWorkbook } from './XlsxWorkbook.js';
+
+/**
+ * XLSX Writer for exporting data to Excel workbooks.
+ *
+ * Produces a real Office Open XML workbook without any native dependency.
+ * Numbers, booleans and dates are written as typed cells, strings are kept as
+ * text (so leading zeros survive), the header row is bold and, by default,
+ * frozen. Columns are selected and named as for CSV, so
+ * `includeKeys`, `columnMapping` and `headers` behave exactly as for CSV.
+ *
+ * A workbook is a ZIP package that cannot be appended to once written, so
+ * writeSync() and write() produce a complete workbook per call. To add rows
+ * over several calls, open() the writer first: rows are then streamed into the
+ * sheet and the package is completed by close().
+ *
+ * @template T - The type of data objects being written. Must extend Record<string, unknown>
+ *
+ * @example
+ * ```typescript
+ * const writer = new XlsxWriter<User>({
+ *   type: 'xlsx',
+ *   mode: 'write',
+ *   file: './users.xlsx',
+ *   config: { sheetName: 'Users' }
+ * });
+ *
+ * // One complete workbook
+ * await writer.write(users);
+ *
+ * // Streamed rows
+ * await writer.open();
+ * for await (const batch of batches) {
+ *   await writer.append(batch);
+ * }
+ * await writer.close();
+ * ```
+ */
+export class XlsxWriter<T extends Record<string, unknown>> implements OutportWriter<T> {
+  private readonly formatter: XlsxFormatter = new XlsxFormatter();
+  private readonly sheet: XlsxSheet<T>;
+  private readonly fileWriter: FileWriter;
+  private sink: FileSink | null = null;
+  private workbook: XlsxWorkbook | null = null;
+
+  /**
+   * Creates a new XLSX writer instance.
+   *
+   * @param options - Configuration options for the XLSX writer
+   * @param fileWriter - Optional custom file writer for dependency injection (useful for testing)
+   *
+   * @throws {ValidationError} If configuration is invalid (e.g., non-xlsx type, append mode, invalid sheet name)
+   */
+  constructor(
+    private readonly options: WriterOptions<T> & { type: 'xlsx' },
+    fileWriter: FileWriter = new NodeFileWriter()
+  ) {
+    this.validate(options);
+    this.fileWriter = fileWriter;
+    this.sheet = new XlsxSheet<T>(options.config, this.formatter);
+  }
+
+  /**
+   * Validates writer options
+   */
+  private validate(options: WriterOptions<T>): void {
+    if (options.type !== 'xlsx') {
+      throw new ValidationError('Invalid writer type for XlsxWriter');
+    }
+
+    if (options.file == null || options.file.length === 0) {
+      throw new ValidationError('File path must be provided for XlsxWriter');
+    }
+
+    if (!options.file.endsWith('.xlsx')) {
+      throw new ValidationError('File extension must be .xlsx for XlsxWriter');
+    }
+
+    if (options.mode === 'append') {
+      throw new ValidationError('Append mode is not supported for XlsxWriter');
+    }
+
+    if (options.compression) {
+      throw new ValidationError('Compression is not supported for XlsxWriter');
+    }
+
+    XlsxWorkbook.validateSheetNames([options.config?.sheetName ?? 'Sheet1']);
+  }
+
+  /**
+   * Builds a complete single-sheet workbook in memory
+   */
+  private buildWorkbook(data: T[]): Result<Buffer> {
+    this.sheet.restart();
+    const rows = this.sheet.formatRows(data);
+    if (!rows.success) {
+      return rows;
+    }
+
+    const workbook = new XlsxWorkbook([this.sheet.name], this.formatter);
+    return packageBytes(() =>
+      Buffer.concat([
+        workbook.start(),
+        workbook.startSheet(this.sheet.freezeHeader),
+        workbook.writeRows(rows.value),
+        workbook.endSheet(),
+        workbook.finish(),
+      ])
+    );
+  }
+
+  /**
+   * Streams rows into the sheet of the open workbook
+   */
+  private async writeRowsToSink(sink: FileSink, data: T[]): Promise<Result<void>> {
+    const rows = this.sheet.formatRows(data);
+    if (!rows.success) {
+      return rows;
+    }
+    const workbook = this.workbook!;
+    const bytes = packageBytes(() => workbook.writeRows(rows.value));
+    return bytes.success ? await sink.write(bytes.value) : bytes;
+  }
+
+  /**
+   * Returns an error if the writer is open, since the open handle is async-only
+   */
+  private checkNotOpen(): Result<void> {
+    if (this.sink) {
+      return {
+        success: false,
+        error: new ValidationError('Synchronous methods cannot be used while the writer is open'),
+      };
+    }
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Returns the error for appending without an open workbook
+   */
+  private appendRequiresOpen(): Result<void> {
+    return {
+      success: false,
+      error: new ValidationError(
+        'XlsxWriter can only append rows while open; call open() before append() and close() after'
+      ),
+    };
+  }
+
+  // ==================== PUBLIC API ====================
+
+  /**
+   * Synchronously writes a complete workbook containing the given rows.
+   *
+   * @param data - Array of data objects to write
+   * @returns Result indicating success or failure
+   */
+  writeSync(data: T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+
+    if (data.length === 0) {
+      return {
+        success: false,
+        error: new ValidationError('Cannot write empty data array'),
+      };
+    }
+
+    const workbook = this.buildWorkbook(data);
+    if (!workbook.success) {
+      return workbook;
+    }
+
+    return this.fileWriter.writeSync(this.options.file, workbook.value);
+  }
+
+  /**
+   * Asynchronously writes a complete workbook containing the given rows.
+   *
+   * While the writer is open, the rows are added to the open sheet instead.
+   *
+   * @param data - Array of data objects to write
+   * @returns Promise of Result indicating success or failure
+   */
+  async write(data: T[]): Promise<Result<void>> {
+    if (data.length === 0) {
+      return {
+        success: false,
+        error: new ValidationError('Cannot write empty data array'),
+      };
+    }
+
+    if (this.sink) {
+      return await this.writeRowsToSink(this.sink, data);
+    }
+
+    const workbook = this.buildWorkbook(data);
+    if (!workbook.success) {
+      return workbook;
+    }
+
+    return await this.fileWriter.write(this.options.file, workbook.value);
+  }
+
+  /**
+   * Synchronous appends are not supported, since a workbook can only be
+   * extended through an open writer.
+   *
+   * @param _data - Ignored
+   * @returns Result with a ValidationError
+   */
+  appendSync(_data: T | T[]): Result<void> {
+    const openCheck = this.checkNotOpen();
+    if (!openCheck.success) {
+      return openCheck;
+    }
+    return this.appendRequiresOpen();
+  }
+
+  /**
+   * Asynchronously appends one or more rows to the open sheet.
+   *
+   * The writer must be opened with open() first.
+   *
+   * @param data - Single data object or array of objects to append
+   * @returns Promise of Result indicating success or failure
+   */
+  async append(data: T | T[]): Promise<Result<void>> {
+    if (!this.sink) {
+      return this.appendRequiresOpen();
+    }
+
+    const dataArray = Array.isArray(data) ? data : [data];
+    if (dataArray.length === 0) {
+      return { success: true, value: undefined };
+    }
+
+    return await this.writeRowsToSink(this.sink, dataArray);
+  }
+
+  /**
+   * Gets the columns of the rows written so far.
+   *
+   * @returns The column headers, or undefined if no rows have been written yet
+   */
+  getColumns(): string[] | undefined {
+    return this.sheet.getColumns();
+  }
+
+  /**
+   * Opens the file and starts a workbook whose rows are streamed by write()
+   * and append() calls.
+   *
+   * The header row is written with the first rows. Call close() to complete
+   * the workbook.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  async open(): Promise<Result<void>> {
+    if (this.sink) {
+      return { success: true, value: undefined };
+    }
+
+    const result = await openFile(this.fileWriter, this.options.file, 'write');
+    if (!result.success) {
+      return result;
+    }
+
+    const workbook = new XlsxWorkbook([this.sheet.name], this.formatter);
+    const startResult = await result.value.write(
+      Buffer.concat([workbook.start(), workbook.startSheet(this.sheet.freezeHeader)])
+    );
+    if (!startResult.success) {
+      await result.value.close();
+      return startResult;
+    }
+
+    this.sink = result.value;
+    this.workbook = workbook;
+    this.sheet.restart();
+    return { success: true, value: undefined };
+  }
+
+  /**
+   * Completes the workbook and releases the handle opened by open().
+   *
+   * Does nothing if the writer is not open.
+   *
+   * @returns Promise of Result indicating success or failure
+   */
+  async close(): Promise<Result<void>> {
+    if (!this.sink || !this.workbook) {
+      return { success: true, value: undefined };
+    }
+
+    const sink = this.sink;
+    const workbook = this.workbook;
+    this.sink = null;
+    this.workbook = null;
+
+    const footer = packageBytes(() => Buffer.concat([workbook.endSheet(), workbook.finish()]));
+    const footerResult = footer.success ? await sink.write(footer.value) : footer;
+    const closeResult = await sink.close();
+    return footerResult.success ? closeResult : footerResult;
+  }
+
+  /**
+   * Closes the writer when used with `await using`.
+   *
+   * @throws {Error} If closing the file fails
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    const result = await this.close();
+    if (!result.success) {
+      throw result.error;
+    }
+  }
+}
+
+/**
+ * Produces the next bytes of the package, failing when the workbook outgrows the ZIP format
+ */
+function packageBytes(build: () => Buffer): Result<Buffer> {
+  try {
+    return { success: true, value: build() };
+  } catch (error) {
+    return {
+      success: false,
+      error: new XlsxFormattingError(error instanceof Error ? error.message : String(error)),
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import * as zlib from 'node:zlib';
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const VERSION = 20;
+const METHOD_DEFLATE = 8;
+// Bit 3: sizes and CRC follow the data in a data descriptor. Bit 11: names are UTF-8.
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+// Without ZIP64, counts are 16-bit and sizes and offsets 32-bit
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+const CRC_TABLE = buildCrcTable();
+
+/**
+ * Central directory record for an entry that has been fully written
+ */
+interface ZipEntry {
+  name: Buffer;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Entry whose content is still being written
+ */
+interface OpenEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * Builds a ZIP archive as a sequence of byte chunks, deflating every entry.
+ *
+ * Entries can be added in one step with addEntry(), or streamed with
+ * startEntry(), writeEntry() and endEntry(). Streamed content is deflated in
+ * independent sync-flushed segments, so each chunk can be written out as soon
+ * as it is produced and the entry is never held in memory as a whole.
+ * Concatenating every returned chunk, ending with finish(), gives the archive.
+ *
+ * ZIP64 is not supported, so archives are limited to 4 GB and 65,535 entries;
+ * going past either limit throws before the offending bytes are returned.
+ */
+export class ZipArchive {
+  private readonly entries: ZipEntry[] = [];
+  private readonly dosTime: number;
+  private readonly dosDate: number;
+  private current: OpenEntry | null = null;
+  private offset: number = 0;
+
+  constructor(modified: Date = new Date()) {
+    this.dosTime =
+      (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+    this.dosDate =
+      ((Math.max(modified.getFullYear(), 1980) - 1980) << 9) |
+      ((modified.getMonth() + 1) << 5) |
+      modified.getDate();
+  }
+
+  /**
+   * Adds a complete entry whose content is known up front
+   */
+  addEntry(name: string, content: string): Buffer {
+    this.checkEntryCount();
+    const data = Buffer.from(content, 'utf-8');
+    const compressed = zlib.deflateRawSync(data);
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf-8'),
+      flags: FLAG_UTF8,
+      crc: crc32(data),
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+    };
+    this.entries.push(entry);
+    return this.emit(Buffer.concat([this.localHeader(entry), compressed]));
+  }
+
+  /**
+   * Starts a streamed entry, returning its local file header
+   */
+  startEntry(name: string): Buffer {
+    if (this.current) {
+      throw new Error('Cannot start a ZIP entry while another entry is open');
+    }
+    this.checkEntryCount();
+    this.current = {
+      name: Buffer.from(name, 'utf-8'),
+      offset: this.offset,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+    };
+    return this.emit(
+      this.localHeader({
+        ...this.current,
+        flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR,
+      })
+    );
+  }
+
+  /**
+   * Deflates more content for the open entry
+   */
+  writeEntry(content: string): Buffer {
+    const entry = this.requireCurrent();
+    const data = Buffer.from(content, 'utf-8');
+    const compressed = zlib.deflateRawSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    if (entry.size + data.length > MAX_SIZE) {
+      throw new Error('ZIP entry exceeds the 4 GB limit; ZIP64 is not supported');
+    }
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    entry.compressedSize += compressed.length;
+    return this.emit(compressed);
+  }
+
+  /**
+   * Ends the open entry with a final deflate block and its data descriptor
+   */
+  endEntry(): Buffer {
+    const entry = this.requireCurrent();
+    const finalBlock = zlib.deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += finalBlock.length;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+
+    this.entries.push({ ...entry, flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR });
+    this.current = null;
+    return this.emit(Buffer.concat([finalBlock, descriptor]));
+  }
+
+  /**
+   * Writes the central directory, completing the archive
+   */
+  finish(): Buffer {
+    if (this.current) {
+      throw new Error('Cannot finish a ZIP archive while an entry is open');
+    }
+
+    const directoryOffset = this.offset;
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+      record.writeUInt16LE(VERSION, 4);
+      record.writeUInt16LE(VERSION, 6);
+      record.writeUInt16LE(entry.flags, 8);
+      record.writeUInt16LE(METHOD_DEFLATE, 10);
+      record.writeUInt16LE(this.dosTime, 12);
+      record.writeUInt16LE(this.dosDate, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+
+    return this.emit(Buffer.concat([directory, end]));
+  }
+
+  /**
+   * Builds the local file header for an entry
+   */
+  private localHeader(entry: ZipEntry): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(METHOD_DEFLATE, 8);
+    header.writeUInt16LE(this.dosTime, 10);
+    header.writeUInt16LE(this.dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  private checkEntryCount(): void {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error('ZIP archive cannot hold more than 65,535 entries; ZIP64 is not supported');
+    }
+  }
+
+  private requireCurrent(): OpenEntry {
+    if (!this.current) {
+      throw new Error('No ZIP entry is open');
+    }
+    return this.current;
+  }
+
+  /**
+   * Tracks the archive offset of every chunk handed out
+   */
+  private emit(chunk: Buffer): Buffer {
+    if (this.offset + chunk.length > MAX_SIZE) {
+      throw new Error('ZIP archive exceeds the 4 GB limit; ZIP64 is not supported');
+    }
+    this.offset += chunk.length;
+    return chunk;
+  }
+}
+
+/**
+ * Computes the CRC-32 checksum used by ZIP, continuing from a previous value
+ */
+function crc32(data: Buffer, previous: number = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}